@@ -0,0 +1,25 @@
+import { parseBatchRequest, screenDeal } from '@/lib/screen';
+
+// POST /api/screen/batch — { deals: [...], ruleSet? } → one result per deal, in order.
+// A bad deal does not fail the batch; its entry carries the validation issues instead.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  const parsed = parseBatchRequest(body);
+  if (!parsed.ok) return Response.json({ error: 'Invalid batch.', issues: parsed.issues }, { status: 400 });
+
+  const results = parsed.deals.map((d, index) =>
+    d.form ? { index, ok: true, result: screenDeal(d.form, parsed.ruleSet) } : { index, ok: false, issues: d.issues },
+  );
+  return Response.json({
+    ruleSet: parsed.ruleSet.name,
+    screened: results.filter((r) => r.ok).length,
+    failed: results.filter((r) => !r.ok).length,
+    results,
+  });
+}
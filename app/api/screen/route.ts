@@ -0,0 +1,16 @@
+import { parseScreenRequest, screenDeal } from '@/lib/screen';
+
+// POST /api/screen — { deal, ruleSet? } → verdict, metrics, reasons, warnings and next step.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  const parsed = parseScreenRequest(body);
+  if (!parsed.ok) return Response.json({ error: 'Invalid deal.', issues: parsed.issues }, { status: 400 });
+
+  return Response.json(screenDeal(parsed.form, parsed.ruleSet));
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useState } from 'react';
+
+import { styles } from './ui';
+import { money, money2 } from '@/lib/format';
+import type { AmortizationRow, AmortizationYear } from '@/lib/mortgage';
+
+export default function AmortizationTable({
+  monthly,
+  yearly,
+}: {
+  monthly: AmortizationRow[];
+  yearly: AmortizationYear[];
+}) {
+  const [view, setView] = useState<'year' | 'month'>('year');
+
+  if (monthly.length === 0) {
+    return <div style={styles.note}>No loan — nothing to amortize.</div>;
+  }
+
+  const paidOffMonth = monthly[monthly.length - 1].month;
+  const hasBalloon = monthly.some((m) => m.balloon > 0);
+
+  return (
+    <div style={styles.breakdown}>
+      <div style={{ ...styles.rowBetween, marginTop: 0, alignItems: 'center' }}>
+        <div style={styles.breakdownTitle}>
+          Amortization — paid off in {Math.floor(paidOffMonth / 12)} yrs {paidOffMonth % 12} mo
+        </div>
+        <div style={styles.segmented}>
+          <button
+            type="button"
+            onClick={() => setView('year')}
+            style={{ ...styles.segBtn, ...(view === 'year' ? styles.segBtnOn : null) }}
+          >
+            Yearly
+          </button>
+          <button
+            type="button"
+            onClick={() => setView('month')}
+            style={{ ...styles.segBtn, ...(view === 'month' ? styles.segBtnOn : null) }}
+          >
+            Monthly
+          </button>
+        </div>
+      </div>
+
+      <div style={{ ...styles.tableWrap, maxHeight: 320, overflowY: 'auto' }}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>{view === 'year' ? 'Year' : 'Month'}</th>
+              <th style={styles.th}>Payment</th>
+              <th style={styles.th}>Interest</th>
+              <th style={styles.th}>Principal</th>
+              <th style={styles.th}>Extra</th>
+              {hasBalloon && <th style={styles.th}>Balloon</th>}
+              <th style={styles.th}>Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {view === 'year'
+              ? yearly.map((y) => (
+                  <tr key={y.year}>
+                    <td style={styles.td}>{y.year}</td>
+                    <td style={styles.td}>{money(y.payment)}</td>
+                    <td style={styles.td}>{money(y.interest)}</td>
+                    <td style={styles.td}>{money(y.principal)}</td>
+                    <td style={styles.td}>{money(y.extraPrincipal)}</td>
+                    {hasBalloon && <td style={styles.td}>{money(y.balloon)}</td>}
+                    <td style={styles.td}>{money(y.endingBalance)}</td>
+                  </tr>
+                ))
+              : monthly.map((m) => (
+                  <tr key={m.month}>
+                    <td style={styles.td}>{m.month}</td>
+                    <td style={styles.td}>{money2(m.payment)}</td>
+                    <td style={styles.td}>{money2(m.interest)}</td>
+                    <td style={styles.td}>{money2(m.principal)}</td>
+                    <td style={styles.td}>{money2(m.extraPrincipal)}</td>
+                    {hasBalloon && <td style={styles.td}>{money2(m.balloon)}</td>}
+                    <td style={styles.td}>{money2(m.balance)}</td>
+                  </tr>
+                ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
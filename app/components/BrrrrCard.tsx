@@ -0,0 +1,135 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, KPI, Line, styles, type Field } from './ui';
+import { money, money2 } from '@/lib/format';
+import { newRehabItem, type BrrrrForm, type RefiResult } from '@/lib/brrrr';
+
+const REHAB_PRESETS = ['Roof', 'Kitchen', 'Bathrooms', 'Flooring', 'Paint', 'HVAC', 'Electrical', 'Plumbing', 'Contingency'];
+
+export default function BrrrrCard({
+  brrrr,
+  setBrrrr,
+  refi,
+  infiniteReturn,
+  netCashFlow,
+  dscr,
+}: {
+  brrrr: BrrrrForm;
+  setBrrrr: (next: BrrrrForm) => void;
+  refi: RefiResult;
+  infiniteReturn: boolean;
+  netCashFlow: number;
+  dscr: number;
+}) {
+  const set = (k: Exclude<keyof BrrrrForm, 'rehabItems'>) => (v: string) => setBrrrr({ ...brrrr, [k]: v });
+  const items = brrrr.rehabItems;
+  const setItems = (rehabItems: BrrrrForm['rehabItems']) => setBrrrr({ ...brrrr, rehabItems });
+  const unused = REHAB_PRESETS.filter((p) => !items.some((i) => i.label === p));
+
+  const fieldsRehab: Field[] = [
+    { label: 'Rehab period', hint: 'Months from purchase to refinance.', value: brrrr.rehabMonths, setValue: set('rehabMonths'), right: 'mo', inputMode: 'numeric' },
+    { label: 'Holding costs', hint: 'Taxes, insurance, utilities while vacant (loan payments are added automatically).', value: brrrr.holdingCostsMonthly, setValue: set('holdingCostsMonthly'), right: '$/mo', inputMode: 'numeric' },
+  ];
+  const fieldsRefi: Field[] = [
+    { label: 'After-repair value (ARV)', hint: 'Blank uses the purchase price.', value: brrrr.arv, setValue: set('arv'), right: '$', inputMode: 'numeric' },
+    { label: 'Refinance LTV', hint: 'Loan as a percent of ARV.', value: brrrr.refiLtvPct, setValue: set('refiLtvPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Refinance rate', value: brrrr.refiRatePct, setValue: set('refiRatePct'), right: '%', inputMode: 'decimal' },
+    { label: 'Refinance term', value: brrrr.refiTermYears, setValue: set('refiTermYears'), right: 'yrs', inputMode: 'numeric' },
+    { label: 'Refinance costs', hint: 'Lender fees, title, appraisal.', value: brrrr.refiCosts, setValue: set('refiCosts'), right: '$', inputMode: 'numeric' },
+  ];
+
+  return (
+    <Card title="BRRRR — Rehab & Cash-Out Refinance" style={{ marginTop: 16 }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          <div style={styles.breakdownTitle}>Rehab budget</div>
+          {items.map((item) => (
+            <div key={item.id} style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 8 }}>
+              <input
+                value={item.label}
+                onChange={(e) => setItems(items.map((i) => (i.id === item.id ? { ...i, label: e.target.value } : i)))}
+                placeholder="Line item"
+                style={{ ...styles.input, flex: 1 }}
+                aria-label="Rehab line item"
+              />
+              <input
+                value={item.cost}
+                onChange={(e) => setItems(items.map((i) => (i.id === item.id ? { ...i, cost: e.target.value } : i)))}
+                inputMode="numeric"
+                style={{ ...styles.input, width: 110 }}
+                aria-label="Cost"
+              />
+              <button type="button" style={styles.ghostBtn} onClick={() => setItems(items.filter((i) => i.id !== item.id))}>
+                Remove
+              </button>
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 10 }}>
+            <button type="button" style={styles.secondaryBtn} onClick={() => setItems([...items, newRehabItem()])}>
+              + Line item
+            </button>
+            <select
+              value=""
+              onChange={(e) => e.target.value && setItems([...items, newRehabItem(e.target.value)])}
+              style={{ ...styles.input, width: 160 }}
+              aria-label="Add a common rehab item"
+            >
+              <option value="">+ Common item…</option>
+              {unused.map((p) => (
+                <option key={p} value={p}>{p}</option>
+              ))}
+            </select>
+          </div>
+          <Line label="Rehab total" value={money(refi.rehabTotal)} />
+
+          <div style={styles.divider} />
+          {fieldsRehab.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+
+          <div style={styles.divider} />
+          {fieldsRefi.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+        </div>
+
+        <div>
+          <div style={styles.kpiGrid}>
+            <KPI label="Cash left in deal" value={money(refi.cashLeft)} emphasis />
+            <KPI label="Cash recovered" value={money(refi.cashRecovered)} emphasis />
+            <KPI label="Post-refi cash flow" value={money2(netCashFlow)} />
+            <KPI label="Post-refi DSCR" value={Number.isFinite(dscr) ? dscr.toFixed(2) : '—'} />
+          </div>
+
+          {infiniteReturn && (
+            <div style={{ ...styles.breakdown, borderColor: 'rgba(34,197,94,0.45)', color: 'rgba(187,247,208,0.98)', fontWeight: 750 }}>
+              Infinite return: the refinance recovers all cash invested and the property still cash flows.
+            </div>
+          )}
+
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>All-in cash</div>
+            <Line label="Purchase cash (down payment + closing)" value={money2(refi.purchaseCash)} />
+            <Line label="Rehab" value={money2(refi.rehabTotal)} />
+            <Line label={`Holding costs (${refi.rehabMonths} mo)`} value={money2(refi.holdingCosts)} />
+            <Line label="Loan payments during rehab" value={money2(refi.holdingDebtService)} />
+            <Line label="All-in cash" value={money2(refi.allInCash)} />
+
+            <div style={styles.breakdownTitle}>Refinance</div>
+            <Line label="New loan" value={money2(refi.refiLoan)} />
+            <Line label="Acquisition payoff" value={money2(-refi.payoff)} />
+            <Line label="Refinance costs" value={money2(-refi.refiCosts)} />
+            <Line label="Cash out" value={money2(refi.cashOut)} />
+            {refi.excessCashOut > 0 && <Line label="Cash out beyond all-in cash" value={money2(refi.excessCashOut)} />}
+          </div>
+
+          <div style={styles.note}>
+            In BRRRR mode the verdict, Results and pro forma use the post-refinance loan, the ARV as value and the cash left in the deal as cash invested.
+          </div>
+        </div>
+      </section>
+    </Card>
+  );
+}
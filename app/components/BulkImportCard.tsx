@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+
+import { Card, styles } from './ui';
+import { money, pct } from '@/lib/format';
+import { downloadText, parseCsv, toCsv } from '@/lib/csv';
+import type { DealForm } from '@/lib/dealForm';
+import type { RuleSet } from '@/lib/rules';
+import { readXlsx } from '@/lib/xlsx';
+import {
+  BULK_TARGETS,
+  buildBulkRows,
+  bulkCsvRows,
+  guessMapping,
+  screenBulkRows,
+  sortBulkResults,
+  type BulkMapping,
+  type BulkResult,
+  type BulkSortKey,
+} from '@/lib/bulk';
+
+const COLUMNS: { key: BulkSortKey; label: string }[] = [
+  { key: 'row', label: 'Row' },
+  { key: 'label', label: 'Property' },
+  { key: 'isGo', label: 'Verdict' },
+  { key: 'price', label: 'Price' },
+  { key: 'rent', label: 'Rent' },
+  { key: 'netCashFlow', label: 'Cash flow' },
+  { key: 'dscr', label: 'DSCR' },
+  { key: 'capRate', label: 'Cap rate' },
+  { key: 'cashOnCash', label: 'CoC' },
+];
+
+export default function BulkImportCard({
+  form,
+  ruleSet,
+  onOpen,
+  notify,
+}: {
+  form: DealForm; // supplies financing and assumptions for columns the file lacks
+  ruleSet: RuleSet;
+  onOpen: (form: DealForm) => void;
+  notify: (msg: string) => void;
+}) {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<BulkMapping | null>(null);
+  const [results, setResults] = useState<BulkResult[]>([]);
+  const [sortKey, setSortKey] = useState<BulkSortKey>('netCashFlow');
+  const [descending, setDescending] = useState(true);
+
+  const [header, ...data] = table;
+  const sorted = useMemo(() => sortBulkResults(results, sortKey, descending), [results, sortKey, descending]);
+  const goCount = results.filter((r) => r.isGo).length;
+
+  async function load(file: File) {
+    try {
+      const rows = /\.xlsx$/i.test(file.name) ? await readXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+      if (rows.length < 2) {
+        notify('The file needs a header row and at least one property.');
+        return;
+      }
+      setFileName(file.name);
+      setTable(rows);
+      setMapping(guessMapping(rows[0]));
+      setResults([]);
+    } catch (e) {
+      notify(`Could not read ${file.name}: ${e instanceof Error ? e.message : 'unknown error'}`);
+    }
+  }
+
+  function screen() {
+    if (!mapping) return;
+    if (mapping.purchasePrice === null) {
+      notify('Map a purchase price column first.');
+      return;
+    }
+    const { rows, skipped } = buildBulkRows(data, mapping, form);
+    setResults(screenBulkRows(rows, ruleSet));
+    notify(`Screened ${rows.length} properties${skipped ? ` (${skipped} rows without a price skipped)` : ''}.`);
+  }
+
+  function sortBy(key: BulkSortKey) {
+    if (key === sortKey) setDescending(!descending);
+    else {
+      setSortKey(key);
+      setDescending(key !== 'row' && key !== 'label');
+    }
+  }
+
+  function reset() {
+    setFileName('');
+    setTable([]);
+    setMapping(null);
+    setResults([]);
+  }
+
+  return (
+    <Card title="Bulk Screen (CSV / XLSX)" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        <label style={{ ...styles.secondaryBtn, display: 'inline-block' }}>
+          {fileName ? 'Choose another file' : 'Upload property list'}
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void load(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {fileName && (
+          <>
+            <span style={{ fontSize: 12, color: 'rgba(255,255,255,0.72)' }}>
+              {fileName} · {data.length} rows
+            </span>
+            <button type="button" style={styles.ghostBtn} onClick={reset}>
+              Clear
+            </button>
+          </>
+        )}
+      </div>
+
+      {mapping && header && (
+        <>
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>Column mapping</div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(240px, 1fr))', gap: 8 }}>
+              {BULK_TARGETS.map((t) => (
+                <label key={t.target} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, fontSize: 12 }}>
+                  <span style={{ color: 'rgba(255,255,255,0.72)' }}>{t.label}</span>
+                  <select
+                    value={mapping[t.target] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [t.target]: e.target.value === '' ? null : Number(e.target.value) })}
+                    style={{ ...styles.input, width: 140 }}
+                  >
+                    <option value="">— use default —</option>
+                    {header.map((h, i) => (
+                      <option key={i} value={i}>
+                        {h || `Column ${i + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div style={styles.note}>
+            Unmapped fields use the current deal’s inputs (financing, vacancy, repairs, CapEx, management). Every row is screened as a
+            standard rental against “{ruleSet.name}”.
+          </div>
+          <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 12 }}>
+            <button type="button" style={styles.secondaryBtn} onClick={screen}>
+              Screen {data.length} properties
+            </button>
+            {results.length > 0 && (
+              <button
+                type="button"
+                style={styles.secondaryBtn}
+                onClick={() => downloadText(`${fileName.replace(/\.(csv|xlsx)$/i, '')}-screened.csv`, toCsv(bulkCsvRows(sorted)))}
+              >
+                Export scored list (CSV)
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <div style={{ marginTop: 12, fontSize: 12, color: 'rgba(255,255,255,0.72)' }}>
+            <strong>{goCount}</strong> of {results.length} pass as GO. Click a column to sort; open a row to load it into the form.
+          </div>
+          <div style={styles.tableWrap}>
+            <table style={styles.table}>
+              <thead>
+                <tr>
+                  {COLUMNS.map((c) => (
+                    <th
+                      key={c.key}
+                      style={{ ...styles.th, cursor: 'pointer', textAlign: c.key === 'label' ? 'left' : 'right' }}
+                      onClick={() => sortBy(c.key)}
+                    >
+                      {c.label}
+                      {c.key === sortKey ? (descending ? ' ▼' : ' ▲') : ''}
+                    </th>
+                  ))}
+                  <th style={{ ...styles.th, textAlign: 'left' }}>First failing reason</th>
+                  <th style={styles.th} />
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((r) => (
+                  <tr key={r.row}>
+                    <td style={styles.td}>{r.row}</td>
+                    <td style={{ ...styles.td, textAlign: 'left' }}>{r.label}</td>
+                    <td style={{ ...styles.td, ...(r.isGo ? styles.cellGo : styles.cellNoGo) }}>{r.isGo ? 'GO' : 'NO-GO'}</td>
+                    <td style={styles.td}>{money(r.price)}</td>
+                    <td style={styles.td}>{money(r.rent)}</td>
+                    <td style={styles.td}>{money(r.netCashFlow)}</td>
+                    <td style={styles.td}>{Number.isFinite(r.dscr) ? r.dscr.toFixed(2) : '—'}</td>
+                    <td style={styles.td}>{pct(r.capRate)}</td>
+                    <td style={styles.td}>{pct(r.cashOnCash)}</td>
+                    <td style={{ ...styles.td, textAlign: 'left', whiteSpace: 'normal', minWidth: 220 }}>{r.firstReason || '—'}</td>
+                    <td style={styles.td}>
+                      <button
+                        type="button"
+                        style={styles.ghostBtn}
+                        onClick={() => {
+                          onOpen(r.form);
+                          notify(`Loaded “${r.label}” into the form.`);
+                        }}
+                      >
+                        Open
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
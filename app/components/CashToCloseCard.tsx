@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, Line, styles, type Field } from './ui';
+import { money, money2, toNum } from '@/lib/format';
+import { CASH_TO_CLOSE_COSTS, type CashToClose, type CashToCloseForm } from '@/lib/cashToClose';
+
+export default function CashToCloseCard({
+  cashToClose,
+  setCashToClose,
+  onItemize,
+  summary,
+  refiCashLeft,
+}: {
+  cashToClose: CashToCloseForm;
+  setCashToClose: (next: CashToCloseForm) => void;
+  onItemize: () => void; // switch on, carrying over the single closing-costs input
+  summary: CashToClose | null;
+  refiCashLeft: number | null; // BRRRR: returns use the cash left after the refinance
+}) {
+  const set = (k: Exclude<keyof CashToCloseForm, 'itemized'>) => (v: string) => setCashToClose({ ...cashToClose, [k]: v });
+
+  if (!cashToClose.itemized || !summary) {
+    return (
+      <Card title="Cash to Close" style={{ marginTop: 16 }}>
+        <div style={styles.rowBetween}>
+          <div style={styles.note}>
+            Cash invested is the down payment plus the single closing-costs input. Use the worksheet to add lender fees, points, prepaids, reserves,
+            initial repairs and seller credits so returns reflect the true cash required.
+          </div>
+          <button type="button" style={styles.secondaryBtn} onClick={onItemize}>
+            Open worksheet
+          </button>
+        </div>
+      </Card>
+    );
+  }
+
+  const fieldsCosts: Field[] = CASH_TO_CLOSE_COSTS.flatMap((f): Field[] => [
+    { label: f.label, hint: f.hint, value: cashToClose[f.key], setValue: set(f.key), right: '$', inputMode: 'numeric' },
+    ...(f.key === 'lenderFees'
+      ? [{ label: 'Loan points', hint: 'Percent of the first mortgage.', value: cashToClose.pointsPct, setValue: set('pointsPct'), right: '%', inputMode: 'decimal' as const }]
+      : []),
+  ]);
+  const fieldsCredits: Field[] = [
+    { label: 'Seller credits', hint: 'Reduce cash to close, up to the costs above.', value: cashToClose.sellerCredits, setValue: set('sellerCredits'), right: '$', inputMode: 'numeric' },
+    { label: 'Earnest money', hint: 'Already paid at contract; credited at closing.', value: cashToClose.earnestMoney, setValue: set('earnestMoney'), right: '$', inputMode: 'numeric' },
+  ];
+  const creditCapped = summary.sellerCredits < toNum(cashToClose.sellerCredits);
+
+  return (
+    <Card title="Cash to Close" style={{ marginTop: 16 }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          {fieldsCosts.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+          <div style={styles.divider} />
+          {fieldsCredits.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+        </div>
+
+        <div>
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>Cash required</div>
+            <Line label="Down payment" value={money2(summary.downPayment)} />
+            {summary.lines.map((l) => (
+              <Line key={l.label} label={l.label} value={money2(l.amount)} />
+            ))}
+            {summary.sellerCredits > 0 && <Line label="Seller credits" value={money2(-summary.sellerCredits)} />}
+            {summary.startupCash > 0 && <Line label="Furnishing & setup" value={money2(summary.startupCash)} />}
+            <Line label="Total cash required" value={money2(summary.totalCash)} />
+            {summary.earnestMoney > 0 && (
+              <>
+                <Line label="Earnest money (paid at contract)" value={money2(-summary.earnestMoney)} />
+                <Line label="Due at closing" value={money2(summary.dueAtClosing)} />
+              </>
+            )}
+          </div>
+          {creditCapped && <div style={styles.note}>Seller credits are capped at the closing costs; the excess is not cash back.</div>}
+          {refiCashLeft !== null && (
+            <div style={styles.note}>BRRRR: returns use the {money(refiCashLeft)} left in the deal after the refinance.</div>
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 10 }}>
+            <button type="button" style={styles.ghostBtn} onClick={() => setCashToClose({ ...cashToClose, itemized: false })}>
+              Back to a single closing-costs input
+            </button>
+          </div>
+          <div style={styles.note}>
+            Cash invested — and with it cash-on-cash, total return and IRR — uses the total cash required. Prepaids and escrow are left out of the tax
+            basis.
+          </div>
+        </div>
+      </section>
+    </Card>
+  );
+}
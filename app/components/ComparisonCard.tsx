@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import jsPDF from 'jspdf';
+
+import { Card, styles } from './ui';
+import { money, toNum } from '@/lib/format';
+import { computeDeal } from '@/lib/deal';
+import type { DealForm } from '@/lib/dealForm';
+import { loadDeals, newDealId, type SavedDeal } from '@/lib/dealLibrary';
+import { COMPARE_METRICS, bestWorst } from '@/lib/compare';
+import type { RuleSet } from '@/lib/rules';
+
+type Column = { id: string; label: string; form: DealForm };
+
+const MAX_COLUMNS = 6;
+
+export default function ComparisonCard({
+  form,
+  ruleSet,
+  notify,
+}: {
+  form: DealForm;
+  ruleSet: RuleSet;
+  notify: (msg: string) => void;
+}) {
+  const [columns, setColumns] = useState<Column[]>([]);
+  const [savedDeals, setSavedDeals] = useState<SavedDeal[]>([]);
+  const [offerPrice, setOfferPrice] = useState('');
+
+  const results = useMemo(() => columns.map((c) => computeDeal(c.form, ruleSet)), [columns, ruleSet]);
+
+  function add(label: string, f: DealForm) {
+    if (columns.length >= MAX_COLUMNS) {
+      notify(`Comparison is limited to ${MAX_COLUMNS} columns.`);
+      return;
+    }
+    setColumns([...columns, { id: newDealId(), label, form: f }]);
+  }
+
+  function addOffer() {
+    const price = toNum(offerPrice);
+    if (price <= 0) {
+      notify('Enter an offer price to compare.');
+      return;
+    }
+    add(`Offer ${money(price)}`, { ...form, purchasePrice: String(price) });
+    setOfferPrice('');
+  }
+
+  const rows = COMPARE_METRICS.map((m) => {
+    const values = results.map(m.value);
+    return { metric: m, values, ...bestWorst(values, m.better) };
+  });
+
+  function exportPdf() {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const labelWidth = 52;
+    const colWidth = Math.min(38, (285 - 12 - labelWidth) / Math.max(1, columns.length));
+    let y = 14;
+
+    doc.setFontSize(13);
+    doc.text(`Deal QuickCheck — comparison (${ruleSet.name})`, 12, y);
+    y += 10;
+
+    doc.setFontSize(9);
+    columns.forEach((c, i) => doc.text(doc.splitTextToSize(c.label, colWidth - 2)[0], 12 + labelWidth + i * colWidth, y));
+    y += 7;
+
+    const verdicts = results.map((r) => (r.decision.isGo ? 'GO' : 'NO-GO'));
+    for (const row of [
+      { label: 'Verdict', cells: verdicts, best: [] as number[], worst: [] as number[] },
+      ...rows.map((r) => ({ label: r.metric.label, cells: r.values.map(r.metric.format), best: r.best, worst: r.worst })),
+    ]) {
+      doc.text(row.label, 12, y);
+      row.cells.forEach((cell, i) => {
+        const mark = row.best.includes(i) ? ' [B]' : row.worst.includes(i) ? ' [W]' : '';
+        doc.text(`${cell}${mark}`, 12 + labelWidth + i * colWidth, y);
+      });
+      y += 7;
+    }
+
+    y += 4;
+    doc.setFontSize(8);
+    doc.text('[B] best / [W] worst in row. Fast screening tool — not full underwriting.', 12, y);
+    doc.save('deal-quickcheck-comparison.pdf');
+    notify('Comparison PDF exported.');
+  }
+
+  return (
+    <Card title="Compare Deals & Offers" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        <button type="button" style={styles.secondaryBtn} onClick={() => add(`Current #${columns.length + 1}`, form)}>
+          + Current inputs
+        </button>
+
+        <input
+          value={offerPrice}
+          onChange={(e) => setOfferPrice(e.target.value)}
+          placeholder="Offer price"
+          inputMode="numeric"
+          style={{ ...styles.input, width: 130 }}
+        />
+        <button type="button" style={styles.secondaryBtn} onClick={addOffer}>
+          + Offer at this price
+        </button>
+
+        <select
+          value=""
+          onFocus={() => setSavedDeals(loadDeals())}
+          onChange={(e) => {
+            const deal = savedDeals.find((d) => d.id === e.target.value);
+            if (deal) add(deal.name, deal.form);
+          }}
+          style={{ ...styles.input, width: 200 }}
+          aria-label="Add a saved deal"
+        >
+          <option value="">+ Saved deal…</option>
+          {savedDeals.map((d) => (
+            <option key={d.id} value={d.id}>{d.name}</option>
+          ))}
+        </select>
+
+        {columns.length > 0 && (
+          <>
+            <button type="button" style={styles.secondaryBtn} onClick={exportPdf}>Export comparison PDF</button>
+            <button type="button" style={styles.ghostBtn} onClick={() => setColumns([])}>Clear</button>
+          </>
+        )}
+      </div>
+
+      {columns.length === 0 ? (
+        <div style={styles.note}>
+          Add the current inputs, offer-price variants or saved deals to compare them side by side under the active rule set.
+        </div>
+      ) : (
+        <div style={styles.tableWrap}>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={{ ...styles.th, textAlign: 'left' }} />
+                {columns.map((c) => (
+                  <th key={c.id} style={styles.th}>
+                    <input
+                      value={c.label}
+                      onChange={(e) => setColumns(columns.map((x) => (x.id === c.id ? { ...x, label: e.target.value } : x)))}
+                      style={{ ...styles.input, width: 130, textAlign: 'right' }}
+                      aria-label="Column name"
+                    />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td style={{ ...styles.td, textAlign: 'left' }}>Verdict</td>
+                {results.map((r, i) => (
+                  <td key={columns[i].id} style={{ ...styles.td, fontWeight: 800, color: r.decision.isGo ? 'rgba(34,197,94,0.95)' : 'rgba(239,68,68,0.95)' }}>
+                    {r.decision.isGo ? 'GO' : 'NO-GO'}
+                  </td>
+                ))}
+              </tr>
+              {rows.map((row) => (
+                <tr key={row.metric.label}>
+                  <td style={{ ...styles.td, textAlign: 'left' }}>{row.metric.label}</td>
+                  {row.values.map((v, i) => (
+                    <td
+                      key={columns[i].id}
+                      style={{
+                        ...styles.td,
+                        ...(row.best.includes(i) ? styles.cellBest : null),
+                        ...(row.worst.includes(i) ? styles.cellWorst : null),
+                      }}
+                    >
+                      {row.metric.format(v)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td style={styles.td} />
+                {columns.map((c) => (
+                  <td key={c.id} style={styles.td}>
+                    <button type="button" style={styles.ghostBtn} onClick={() => setColumns(columns.filter((x) => x.id !== c.id))}>
+                      Remove
+                    </button>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+import { Card, styles } from './ui';
+import { money2 } from '@/lib/format';
+import type { DealForm } from '@/lib/dealForm';
+import type { PropertyPhoto } from '@/lib/property';
+import {
+  allTags,
+  filterDeals,
+  loadDealPhotos,
+  loadDeals,
+  newDealId,
+  parseTags,
+  saveDealPhotos,
+  saveDeals,
+  type DealSummary,
+  type SavedDeal,
+} from '@/lib/dealLibrary';
+
+export default function DealLibrary({
+  form,
+  photos,
+  summary,
+  onOpen,
+  notify,
+}: {
+  form: DealForm;
+  photos: PropertyPhoto[];
+  summary: DealSummary;
+  onOpen: (form: DealForm, photos: PropertyPhoto[]) => void;
+  notify: (msg: string) => void;
+}) {
+  const [deals, setDeals] = useState<SavedDeal[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [address, setAddress] = useState('');
+  const [tagsText, setTagsText] = useState('');
+  const [query, setQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- localStorage is only readable after mount
+    setDeals(loadDeals());
+  }, []);
+
+  // The list only changes once the browser has accepted the write.
+  function commit(next: SavedDeal[], msg: string) {
+    if (!saveDeals(next)) {
+      notify('Could not save (browser storage is full or blocked).');
+      return false;
+    }
+    setDeals(next);
+    notify(msg);
+    return true;
+  }
+
+  async function save(asNew: boolean) {
+    const now = new Date().toISOString();
+    const existing = !asNew && currentId ? deals.find((d) => d.id === currentId) : undefined;
+    const where = address.trim() || form.property.address.trim();
+    const deal: SavedDeal = {
+      id: existing?.id ?? newDealId(),
+      name: name.trim() || where || 'Untitled deal',
+      address: where,
+      tags: parseTags(tagsText),
+      form,
+      photoIds: photos.map((p) => p.id),
+      summary,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    if (!commit(existing ? deals.map((d) => (d.id === deal.id ? deal : d)) : [...deals, deal], `Saved “${deal.name}”.`)) return;
+    setCurrentId(deal.id);
+    if (!(await saveDealPhotos(deal.id, photos))) notify(`Saved “${deal.name}”, but its photos could not be stored in this browser.`);
+  }
+
+  async function open(deal: SavedDeal) {
+    setCurrentId(deal.id);
+    setName(deal.name);
+    setAddress(deal.address);
+    setTagsText(deal.tags.join(', '));
+    onOpen(deal.form, deal.photoIds.length ? await loadDealPhotos(deal.id) : []);
+    notify(`Opened “${deal.name}”.`);
+  }
+
+  async function duplicate(deal: SavedDeal) {
+    const now = new Date().toISOString();
+    const copy: SavedDeal = { ...deal, id: newDealId(), name: `${deal.name} (copy)`, createdAt: now, updatedAt: now };
+    if (!commit([...deals, copy], `Duplicated “${deal.name}”.`)) return;
+    if (deal.photoIds.length) await saveDealPhotos(copy.id, await loadDealPhotos(deal.id));
+    await open(copy);
+  }
+
+  function remove(deal: SavedDeal) {
+    if (!window.confirm(`Delete “${deal.name}” from this browser?`)) return;
+    if (!commit(deals.filter((d) => d.id !== deal.id), `Deleted “${deal.name}”.`)) return;
+    if (currentId === deal.id) setCurrentId(null);
+    void saveDealPhotos(deal.id, []);
+  }
+
+  const tags = allTags(deals);
+  const visible = filterDeals(deals, query, tagFilter);
+
+  return (
+    <Card title="Deal Library" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Deal name" style={{ ...styles.input, width: 180 }} />
+        <input value={address} onChange={(e) => setAddress(e.target.value)} placeholder={form.property.address.trim() || 'Address'} style={{ ...styles.input, width: 240 }} />
+        <input value={tagsText} onChange={(e) => setTagsText(e.target.value)} placeholder="Tags (comma separated)" style={{ ...styles.input, width: 200 }} />
+        <button type="button" style={styles.secondaryBtn} onClick={() => void save(false)}>
+          {currentId ? 'Update saved deal' : 'Save deal'}
+        </button>
+        {currentId && (
+          <button type="button" style={styles.ghostBtn} onClick={() => void save(true)}>
+            Save as new
+          </button>
+        )}
+      </div>
+
+      <div style={styles.divider} />
+
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search name, address, tag…" style={{ ...styles.input, width: 240 }} />
+        <div style={{ ...styles.segmented, flexWrap: 'wrap' }}>
+          <button type="button" onClick={() => setTagFilter(null)} style={{ ...styles.segBtn, ...(tagFilter === null ? styles.segBtnOn : null) }}>
+            All
+          </button>
+          {tags.map((t) => (
+            <button key={t} type="button" onClick={() => setTagFilter(t)} style={{ ...styles.segBtn, ...(tagFilter === t ? styles.segBtnOn : null) }}>
+              {t}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div style={styles.note}>{deals.length === 0 ? 'No saved deals yet. Name this deal and save it to start a library.' : 'No deals match.'}</div>
+      ) : (
+        <div style={styles.tableWrap}>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={{ ...styles.th, textAlign: 'left' }}>Deal</th>
+                <th style={styles.th}>Verdict</th>
+                <th style={styles.th}>Cash flow</th>
+                <th style={styles.th}>DSCR</th>
+                <th style={styles.th}>Updated</th>
+                <th style={styles.th} />
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((d) => (
+                <tr key={d.id} style={d.id === currentId ? styles.tdHighlight : undefined}>
+                  <td style={{ ...styles.td, textAlign: 'left', whiteSpace: 'normal' }}>
+                    <div style={{ fontWeight: 750 }}>{d.name}</div>
+                    {d.address && <div style={styles.fieldHint}>{d.address}</div>}
+                    {d.photoIds.length > 0 && <div style={styles.fieldHint}>{d.photoIds.length} photo{d.photoIds.length > 1 ? 's' : ''}</div>}
+                    {d.tags.length > 0 && <div style={styles.fieldHint}>{d.tags.map((t) => `#${t}`).join(' ')}</div>}
+                  </td>
+                  <td style={{ ...styles.td, fontWeight: 800, color: d.summary.isGo ? 'rgba(34,197,94,0.95)' : 'rgba(239,68,68,0.95)' }}>
+                    {d.summary.isGo ? 'GO' : 'NO-GO'}
+                  </td>
+                  <td style={styles.td}>{money2(d.summary.netCashFlow)}</td>
+                  <td style={styles.td}>{d.summary.dscr === null ? '—' : d.summary.dscr.toFixed(2)}</td>
+                  <td style={styles.td}>{new Date(d.updatedAt).toLocaleDateString()}</td>
+                  <td style={styles.td}>
+                    <div style={{ display: 'flex', gap: 6, justifyContent: 'flex-end' }}>
+                      <button type="button" style={styles.secondaryBtn} onClick={() => void open(d)}>Open</button>
+                      <button type="button" style={styles.ghostBtn} onClick={() => void duplicate(d)}>Duplicate</button>
+                      <button type="button" style={styles.ghostBtn} onClick={() => remove(d)}>Delete</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={styles.note}>
+        Deals are stored in this browser only (localStorage; photos in IndexedDB). Verdict, cash flow and DSCR are captured when you save.
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, styles } from './ui';
+import { money, pct } from '@/lib/format';
+import {
+  CONSTRAINT_LABELS,
+  DSCR_BASES,
+  newLenderProfile,
+  type DscrBasis,
+  type LenderProfile,
+  type LenderQualification,
+  type LenderSettings,
+} from '@/lib/lenders';
+
+type NumberKey = 'maxLtvPct' | 'maxLtcPct' | 'minDscr' | 'rateBufferPct' | 'reserveMonths';
+
+const NUMBER_COLUMNS: { key: NumberKey; label: string; unit: string; placeholder?: string }[] = [
+  { key: 'maxLtvPct', label: 'Max LTV', unit: '%', placeholder: 'none' },
+  { key: 'maxLtcPct', label: 'Max LTC', unit: '%', placeholder: 'none' },
+  { key: 'minDscr', label: 'Min DSCR', unit: 'x', placeholder: 'none' },
+  { key: 'rateBufferPct', label: 'Rate buffer', unit: '%' },
+  { key: 'reserveMonths', label: 'Reserves', unit: 'mo' },
+];
+
+export default function LenderCard({
+  settings,
+  setSettings,
+  qualifications,
+}: {
+  settings: LenderSettings;
+  setSettings: (next: LenderSettings) => void;
+  qualifications: LenderQualification[]; // one per profile, same order
+}) {
+  const setProfiles = (profiles: LenderProfile[]) => setSettings({ ...settings, profiles });
+  const updateProfile = (next: LenderProfile) => setProfiles(settings.profiles.map((p) => (p.id === next.id ? next : p)));
+  const hasCash = settings.cashAvailable.trim() !== '';
+
+  return (
+    <Card title="Lender Qualification" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <div style={{ maxWidth: 520 }}>
+        <FieldRow
+          label="Cash available"
+          hint="Liquid funds for the down payment, closing and reserves."
+          value={settings.cashAvailable}
+          setValue={(v) => setSettings({ ...settings, cashAvailable: v })}
+          right="$"
+          inputMode="numeric"
+        />
+      </div>
+
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={{ ...styles.th, textAlign: 'left' }}>Lender</th>
+              {NUMBER_COLUMNS.map((c) => (
+                <th key={c.key} style={styles.th}>{c.label}</th>
+              ))}
+              <th style={styles.th}>DSCR definition</th>
+              <th style={styles.th} />
+            </tr>
+          </thead>
+          <tbody>
+            {settings.profiles.map((p) => (
+              <tr key={p.id}>
+                <td style={{ ...styles.td, textAlign: 'left' }}>
+                  <input
+                    value={p.name}
+                    onChange={(e) => updateProfile({ ...p, name: e.target.value })}
+                    style={{ ...styles.input, width: 160 }}
+                    aria-label="Lender name"
+                  />
+                </td>
+                {NUMBER_COLUMNS.map((c) => (
+                  <td key={c.key} style={styles.td}>
+                    <input
+                      value={p[c.key]}
+                      onChange={(e) => updateProfile({ ...p, [c.key]: e.target.value })}
+                      placeholder={c.placeholder}
+                      inputMode="decimal"
+                      style={{ ...styles.input, width: 64 }}
+                      aria-label={`${p.name} ${c.label}`}
+                    />
+                    <span style={{ ...styles.unit, display: 'inline-block', width: 24 }}>{c.unit}</span>
+                  </td>
+                ))}
+                <td style={styles.td}>
+                  <select
+                    value={p.dscrBasis}
+                    onChange={(e) => updateProfile({ ...p, dscrBasis: e.target.value as DscrBasis })}
+                    style={{ ...styles.input, width: 130 }}
+                    title={DSCR_BASES.find((b) => b.basis === p.dscrBasis)?.hint}
+                  >
+                    {DSCR_BASES.map((b) => (
+                      <option key={b.basis} value={b.basis}>{b.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td style={{ ...styles.td, whiteSpace: 'nowrap' }}>
+                  <button
+                    type="button"
+                    style={styles.ghostBtn}
+                    onClick={() => setProfiles([...settings.profiles, newLenderProfile({ ...p, name: `${p.name} (copy)` })])}
+                  >
+                    Duplicate
+                  </button>{' '}
+                  <button type="button" style={styles.ghostBtn} onClick={() => setProfiles(settings.profiles.filter((x) => x.id !== p.id))}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={styles.rowBetween}>
+        <button type="button" style={styles.secondaryBtn} onClick={() => setProfiles([...settings.profiles, newLenderProfile()])}>
+          + Add lender
+        </button>
+      </div>
+
+      {qualifications.length > 0 && (
+        <div style={styles.tableWrap}>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={{ ...styles.th, textAlign: 'left' }}>Lender</th>
+                <th style={styles.th}>Qualifying rate</th>
+                <th style={styles.th}>Max loan</th>
+                <th style={styles.th}>Binding limit</th>
+                <th style={styles.th}>Loan</th>
+                <th style={styles.th}>Lender DSCR</th>
+                <th style={styles.th}>Reserves</th>
+                <th style={styles.th}>Cash required</th>
+                <th style={styles.th}>Cash</th>
+              </tr>
+            </thead>
+            <tbody>
+              {qualifications.map((q) => (
+                <tr key={q.profile.id}>
+                  <td style={{ ...styles.td, textAlign: 'left', fontWeight: 750 }}>{q.profile.name}</td>
+                  <td style={styles.td}>{pct(q.qualifyingRate / 100)}</td>
+                  <td style={styles.td}>{Number.isFinite(q.maxLoan) ? money(q.maxLoan) : 'No limit'}</td>
+                  <td style={styles.td}>{q.binding ? CONSTRAINT_LABELS[q.binding] : '—'}</td>
+                  <td style={styles.td}>
+                    {money(q.loan)}
+                    {!q.supportsRequested && <Status ok={false} text={`short ${money(q.requestedLoan - q.loan)}`} />}
+                  </td>
+                  <td style={styles.td}>{Number.isFinite(q.dscr) ? q.dscr.toFixed(2) : '—'}</td>
+                  <td style={styles.td}>{money(q.reserves)}</td>
+                  <td style={styles.td}>{money(q.cashRequired)}</td>
+                  <td style={styles.td}>
+                    {hasCash ? <Status ok={q.cashShortfall === 0} text={q.cashShortfall === 0 ? 'OK' : `short ${money(q.cashShortfall)}`} /> : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={styles.note}>
+        Each lender sizes the first mortgage at its own limits, testing DSCR its own way at the note rate plus any buffer; payments on stacked liens
+        always count as debt. When the loan is cut back,
+        the difference comes out of your cash, along with closing costs and months of PITIA held in reserve. Lenders are saved in this browser.
+      </div>
+    </Card>
+  );
+}
+
+function Status({ ok, text }: { ok: boolean; text: string }) {
+  return (
+    <span style={{ marginLeft: 6, fontWeight: 800, color: ok ? 'rgba(34,197,94,0.95)' : 'rgba(239,68,68,0.95)' }}>{text}</span>
+  );
+}
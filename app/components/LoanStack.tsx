@@ -0,0 +1,104 @@
+'use client';
+
+import React from 'react';
+
+import { FieldRow, styles, type Field } from './ui';
+import { LOAN_KINDS, newLien, type LienForm, type LoanTermsForm } from '@/lib/loans';
+
+// Kind selector plus the fields that only apply to the chosen structure.
+export function LoanTermsFields<T extends LoanTermsForm>({
+  terms,
+  onChange,
+}: {
+  terms: T;
+  onChange: (next: T) => void;
+}) {
+  const set = (k: keyof LoanTermsForm) => (v: string) => onChange({ ...terms, [k]: v });
+
+  const fields: Field[] = [];
+  if (terms.kind === 'io') {
+    fields.push({ label: 'Interest-only period', hint: 'Months before the loan starts amortizing.', value: terms.ioMonths, setValue: set('ioMonths'), right: 'mo', inputMode: 'numeric' });
+  }
+  if (terms.kind === 'arm') {
+    fields.push({ label: 'Initial fixed period', hint: 'e.g. 5 for a 5/1 ARM, 7 for a 7/1.', value: terms.armFixedYears, setValue: set('armFixedYears'), right: 'yrs', inputMode: 'numeric' });
+    fields.push({ label: 'Rate shock at reset', hint: 'Change added to the rate when it adjusts.', value: terms.armAdjustPct, setValue: set('armAdjustPct'), right: '%', inputMode: 'decimal' });
+  }
+  if (terms.kind === 'balloon') {
+    fields.push({ label: 'Balloon due', hint: 'Remaining balance is due after this many years.', value: terms.balloonYears, setValue: set('balloonYears'), right: 'yrs', inputMode: 'numeric' });
+  }
+
+  return (
+    <>
+      <div style={{ ...styles.rowBetween, alignItems: 'center', marginTop: 10 }}>
+        <div style={styles.fieldLabel}>Loan type</div>
+        <div style={{ ...styles.segmented, flexWrap: 'wrap' }}>
+          {LOAN_KINDS.map((k) => (
+            <button
+              key={k.kind}
+              type="button"
+              onClick={() => onChange({ ...terms, kind: k.kind })}
+              style={{ ...styles.segBtn, ...(terms.kind === k.kind ? styles.segBtnOn : null) }}
+            >
+              {k.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {fields.map((f) => (
+        <FieldRow key={f.label} {...f} />
+      ))}
+    </>
+  );
+}
+
+export default function LienList({
+  liens,
+  setLiens,
+}: {
+  liens: LienForm[];
+  setLiens: (next: LienForm[]) => void;
+}) {
+  const update = (next: LienForm) => setLiens(liens.map((l) => (l.id === next.id ? next : l)));
+
+  return (
+    <div>
+      {liens.map((lien) => {
+        const set = (k: 'label' | 'amount' | 'ratePct' | 'amortYears') => (v: string) => update({ ...lien, [k]: v });
+        const fields: Field[] = [
+          { label: 'Amount', hint: 'Funds part of the down payment.', value: lien.amount, setValue: set('amount'), right: '$', inputMode: 'numeric' },
+          { label: 'Interest rate', hint: 'Annual rate.', value: lien.ratePct, setValue: set('ratePct'), right: '%', inputMode: 'decimal' },
+          { label: 'Amortization', hint: 'Years.', value: lien.amortYears, setValue: set('amortYears'), right: 'yrs', inputMode: 'numeric' },
+        ];
+
+        return (
+          <div key={lien.id} style={styles.breakdown}>
+            <div style={{ ...styles.rowBetween, marginTop: 0, alignItems: 'center' }}>
+              <input
+                value={lien.label}
+                onChange={(e) => update({ ...lien, label: e.target.value })}
+                style={{ ...styles.input, width: 200 }}
+                aria-label="Lien name"
+              />
+              <button type="button" style={styles.ghostBtn} onClick={() => setLiens(liens.filter((l) => l.id !== lien.id))}>
+                Remove
+              </button>
+            </div>
+            {fields.map((f) => (
+              <FieldRow key={f.label} {...f} />
+            ))}
+            <LoanTermsFields terms={lien} onChange={update} />
+          </div>
+        );
+      })}
+
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 12 }}>
+        <button type="button" style={styles.secondaryBtn} onClick={() => setLiens([...liens, newLien('Second lien')])}>
+          + Second lien
+        </button>
+        <button type="button" style={styles.secondaryBtn} onClick={() => setLiens([...liens, newLien('Seller carry-back', 'balloon')])}>
+          + Seller carry-back
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, Line, styles } from './ui';
+import { money } from '@/lib/format';
+import { offerLines, type OfferSolution, type OfferTargets } from '@/lib/offer';
+
+export default function OfferSolverCard({
+  price,
+  targets,
+  setTargets,
+  defaults,
+  solution,
+}: {
+  price: number;
+  targets: OfferTargets;
+  setTargets: (t: OfferTargets) => void;
+  defaults: OfferTargets; // rule-set targets, shown as placeholders
+  solution: OfferSolution;
+}) {
+  const set = (key: keyof OfferTargets) => (value: string) => setTargets({ ...targets, [key]: value });
+  const maxOffer = solution.maxPriceGo;
+  const headroom = maxOffer && !maxOffer.capped ? maxOffer.value - price : null;
+
+  return (
+    <Card title="Max Allowable Offer" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          <FieldRow label="Target DSCR" hint="Blank uses the active rule set" value={targets.dscr} setValue={set('dscr')} right="x" placeholder={defaults.dscr} />
+          <FieldRow label="Target cash flow" value={targets.cashFlow} setValue={set('cashFlow')} right="$/mo" placeholder={defaults.cashFlow} />
+          <FieldRow label="Target cash-on-cash" value={targets.cashOnCash} setValue={set('cashOnCash')} right="%" placeholder={defaults.cashOnCash} />
+        </div>
+
+        <div style={{ ...styles.breakdown, marginTop: 0 }}>
+          {offerLines(solution).map((l) => (
+            <Line key={l.label} label={l.label} value={l.value} />
+          ))}
+          {headroom !== null && (
+            <div style={{ ...styles.note, color: headroom >= 0 ? 'rgba(187,247,208,0.98)' : 'rgba(254,202,202,0.98)' }}>
+              {headroom >= 0
+                ? `The asking price has ${money(headroom)} of headroom under the max offer.`
+                : `Offer ${money(-headroom)} below the current price (${money(price)}) to reach GO.`}
+            </div>
+          )}
+        </div>
+      </section>
+
+      <div style={styles.note}>
+        Each value holds every other input constant. “+” means the target still holds at the top of the search range; “Not reachable” means it fails even at the most favorable value.
+      </div>
+    </Card>
+  );
+}
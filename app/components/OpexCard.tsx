@@ -0,0 +1,227 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, Line, styles, type Field } from './ui';
+import { money, money2 } from '@/lib/format';
+import type { DealResult } from '@/lib/deal';
+import {
+  CAPEX_PRESETS,
+  EXPENSE_BASES,
+  EXPENSE_CATEGORIES,
+  capexSchedule,
+  expenseLine,
+  newCapexComponent,
+  newExpenseItem,
+  type ExpenseBasis,
+  type ExpenseCategory,
+  type OpexForm,
+} from '@/lib/opex';
+
+const ITEM_PRESETS: { label: string; category: ExpenseCategory }[] = [
+  { label: 'Property taxes', category: 'taxes' },
+  { label: 'Insurance', category: 'insurance' },
+  { label: 'HOA', category: 'hoa' },
+  { label: 'Utilities', category: 'utilities' },
+  { label: 'Repairs', category: 'repairs' },
+  { label: 'Landscaping', category: 'other' },
+  { label: 'Pest control', category: 'other' },
+  { label: 'Trash', category: 'utilities' },
+  { label: 'Legal & accounting', category: 'other' },
+];
+
+export default function OpexCard({
+  opex,
+  setOpex,
+  onItemize,
+  result,
+}: {
+  opex: OpexForm;
+  setOpex: (next: OpexForm) => void;
+  onItemize: () => void; // switch on, starting from the flat inputs
+  result: DealResult;
+}) {
+  const set = (k: 'managementPct' | 'managementMinimum' | 'leasingFeePct' | 'tenancyMonths') => (v: string) => setOpex({ ...opex, [k]: v });
+  const { items, components } = opex;
+  const setItems = (next: OpexForm['items']) => setOpex({ ...opex, items: next });
+  const setComponents = (next: OpexForm['components']) => setOpex({ ...opex, components: next });
+  const ctx = { vacancy: result.vacancy, otherIncome: result.other, units: result.rentRoll?.units ?? 1, leases: !result.str };
+  const capex = capexSchedule(components);
+  const unusedItems = ITEM_PRESETS.filter((p) => !items.some((i) => i.label === p.label));
+  const unusedComponents = CAPEX_PRESETS.filter((p) => !components.some((c) => c.label === p.label));
+
+  const fieldsManagement: Field[] = [
+    { label: 'Management fee', hint: 'Percent of collected rent (after vacancy).', value: opex.managementPct, setValue: set('managementPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Minimum fee', hint: 'Monthly floor charged when the percentage comes in lower.', value: opex.managementMinimum, setValue: set('managementMinimum'), right: '$/mo', inputMode: 'numeric' },
+    ...(result.str
+      ? []
+      : [
+          { label: 'Leasing fee', hint: 'Percent of one month’s rent per new lease.', value: opex.leasingFeePct, setValue: set('leasingFeePct'), right: '%', inputMode: 'decimal' as const },
+          { label: 'Average tenancy', hint: 'Months a tenant stays; one leasing fee per unit per stay.', value: opex.tenancyMonths, setValue: set('tenancyMonths'), right: 'mo', inputMode: 'numeric' as const },
+        ]),
+  ];
+
+  if (!opex.itemized) {
+    return (
+      <Card title="Operating Expenses" style={{ marginTop: 16 }}>
+        <div style={styles.rowBetween}>
+          <div style={styles.note}>
+            Using the flat inputs: fixed monthly costs plus repairs, CapEx and management as a percent of rent. Itemize to enter each expense on its own
+            basis, schedule CapEx by component and add leasing or minimum management fees.
+          </div>
+          <button type="button" style={styles.secondaryBtn} onClick={onItemize}>
+            Itemize expenses
+          </button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Operating Expenses (itemized)" style={{ marginTop: 16 }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          <div style={styles.breakdownTitle}>Line items</div>
+          {items.map((item) => {
+            const line = expenseLine(item, ctx);
+            return (
+              <div key={item.id} style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 8 }}>
+                <input
+                  value={item.label}
+                  onChange={(e) => setItems(items.map((i) => (i.id === item.id ? { ...i, label: e.target.value } : i)))}
+                  placeholder="Expense"
+                  style={{ ...styles.input, flex: 1, textAlign: 'left' }}
+                  aria-label="Expense name"
+                />
+                <input
+                  value={item.amount}
+                  onChange={(e) => setItems(items.map((i) => (i.id === item.id ? { ...i, amount: e.target.value } : i)))}
+                  inputMode="decimal"
+                  style={{ ...styles.input, width: 80 }}
+                  aria-label="Amount"
+                />
+                <select
+                  value={item.basis}
+                  onChange={(e) => setItems(items.map((i) => (i.id === item.id ? { ...i, basis: e.target.value as ExpenseBasis } : i)))}
+                  style={{ ...styles.input, width: 150, textAlign: 'left' }}
+                  aria-label="Basis"
+                >
+                  {EXPENSE_BASES.map((b) => (
+                    <option key={b.basis} value={b.basis}>{b.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={item.category}
+                  onChange={(e) => setItems(items.map((i) => (i.id === item.id ? { ...i, category: e.target.value as ExpenseCategory } : i)))}
+                  style={{ ...styles.input, width: 120, textAlign: 'left' }}
+                  aria-label="Category"
+                  title="Lenders count taxes, insurance and HOA toward PITIA; scenarios and risk draws change lines by category."
+                >
+                  {EXPENSE_CATEGORIES.map((c) => (
+                    <option key={c.category} value={c.category}>{c.label}</option>
+                  ))}
+                </select>
+                <span style={{ ...styles.unit, width: 70, textAlign: 'right' }}>{money2(line.fixed + result.rent * line.rentRate)}</span>
+                <button type="button" style={styles.ghostBtn} onClick={() => setItems(items.filter((i) => i.id !== item.id))}>
+                  Remove
+                </button>
+              </div>
+            );
+          })}
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 10 }}>
+            <button type="button" style={styles.secondaryBtn} onClick={() => setItems([...items, newExpenseItem()])}>
+              + Line item
+            </button>
+            <select
+              value=""
+              onChange={(e) => {
+                const preset = ITEM_PRESETS.find((p) => p.label === e.target.value);
+                if (preset) setItems([...items, newExpenseItem(preset.label, 'monthly', '0', preset.category)]);
+              }}
+              style={{ ...styles.input, width: 170 }}
+              aria-label="Add a common expense"
+            >
+              <option value="">+ Common expense…</option>
+              {unusedItems.map((p) => (
+                <option key={p.label} value={p.label}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div style={styles.divider} />
+          <div style={styles.breakdownTitle}>CapEx schedule</div>
+          {components.map((c, idx) => (
+            <div key={c.id} style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 8 }}>
+              <input
+                value={c.label}
+                onChange={(e) => setComponents(components.map((x) => (x.id === c.id ? { ...x, label: e.target.value } : x)))}
+                placeholder="Component"
+                style={{ ...styles.input, flex: 1, textAlign: 'left' }}
+                aria-label="Component"
+              />
+              <input
+                value={c.cost}
+                onChange={(e) => setComponents(components.map((x) => (x.id === c.id ? { ...x, cost: e.target.value } : x)))}
+                inputMode="numeric"
+                style={{ ...styles.input, width: 90 }}
+                aria-label="Replacement cost"
+              />
+              <input
+                value={c.lifeYears}
+                onChange={(e) => setComponents(components.map((x) => (x.id === c.id ? { ...x, lifeYears: e.target.value } : x)))}
+                inputMode="numeric"
+                style={{ ...styles.input, width: 56 }}
+                aria-label="Remaining life (years)"
+              />
+              <span style={styles.unit}>yrs</span>
+              <span style={{ ...styles.unit, width: 70, textAlign: 'right' }}>{money2(capex.rows[idx].monthly)}</span>
+              <button type="button" style={styles.ghostBtn} onClick={() => setComponents(components.filter((x) => x.id !== c.id))}>
+                Remove
+              </button>
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 10 }}>
+            <button type="button" style={styles.secondaryBtn} onClick={() => setComponents([...components, newCapexComponent()])}>
+              + Component
+            </button>
+            {unusedComponents.map((p) => (
+              <button key={p.label} type="button" style={styles.ghostBtn} onClick={() => setComponents([...components, newCapexComponent(p.label, p.cost, p.lifeYears)])}>
+                + {p.label}
+              </button>
+            ))}
+          </div>
+          <div style={styles.note}>
+            Each component reserves its replacement cost over its remaining life. Remove any flat CapEx line above once the big items are listed.
+          </div>
+        </div>
+
+        <div>
+          <div style={styles.breakdownTitle}>Management</div>
+          {fieldsManagement.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>Monthly operating expenses</div>
+            {result.expenses.map((e, i) => (
+              <Line key={`${e.label}-${i}`} label={e.label} value={money2(e.monthly)} />
+            ))}
+            <Line label="Total (excl. debt)" value={money2(result.fixedCostsNoDebt + result.percentCosts)} />
+            <Line label="Annual" value={money(12 * (result.fixedCostsNoDebt + result.percentCosts))} />
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 10 }}>
+            <button type="button" style={styles.ghostBtn} onClick={() => setOpex({ ...opex, itemized: false })}>
+              Back to flat percentages
+            </button>
+          </div>
+          <div style={styles.note}>
+            Itemized lines replace the fixed costs and the repairs, CapEx and management percentages; a scenario or risk draw on one of those inputs
+            replaces the lines in its category. “% of effective income” applies after vacancy and includes other income; “$ / unit” uses the rent
+            roll’s unit count.
+          </div>
+        </div>
+      </section>
+    </Card>
+  );
+}
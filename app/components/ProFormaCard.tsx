@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, KPI, Line, styles, type Field } from './ui';
+import { money, money2, pct } from '@/lib/format';
+import { PROJECTION_HORIZONS, type ProForma } from '@/lib/proforma';
+
+export default function ProFormaCard({
+  fields,
+  horizon,
+  setHorizon,
+  proForma,
+}: {
+  fields: Field[];
+  horizon: number;
+  setHorizon: (n: number) => void;
+  proForma: ProForma;
+}) {
+  const { exit } = proForma;
+
+  return (
+    <Card title="Pro Forma (multi-year hold)" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          {fields.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+        </div>
+
+        <div>
+          <div style={styles.kpiGrid}>
+            <KPI label={`Levered IRR (${exit.year}-yr hold)`} value={pct(proForma.irr)} emphasis />
+            <KPI label="Equity multiple" value={Number.isFinite(proForma.equityMultiple) ? `${proForma.equityMultiple.toFixed(2)}x` : '—'} emphasis />
+            <KPI label="Total profit" value={money(proForma.totalProfit)} />
+            <KPI label="Net sale proceeds" value={money(exit.netProceeds)} />
+          </div>
+
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>Exit (end of year {exit.year})</div>
+            <Line label="Sale price" value={money2(exit.salePrice)} />
+            <Line label="Selling costs" value={money2(-exit.sellingCosts)} />
+            <Line label="Loan payoff" value={money2(-exit.loanPayoff)} />
+            <Line label="Net proceeds" value={money2(exit.netProceeds)} />
+          </div>
+        </div>
+      </section>
+
+      <div style={{ ...styles.rowBetween, alignItems: 'center' }}>
+        <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.72)' }}>Projection horizon</div>
+        <div style={styles.segmented}>
+          {PROJECTION_HORIZONS.map((h) => (
+            <button
+              key={h}
+              type="button"
+              onClick={() => setHorizon(h)}
+              style={{ ...styles.segBtn, ...(h === horizon ? styles.segBtnOn : null) }}
+            >
+              {h} yrs
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Year</th>
+              <th style={styles.th}>Gross income</th>
+              <th style={styles.th}>Vacancy</th>
+              <th style={styles.th}>OpEx</th>
+              <th style={styles.th}>NOI</th>
+              <th style={styles.th}>Debt service</th>
+              <th style={styles.th}>Cash flow</th>
+              <th style={styles.th}>Value</th>
+              <th style={styles.th}>Loan balance</th>
+              <th style={styles.th}>Equity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {proForma.years.slice(0, Math.max(horizon, exit.year)).map((y) => (
+              <tr key={y.year} style={y.year === exit.year ? styles.tdHighlight : undefined}>
+                <td style={styles.td}>{y.year === exit.year ? `${y.year} (sale)` : y.year}</td>
+                <td style={styles.td}>{money(y.grossIncome)}</td>
+                <td style={styles.td}>{money(-y.vacancyLoss)}</td>
+                <td style={styles.td}>{money(-y.operatingExpenses)}</td>
+                <td style={styles.td}>{money(y.noi)}</td>
+                <td style={styles.td}>{money(-y.debtService)}</td>
+                <td style={styles.td}>{money(y.cashFlow)}</td>
+                <td style={styles.td}>{money(y.propertyValue)}</td>
+                <td style={styles.td}>{money(y.loanBalance)}</td>
+                <td style={styles.td}>{money(y.equity)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={styles.note}>
+        Annual figures. Rent and other income grow at the rent growth rate; fixed costs at the expense growth rate; percent-of-rent costs follow rent.
+        With an exit cap rate set, the sale is priced on year {exit.year + 1} NOI; leave it at 0 to use appreciation instead.
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, styles, type Field } from './ui';
+import { MAX_PHOTOS, newPhotoId, type PropertyForm, type PropertyPhoto } from '@/lib/property';
+
+// Photos are downscaled before they are kept, so saved deals stay small.
+const PHOTO_MAX_SIDE = 1280;
+const PHOTO_QUALITY = 0.8;
+
+async function downscale(file: File) {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, PHOTO_MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+}
+
+export default function PropertyCard({
+  property,
+  setProperty,
+  photos,
+  setPhotos,
+  units,
+  notify,
+}: {
+  property: PropertyForm;
+  setProperty: (next: PropertyForm) => void;
+  photos: PropertyPhoto[];
+  setPhotos: (next: PropertyPhoto[]) => void;
+  units: number; // used when the unit count is blank
+  notify: (msg: string) => void;
+}) {
+  const set = (k: keyof PropertyForm) => (v: string) => setProperty({ ...property, [k]: v });
+
+  const fieldsLeft: Field[] = [
+    { label: 'Address', value: property.address, setValue: set('address'), placeholder: 'e.g. 12 Oak St, Springfield', inputMode: 'text' },
+    { label: 'Units', hint: 'Blank = from the rent roll.', value: property.unitCount, setValue: set('unitCount'), placeholder: String(units), inputMode: 'numeric' },
+    { label: 'Year built', value: property.yearBuilt, setValue: set('yearBuilt'), inputMode: 'numeric' },
+  ];
+  const fieldsRight: Field[] = [
+    { label: 'Bedrooms', hint: 'Total, all units.', value: property.bedrooms, setValue: set('bedrooms'), inputMode: 'decimal' },
+    { label: 'Bathrooms', hint: 'Total, all units.', value: property.bathrooms, setValue: set('bathrooms'), inputMode: 'decimal' },
+    { label: 'Square feet', hint: 'Livable area, all units.', value: property.sqft, setValue: set('sqft'), right: 'sqft', inputMode: 'numeric' },
+  ];
+
+  async function addPhotos(files: File[]) {
+    const room = MAX_PHOTOS - photos.length;
+    const images = files.filter((f) => f.type.startsWith('image/'));
+    if (images.length < files.length) notify('Only image files can be attached.');
+    if (images.length > room) notify(`Up to ${MAX_PHOTOS} photos per deal.`);
+    const added: PropertyPhoto[] = [];
+    for (const file of images.slice(0, Math.max(0, room))) {
+      try {
+        added.push({ id: newPhotoId(), name: file.name, dataUrl: await downscale(file) });
+      } catch {
+        notify(`Could not read ${file.name}.`);
+      }
+    }
+    if (added.length) setPhotos([...photos, ...added]);
+  }
+
+  return (
+    <Card title="Property" style={{ marginTop: 16 }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          {fieldsLeft.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+        </div>
+        <div>
+          {fieldsRight.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+        </div>
+      </section>
+
+      <textarea
+        value={property.notes}
+        onChange={(e) => set('notes')(e.target.value)}
+        placeholder="Notes — condition, showing feedback, comps…"
+        rows={3}
+        style={{ ...styles.input, width: '100%', marginTop: 10, resize: 'vertical', fontFamily: 'inherit' }}
+        aria-label="Property notes"
+      />
+
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center', marginTop: 10 }}>
+        {photos.map((p) => (
+          <div key={p.id} style={{ position: 'relative' }}>
+            {/* eslint-disable-next-line @next/next/no-img-element -- data URL preview */}
+            <img src={p.dataUrl} alt={p.name || 'Property photo'} style={{ height: 72, borderRadius: 6, display: 'block' }} />
+            <button
+              type="button"
+              style={{ ...styles.ghostBtn, position: 'absolute', top: 2, right: 2, padding: '0 6px' }}
+              onClick={() => setPhotos(photos.filter((x) => x.id !== p.id))}
+              aria-label={`Remove ${p.name || 'photo'}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        {photos.length < MAX_PHOTOS && (
+          <label style={{ ...styles.ghostBtn, display: 'inline-block' }}>
+            Add photos
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const files = [...(e.target.files ?? [])];
+                e.target.value = '';
+                if (files.length) void addPhotos(files);
+              }}
+            />
+          </label>
+        )}
+      </div>
+
+      <div style={styles.note}>
+        The address titles the PDF and saved deals. Photos stay in this browser: they are kept with saved deals and printed in the PDF, but are not
+        part of share links or exported files.
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import React from 'react';
+
+import { Card, Line, styles } from './ui';
+import { money, money2 } from '@/lib/format';
+import { newUnit, summarizeRentRoll, type UnitForm } from '@/lib/rentRoll';
+
+export default function RentRollCard({
+  units,
+  setUnits,
+}: {
+  units: UnitForm[];
+  setUnits: (next: UnitForm[]) => void;
+}) {
+  const update = (next: UnitForm) => setUnits(units.map((u) => (u.id === next.id ? next : u)));
+  const summary = summarizeRentRoll(units);
+
+  const text = (u: UnitForm, key: 'label' | 'beds' | 'baths' | 'currentRent' | 'marketRent', width: number, numeric = true) => (
+    <input
+      value={u[key]}
+      onChange={(e) => update({ ...u, [key]: e.target.value })}
+      inputMode={numeric ? 'decimal' : undefined}
+      style={{ ...styles.input, width, textAlign: numeric ? 'right' : 'left' }}
+      aria-label={key}
+    />
+  );
+
+  return (
+    <Card title="Rent Roll (multi-unit)" style={{ marginTop: 16 }}>
+      {units.length === 0 ? (
+        <div style={styles.note}>
+          Single-unit deals can use the rent inputs above. Add units to underwrite a 2–20 unit building from its rent roll instead.
+        </div>
+      ) : (
+        <div style={styles.tableWrap}>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={{ ...styles.th, textAlign: 'left' }}>Unit</th>
+                <th style={styles.th}>Beds</th>
+                <th style={styles.th}>Baths</th>
+                <th style={styles.th}>Current rent</th>
+                <th style={styles.th}>Market rent</th>
+                <th style={styles.th}>Lease end</th>
+                <th style={styles.th}>Voucher</th>
+                <th style={styles.th}>Vacant</th>
+                <th style={styles.th} />
+              </tr>
+            </thead>
+            <tbody>
+              {units.map((u) => (
+                <tr key={u.id} style={u.vacant ? { opacity: 0.7 } : undefined}>
+                  <td style={{ ...styles.td, textAlign: 'left' }}>{text(u, 'label', 110, false)}</td>
+                  <td style={styles.td}>{text(u, 'beds', 48)}</td>
+                  <td style={styles.td}>{text(u, 'baths', 48)}</td>
+                  <td style={styles.td}>{text(u, 'currentRent', 90)}</td>
+                  <td style={styles.td}>{text(u, 'marketRent', 90)}</td>
+                  <td style={styles.td}>
+                    <input
+                      type="date"
+                      value={u.leaseEnd}
+                      onChange={(e) => update({ ...u, leaseEnd: e.target.value })}
+                      style={{ ...styles.input, width: 140 }}
+                      aria-label="Lease end"
+                    />
+                  </td>
+                  <td style={styles.td}>
+                    <input type="checkbox" checked={u.voucher} onChange={(e) => update({ ...u, voucher: e.target.checked })} aria-label="Voucher tenant" />
+                  </td>
+                  <td style={styles.td}>
+                    <input type="checkbox" checked={u.vacant} onChange={(e) => update({ ...u, vacant: e.target.checked })} aria-label="Vacant" />
+                  </td>
+                  <td style={styles.td}>
+                    <button type="button" style={styles.ghostBtn} onClick={() => setUnits(units.filter((x) => x.id !== u.id))}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 12 }}>
+        <button type="button" style={styles.secondaryBtn} onClick={() => setUnits([...units, newUnit(`Unit ${units.length + 1}`)])}>
+          + Add unit
+        </button>
+        {units.length > 0 && (
+          <button type="button" style={styles.ghostBtn} onClick={() => setUnits([])}>
+            Clear rent roll
+          </button>
+        )}
+      </div>
+
+      {units.length > 0 && (
+        <div style={styles.breakdown}>
+          <div style={styles.breakdownTitle}>
+            {summary.units} units · {summary.occupied} occupied · {summary.vacant} vacant · {summary.voucherUnits} voucher
+          </div>
+          <Line label="In-place rent (occupied)" value={money2(summary.inPlace)} />
+          <Line label="Market rent (all units)" value={money2(summary.market)} />
+          <Line label="Loss to lease (occupied)" value={money2(summary.lossToLease)} />
+          <Line label="Vacant units at market" value={money2(summary.vacantAtMarket)} />
+          <Line label="Rent used in calculations" value={money(summary.gross)} />
+        </div>
+      )}
+
+      {units.length > 0 && (
+        <div style={styles.note}>
+          The rent roll replaces the rent inputs above. Vacant units are assumed to lease at market; the vacancy assumption still applies on top.
+        </div>
+      )}
+    </Card>
+  );
+}
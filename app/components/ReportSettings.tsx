@@ -0,0 +1,79 @@
+'use client';
+
+import React from 'react';
+
+import { FieldRow, styles } from './ui';
+import type { ReportBranding } from '@/lib/report';
+
+// Logos are kept in localStorage as data URLs, so keep them small.
+const MAX_LOGO_BYTES = 300_000;
+
+export default function ReportSettings({
+  title,
+  setTitle,
+  branding,
+  setBranding,
+  notify,
+}: {
+  title: string;
+  setTitle: (v: string) => void;
+  branding: ReportBranding;
+  setBranding: (next: ReportBranding) => void;
+  notify: (msg: string) => void;
+}) {
+  function loadLogo(file: File) {
+    if (!/^image\/(png|jpe?g)$/.test(file.type)) {
+      notify('Logo must be a PNG or JPEG image.');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      notify('Logo is too large (300 KB max).');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') setBranding({ ...branding, logo: reader.result });
+    };
+    reader.onerror = () => notify(`Could not read ${file.name}.`);
+    reader.readAsDataURL(file);
+  }
+
+  return (
+    <div style={styles.breakdown}>
+      <div style={styles.breakdownTitle}>PDF report</div>
+      <FieldRow label="Report title" hint="Blank = the property address" value={title} setValue={setTitle} placeholder="e.g. 12 Oak St, Springfield" inputMode="text" />
+      <FieldRow
+        label="Prepared by"
+        hint="Saved in this browser"
+        value={branding.preparedBy}
+        setValue={(v) => setBranding({ ...branding, preparedBy: v })}
+        inputMode="text"
+      />
+      <FieldRow label="Company" value={branding.company} setValue={(v) => setBranding({ ...branding, company: v })} inputMode="text" />
+      <div style={{ display: 'flex', gap: 10, alignItems: 'center', marginTop: 8 }}>
+        <label style={{ ...styles.ghostBtn, display: 'inline-block' }}>
+          {branding.logo ? 'Replace logo' : 'Add logo'}
+          <input
+            type="file"
+            accept="image/png,image/jpeg"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadLogo(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {branding.logo && (
+          <>
+            {/* eslint-disable-next-line @next/next/no-img-element -- data URL preview */}
+            <img src={branding.logo} alt="Report logo" style={{ height: 28, background: '#fff', borderRadius: 4, padding: 2 }} />
+            <button type="button" style={styles.ghostBtn} onClick={() => setBranding({ ...branding, logo: '' })}>
+              Remove
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
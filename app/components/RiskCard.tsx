@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+
+import { Card, KPI, styles } from './ui';
+import { money } from '@/lib/format';
+import type { DealForm } from '@/lib/dealForm';
+import type { RuleSet } from '@/lib/rules';
+import {
+  DEFAULT_RISK_INPUTS,
+  RISK_VARS,
+  SIMULATION_SIZES,
+  riskBaseValue,
+  type Distribution,
+  type DistributionKind,
+  type RiskInputs,
+  type RiskVar,
+  type SimulationMessage,
+  type SimulationResult,
+} from '@/lib/monteCarlo';
+
+const KINDS: { kind: DistributionKind; label: string }[] = [
+  { kind: 'fixed', label: 'Fixed' },
+  { kind: 'range', label: 'Range' },
+  { kind: 'triangle', label: 'Min / likely / max' },
+];
+
+function share(n: number) {
+  return `${(n * 100).toFixed(1)}%`;
+}
+
+export default function RiskCard({ form, ruleSet }: { form: DealForm; ruleSet: RuleSet }) {
+  const [inputs, setInputs] = useState<RiskInputs>(DEFAULT_RISK_INPUTS);
+  const [iterations, setIterations] = useState(2000);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  function setDist(key: RiskVar, patch: Partial<Distribution>) {
+    setInputs({ ...inputs, [key]: { ...inputs[key], ...patch } });
+  }
+
+  function run() {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../../lib/monteCarlo.worker.ts', import.meta.url));
+    workerRef.current = worker;
+    setProgress(0);
+    setError(null);
+
+    // A crashed or unreadable worker never posts 'done': stop it and say so.
+    const fail = (message: string) => {
+      worker.terminate();
+      workerRef.current = null;
+      setProgress(null);
+      setError(message);
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      fail(`The simulation stopped with an error${e.message ? `: ${e.message}` : ''}. Check the inputs and run it again.`);
+    };
+    worker.onmessageerror = () => fail('The simulation sent back a result that could not be read. Run it again.');
+    worker.onmessage = (e: MessageEvent<SimulationMessage>) => {
+      if (e.data.type === 'progress') {
+        setProgress(e.data.done);
+        return;
+      }
+      setResult(e.data.result);
+      setProgress(null);
+      worker.terminate();
+      workerRef.current = null;
+    };
+    worker.postMessage({ form, ruleSet, inputs, iterations, seed: Date.now() });
+  }
+
+  const uncertain = RISK_VARS.some((v) => inputs[v.key].kind !== 'fixed');
+  const span = result ? Math.max(1, ...result.bands.map((b) => Math.abs(b.value))) : 1;
+
+  return (
+    <Card title="Risk Simulation (Monte Carlo)" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={{ ...styles.th, textAlign: 'left' }}>Input</th>
+              <th style={{ ...styles.th, textAlign: 'left' }}>Distribution</th>
+              <th style={styles.th}>Min</th>
+              <th style={styles.th}>Likely</th>
+              <th style={styles.th}>Max</th>
+            </tr>
+          </thead>
+          <tbody>
+            {RISK_VARS.map((v) => {
+              const d = inputs[v.key];
+              const base = String(Math.round(riskBaseValue(form, v.key) * 100) / 100);
+              const cell = (field: 'min' | 'likely' | 'max', enabled: boolean) => (
+                <td style={styles.td}>
+                  {enabled ? (
+                    <input
+                      value={d[field]}
+                      onChange={(e) => setDist(v.key, { [field]: e.target.value })}
+                      placeholder={base}
+                      inputMode="decimal"
+                      style={{ ...styles.input, width: 90 }}
+                      aria-label={`${v.label} ${field}`}
+                    />
+                  ) : (
+                    <span style={styles.fieldHint}>—</span>
+                  )}
+                </td>
+              );
+              return (
+                <tr key={v.key}>
+                  <td style={{ ...styles.td, textAlign: 'left', fontWeight: 750 }}>
+                    {v.label} <span style={styles.fieldHint}>({base} {v.unit})</span>
+                  </td>
+                  <td style={{ ...styles.td, textAlign: 'left' }}>
+                    <div style={styles.segmented}>
+                      {KINDS.map((k) => (
+                        <button
+                          key={k.kind}
+                          type="button"
+                          onClick={() => setDist(v.key, { kind: k.kind })}
+                          style={{ ...styles.segBtn, ...(d.kind === k.kind ? styles.segBtnOn : null) }}
+                        >
+                          {k.label}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                  {cell('min', d.kind !== 'fixed')}
+                  {cell('likely', d.kind === 'triangle')}
+                  {cell('max', d.kind !== 'fixed')}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ ...styles.rowBetween, alignItems: 'center' }}>
+        <div style={styles.segmented}>
+          {SIMULATION_SIZES.map((n) => (
+            <button
+              key={n}
+              type="button"
+              onClick={() => setIterations(n)}
+              style={{ ...styles.segBtn, ...(n === iterations ? styles.segBtnOn : null) }}
+            >
+              {n.toLocaleString()} runs
+            </button>
+          ))}
+        </div>
+        <button type="button" style={styles.secondaryBtn} onClick={run} disabled={progress !== null || !uncertain}>
+          {progress !== null ? `Simulating… ${Math.round((progress / iterations) * 100)}%` : 'Run simulation'}
+        </button>
+      </div>
+
+      {!uncertain && <div style={styles.note}>Set at least one input to a range or min / likely / max to simulate.</div>}
+      {error && (
+        <div style={styles.note} role="alert">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div style={{ ...styles.kpiGrid, marginTop: 12 }}>
+            <KPI label="P(negative cash flow)" value={share(result.probNegativeCashFlow)} emphasis />
+            <KPI label={`P(DSCR < ${result.dscrThreshold.toFixed(2)})`} value={share(result.probDscrBelow)} emphasis />
+            <KPI label="P(GO under active rules)" value={share(result.probGo)} />
+            <KPI label="Simulated outcomes" value={result.iterations.toLocaleString()} />
+          </div>
+
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>Annual cash flow (year 1) percentiles</div>
+            {result.bands.map((b) => (
+              <div key={b.p} style={styles.tornadoRow}>
+                <div style={{ fontSize: 12 }}>
+                  P{b.p} <span style={styles.fieldHint}>{money(b.value)}</span>
+                </div>
+                <div style={styles.tornadoTrack}>
+                  <div
+                    style={{
+                      ...styles.tornadoBar,
+                      left: b.value < 0 ? `${50 - (Math.abs(b.value) / span) * 50}%` : '50%',
+                      width: `${(Math.abs(b.value) / span) * 50}%`,
+                      background: b.value < 0 ? 'rgba(239,68,68,0.55)' : 'rgba(34,197,94,0.55)',
+                    }}
+                  />
+                  <div style={{ ...styles.tornadoAxis, left: '50%' }} />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div style={styles.note}>
+            Results reflect the inputs at the time of the run. Each outcome runs the same calculation and “{ruleSet.name}” rules as the main verdict.
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import React from 'react';
+
+import { Card, styles } from './ui';
+import {
+  RULE_METRICS,
+  RULE_OPERATORS,
+  formatMetricValue,
+  newRule,
+  newRuleSet,
+  type Rule,
+  type RuleMetric,
+  type RuleOperator,
+  type RuleOutcome,
+  type RuleSet,
+} from '@/lib/rules';
+
+export default function RuleSetEditor({
+  ruleSets,
+  setRuleSets,
+  activeId,
+  setActiveId,
+  outcomes,
+}: {
+  ruleSets: RuleSet[];
+  setRuleSets: (next: RuleSet[]) => void;
+  activeId: string;
+  setActiveId: (id: string) => void;
+  outcomes: RuleOutcome[];
+}) {
+  const active = ruleSets.find((s) => s.id === activeId) ?? ruleSets[0];
+
+  const updateSet = (next: RuleSet) => setRuleSets(ruleSets.map((s) => (s.id === next.id ? next : s)));
+  const updateRule = (next: Rule) => updateSet({ ...active, rules: active.rules.map((r) => (r.id === next.id ? next : r)) });
+
+  function addSet(from?: RuleSet) {
+    const created = newRuleSet(from ? `${from.name} (copy)` : 'New rule set', from);
+    setRuleSets([...ruleSets, created]);
+    setActiveId(created.id);
+  }
+
+  function deleteSet() {
+    if (ruleSets.length <= 1) return;
+    const rest = ruleSets.filter((s) => s.id !== active.id);
+    setRuleSets(rest);
+    setActiveId(rest[0].id);
+  }
+
+  return (
+    <Card title="Go / No-Go Rules" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        <select
+          value={active.id}
+          onChange={(e) => setActiveId(e.target.value)}
+          style={{ ...styles.input, width: 200 }}
+          aria-label="Active rule set"
+        >
+          {ruleSets.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        <input
+          value={active.name}
+          onChange={(e) => updateSet({ ...active, name: e.target.value })}
+          style={{ ...styles.input, width: 200 }}
+          aria-label="Rule set name"
+        />
+        <button type="button" style={styles.secondaryBtn} onClick={() => addSet()}>New set</button>
+        <button type="button" style={styles.secondaryBtn} onClick={() => addSet(active)}>Duplicate</button>
+        <button type="button" style={styles.ghostBtn} onClick={deleteSet} disabled={ruleSets.length <= 1}>Delete set</button>
+      </div>
+
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={{ ...styles.th, textAlign: 'left' }}>Metric</th>
+              <th style={styles.th}>Test</th>
+              <th style={styles.th}>Threshold</th>
+              <th style={styles.th}>Severity</th>
+              <th style={{ ...styles.th, textAlign: 'left' }}>Message when it fails</th>
+              <th style={styles.th}>Now</th>
+              <th style={styles.th} />
+            </tr>
+          </thead>
+          <tbody>
+            {active.rules.map((rule) => {
+              const outcome = outcomes.find((o) => o.rule.id === rule.id);
+              const unit = RULE_METRICS.find((m) => m.metric === rule.metric)?.unit;
+              return (
+                <tr key={rule.id}>
+                  <td style={{ ...styles.td, textAlign: 'left' }}>
+                    <select
+                      value={rule.metric}
+                      onChange={(e) => updateRule({ ...rule, metric: e.target.value as RuleMetric })}
+                      style={{ ...styles.input, width: 210 }}
+                    >
+                      {RULE_METRICS.map((m) => (
+                        <option key={m.metric} value={m.metric}>{m.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td style={styles.td}>
+                    <select
+                      value={rule.operator}
+                      onChange={(e) => updateRule({ ...rule, operator: e.target.value as RuleOperator })}
+                      style={{ ...styles.input, width: 64 }}
+                    >
+                      {RULE_OPERATORS.map((op) => (
+                        <option key={op} value={op}>{op}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td style={styles.td}>
+                    <input
+                      value={rule.threshold}
+                      onChange={(e) => updateRule({ ...rule, threshold: e.target.value })}
+                      inputMode="decimal"
+                      style={{ ...styles.input, width: 80 }}
+                    />
+                    <span style={{ ...styles.unit, display: 'inline-block', width: 20 }}>{unit}</span>
+                  </td>
+                  <td style={styles.td}>
+                    <select
+                      value={rule.severity}
+                      onChange={(e) => updateRule({ ...rule, severity: e.target.value === 'warning' ? 'warning' : 'blocker' })}
+                      style={{ ...styles.input, width: 100 }}
+                    >
+                      <option value="blocker">Blocker</option>
+                      <option value="warning">Warning</option>
+                    </select>
+                  </td>
+                  <td style={{ ...styles.td, textAlign: 'left' }}>
+                    <input
+                      value={rule.message}
+                      onChange={(e) => updateRule({ ...rule, message: e.target.value })}
+                      placeholder="Optional — {value}, {threshold}"
+                      style={{ ...styles.input, width: 260 }}
+                    />
+                  </td>
+                  <td style={styles.td}>
+                    {outcome ? `${formatMetricValue(rule.metric, outcome.value)} ` : ''}
+                    <RuleStatus status={outcome?.status ?? 'n/a'} />
+                  </td>
+                  <td style={styles.td}>
+                    <button
+                      type="button"
+                      style={styles.ghostBtn}
+                      onClick={() => updateSet({ ...active, rules: active.rules.filter((r) => r.id !== rule.id) })}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={styles.rowBetween}>
+        <button type="button" style={styles.secondaryBtn} onClick={() => updateSet({ ...active, rules: [...active.rules, newRule()] })}>
+          + Add rule
+        </button>
+      </div>
+
+      <div style={styles.note}>
+        Blockers decide the verdict; warnings are listed but never flip it. Rule sets are saved in this browser.
+      </div>
+    </Card>
+  );
+}
+
+export function RuleStatus({ status }: { status: RuleOutcome['status'] }) {
+  const color = status === 'pass' ? 'rgba(34,197,94,0.95)' : status === 'fail' ? 'rgba(239,68,68,0.95)' : 'rgba(255,255,255,0.55)';
+  return <span style={{ fontWeight: 800, color }}>{status === 'pass' ? 'PASS' : status === 'fail' ? 'FAIL' : 'N/A'}</span>;
+}
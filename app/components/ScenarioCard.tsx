@@ -0,0 +1,189 @@
+'use client';
+
+import React from 'react';
+
+import { Card, styles } from './ui';
+import { money2, pct } from '@/lib/format';
+import type { DealResult } from '@/lib/deal';
+import {
+  MAX_SCENARIOS,
+  SCENARIO_INPUTS,
+  SCENARIO_PRESETS,
+  SCENARIO_SHOCKS,
+  describeScenario,
+  newScenario,
+  type Scenario,
+  type ScenarioInput,
+} from '@/lib/scenarios';
+
+export type ScenarioRun = { id: string | null; name: string; result: DealResult }; // id null = base case
+
+export default function ScenarioCard({
+  scenarios,
+  setScenarios,
+  activeId,
+  setActiveId,
+  runs,
+}: {
+  scenarios: Scenario[];
+  setScenarios: (next: Scenario[]) => void;
+  activeId: string | null;
+  setActiveId: (id: string | null) => void;
+  runs: ScenarioRun[];
+}) {
+  const active = scenarios.find((s) => s.id === activeId) ?? null;
+  const update = (next: Scenario) => setScenarios(scenarios.map((s) => (s.id === next.id ? next : s)));
+  const unused = SCENARIO_INPUTS.filter((i) => active && active.overrides[i.key] === undefined);
+  const full = scenarios.length >= MAX_SCENARIOS;
+
+  function add(partial: Partial<Omit<Scenario, 'id'>>) {
+    const s = newScenario(partial);
+    setScenarios([...scenarios, s]);
+    setActiveId(s.id);
+  }
+
+  function remove(id: string) {
+    setScenarios(scenarios.filter((s) => s.id !== id));
+    setActiveId(null);
+  }
+
+  function setOverride(key: ScenarioInput, value: string | undefined) {
+    if (!active) return;
+    const overrides = { ...active.overrides };
+    if (value === undefined) delete overrides[key];
+    else overrides[key] = value;
+    update({ ...active, overrides });
+  }
+
+  return (
+    <Card title="Scenarios" style={{ marginTop: 16 }}>
+      <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+        {runs.map((r) => (
+          <button
+            key={r.id ?? 'base'}
+            type="button"
+            style={{ ...styles.segBtn, ...(r.id === activeId ? styles.segBtnOn : null) }}
+            onClick={() => setActiveId(r.id)}
+          >
+            {r.name} · {r.result.decision.isGo ? 'GO' : 'NO-GO'}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 12 }}>
+        <button type="button" style={styles.secondaryBtn} disabled={full} onClick={() => add({ name: `Scenario ${scenarios.length + 1}` })}>
+          + New scenario
+        </button>
+        {SCENARIO_PRESETS.filter((p) => !scenarios.some((s) => s.name === p.name)).map((p) => (
+          <button key={p.name} type="button" style={styles.ghostBtn} disabled={full} onClick={() => add(p)}>
+            + {p.name}
+          </button>
+        ))}
+      </div>
+
+      {active ? (
+        <div style={styles.breakdown}>
+          <div style={styles.rowBetween}>
+            <input
+              value={active.name}
+              onChange={(e) => update({ ...active, name: e.target.value })}
+              style={{ ...styles.input, width: 220, textAlign: 'left' }}
+              aria-label="Scenario name"
+            />
+            <div style={{ display: 'flex', gap: 8 }}>
+              <button type="button" style={styles.ghostBtn} disabled={full} onClick={() => add({ ...active, name: `${active.name} (copy)` })}>
+                Duplicate
+              </button>
+              <button type="button" style={styles.ghostBtn} onClick={() => remove(active.id)}>
+                Delete
+              </button>
+            </div>
+          </div>
+
+          <div style={{ ...styles.breakdownTitle, marginTop: 12 }}>Change vs. base</div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: 8 }}>
+            {SCENARIO_SHOCKS.map((s) => (
+              <label key={s.key} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+                <span style={{ color: 'rgba(255,255,255,0.72)', width: 62 }}>{s.label}</span>
+                <input
+                  value={active.shocks[s.key] ?? ''}
+                  onChange={(e) => update({ ...active, shocks: { ...active.shocks, [s.key]: e.target.value } })}
+                  placeholder="0"
+                  inputMode="decimal"
+                  style={{ ...styles.input, width: 64 }}
+                />
+                <span style={styles.unit}>{s.unit}</span>
+              </label>
+            ))}
+          </div>
+
+          <div style={{ ...styles.breakdownTitle, marginTop: 12 }}>Set outright</div>
+          {SCENARIO_INPUTS.filter((i) => active.overrides[i.key] !== undefined).map((i) => (
+            <div key={i.key} style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 6, fontSize: 12 }}>
+              <span style={{ width: 140, color: 'rgba(255,255,255,0.72)' }}>{i.label}</span>
+              <input
+                value={active.overrides[i.key] ?? ''}
+                onChange={(e) => setOverride(i.key, e.target.value)}
+                inputMode="decimal"
+                style={{ ...styles.input, width: 100 }}
+              />
+              <span style={styles.unit}>{i.unit}</span>
+              <button type="button" style={styles.ghostBtn} onClick={() => setOverride(i.key, undefined)}>
+                Remove
+              </button>
+            </div>
+          ))}
+          {unused.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && setOverride(e.target.value as ScenarioInput, '')}
+              style={{ ...styles.input, width: 200, marginTop: 8, textAlign: 'left' }}
+              aria-label="Add an input to override"
+            >
+              <option value="">+ Override an input…</option>
+              {unused.map((i) => (
+                <option key={i.key} value={i.key}>
+                  {i.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <div style={styles.note}>{describeScenario(active)}</div>
+        </div>
+      ) : (
+        <div style={styles.note}>
+          Showing the base case. Scenarios change only the inputs you pick and are saved with the deal, its share link and the PDF.
+        </div>
+      )}
+
+      {runs.length > 1 && (
+        <div style={styles.tableWrap}>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={{ ...styles.th, textAlign: 'left' }}>Scenario</th>
+                <th style={styles.th}>Verdict</th>
+                <th style={styles.th}>Cash flow</th>
+                <th style={styles.th}>DSCR</th>
+                <th style={styles.th}>Cap rate</th>
+                <th style={styles.th}>CoC</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(({ id, name, result: r }) => (
+                <tr key={id ?? 'base'} style={id === activeId ? styles.tdHighlight : undefined}>
+                  <td style={{ ...styles.td, textAlign: 'left' }}>{name}</td>
+                  <td style={{ ...styles.td, ...(r.decision.isGo ? styles.cellGo : styles.cellNoGo) }}>{r.decision.isGo ? 'GO' : 'NO-GO'}</td>
+                  <td style={styles.td}>{money2(r.netCashFlow)}</td>
+                  <td style={styles.td}>{Number.isFinite(r.dscr) ? r.dscr.toFixed(2) : '—'}</td>
+                  <td style={styles.td}>{pct(r.capRate)}</td>
+                  <td style={styles.td}>{pct(r.cashOnCash)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
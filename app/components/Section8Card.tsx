@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+import { Card, FieldRow, Line, styles, type Field } from './ui';
+import { money, money2, toNum } from '@/lib/format';
+import {
+  estimateVoucher,
+  loadPaymentStandards,
+  lookupPaymentStandard,
+  parsePaymentStandardCsv,
+  savePaymentStandards,
+  type PaymentStandardRow,
+  type Section8Form,
+} from '@/lib/section8';
+
+export default function Section8Card({
+  section8,
+  setSection8,
+  currentRent,
+  onApply,
+  notify,
+}: {
+  section8: Section8Form;
+  setSection8: (next: Section8Form) => void;
+  currentRent: number; // tenant portion + HAP as entered
+  onApply: (tenantPortion: number, hap: number) => void;
+  notify: (msg: string) => void;
+}) {
+  const [table, setTable] = useState<PaymentStandardRow[]>([]);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- localStorage is only readable after mount
+    setTable(loadPaymentStandards());
+  }, []);
+
+  async function importCsv(file: File) {
+    const { rows, skipped, error } = parsePaymentStandardCsv(await file.text());
+    if (error) {
+      notify(`Import failed: ${error}`);
+      return;
+    }
+    setTable(rows);
+    const saved = savePaymentStandards(rows);
+    notify(`Imported ${rows.length} payment standards${skipped ? ` (${skipped} rows skipped)` : ''}.${saved ? '' : ' Could not save them in this browser.'}`);
+  }
+
+  function clearTable() {
+    setTable([]);
+    savePaymentStandards([]);
+    notify('Payment standard table cleared.');
+  }
+
+  const set = (k: keyof Section8Form) => (v: string) => setSection8({ ...section8, [k]: v });
+  const looked = lookupPaymentStandard(table, section8.zip, Math.round(toNum(section8.bedrooms)));
+  const manual = section8.paymentStandard.trim();
+  const paymentStandard = manual ? toNum(manual) : looked;
+  const contractRent = section8.contractRent.trim() ? toNum(section8.contractRent) : currentRent;
+
+  const est = paymentStandard !== null
+    ? estimateVoucher({
+        paymentStandard,
+        utilityAllowance: toNum(section8.utilityAllowance),
+        annualAdjustedIncome: toNum(section8.annualAdjustedIncome),
+        contractRent,
+      })
+    : null;
+
+  const fields: Field[] = [
+    { label: 'ZIP code', value: section8.zip, setValue: set('zip'), inputMode: 'numeric' },
+    { label: 'Bedrooms', hint: 'Voucher / unit size used for the lookup.', value: section8.bedrooms, setValue: set('bedrooms'), right: 'BR', inputMode: 'numeric' },
+    {
+      label: 'Payment standard',
+      hint: looked !== null ? `Table: ${money(looked)}. Blank uses the table.` : 'Not found in the table — enter it manually.',
+      value: section8.paymentStandard,
+      setValue: set('paymentStandard'),
+      right: '$',
+      placeholder: looked !== null ? String(looked) : '',
+      inputMode: 'numeric',
+    },
+    { label: 'Utility allowance', hint: 'PHA allowance for tenant-paid utilities.', value: section8.utilityAllowance, setValue: set('utilityAllowance'), right: '$/mo', inputMode: 'numeric' },
+    { label: 'Tenant adjusted income', hint: 'Annual, after HUD deductions.', value: section8.annualAdjustedIncome, setValue: set('annualAdjustedIncome'), right: '$/yr', inputMode: 'numeric' },
+    { label: 'Contract rent', hint: 'Blank uses tenant portion + HAP above.', value: section8.contractRent, setValue: set('contractRent'), right: '$', placeholder: String(currentRent), inputMode: 'numeric' },
+  ];
+
+  return (
+    <Card title="Section 8 Payment Standard Helper" style={{ marginTop: 16 }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+            <label style={{ ...styles.secondaryBtn, display: 'inline-block' }}>
+              Import payment standards (CSV)
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void importCsv(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {table.length > 0 && (
+              <button type="button" style={styles.ghostBtn} onClick={clearTable}>
+                Clear table
+              </button>
+            )}
+          </div>
+          <div style={styles.fieldHint}>
+            {table.length
+              ? `${table.length} ZIP / bedroom standards loaded (${new Set(table.map((r) => r.zip)).size} ZIPs).`
+              : 'Columns: ZIP, Bedrooms, Payment standard — or ZIP, 0BR, 1BR, 2BR, …'}
+          </div>
+
+          {fields.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+        </div>
+
+        <div>
+          {est ? (
+            <>
+              <div style={styles.breakdown}>
+                <div style={styles.breakdownTitle}>Estimated voucher split</div>
+                <Line label="Payment standard" value={money2(est.paymentStandard)} />
+                <Line label="Gross rent (contract + utility allowance)" value={money2(est.grossRent)} />
+                <Line label="Tenant TTP (30% of adjusted income)" value={money2(est.ttp)} />
+                <Line label="HAP (paid by the housing authority)" value={money2(est.hap)} />
+                <Line label="Tenant portion (paid to owner)" value={money2(est.tenantPortion)} />
+                {est.utilityReimbursement > 0 && <Line label="Utility reimbursement to tenant" value={money2(est.utilityReimbursement)} />}
+                <Line label="Contract rent fully covered" value={money2(est.coveredContractRent)} />
+                <Line label="Max contract rent (40% cap at lease-up)" value={money2(est.maxContractRent)} />
+              </div>
+
+              {est.exceedsStandard && (
+                <div style={{ ...styles.note, color: 'rgba(254,202,202,0.98)' }}>
+                  Gross rent exceeds the payment standard by {money2(est.grossRent - est.paymentStandard)} — the tenant pays the difference and the PHA may find the rent unreasonable.
+                </div>
+              )}
+              {est.exceedsAffordability && (
+                <div style={{ ...styles.note, color: 'rgba(254,202,202,0.98)' }}>
+                  The family share is over 40% of adjusted income, so this rent cannot be approved at initial lease-up.
+                </div>
+              )}
+
+              <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 12 }}>
+                <button
+                  type="button"
+                  style={styles.secondaryBtn}
+                  onClick={() => {
+                    const hap = Math.round(est.hap);
+                    onApply(Math.max(0, Math.round(contractRent) - hap), hap);
+                    notify('Applied the estimated tenant portion and HAP.');
+                  }}
+                >
+                  Apply split to deal
+                </button>
+              </div>
+              <div style={styles.fieldHint}>Applies HAP and contract rent minus HAP as the tenant portion.</div>
+            </>
+          ) : (
+            <div style={styles.note}>Import a payment standard table or enter the payment standard to estimate the split.</div>
+          )}
+        </div>
+      </section>
+    </Card>
+  );
+}
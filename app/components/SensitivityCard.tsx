@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+
+import { Card, styles } from './ui';
+import { money2 } from '@/lib/format';
+import type { DealForm } from '@/lib/dealForm';
+import type { RuleSet } from '@/lib/rules';
+import { SENSITIVITY_VARS, tornado, twoWayTable, type SensitivityVar } from '@/lib/sensitivity';
+
+type Output = 'cashFlow' | 'dscr';
+
+function formatDscr(n: number) {
+  return Number.isFinite(n) ? n.toFixed(2) : '—';
+}
+
+export default function SensitivityCard({ form, ruleSet }: { form: DealForm; ruleSet: RuleSet }) {
+  const [rowVar, setRowVar] = useState<SensitivityVar>('price');
+  const [colVar, setColVar] = useState<SensitivityVar>('rate');
+  const [output, setOutput] = useState<Output>('cashFlow');
+
+  const table = useMemo(() => twoWayTable(form, ruleSet, rowVar, colVar), [form, ruleSet, rowVar, colVar]);
+  const ranking = useMemo(() => tornado(form, ruleSet), [form, ruleSet]);
+
+  // Bars are drawn relative to the base-case cash flow, scaled to the widest swing.
+  const span = Math.max(1, ...ranking.bars.flatMap((b) => [Math.abs(b.low - ranking.base), Math.abs(b.high - ranking.base)]));
+  const position = (v: number) => 50 + ((v - ranking.base) / span) * 50;
+
+  function varSelect(value: SensitivityVar, onChange: (v: SensitivityVar) => void, other: SensitivityVar, label: string) {
+    return (
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as SensitivityVar)}
+        style={{ ...styles.input, width: 180 }}
+        aria-label={label}
+      >
+        {SENSITIVITY_VARS.filter((v) => v.key !== other).map((v) => (
+          <option key={v.key} value={v.key}>{v.label}</option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <Card title="Sensitivity" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        <span style={{ fontSize: 12, color: 'rgba(255,255,255,0.72)' }}>Rows</span>
+        {varSelect(rowVar, setRowVar, colVar, 'Row input')}
+        <span style={{ fontSize: 12, color: 'rgba(255,255,255,0.72)' }}>× Columns</span>
+        {varSelect(colVar, setColVar, rowVar, 'Column input')}
+        <div style={styles.segmented}>
+          <button type="button" onClick={() => setOutput('cashFlow')} style={{ ...styles.segBtn, ...(output === 'cashFlow' ? styles.segBtnOn : null) }}>
+            Cash flow
+          </button>
+          <button type="button" onClick={() => setOutput('dscr')} style={{ ...styles.segBtn, ...(output === 'dscr' ? styles.segBtnOn : null) }}>
+            DSCR
+          </button>
+        </div>
+      </div>
+
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={{ ...styles.th, textAlign: 'left' }} />
+              {table.cols.map((c) => (
+                <th key={c.delta} style={styles.th}>{c.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row, i) => (
+              <tr key={row.delta}>
+                <td style={{ ...styles.td, textAlign: 'left', fontWeight: 750 }}>{row.label}</td>
+                {table.cells[i].map((cell, j) => (
+                  <td
+                    key={table.cols[j].delta}
+                    style={{
+                      ...styles.td,
+                      ...(cell.isGo ? styles.cellGo : styles.cellNoGo),
+                      ...(row.delta === 0 && table.cols[j].delta === 0 ? styles.cellBase : null),
+                    }}
+                  >
+                    {output === 'cashFlow' ? money2(cell.netCashFlow) : formatDscr(cell.dscr)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={styles.note}>
+        Green cells pass the “{ruleSet.name}” rules (GO), red cells fail them. The outlined cell is the current deal.
+      </div>
+
+      <div style={styles.divider} />
+
+      <div style={styles.breakdownTitle}>What moves monthly cash flow most</div>
+      {ranking.bars.map((b) => {
+        const lo = position(Math.min(b.low, b.high));
+        const hi = position(Math.max(b.low, b.high));
+        return (
+          <div key={b.key} style={styles.tornadoRow}>
+            <div>
+              <div style={{ fontSize: 12, fontWeight: 750 }}>{b.label}</div>
+              <div style={styles.fieldHint}>
+                {b.lowLabel} → {money2(b.low)} · {b.highLabel} → {money2(b.high)}
+              </div>
+            </div>
+            <div style={styles.tornadoTrack}>
+              <div style={{ ...styles.tornadoBar, left: `${lo}%`, width: `${Math.max(0, 50 - lo)}%`, background: 'rgba(239,68,68,0.55)' }} />
+              <div style={{ ...styles.tornadoBar, left: '50%', width: `${Math.max(0, hi - 50)}%`, background: 'rgba(34,197,94,0.55)' }} />
+              <div style={{ ...styles.tornadoAxis, left: '50%' }} />
+            </div>
+          </div>
+        );
+      })}
+      <div style={styles.note}>
+        Base case {money2(ranking.base)}/mo. Each input is moved on its own to its low and high case; red is downside, green upside.
+        Focus due diligence on the inputs at the top.
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, Line, styles, type Field } from './ui';
+import { money, money2 } from '@/lib/format';
+import type { StrForm, StrModel, StrMonth } from '@/lib/str';
+
+export default function StrCard({
+  strForm,
+  setStrForm,
+  model,
+  months,
+}: {
+  strForm: StrForm;
+  setStrForm: (next: StrForm) => void;
+  model: StrModel;
+  months: (StrMonth & { cashFlow: number })[];
+}) {
+  const set = (k: Exclude<keyof StrForm, 'occupancyPct'>) => (v: string) => setStrForm({ ...strForm, [k]: v });
+  const setOccupancy = (i: number, v: string) =>
+    setStrForm({ ...strForm, occupancyPct: strForm.occupancyPct.map((o, j) => (j === i ? v : o)) });
+
+  const fields: Field[] = [
+    { label: 'Average daily rate (ADR)', hint: 'Average nightly price.', value: strForm.adr, setValue: set('adr'), right: '$', inputMode: 'numeric' },
+    { label: 'Average stay', hint: 'Nights per booking (drives turnovers).', value: strForm.avgStayNights, setValue: set('avgStayNights'), right: 'nights', inputMode: 'decimal' },
+    { label: 'Cleaning fee', hint: 'Charged to the guest per stay.', value: strForm.cleaningFee, setValue: set('cleaningFee'), right: '$', inputMode: 'numeric' },
+    { label: 'Cleaning cost', hint: 'Paid to the cleaner per stay.', value: strForm.cleaningCost, setValue: set('cleaningCost'), right: '$', inputMode: 'numeric' },
+    { label: 'Platform fee', hint: 'Host fee, percent of booking revenue.', value: strForm.platformFeePct, setValue: set('platformFeePct'), right: '%', inputMode: 'decimal' },
+    { label: 'Supplies', hint: 'Toiletries, linens, consumables.', value: strForm.suppliesMonthly, setValue: set('suppliesMonthly'), right: '$/mo', inputMode: 'numeric' },
+    { label: 'Utilities', hint: 'All utilities, internet and streaming (replaces the utilities input).', value: strForm.utilitiesMonthly, setValue: set('utilitiesMonthly'), right: '$/mo', inputMode: 'numeric' },
+    { label: 'Furnishing & setup', hint: 'One-time; added to cash invested.', value: strForm.furnishingCost, setValue: set('furnishingCost'), right: '$', inputMode: 'numeric' },
+  ];
+
+  const negative = months.filter((m) => m.cashFlow < 0);
+
+  return (
+    <Card title="Short-Term Rental" style={{ marginTop: 16 }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          {fields.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+        </div>
+
+        <div>
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>Annual averages</div>
+            <Line label="Occupancy" value={`${(model.occupancy * 100).toFixed(1)}%`} />
+            <Line label="Revenue (monthly avg, incl. cleaning fees)" value={money2(model.avgRevenue)} />
+            <Line label="Platform fees (monthly avg)" value={money2(model.avgRevenue * model.platformRate)} />
+            <Line label="Cleaning costs (monthly avg)" value={money2(model.avgCleaningCosts)} />
+            <Line label="Furnishing & setup" value={money(model.furnishing)} />
+          </div>
+          <div style={styles.note}>
+            Revenue already reflects occupancy, so the vacancy assumption is not applied. Repairs, CapEx and management still apply as a percent of revenue.
+          </div>
+        </div>
+      </section>
+
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={{ ...styles.th, textAlign: 'left' }}>Month</th>
+              <th style={styles.th}>Occupancy %</th>
+              <th style={styles.th}>Nights</th>
+              <th style={styles.th}>Revenue</th>
+              <th style={styles.th}>Platform + cleaning</th>
+              <th style={styles.th}>Cash flow</th>
+            </tr>
+          </thead>
+          <tbody>
+            {months.map((m, i) => (
+              <tr key={m.month}>
+                <td style={{ ...styles.td, textAlign: 'left' }}>{m.month}</td>
+                <td style={styles.td}>
+                  <input
+                    value={strForm.occupancyPct[i]}
+                    onChange={(e) => setOccupancy(i, e.target.value)}
+                    inputMode="decimal"
+                    style={{ ...styles.input, width: 70, textAlign: 'right' }}
+                    aria-label={`${m.month} occupancy`}
+                  />
+                </td>
+                <td style={styles.td}>{m.nights.toFixed(1)}</td>
+                <td style={styles.td}>{money(m.revenue)}</td>
+                <td style={styles.td}>{money(m.platformFees + m.cleaningCosts)}</td>
+                <td style={{ ...styles.td, ...(m.cashFlow < 0 ? styles.cellWorst : null) }}>{money(m.cashFlow)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={styles.note}>
+        {negative.length
+          ? `Negative cash flow in ${negative.map((m) => m.month).join(', ')} (${money(negative.reduce((acc, m) => acc + m.cashFlow, 0))} total) — keep reserves for the slow season.`
+          : 'Cash flow is positive in every month.'}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import React from 'react';
+
+import { Card, FieldRow, KPI, Line, styles, type Field } from './ui';
+import { money, money2, pct } from '@/lib/format';
+import { PASSIVE_LOSS_MODES, type AfterTax, type TaxForm } from '@/lib/tax';
+
+export default function TaxCard({
+  tax,
+  setTax,
+  afterTax,
+}: {
+  tax: TaxForm;
+  setTax: (next: TaxForm) => void;
+  afterTax: AfterTax;
+}) {
+  const set = (k: Exclude<keyof TaxForm, 'passiveLoss'>) => (v: string) => setTax({ ...tax, [k]: v });
+  const { sale } = afterTax;
+  const first = afterTax.years[0];
+
+  const fields: Field[] = [
+    { label: 'Marginal tax rate', hint: 'Federal + state, on ordinary income.', value: tax.marginalRatePct, setValue: set('marginalRatePct'), right: '%', inputMode: 'decimal' },
+    { label: 'Land allocation', hint: 'Share of the cost basis that is land (not depreciable).', value: tax.landPct, setValue: set('landPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Cost segregation', hint: 'Share of the building reclassified to 5/7/15-year property.', value: tax.costSegPct, setValue: set('costSegPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Bonus depreciation', hint: 'Taken in year 1 on the cost-seg property.', value: tax.bonusPct, setValue: set('bonusPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Capital gains rate', hint: 'Applied to gain above depreciation recapture.', value: tax.capitalGainsPct, setValue: set('capitalGainsPct'), right: '%', inputMode: 'decimal' },
+  ];
+  if (tax.passiveLoss === 'allowance') {
+    fields.push({ label: 'Modified AGI', hint: 'Allowance phases out from $100k to $150k.', value: tax.magi, setValue: set('magi'), right: '$/yr', inputMode: 'numeric' });
+  }
+
+  return (
+    <Card title="After-Tax View" style={{ maxWidth: 1100, margin: '16px auto 0 auto' }}>
+      <section style={{ ...styles.grid2, margin: 0 }}>
+        <div>
+          <div style={{ ...styles.rowBetween, alignItems: 'center', marginTop: 0 }}>
+            <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.72)' }}>Passive losses</div>
+            <div style={styles.segmented}>
+              {PASSIVE_LOSS_MODES.map((m) => (
+                <button
+                  key={m.mode}
+                  type="button"
+                  onClick={() => setTax({ ...tax, passiveLoss: m.mode })}
+                  style={{ ...styles.segBtn, ...(tax.passiveLoss === m.mode ? styles.segBtnOn : null) }}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div style={styles.fieldHint}>{PASSIVE_LOSS_MODES.find((m) => m.mode === tax.passiveLoss)?.hint}</div>
+
+          {fields.map((f) => (
+            <FieldRow key={f.label} {...f} />
+          ))}
+        </div>
+
+        <div>
+          <div style={styles.kpiGrid}>
+            <KPI label="After-tax cash flow (yr 1)" value={money(first.afterTaxCashFlow)} emphasis />
+            <KPI label={`After-tax IRR (${sale.year}-yr hold)`} value={pct(afterTax.irr)} emphasis />
+            <KPI label="Depreciation (yr 1)" value={money(first.depreciation)} />
+            <KPI label={first.tax < 0 ? 'Tax savings (yr 1)' : 'Tax owed (yr 1)'} value={money(Math.abs(first.tax))} />
+          </div>
+
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>Depreciable basis</div>
+            <Line label="Land (not depreciable)" value={money2(afterTax.landValue)} />
+            <Line label="Building" value={money2(afterTax.buildingBasis)} />
+            <Line label="Short-life property (cost seg + furnishings)" value={money2(afterTax.shortLifeBasis)} />
+            <Line label="Bonus depreciation (yr 1)" value={money2(afterTax.bonusDepreciation)} />
+          </div>
+
+          <div style={styles.breakdown}>
+            <div style={styles.breakdownTitle}>Sale (end of year {sale.year})</div>
+            <Line label="Gain on sale" value={money2(sale.gain)} />
+            <Line label="Depreciation recapture tax" value={money2(-sale.recaptureTax)} />
+            <Line label={sale.gain < 0 ? 'Tax savings on loss' : 'Capital gains tax'} value={money2(-sale.capitalGainsTax)} />
+            {sale.releasedLossSavings > 0 && <Line label="Suspended losses released" value={money2(sale.releasedLossSavings)} />}
+            <Line label="After-tax sale proceeds" value={money2(sale.afterTaxProceeds)} />
+          </div>
+        </div>
+      </section>
+
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Year</th>
+              <th style={styles.th}>NOI</th>
+              <th style={styles.th}>Interest</th>
+              <th style={styles.th}>Depreciation</th>
+              <th style={styles.th}>Taxable income</th>
+              <th style={styles.th}>Tax (savings)</th>
+              <th style={styles.th}>After-tax CF</th>
+              <th style={styles.th}>After-tax return</th>
+              <th style={styles.th}>Suspended losses</th>
+            </tr>
+          </thead>
+          <tbody>
+            {afterTax.years.map((y) => (
+              <tr key={y.year}>
+                <td style={styles.td}>{y.year}</td>
+                <td style={styles.td}>{money(y.noi)}</td>
+                <td style={styles.td}>{money(-y.interest)}</td>
+                <td style={styles.td}>{money(-y.depreciation)}</td>
+                <td style={styles.td}>{money(y.taxableIncome)}</td>
+                <td style={styles.td}>{money(-y.tax)}</td>
+                <td style={styles.td}>{money(y.afterTaxCashFlow)}</td>
+                <td style={styles.td}>{pct(y.afterTaxReturn)}</td>
+                <td style={styles.td}>{money(y.suspendedLosses)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={styles.note}>
+        Basis is the purchase price plus closing costs and rehab. Depreciation uses full years (no mid-month convention); cost-seg property
+        not taken as bonus is spread over five years. Screening estimate only — confirm with a tax professional.
+      </div>
+    </Card>
+  );
+}
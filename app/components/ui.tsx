@@ -0,0 +1,393 @@
+'use client';
+
+import React from 'react';
+
+export type Field = {
+  label: string;
+  hint?: string;
+  value: string;
+  setValue: (v: string) => void;
+  right?: string;
+  placeholder?: string;
+  inputMode?: React.HTMLAttributes<HTMLInputElement>['inputMode'];
+};
+
+export function Card({
+  title,
+  children,
+  style,
+}: {
+  title: string;
+  children: React.ReactNode;
+  style?: React.CSSProperties;
+}) {
+  return (
+    <div style={{ ...styles.card, ...(style ?? {}) }}>
+      <div style={styles.cardTitle}>{title}</div>
+      <div>{children}</div>
+    </div>
+  );
+}
+
+export function FieldRow({ label, hint, value, setValue, right, placeholder, inputMode }: Field) {
+  return (
+    <label style={styles.fieldRow}>
+      <div style={styles.fieldLeft}>
+        <div style={styles.fieldLabel}>{label}</div>
+        {hint ? <div style={styles.fieldHint}>{hint}</div> : null}
+      </div>
+
+      <div style={styles.fieldRight}>
+        <input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={placeholder}
+          inputMode={inputMode ?? 'decimal'}
+          style={styles.input}
+        />
+        <div style={styles.unit}>{right}</div>
+      </div>
+    </label>
+  );
+}
+
+export function KPI({ label, value, emphasis }: { label: string; value: string; emphasis?: boolean }) {
+  return (
+    <div style={{ ...styles.kpi, ...(emphasis ? styles.kpiEmphasis : null) }}>
+      <div style={styles.kpiLabel}>{label}</div>
+      <div style={styles.kpiValue}>{value}</div>
+    </div>
+  );
+}
+
+export function Line({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={styles.line}>
+      <span style={styles.lineLabel}>{label}</span>
+      <span style={styles.lineValue}>{value}</span>
+    </div>
+  );
+}
+
+export const styles: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: '100vh',
+    background:
+      'radial-gradient(1200px 600px at 20% 0%, rgba(59,130,246,0.18), transparent 55%), radial-gradient(900px 500px at 80% 20%, rgba(34,197,94,0.14), transparent 55%), #0b1020',
+    color: 'rgba(255,255,255,0.92)',
+    padding: 20,
+    fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto',
+  },
+  header: {
+    maxWidth: 1100,
+    margin: '0 auto 18px auto',
+    display: 'flex',
+    gap: 14,
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+  },
+  h1: { fontSize: 26, fontWeight: 760, letterSpacing: 0.2 },
+  sub: { marginTop: 6, color: 'rgba(255,255,255,0.72)', maxWidth: 720 },
+
+  badge: {
+    display: 'inline-flex',
+    padding: '6px 10px',
+    borderRadius: 999,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.16)',
+    background: 'rgba(255,255,255,0.06)',
+    fontSize: 12,
+    letterSpacing: 0.2,
+  },
+
+  verdict: {
+    maxWidth: 1100,
+    margin: '0 auto 16px auto',
+    borderRadius: 16,
+    padding: 14,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    backdropFilter: 'blur(10px)',
+  },
+  verdictGo: {
+    borderColor: 'rgba(34,197,94,0.35)',
+    background: 'rgba(34,197,94,0.10)',
+  },
+  verdictNoGo: {
+    borderColor: 'rgba(239,68,68,0.35)',
+    background: 'rgba(239,68,68,0.10)',
+  },
+  verdictTop: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    flexWrap: 'wrap',
+  },
+  verdictTitle: { fontSize: 18, fontWeight: 800, letterSpacing: 0.2 },
+  primarySignals: { display: 'flex', gap: 10, flexWrap: 'wrap' },
+  signalPill: {
+    display: 'flex',
+    gap: 8,
+    alignItems: 'baseline',
+    padding: '6px 10px',
+    borderRadius: 999,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.16)',
+    background: 'rgba(0,0,0,0.18)',
+  },
+  signalKey: { fontSize: 12, color: 'rgba(255,255,255,0.72)' },
+  signalVal: { fontSize: 13, fontWeight: 800 },
+
+  whyBox: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopStyle: 'solid',
+    borderTopColor: 'rgba(255,255,255,0.10)',
+  },
+  whyTitle: { fontSize: 13, fontWeight: 800, marginBottom: 8 },
+  whyItem: { fontSize: 13, color: 'rgba(255,255,255,0.88)', marginTop: 4 },
+  warnTitle: { fontSize: 12, fontWeight: 800, color: 'rgba(255,255,255,0.80)', marginBottom: 6 },
+  warnItem: { fontSize: 12, color: 'rgba(255,255,255,0.72)', marginTop: 4 },
+  nextStep: { marginTop: 10, fontSize: 12.5, color: 'rgba(255,255,255,0.82)', fontWeight: 650 },
+  guardrail: { marginTop: 10, fontSize: 12, color: 'rgba(255,255,255,0.62)' },
+
+  grid2: {
+    maxWidth: 1100,
+    margin: '0 auto',
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))',
+    gap: 14,
+  },
+
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.14)',
+    background: 'rgba(255,255,255,0.06)',
+    padding: 14,
+    backdropFilter: 'blur(10px)',
+  },
+  cardTitle: {
+    fontSize: 13,
+    fontWeight: 800,
+    marginBottom: 10,
+    color: 'rgba(255,255,255,0.90)',
+  },
+
+  fieldRow: {
+    display: 'grid',
+    gridTemplateColumns: '1fr auto',
+    gap: 12,
+    padding: '10px 0',
+    borderBottomWidth: 1,
+    borderBottomStyle: 'solid',
+    borderBottomColor: 'rgba(255,255,255,0.08)',
+  },
+  fieldLeft: {},
+  fieldLabel: { fontSize: 13, fontWeight: 650 },
+  fieldHint: { marginTop: 4, fontSize: 12, color: 'rgba(255,255,255,0.60)' },
+
+  fieldRight: { display: 'flex', gap: 8, alignItems: 'center' },
+  input: {
+    width: 120,
+    padding: '8px 10px',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.18)',
+    background: 'rgba(0,0,0,0.20)',
+    color: 'rgba(255,255,255,0.92)',
+    outline: 'none',
+  },
+  unit: { width: 32, fontSize: 12, color: 'rgba(255,255,255,0.65)', textAlign: 'right' },
+
+  divider: {
+    height: 1,
+    background: 'rgba(255,255,255,0.10)',
+    margin: '12px 0',
+  },
+
+  inlineToggleRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+
+  toggleWrap: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: 10,
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.85)',
+  },
+  toggle: {
+    position: 'relative',
+    width: 46,
+    height: 24,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.18)',
+    cursor: 'pointer',
+    padding: 0,
+    transition: 'background 0.25s ease',
+    background: 'rgba(255,255,255,0.12)',
+  },
+  toggleOn: {
+    background: 'linear-gradient(135deg, #22c55e, #16a34a)',
+    borderColor: 'rgba(34,197,94,0.60)',
+  },
+  toggleOff: {
+    background: 'rgba(255,255,255,0.12)',
+  },
+  toggleKnob: {
+    position: 'absolute',
+    top: 2,
+    left: 2,
+    width: 18,
+    height: 18,
+    borderRadius: '50%',
+    background: '#ffffff',
+    transition: 'transform 0.25s ease',
+  },
+
+  kpiGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(190px, 1fr))',
+    gap: 10,
+  },
+  kpi: {
+    padding: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.12)',
+    background: 'rgba(0,0,0,0.16)',
+  },
+  kpiEmphasis: {
+    borderColor: 'rgba(255,255,255,0.22)',
+    background: 'rgba(0,0,0,0.22)',
+  },
+  kpiLabel: { fontSize: 12, color: 'rgba(255,255,255,0.70)' },
+  kpiValue: { marginTop: 6, fontSize: 16, fontWeight: 850 },
+
+  rowBetween: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: 10,
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  secondaryBtn: {
+    padding: '9px 12px',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.18)',
+    background: 'rgba(255,255,255,0.08)',
+    color: 'rgba(255,255,255,0.92)',
+    cursor: 'pointer',
+  },
+  ghostBtn: {
+    padding: '9px 12px',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.12)',
+    background: 'transparent',
+    color: 'rgba(255,255,255,0.80)',
+    cursor: 'pointer',
+  },
+
+  breakdown: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.12)',
+    background: 'rgba(0,0,0,0.16)',
+  },
+  breakdownTitle: { fontSize: 12, fontWeight: 850, marginBottom: 8, color: 'rgba(255,255,255,0.82)' },
+
+  line: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: 10,
+    padding: '8px 0',
+    borderBottomWidth: 1,
+    borderBottomStyle: 'solid',
+    borderBottomColor: 'rgba(255,255,255,0.08)',
+  },
+  lineLabel: { fontSize: 12, color: 'rgba(255,255,255,0.70)' },
+  lineValue: { fontSize: 12, fontWeight: 750 },
+
+  note: { marginTop: 12, fontSize: 12, color: 'rgba(255,255,255,0.62)' },
+
+  segmented: { display: 'inline-flex', gap: 6 },
+  segBtn: {
+    padding: '5px 10px',
+    borderRadius: 999,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.14)',
+    background: 'transparent',
+    color: 'rgba(255,255,255,0.75)',
+    fontSize: 12,
+    cursor: 'pointer',
+  },
+  segBtnOn: {
+    borderColor: 'rgba(59,130,246,0.60)',
+    background: 'rgba(59,130,246,0.20)',
+    color: 'rgba(255,255,255,0.95)',
+  },
+
+  tableWrap: {
+    marginTop: 12,
+    overflowX: 'auto',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: 'rgba(255,255,255,0.12)',
+    background: 'rgba(0,0,0,0.16)',
+  },
+  table: { width: '100%', borderCollapse: 'collapse', fontSize: 12 },
+  th: {
+    textAlign: 'right',
+    padding: '8px 10px',
+    fontWeight: 750,
+    color: 'rgba(255,255,255,0.70)',
+    whiteSpace: 'nowrap',
+    borderBottomWidth: 1,
+    borderBottomStyle: 'solid',
+    borderBottomColor: 'rgba(255,255,255,0.12)',
+  },
+  td: {
+    textAlign: 'right',
+    padding: '6px 10px',
+    whiteSpace: 'nowrap',
+    borderBottomWidth: 1,
+    borderBottomStyle: 'solid',
+    borderBottomColor: 'rgba(255,255,255,0.06)',
+  },
+  tdHighlight: { background: 'rgba(59,130,246,0.12)' },
+  cellBest: { background: 'rgba(34,197,94,0.16)', color: 'rgba(187,247,208,0.98)', fontWeight: 800 },
+  cellWorst: { background: 'rgba(239,68,68,0.14)', color: 'rgba(254,202,202,0.98)' },
+  cellGo: { background: 'rgba(34,197,94,0.14)', color: 'rgba(187,247,208,0.98)' },
+  cellNoGo: { background: 'rgba(239,68,68,0.12)', color: 'rgba(254,202,202,0.98)' },
+  cellBase: { outline: '2px solid rgba(59,130,246,0.70)', outlineOffset: -2, fontWeight: 800 },
+
+  tornadoRow: { display: 'grid', gridTemplateColumns: '150px 1fr', gap: 10, alignItems: 'center', marginTop: 8 },
+  tornadoTrack: { position: 'relative', height: 22, borderRadius: 6, background: 'rgba(255,255,255,0.04)' },
+  tornadoBar: { position: 'absolute', top: 3, bottom: 3, borderRadius: 4 },
+  tornadoAxis: { position: 'absolute', top: 0, bottom: 0, width: 1, background: 'rgba(255,255,255,0.45)' },
+};
@@ -1,212 +1,74 @@
 'use client';
 
 import React, { useEffect, useMemo, useState } from 'react';
-import jsPDF from 'jspdf';
-
-type Field = {
-  label: string;
-  hint?: string;
-  value: string;
-  setValue: (v: string) => void;
-  right?: string;
-  inputMode?: React.HTMLAttributes<HTMLInputElement>['inputMode'];
-};
-
-function clamp(n: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, n));
-}
-function toNum(v: string) {
-  const x = Number(String(v).replace(/[^0-9.\-]/g, ''));
-  return Number.isFinite(x) ? x : 0;
-}
-function money(n: number) {
-  if (!Number.isFinite(n)) return '—';
-  return n.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
-}
-function money2(n: number) {
-  if (!Number.isFinite(n)) return '—';
-  return n.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
-}
-function pct(n: number) {
-  if (!Number.isFinite(n)) return '—';
-  return `${(n * 100).toFixed(2)}%`;
-}
-
-function monthlyMortgagePayment(principal: number, annualRatePct: number, years: number) {
-  const r = (annualRatePct / 100) / 12;
-  const n = Math.max(1, Math.round(years * 12));
-  if (principal <= 0) return 0;
-  if (r <= 0) return principal / n;
-  return principal * (r * Math.pow(1 + r, n)) / (Math.pow(1 + r, n) - 1);
-}
-
-function scoreDecision(args: {
-  netCashFlow: number;
-  dscr: number;
-  cashOnCash: number;
-  breakEvenRent: number;
-  effectiveIncome: number;
-  grossIncome: number;
-  mortgagePI: number;
-}) {
-  const dscrMin = 1.2; // “screening” guardrail (not underwriting)
-  const cocMin = 0.08;
-
-  const reasons: string[] = [];
-  const warnings: string[] = [];
-
-  if (args.netCashFlow < 0) reasons.push(`Cash flow is negative (${money2(args.netCashFlow)}/mo).`);
-  if (args.dscr < dscrMin) reasons.push(`DSCR is below ${dscrMin.toFixed(2)} (currently ${args.dscr.toFixed(2)}).`);
-
-  if (args.cashOnCash < cocMin) warnings.push(`Cash-on-cash is under ${(cocMin * 100).toFixed(0)}% (${pct(args.cashOnCash)}).`);
-  if (args.breakEvenRent > args.grossIncome) warnings.push(`Break-even rent is above your gross rent input.`);
 
-  const isGo = args.netCashFlow >= 0 && args.dscr >= dscrMin;
-
-  const primarySignals = [
-    { k: 'Cash flow (monthly)', v: money2(args.netCashFlow) },
-    { k: 'DSCR', v: Number.isFinite(args.dscr) ? args.dscr.toFixed(2) : '—' },
-  ];
-
-  const nextStep = isGo
-    ? 'Next: verify rent comps + taxes/insurance + vacancy; then do full underwriting.'
-    : 'Next: adjust price/down payment/rent/expenses until cash flow and DSCR clear the threshold.';
-
-  return { isGo, reasons, warnings, primarySignals, nextStep, dscrMin, cocMin };
-}
+import { Card, FieldRow, KPI, Line, styles, type Field } from './components/ui';
+import { money, money2, pct, toNum } from '@/lib/format';
+import { computeDeal } from '@/lib/deal';
+import { DEFAULT_FORM, incomeModeLabel, type DealForm } from '@/lib/dealForm';
+import { toSummary } from '@/lib/dealLibrary';
+import { downloadBlob, downloadText, toCsv } from '@/lib/csv';
+import { dealCsvRows, dealWorkbook, parseDealFile, toDealFile } from '@/lib/dealFile';
+import { EMPTY_OFFER_TARGETS, resolveTargets, ruleTargets, solveOffer, type OfferTargets } from '@/lib/offer';
+import { DEFAULT_LENDER_SETTINGS, loadLenderSettings, qualify, saveLenderSettings, type LenderSettings } from '@/lib/lenders';
+import { itemizeFlatExpenses } from '@/lib/opex';
+import { buildProForma } from '@/lib/proforma';
+import { describeProperty, propertyMetrics, type PropertyPhoto } from '@/lib/property';
+import { DEFAULT_RULE_SET, addIncomingRuleSet, describeRule, formatMetricValue, loadRuleSets, saveRuleSets, type RuleSet } from '@/lib/rules';
+import { DEFAULT_BRANDING, buildDealReport, loadBranding, saveBranding, type ReportBranding } from '@/lib/report';
+import { applyScenario, describeScenario } from '@/lib/scenarios';
+import { decodeShareParams, encodeShareParams } from '@/lib/shareLink';
+import { computeAfterTax } from '@/lib/tax';
+import { writeXlsx } from '@/lib/xlsx';
+import AmortizationTable from './components/AmortizationTable';
+import BrrrrCard from './components/BrrrrCard';
+import BulkImportCard from './components/BulkImportCard';
+import CashToCloseCard from './components/CashToCloseCard';
+import ComparisonCard from './components/ComparisonCard';
+import DealLibrary from './components/DealLibrary';
+import LenderCard from './components/LenderCard';
+import LienList, { LoanTermsFields } from './components/LoanStack';
+import OfferSolverCard from './components/OfferSolverCard';
+import OpexCard from './components/OpexCard';
+import ProFormaCard from './components/ProFormaCard';
+import PropertyCard from './components/PropertyCard';
+import RentRollCard from './components/RentRollCard';
+import ReportSettings from './components/ReportSettings';
+import RiskCard from './components/RiskCard';
+import RuleSetEditor, { RuleStatus } from './components/RuleSetEditor';
+import ScenarioCard, { type ScenarioRun } from './components/ScenarioCard';
+import Section8Card from './components/Section8Card';
+import SensitivityCard from './components/SensitivityCard';
+import StrCard from './components/StrCard';
+import TaxCard from './components/TaxCard';
+
+const INCOME_MODES: { label: string; section8Mode: boolean; strMode: boolean }[] = [
+  { label: 'Standard', section8Mode: false, strMode: false },
+  { label: 'Section 8', section8Mode: true, strMode: false },
+  { label: 'Short-term', section8Mode: false, strMode: true },
+];
 
 export default function Home() {
-  // ---- Mode ----
-  const [section8Mode, setSection8Mode] = useState(false);
-
-  // ---- Purchase & financing ----
-  const [purchasePrice, setPurchasePrice] = useState('500000');
-  const [downPct, setDownPct] = useState('25');
-  const [ratePct, setRatePct] = useState('6.75');
-  const [termYears, setTermYears] = useState('30');
-  const [closingCosts, setClosingCosts] = useState('0');
-
-  // ---- Income ----
-  const [monthlyRent, setMonthlyRent] = useState('4000'); // Standard rent input
-  const [tenantPortionMonthly, setTenantPortionMonthly] = useState('800'); // Section 8 tenant portion
-  const [hapMonthly, setHapMonthly] = useState('3200'); // Section 8 housing assistance payment
-  const [otherIncome, setOtherIncome] = useState('0');
-
-  // ---- Fixed costs ----
-  const [taxesMonthly, setTaxesMonthly] = useState('520');
-  const [insuranceMonthly, setInsuranceMonthly] = useState('140');
-  const [hoaMonthly, setHoaMonthly] = useState('0');
-  const [utilitiesMonthly, setUtilitiesMonthly] = useState('0');
-
-  // ---- Assumptions (percent of rent/income) ----
-  const [vacancyPct, setVacancyPct] = useState('5');
-  const [repairsPct, setRepairsPct] = useState('5');
-  const [capexPct, setCapexPct] = useState('5');
-  const [mgmtPct, setMgmtPct] = useState('8');
-
-  // ---- Section 8 guardrail reserve (simple) ----
-  const [inspectionReserveMonthly, setInspectionReserveMonthly] = useState('0');
-
-  // ---- UI ----
-  const [toast, setToast] = useState<string | null>(null);
-  const [showBreakdown, setShowBreakdown] = useState(false);
-
-  // Compute “rent used in calculations”
-  const computedRent = useMemo(() => {
-    const std = Math.max(0, toNum(monthlyRent));
-    if (!section8Mode) return std;
-    const tenant = Math.max(0, toNum(tenantPortionMonthly));
-    const hap = Math.max(0, toNum(hapMonthly));
-    return tenant + hap;
-  }, [section8Mode, monthlyRent, tenantPortionMonthly, hapMonthly]);
-
-  // Main results
-  const result = useMemo(() => {
-    const price = Math.max(0, toNum(purchasePrice));
-    const down = clamp(toNum(downPct), 0, 100) / 100;
-    const rate = clamp(toNum(ratePct), 0, 100);
-    const years = Math.max(1, Math.round(toNum(termYears)));
-    const close = Math.max(0, toNum(closingCosts));
-
-    const rent = Math.max(0, computedRent);
-    const other = Math.max(0, toNum(otherIncome));
-
-    const taxes = Math.max(0, toNum(taxesMonthly));
-    const ins = Math.max(0, toNum(insuranceMonthly));
-    const hoa = Math.max(0, toNum(hoaMonthly));
-    const utils = Math.max(0, toNum(utilitiesMonthly));
-
-    const vacancy = clamp(toNum(vacancyPct), 0, 80) / 100;
-    const repairs = clamp(toNum(repairsPct), 0, 80) / 100;
-    const capex = clamp(toNum(capexPct), 0, 80) / 100;
-    const mgmt = clamp(toNum(mgmtPct), 0, 30) / 100;
-
-    const s8Reserve = section8Mode ? Math.max(0, toNum(inspectionReserveMonthly)) : 0;
-
-    const downPayment = price * down;
-    const loan = Math.max(0, price - downPayment);
-    const mortgagePI = monthlyMortgagePayment(loan, rate, years);
-
-    const grossIncome = rent + other;
-    const effectiveRent = rent * (1 - vacancy);
-    const effectiveIncome = effectiveRent + other;
-
-    const percentCosts = rent * (repairs + capex + mgmt); // percent-of-rent style (screening)
-    const fixedCostsNoDebt = taxes + ins + hoa + utils + s8Reserve;
-    const totalExpenses = fixedCostsNoDebt + percentCosts + mortgagePI;
-
-    const noiMonthly = effectiveIncome - (fixedCostsNoDebt + percentCosts); // NOI excludes debt
-    const netCashFlow = noiMonthly - mortgagePI;
-
-    const capRate = price > 0 ? (noiMonthly * 12) / price : NaN;
-    const cashInvested = downPayment + close;
-    const cashOnCash = cashInvested > 0 ? (netCashFlow * 12) / cashInvested : NaN;
-
-    const dscr = mortgagePI > 0 ? (noiMonthly / mortgagePI) : (noiMonthly > 0 ? Infinity : NaN);
-
-    // Break-even rent for cash flow ~= 0 (simple): solve rent so NOI == PI
-    // NOI = (rent*(1-vacancy) + other) - fixed - rent*(rep+capex+mgmt)
-    // Set NOI - PI = 0 => rent*(1-vacancy - rep-capex-mgmt) + other - fixed - PI = 0
-    const coeff = (1 - vacancy) - (repairs + capex + mgmt);
-    const breakEvenRent = coeff !== 0 ? (fixedCostsNoDebt + mortgagePI - other) / coeff : Infinity;
-
-    const decision = scoreDecision({
-      netCashFlow,
-      dscr,
-      cashOnCash,
-      breakEvenRent,
-      effectiveIncome,
-      grossIncome,
-      mortgagePI,
-    });
-
-    return {
-      price,
-      loan,
-      downPayment,
-      cashInvested,
-      mortgagePI,
-      grossIncome,
-      effectiveIncome,
-      fixedCostsNoDebt,
-      percentCosts,
-      totalExpenses,
-      noiMonthly,
-      netCashFlow,
-      capRate,
-      cashOnCash,
-      dscr,
-      breakEvenRent,
-      decision,
-    };
-  }, [
+  // ---- Deal inputs (see DealForm for the full list) ----
+  const [form, setForm] = useState<DealForm>(DEFAULT_FORM);
+  const setField = <K extends keyof DealForm>(key: K) => (value: DealForm[K]) => setForm((f) => ({ ...f, [key]: value }));
+  const {
+    section8Mode,
+    strMode,
+    brrrrMode,
     purchasePrice,
     downPct,
     ratePct,
     termYears,
     closingCosts,
-    computedRent,
+    extraPrincipalMonthly,
+    loanTerms,
+    liens,
+    monthlyRent,
+    tenantPortionMonthly,
+    hapMonthly,
     otherIncome,
+    units,
     taxesMonthly,
     insuranceMonthly,
     hoaMonthly,
@@ -215,9 +77,151 @@ export default function Home() {
     repairsPct,
     capexPct,
     mgmtPct,
-    section8Mode,
     inspectionReserveMonthly,
-  ]);
+    section8,
+    rentGrowthPct,
+    expenseGrowthPct,
+    appreciationPct,
+    holdYears,
+    sellingCostPct,
+    exitCapPct,
+    brrrr,
+    str,
+    tax,
+    opex,
+    cashToClose,
+    scenarios,
+  } = form;
+
+  // ---- Scenarios (null = base case); results below use the active scenario's inputs ----
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const activeScenario = scenarios.find((s) => s.id === activeScenarioId) ?? null;
+  const scenarioForm = useMemo(() => applyScenario(form, activeScenario), [form, activeScenario]);
+
+  // ---- Property photos (kept with saved deals in this browser, never in links or files) ----
+  const [photos, setPhotos] = useState<PropertyPhoto[]>([]);
+
+  // ---- Pro forma view ----
+  const [projectionYears, setProjectionYears] = useState(10);
+
+  // ---- Go / No-Go rules ----
+  const [ruleSets, setRuleSets] = useState<RuleSet[]>([DEFAULT_RULE_SET]);
+  const [activeRuleSetId, setActiveRuleSetId] = useState(DEFAULT_RULE_SET.id);
+  const [ruleSetsLoaded, setRuleSetsLoaded] = useState(false);
+  const activeRuleSet = ruleSets.find((s) => s.id === activeRuleSetId) ?? ruleSets[0];
+
+  // ---- Lender qualification (profiles describe lenders, so they live outside the deal) ----
+  const [lenders, setLenders] = useState<LenderSettings>(DEFAULT_LENDER_SETTINGS);
+  const [lendersLoaded, setLendersLoaded] = useState(false);
+
+  // ---- Max offer solver (blank targets follow the active rule set) ----
+  const [offerTargets, setOfferTargets] = useState<OfferTargets>(EMPTY_OFFER_TARGETS);
+
+  // ---- PDF report ----
+  const [reportTitle, setReportTitle] = useState('');
+  const [branding, setBranding] = useState<ReportBranding>(DEFAULT_BRANDING);
+
+  // ---- UI ----
+  const [toast, setToast] = useState<string | null>(null);
+  const [shareNotices, setShareNotices] = useState<string[]>([]);
+  const [showBreakdown, setShowBreakdown] = useState(false);
+  const [showAmortization, setShowAmortization] = useState(false);
+
+  // Main results
+  const result = useMemo(() => computeDeal(scenarioForm, activeRuleSet), [scenarioForm, activeRuleSet]);
+  // The base inputs' own result: files and saved deals store `form`, so they carry these numbers.
+  const baseResult = useMemo(() => (activeScenario ? computeDeal(form, activeRuleSet) : result), [activeScenario, form, activeRuleSet, result]);
+  const computedRent = result.rent;
+  const property = useMemo(() => propertyMetrics(form.property, result), [form.property, result]);
+  const propertyLine = describeProperty(form.property, property.units);
+  // Reports and files are titled by the report title, else the property address.
+  const reportName = reportTitle.trim() || form.property.address.trim();
+
+  const proForma = useMemo(() => {
+    return buildProForma(
+      {
+        price: result.propertyValue,
+        cashInvested: result.cashInvested,
+        debtSchedule: result.amortizationYears,
+        rentMonthly: result.rent,
+        otherIncomeMonthly: result.other,
+        fixedCostsMonthly: result.fixedCostsNoDebt,
+        vacancy: result.vacancy,
+        percentCostRate: result.percentCostRate,
+        rentGrowthPct: toNum(scenarioForm.rentGrowthPct),
+        expenseGrowthPct: toNum(scenarioForm.expenseGrowthPct),
+        appreciationPct: toNum(scenarioForm.appreciationPct),
+        holdYears: toNum(scenarioForm.holdYears),
+        sellingCostPct: toNum(scenarioForm.sellingCostPct),
+        exitCapPct: toNum(scenarioForm.exitCapPct),
+      },
+      projectionYears,
+    );
+  }, [result, scenarioForm, projectionYears]);
+
+  const afterTax = useMemo(
+    () =>
+      computeAfterTax(tax, {
+        costBasis: result.price + result.close - (result.cashToClose?.prepaids ?? 0) + (result.refi?.rehabTotal ?? 0),
+        furnishing: result.startupCash,
+        cashInvested: result.cashInvested,
+        debtSchedule: result.amortizationYears,
+        proForma,
+      }),
+    [tax, result, proForma],
+  );
+
+  const offer = useMemo(
+    () => solveOffer(scenarioForm, activeRuleSet, resolveTargets(activeRuleSet, offerTargets)),
+    [scenarioForm, activeRuleSet, offerTargets],
+  );
+
+  const qualifications = useMemo(
+    () => lenders.profiles.map((p) => qualify(p, result, toNum(lenders.cashAvailable))),
+    [lenders, result],
+  );
+
+  // Every scenario's verdict at once (banner, scenario table, PDF).
+  const scenarioRuns = useMemo<ScenarioRun[]>(
+    () => [
+      { id: null, name: 'Base', result: baseResult },
+      ...scenarios.map((s) => ({ id: s.id, name: s.name, result: s.id === activeScenario?.id ? result : computeDeal(applyScenario(form, s), activeRuleSet) })),
+    ],
+    [form, scenarios, activeScenario, activeRuleSet, result, baseResult],
+  );
+
+  // Rule sets live in localStorage; load once, then persist every edit.
+  useEffect(() => {
+    const stored = loadRuleSets();
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- localStorage is only readable after mount
+    setRuleSets(stored.sets);
+    setActiveRuleSetId(stored.activeId);
+    setRuleSetsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (ruleSetsLoaded) saveRuleSets(ruleSets, activeRuleSetId);
+  }, [ruleSetsLoaded, ruleSets, activeRuleSetId]);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- localStorage is only readable after mount
+    setLenders(loadLenderSettings());
+    setLendersLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (lendersLoaded) saveLenderSettings(lenders);
+  }, [lendersLoaded, lenders]);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- localStorage is only readable after mount
+    setBranding(loadBranding());
+  }, []);
+
+  function updateBranding(next: ReportBranding) {
+    setBranding(next);
+    if (!saveBranding(next)) setToast('Could not save report branding in this browser.');
+  }
 
   useEffect(() => {
     if (!toast) return;
@@ -226,158 +230,161 @@ export default function Home() {
   }, [toast]);
 
   function exportPdf() {
-    const doc = new jsPDF();
-    const lines: string[] = [];
-
-    lines.push(`Deal QuickCheck (${section8Mode ? 'Section 8' : 'Standard'})`);
-    lines.push(`Price: ${money(result.price)} | Loan: ${money(result.loan)} | Cash invested: ${money(result.cashInvested)}`);
-    lines.push(``);
-    lines.push(`PRIMARY SIGNALS`);
-    lines.push(`Cash flow (mo): ${money2(result.netCashFlow)}`);
-    lines.push(`DSCR: ${Number.isFinite(result.dscr) ? result.dscr.toFixed(2) : '—'}`);
-    lines.push(``);
-    lines.push(`KEY METRICS`);
-    lines.push(`NOI (mo): ${money2(result.noiMonthly)}`);
-    lines.push(`Cap rate: ${pct(result.capRate)}`);
-    lines.push(`Cash-on-cash: ${pct(result.cashOnCash)}`);
-    lines.push(`Break-even rent: ${money2(result.breakEvenRent)}`);
-    lines.push(``);
-    lines.push(`WHY ${result.decision.isGo ? 'GO' : 'NO-GO'}`);
-    if (result.decision.reasons.length === 0) lines.push(`No blocking issues found for screening thresholds.`);
-    result.decision.reasons.forEach((r) => lines.push(`- ${r}`));
-    if (result.decision.warnings.length) {
-      lines.push(``);
-      lines.push(`WARNINGS`);
-      result.decision.warnings.forEach((w) => lines.push(`- ${w}`));
-    }
-    lines.push(``);
-    lines.push(`NOTE: Fast screening tool — not full underwriting.`);
-
-    let y = 14;
-    doc.setFontSize(11);
-    for (const s of lines) {
-      doc.text(s, 12, y);
-      y += 7;
-      if (y > 280) {
-        doc.addPage();
-        y = 14;
-      }
-    }
+    const doc = buildDealReport({
+      title: reportName,
+      form: scenarioForm,
+      result,
+      proForma,
+      afterTax,
+      offer,
+      branding,
+      photos,
+      scenario: activeScenario?.name ?? null,
+      scenarios: scenarios.length
+        ? scenarioRuns.map((r) => {
+            const s = scenarios.find((x) => x.id === r.id);
+            return { name: r.name, summary: s ? describeScenario(s) : 'Base inputs', result: r.result };
+          })
+        : [],
+    });
     doc.save('deal-quickcheck.pdf');
     setToast('PDF exported.');
   }
 
-  function buildShareUrl() {
-    const url = new URL(window.location.href);
-    const set = (k: string, v: string) => url.searchParams.set(k, v);
-
-    set('m', section8Mode ? 's8' : 'std');
-
-    set('p', purchasePrice);
-    set('dp', downPct);
-    set('r', ratePct);
-    set('t', termYears);
-    set('cc', closingCosts);
+  function exportAmortizationCsv() {
+    const rows: (string | number)[][] = [['Month', 'Year', 'Payment', 'Interest', 'Principal', 'Extra principal', 'Balloon', 'Balance']];
+    result.amortization.forEach((m) => {
+      rows.push([m.month, Math.ceil(m.month / 12), m.payment, m.interest, m.principal, m.extraPrincipal, m.balloon, m.balance]);
+    });
+    rows.push([]);
+    rows.push(['Year', '', 'Payment', 'Interest', 'Principal', 'Extra principal', 'Balloon', 'Ending balance']);
+    result.amortizationYears.forEach((y) => {
+      rows.push([y.year, '', y.payment, y.interest, y.principal, y.extraPrincipal, y.balloon, y.endingBalance]);
+    });
+    downloadText('deal-quickcheck-amortization.csv', toCsv(rows));
+    setToast('Amortization CSV exported.');
+  }
 
-    set('rent', monthlyRent);
-    set('tenant', tenantPortionMonthly);
-    set('hap', hapMonthly);
-    set('other', otherIncome);
+  // File name stem from the report title, e.g. "12 Oak St" -> "deal-12-oak-st".
+  function fileStem() {
+    const slug = reportName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return slug ? `deal-${slug}` : 'deal-quickcheck';
+  }
 
-    set('tax', taxesMonthly);
-    set('ins', insuranceMonthly);
-    set('hoa', hoaMonthly);
-    set('util', utilitiesMonthly);
+  function exportDeal(kind: 'json' | 'csv' | 'xlsx') {
+    const file = toDealFile(reportName, form, activeRuleSet, baseResult);
+    if (kind === 'json') downloadText(`${fileStem()}.json`, JSON.stringify(file, null, 2), 'application/json');
+    if (kind === 'csv') downloadText(`${fileStem()}.csv`, toCsv(dealCsvRows(file)));
+    if (kind === 'xlsx') {
+      const bytes = writeXlsx(dealWorkbook(file, baseResult));
+      downloadBlob(`${fileStem()}.xlsx`, new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+    }
+    setToast(`Deal exported (${kind.toUpperCase()}).`);
+  }
 
-    set('vac', vacancyPct);
-    set('rep', repairsPct);
-    set('capex', capexPct);
-    set('mgmt', mgmtPct);
+  async function importDeal(file: File) {
+    const parsed = parseDealFile(await file.text());
+    if (!parsed.ok) {
+      setToast(`Import failed: ${parsed.error}`);
+      return;
+    }
+    openDeal(parsed.form);
+    setReportTitle(parsed.name);
+    // The deal's rule set becomes active, like a shared link; it never overwrites a local set.
+    const incoming = parsed.ruleSet && addIncomingRuleSet(ruleSets, parsed.ruleSet);
+    if (incoming) {
+      setRuleSets(incoming.sets);
+      setActiveRuleSetId(incoming.active.id);
+    }
+    const copied = incoming?.added ? ` Its rule set was added as “${incoming.active.name}”.` : '';
+    setToast(`Imported ${parsed.name ? `“${parsed.name}”` : file.name}.${copied}`);
+  }
 
-    set('s8res', inspectionReserveMonthly);
+  // Loading another deal replaces the photos too (only saved deals carry any).
+  function openDeal(next: DealForm, nextPhotos: PropertyPhoto[] = []) {
+    setForm(next);
+    setPhotos(nextPhotos);
+  }
 
+  async function buildShareUrl() {
+    const url = new URL(window.location.href);
+    url.search = (await encodeShareParams(form, activeRuleSet)).toString();
     return url.toString();
   }
 
   async function copyShareLink() {
     try {
-      const url = buildShareUrl();
+      const url = await buildShareUrl();
       await navigator.clipboard.writeText(url);
-      setToast('Share link copied.');
+      setToast(photos.length ? 'Share link copied (photos stay in this browser).' : 'Share link copied.');
     } catch {
       setToast('Could not copy link (browser blocked).');
     }
   }
 
-  // Load from query params (sharing)
+  // Load from query params (sharing). Anything clamped or skipped is listed in a notice.
   useEffect(() => {
-    const url = new URL(window.location.href);
-    const qp = url.searchParams;
-    if (qp.size === 0) return;
-
-    const mode = qp.get('m');
-    if (mode === 's8') setSection8Mode(true);
-    if (mode === 'std') setSection8Mode(false);
-
-    const get = (k: string, fallback: string) => qp.get(k) ?? fallback;
-
-    setPurchasePrice(get('p', purchasePrice));
-    setDownPct(get('dp', downPct));
-    setRatePct(get('r', ratePct));
-    setTermYears(get('t', termYears));
-    setClosingCosts(get('cc', closingCosts));
-
-    setMonthlyRent(get('rent', monthlyRent));
-    setTenantPortionMonthly(get('tenant', tenantPortionMonthly));
-    setHapMonthly(get('hap', hapMonthly));
-    setOtherIncome(get('other', otherIncome));
-
-    setTaxesMonthly(get('tax', taxesMonthly));
-    setInsuranceMonthly(get('ins', insuranceMonthly));
-    setHoaMonthly(get('hoa', hoaMonthly));
-    setUtilitiesMonthly(get('util', utilitiesMonthly));
-
-    setVacancyPct(get('vac', vacancyPct));
-    setRepairsPct(get('rep', repairsPct));
-    setCapexPct(get('capex', capexPct));
-    setMgmtPct(get('mgmt', mgmtPct));
-
-    setInspectionReserveMonthly(get('s8res', inspectionReserveMonthly));
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    let cancelled = false;
+    void decodeShareParams(new URL(window.location.href).searchParams, DEFAULT_FORM).then((shared) => {
+      if (cancelled || !shared) return;
+      if (shared.form) setForm(shared.form);
+      // A shared rule set is made active; unless a local set has the same rules it is added
+      // as a copy. Read storage directly: this effect's `ruleSets` is the pre-load default.
+      const incoming = shared.ruleSet && addIncomingRuleSet(loadRuleSets().sets, shared.ruleSet);
+      if (incoming) {
+        setRuleSets(incoming.sets);
+        setActiveRuleSetId(incoming.active.id);
+      }
+      const copied = incoming?.added ? [`The link's rule set was added to your rule sets as “${incoming.active.name}”.`] : [];
+      setShareNotices([...shared.notices, ...copied]);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   const fieldsPurchase: Field[] = [
-    { label: 'Purchase price', hint: 'Total acquisition price.', value: purchasePrice, setValue: setPurchasePrice, right: '$', inputMode: 'numeric' },
-    { label: 'Down payment', hint: 'Percent of purchase price.', value: downPct, setValue: setDownPct, right: '%', inputMode: 'decimal' },
-    { label: 'Interest rate', hint: 'Annual rate (fixed).', value: ratePct, setValue: setRatePct, right: '%', inputMode: 'decimal' },
-    { label: 'Loan term', hint: 'Years.', value: termYears, setValue: setTermYears, right: 'yrs', inputMode: 'numeric' },
-    { label: 'Closing costs', hint: 'Cash paid at closing.', value: closingCosts, setValue: setClosingCosts, right: '$', inputMode: 'numeric' },
+    { label: 'Purchase price', hint: 'Total acquisition price.', value: purchasePrice, setValue: setField('purchasePrice'), right: '$', inputMode: 'numeric' },
+    { label: 'Down payment', hint: 'Percent of price not covered by the first mortgage.', value: downPct, setValue: setField('downPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Interest rate', hint: 'Annual rate (initial rate for ARMs).', value: ratePct, setValue: setField('ratePct'), right: '%', inputMode: 'decimal' },
+    { label: 'Loan term', hint: 'Years.', value: termYears, setValue: setField('termYears'), right: 'yrs', inputMode: 'numeric' },
+    { label: 'Closing costs', hint: 'Cash paid at closing.', value: closingCosts, setValue: setField('closingCosts'), right: '$', inputMode: 'numeric' },
+    { label: 'Extra principal', hint: 'Optional prepayment each month.', value: extraPrincipalMonthly, setValue: setField('extraPrincipalMonthly'), right: '$', inputMode: 'numeric' },
   ];
 
   const fieldsIncomeStd: Field[] = [
-    { label: 'Monthly rent', hint: 'Gross monthly rent.', value: monthlyRent, setValue: setMonthlyRent, right: '$', inputMode: 'numeric' },
-    { label: 'Other income', hint: 'Laundry/parking/etc.', value: otherIncome, setValue: setOtherIncome, right: '$', inputMode: 'numeric' },
+    { label: 'Monthly rent', hint: 'Gross monthly rent.', value: monthlyRent, setValue: setField('monthlyRent'), right: '$', inputMode: 'numeric' },
+    { label: 'Other income', hint: 'Laundry/parking/etc.', value: otherIncome, setValue: setField('otherIncome'), right: '$', inputMode: 'numeric' },
   ];
 
   const fieldsIncomeS8: Field[] = [
-    { label: 'Tenant portion', hint: 'Tenant-paid monthly portion.', value: tenantPortionMonthly, setValue: setTenantPortionMonthly, right: '$', inputMode: 'numeric' },
-    { label: 'HAP payment', hint: 'Housing assistance payment (monthly).', value: hapMonthly, setValue: setHapMonthly, right: '$', inputMode: 'numeric' },
-    { label: 'Other income', hint: 'Laundry/parking/etc.', value: otherIncome, setValue: setOtherIncome, right: '$', inputMode: 'numeric' },
-    { label: 'Section 8 reserve', hint: 'Light buffer for inspections/turnover.', value: inspectionReserveMonthly, setValue: setInspectionReserveMonthly, right: '$', inputMode: 'numeric' },
+    { label: 'Tenant portion', hint: 'Tenant-paid monthly portion.', value: tenantPortionMonthly, setValue: setField('tenantPortionMonthly'), right: '$', inputMode: 'numeric' },
+    { label: 'HAP payment', hint: 'Housing assistance payment (monthly).', value: hapMonthly, setValue: setField('hapMonthly'), right: '$', inputMode: 'numeric' },
+    { label: 'Other income', hint: 'Laundry/parking/etc.', value: otherIncome, setValue: setField('otherIncome'), right: '$', inputMode: 'numeric' },
+    { label: 'Section 8 reserve', hint: 'Light buffer for inspections/turnover.', value: inspectionReserveMonthly, setValue: setField('inspectionReserveMonthly'), right: '$', inputMode: 'numeric' },
   ];
 
   const fieldsFixed: Field[] = [
-    { label: 'Taxes', hint: 'Monthly property taxes.', value: taxesMonthly, setValue: setTaxesMonthly, right: '$', inputMode: 'numeric' },
-    { label: 'Insurance', hint: 'Monthly insurance.', value: insuranceMonthly, setValue: setInsuranceMonthly, right: '$', inputMode: 'numeric' },
-    { label: 'HOA', hint: 'Monthly HOA (if any).', value: hoaMonthly, setValue: setHoaMonthly, right: '$', inputMode: 'numeric' },
-    { label: 'Utilities', hint: 'Owner-paid utilities.', value: utilitiesMonthly, setValue: setUtilitiesMonthly, right: '$', inputMode: 'numeric' },
+    { label: 'Taxes', hint: 'Monthly property taxes.', value: taxesMonthly, setValue: setField('taxesMonthly'), right: '$', inputMode: 'numeric' },
+    { label: 'Insurance', hint: 'Monthly insurance.', value: insuranceMonthly, setValue: setField('insuranceMonthly'), right: '$', inputMode: 'numeric' },
+    { label: 'HOA', hint: 'Monthly HOA (if any).', value: hoaMonthly, setValue: setField('hoaMonthly'), right: '$', inputMode: 'numeric' },
+    { label: 'Utilities', hint: 'Owner-paid utilities.', value: utilitiesMonthly, setValue: setField('utilitiesMonthly'), right: '$', inputMode: 'numeric' },
   ];
 
   const fieldsAssumptions: Field[] = [
-    { label: 'Vacancy', hint: 'Percent of rent lost to vacancy.', value: vacancyPct, setValue: setVacancyPct, right: '%', inputMode: 'decimal' },
-    { label: 'Repairs', hint: 'Percent of rent for repairs.', value: repairsPct, setValue: setRepairsPct, right: '%', inputMode: 'decimal' },
-    { label: 'CapEx', hint: 'Percent of rent for capital reserves.', value: capexPct, setValue: setCapexPct, right: '%', inputMode: 'decimal' },
-    { label: 'Management', hint: 'Percent of rent for management.', value: mgmtPct, setValue: setMgmtPct, right: '%', inputMode: 'decimal' },
+    { label: 'Vacancy', hint: 'Percent of rent lost to vacancy.', value: vacancyPct, setValue: setField('vacancyPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Repairs', hint: 'Percent of rent for repairs.', value: repairsPct, setValue: setField('repairsPct'), right: '%', inputMode: 'decimal' },
+    { label: 'CapEx', hint: 'Percent of rent for capital reserves.', value: capexPct, setValue: setField('capexPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Management', hint: 'Percent of rent for management.', value: mgmtPct, setValue: setField('mgmtPct'), right: '%', inputMode: 'decimal' },
+  ];
+
+  const fieldsProForma: Field[] = [
+    { label: 'Rent growth', hint: 'Annual increase in rent and other income.', value: rentGrowthPct, setValue: setField('rentGrowthPct'), right: '%/yr', inputMode: 'decimal' },
+    { label: 'Expense growth', hint: 'Annual increase in fixed costs.', value: expenseGrowthPct, setValue: setField('expenseGrowthPct'), right: '%/yr', inputMode: 'decimal' },
+    { label: 'Appreciation', hint: 'Annual change in property value.', value: appreciationPct, setValue: setField('appreciationPct'), right: '%/yr', inputMode: 'decimal' },
+    { label: 'Hold period', hint: 'Years until sale.', value: holdYears, setValue: setField('holdYears'), right: 'yrs', inputMode: 'numeric' },
+    { label: 'Selling costs', hint: 'Commissions + closing, percent of sale price.', value: sellingCostPct, setValue: setField('sellingCostPct'), right: '%', inputMode: 'decimal' },
+    { label: 'Exit cap rate', hint: '0 = value the exit on appreciation.', value: exitCapPct, setValue: setField('exitCapPct'), right: '%', inputMode: 'decimal' },
   ];
 
   return (
@@ -386,15 +393,33 @@ export default function Home() {
         <div>
           <div style={styles.h1}>Deal QuickCheck</div>
           <div style={styles.sub}>
-            Fast screening tool — makes the “why” behind Go / No-Go obvious. Not full underwriting.
+            {form.property.address.trim()
+              ? [form.property.address.trim(), propertyLine].filter(Boolean).join(' · ')
+              : 'Fast screening tool — makes the “why” behind Go / No-Go obvious. Not full underwriting.'}
           </div>
         </div>
 
         <div style={styles.badge}>
-          Mode: <strong>{section8Mode ? 'Section 8' : 'Standard'}</strong>
+          Mode: <strong>{incomeModeLabel(form)}{brrrrMode && ' · BRRRR'}</strong>
         </div>
       </header>
 
+      {shareNotices.length > 0 && (
+        <div style={{ ...styles.whyBox, marginTop: 12 }}>
+          <div style={styles.rowBetween}>
+            <div style={styles.warnTitle}>Shared link notices</div>
+            <button type="button" style={styles.ghostBtn} onClick={() => setShareNotices([])}>
+              Dismiss
+            </button>
+          </div>
+          {shareNotices.map((n, i) => (
+            <div key={i} style={styles.warnItem}>
+              • {n}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Decision Banner */}
       <div
         style={{
@@ -405,7 +430,8 @@ export default function Home() {
         <div style={styles.verdictTop}>
           <div>
             <div style={styles.verdictTitle}>
-              {result.decision.isGo ? 'GO (screening)' : 'NO-GO (screening)'}
+              {result.decision.isGo ? 'GO' : 'NO-GO'} ({brrrrMode ? 'post-refi screening' : 'screening'}
+              {activeScenario && ` · ${activeScenario.name} scenario`})
             </div>
 
             {/* NEW: disclaimer directly under the verdict */}
@@ -424,6 +450,26 @@ export default function Home() {
           </div>
         </div>
 
+        {scenarioRuns.length > 1 && (
+          <div style={{ ...styles.primarySignals, marginTop: 12 }}>
+            {scenarioRuns.map((r) => (
+              <button
+                key={r.id ?? 'base'}
+                type="button"
+                onClick={() => setActiveScenarioId(r.id)}
+                style={{
+                  ...styles.signalPill,
+                  cursor: 'pointer',
+                  ...(r.id === (activeScenario?.id ?? null) ? { outline: '2px solid rgba(255,255,255,0.55)' } : null),
+                }}
+              >
+                <span style={styles.signalKey}>{r.name}</span>
+                <span style={styles.signalVal}>{r.result.decision.isGo ? 'GO' : 'NO-GO'}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
         <div style={styles.whyBox}>
           <div style={styles.whyTitle}>Why this screens as {result.decision.isGo ? 'GO' : 'NO-GO'}:</div>
 
@@ -444,6 +490,16 @@ export default function Home() {
             </div>
           )}
 
+          <div style={{ marginTop: 10 }}>
+            <div style={styles.warnTitle}>Rules checked ({result.decision.ruleSetName}):</div>
+            {result.decision.outcomes.map((o) => (
+              <div key={o.rule.id} style={styles.warnItem}>
+                <RuleStatus status={o.status} /> {describeRule(o.rule)}
+                {o.rule.severity === 'warning' ? ' (warning)' : ''} — {formatMetricValue(o.rule.metric, o.value)}
+              </div>
+            ))}
+          </div>
+
           <div style={styles.nextStep}>{result.decision.nextStep}</div>
 
           {/* UPDATED: guardrail copy */}
@@ -454,11 +510,33 @@ export default function Home() {
         </div>
       </div>
 
-      <section style={styles.grid2}>
+      <PropertyCard
+        property={form.property}
+        setProperty={setField('property')}
+        photos={photos}
+        setPhotos={setPhotos}
+        units={result.rentRoll?.units ?? 1}
+        notify={setToast}
+      />
+
+      <section style={{ ...styles.grid2, marginTop: 16 }}>
         <Card title="Purchase & Financing">
-          {fieldsPurchase.map((f) => (
+          {fieldsPurchase.filter((f) => !(cashToClose.itemized && f.label === 'Closing costs')).map((f) => (
             <FieldRow key={f.label} {...f} />
           ))}
+          {cashToClose.itemized && <div style={styles.note}>Closing costs come from the Cash to Close worksheet: {money(result.close)}.</div>}
+
+          <LoanTermsFields terms={loanTerms} onChange={setField('loanTerms')} />
+
+          <div style={styles.divider} />
+
+          <div style={styles.fieldLabel}>Additional liens</div>
+          <div style={styles.fieldHint}>Second mortgages or seller financing stacked behind the first.</div>
+          <LienList liens={liens} setLiens={setField('liens')} />
+
+          <div style={{ marginTop: 10, fontSize: 12, color: 'rgba(255,255,255,0.65)' }}>
+            Total debt: <strong>{money(result.loan)}</strong> · Cash down: <strong>{money(result.downPayment)}</strong>
+          </div>
         </Card>
 
         <Card title="Income & Fixed Costs">
@@ -467,51 +545,122 @@ export default function Home() {
               Decision is driven mainly by <strong>Cash flow</strong> + <strong>DSCR</strong>.
             </div>
 
+            <div style={styles.segmented} role="group" aria-label="Income model">
+              {INCOME_MODES.map((m) => (
+                <button
+                  key={m.label}
+                  type="button"
+                  onClick={() => setForm((f) => ({ ...f, section8Mode: m.section8Mode, strMode: m.strMode }))}
+                  style={{ ...styles.segBtn, ...(m.section8Mode === section8Mode && m.strMode === strMode ? styles.segBtnOn : null) }}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+
             <div style={styles.toggleWrap}>
-              <span style={{ opacity: section8Mode ? 0.5 : 1 }}>Standard</span>
+              <span style={{ opacity: brrrrMode ? 0.5 : 1 }}>Buy & hold</span>
 
               <button
                 type="button"
-                onClick={() => setSection8Mode((v) => !v)}
+                onClick={() => setForm((f) => ({ ...f, brrrrMode: !f.brrrrMode }))}
                 style={{
                   ...styles.toggle,
-                  ...(section8Mode ? styles.toggleOn : styles.toggleOff),
+                  ...(brrrrMode ? styles.toggleOn : styles.toggleOff),
                 }}
-                aria-label="Toggle Section 8 mode"
+                aria-label="Toggle BRRRR mode"
               >
                 <span
                   style={{
                     ...styles.toggleKnob,
-                    transform: section8Mode ? 'translateX(22px)' : 'translateX(0)',
+                    transform: brrrrMode ? 'translateX(22px)' : 'translateX(0)',
                   }}
                 />
               </button>
 
-              <span style={{ opacity: section8Mode ? 1 : 0.5 }}>Section 8</span>
+              <span style={{ opacity: brrrrMode ? 1 : 0.5 }}>BRRRR</span>
             </div>
           </div>
 
           <div style={styles.divider} />
 
-          {(section8Mode ? fieldsIncomeS8 : fieldsIncomeStd).map((f) => (
-            <FieldRow key={f.label} {...f} />
-          ))}
+          {strMode ? (
+            <div style={styles.note}>Income comes from the short-term rental model below (ADR × monthly occupancy + cleaning fees).</div>
+          ) : (
+            (section8Mode ? fieldsIncomeS8 : fieldsIncomeStd).map((f) => (
+              <FieldRow key={f.label} {...f} />
+            ))
+          )}
 
           <div style={styles.divider} />
 
-          {fieldsFixed.map((f) => (
-            <FieldRow key={f.label} {...f} />
-          ))}
+          {opex.itemized ? (
+            <div style={styles.note}>Fixed costs are itemized under Operating Expenses below.</div>
+          ) : (
+            fieldsFixed.filter((f) => !(strMode && f.label === 'Utilities')).map((f) => (
+              <FieldRow key={f.label} {...f} />
+            ))
+          )}
 
           <div style={{ marginTop: 10, fontSize: 12, color: 'rgba(255,255,255,0.65)' }}>
-            Rent used in calculations: <strong>{money(computedRent)}</strong>
+            {strMode ? 'Average monthly STR revenue' : 'Rent used in calculations'}: <strong>{money(computedRent)}</strong>
+            {result.rentRoll && ` (from the rent roll, ${result.rentRoll.units} units)`}
           </div>
         </Card>
       </section>
 
+      <CashToCloseCard
+        cashToClose={cashToClose}
+        setCashToClose={setField('cashToClose')}
+        onItemize={() =>
+          setForm((f) => ({
+            ...f,
+            cashToClose: { ...f.cashToClose, itemized: true, otherCosts: toNum(f.cashToClose.otherCosts) > 0 ? f.cashToClose.otherCosts : f.closingCosts },
+          }))
+        }
+        summary={result.cashToClose}
+        refiCashLeft={result.refi ? result.refi.cashLeft : null}
+      />
+
+      {section8Mode && !strMode && (
+        <Section8Card
+          section8={section8}
+          setSection8={setField('section8')}
+          currentRent={toNum(tenantPortionMonthly) + toNum(hapMonthly)}
+          onApply={(tenant, hap) => setForm((f) => ({ ...f, tenantPortionMonthly: String(tenant), hapMonthly: String(hap) }))}
+          notify={setToast}
+        />
+      )}
+
+      {result.str ? (
+        <StrCard strForm={str} setStrForm={setField('str')} model={result.str} months={result.strMonths} />
+      ) : (
+        <RentRollCard units={units} setUnits={setField('units')} />
+      )}
+
+      {result.refi && (
+        <BrrrrCard
+          brrrr={brrrr}
+          setBrrrr={setField('brrrr')}
+          refi={result.refi}
+          infiniteReturn={result.infiniteReturn}
+          netCashFlow={result.netCashFlow}
+          dscr={result.dscr}
+        />
+      )}
+
+      <OpexCard
+        opex={opex}
+        setOpex={setField('opex')}
+        onItemize={() =>
+          setForm((f) => ({ ...f, opex: f.opex.items.length || f.opex.components.length ? { ...f.opex, itemized: true } : itemizeFlatExpenses(f) }))
+        }
+        result={result}
+      />
+
       <section style={{ ...styles.grid2, marginTop: 16 }}>
         <Card title="Assumptions (percent of rent)">
-          {fieldsAssumptions.map((f) => (
+          {fieldsAssumptions.filter((f) => !(strMode && f.label === 'Vacancy') && !(opex.itemized && f.label !== 'Vacancy')).map((f) => (
             <FieldRow key={f.label} {...f} />
           ))}
         </Card>
@@ -521,11 +670,27 @@ export default function Home() {
             <KPI label="Net monthly cash flow" value={money2(result.netCashFlow)} emphasis />
             <KPI label="DSCR" value={Number.isFinite(result.dscr) ? result.dscr.toFixed(2) : '—'} emphasis />
             <KPI label="NOI (monthly)" value={money2(result.noiMonthly)} />
-            <KPI label="Mortgage (P&I)" value={money2(result.mortgagePI)} />
+            <KPI label="Debt service (P&I, all liens)" value={money2(result.mortgagePI)} />
             <KPI label="Cap rate" value={pct(result.capRate)} />
-            <KPI label="Cash-on-cash (annual)" value={pct(result.cashOnCash)} />
+            <KPI label="Cash-on-cash (annual)" value={result.infiniteReturn ? '∞' : pct(result.cashOnCash)} />
             <KPI label="Break-even rent" value={money2(result.breakEvenRent)} />
-            <KPI label="Cash invested (DP + closing)" value={money2(result.cashInvested)} />
+            <KPI label={result.refi ? 'Cash left in deal (post-refi)' : result.cashToClose ? 'Cash invested (total cash to close)' : 'Cash invested (DP + closing)'} value={money2(result.cashInvested)} />
+            <KPI label="Principal paydown (yr 1)" value={money2(result.principalPaydownYear1)} />
+            <KPI label="Total return (CF + paydown)" value={pct(result.totalReturn)} />
+            <KPI label={property.units > 1 ? 'Price per door' : 'Price per unit'} value={money(property.pricePerUnit)} />
+            <KPI label="Gross rent multiplier" value={Number.isFinite(property.grm) ? property.grm.toFixed(1) : '—'} />
+            {property.sqft !== null && (
+              <>
+                <KPI label="Price per sqft" value={money2(property.pricePerSqft ?? NaN)} />
+                <KPI label="Rent per sqft (monthly)" value={money2(property.rentPerSqft ?? NaN)} />
+              </>
+            )}
+            {result.rentRoll && (
+              <>
+                <KPI label="In-place rent vs market" value={`${money(result.rentRoll.inPlace)} / ${money(result.rentRoll.market)}`} />
+                <KPI label="Loss to lease (monthly)" value={money2(result.rentRoll.lossToLease)} />
+              </>
+            )}
           </div>
 
           <div style={styles.rowBetween}>
@@ -538,27 +703,15 @@ export default function Home() {
             </button>
 
             <button
-              onClick={() => {
-                setSection8Mode(false);
-                setPurchasePrice('500000');
-                setDownPct('25');
-                setRatePct('6.75');
-                setTermYears('30');
-                setClosingCosts('0');
-                setMonthlyRent('4000');
-                setHapMonthly('3200');
-                setTenantPortionMonthly('800');
-                setInspectionReserveMonthly('0');
-                setOtherIncome('0');
-                setTaxesMonthly('520');
-                setInsuranceMonthly('140');
-                setHoaMonthly('0');
-                setUtilitiesMonthly('0');
-                setVacancyPct('5');
-                setRepairsPct('5');
-                setCapexPct('5');
-                setMgmtPct('8');
-              }}
+              onClick={() => setShowAmortization((v) => !v)}
+              style={styles.secondaryBtn}
+              type="button"
+            >
+              {showAmortization ? 'Hide amortization' : 'Show amortization'}
+            </button>
+
+            <button
+              onClick={() => setForm(DEFAULT_FORM)}
               style={styles.ghostBtn}
               type="button"
             >
@@ -571,13 +724,20 @@ export default function Home() {
               <div style={styles.breakdownTitle}>Breakdown</div>
               <Line label="Gross monthly income" value={money2(result.grossIncome)} />
               <Line label="Effective income (after vacancy)" value={money2(result.effectiveIncome)} />
-              <Line label="Fixed costs (tax/ins/hoa/utils + reserves)" value={money2(result.fixedCostsNoDebt)} />
-              <Line label="Variable costs (repairs/capex/mgmt)" value={money2(result.percentCosts)} />
-              <Line label="Debt service (mortgage P&I)" value={money2(result.mortgagePI)} />
+              {result.expenses.map((e, i) => (
+                <Line key={`${e.label}-${i}`} label={`· ${e.label}`} value={money2(e.monthly)} />
+              ))}
+              <Line label="Operating expenses (excl. debt)" value={money2(result.fixedCostsNoDebt + result.percentCosts)} />
+              <Line label="Debt service (P&I, all liens)" value={money2(result.mortgagePI)} />
+              <Line label="Peak debt service (after IO / ARM reset)" value={money2(result.peakDebtService)} />
               <Line label="Total monthly expenses" value={money2(result.totalExpenses)} />
             </div>
           )}
 
+          {showAmortization && (
+            <AmortizationTable monthly={result.amortization} yearly={result.amortizationYears} />
+          )}
+
           <div style={styles.note}>
             Note: This is a quick estimator (not underwriting). Add property-level items (leasing, turnover, legal, permits, rehab, etc.) in full underwriting.
             {section8Mode && ' Section 8 mode includes a simple optional reserve to prevent “false GO” results.'}
@@ -585,6 +745,45 @@ export default function Home() {
         </Card>
       </section>
 
+      <ScenarioCard
+        scenarios={scenarios}
+        setScenarios={setField('scenarios')}
+        activeId={activeScenario?.id ?? null}
+        setActiveId={setActiveScenarioId}
+        runs={scenarioRuns}
+      />
+
+      <OfferSolverCard
+        price={result.price}
+        targets={offerTargets}
+        setTargets={setOfferTargets}
+        defaults={ruleTargets(activeRuleSet)}
+        solution={offer}
+      />
+
+      <LenderCard settings={lenders} setSettings={setLenders} qualifications={qualifications} />
+
+      <RuleSetEditor
+        ruleSets={ruleSets}
+        setRuleSets={setRuleSets}
+        activeId={activeRuleSet.id}
+        setActiveId={setActiveRuleSetId}
+        outcomes={result.decision.outcomes}
+      />
+
+      <ProFormaCard
+        fields={fieldsProForma}
+        horizon={projectionYears}
+        setHorizon={setProjectionYears}
+        proForma={proForma}
+      />
+
+      <TaxCard tax={tax} setTax={setField('tax')} afterTax={afterTax} />
+
+      <SensitivityCard form={scenarioForm} ruleSet={activeRuleSet} />
+
+      <RiskCard form={scenarioForm} ruleSet={activeRuleSet} />
+
       <Card title="Share & Export" style={{ marginTop: 16 }}>
         <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap' }}>
           <button type="button" style={styles.secondaryBtn} onClick={copyShareLink}>
@@ -593,7 +792,40 @@ export default function Home() {
           <button type="button" style={styles.secondaryBtn} onClick={exportPdf}>
             Export PDF
           </button>
+          <button type="button" style={styles.secondaryBtn} onClick={exportAmortizationCsv}>
+            Export amortization CSV
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 10 }}>
+          <button type="button" style={styles.secondaryBtn} onClick={() => exportDeal('json')}>
+            Export deal (JSON)
+          </button>
+          <button type="button" style={styles.secondaryBtn} onClick={() => exportDeal('csv')}>
+            Export deal (CSV)
+          </button>
+          <button type="button" style={styles.secondaryBtn} onClick={() => exportDeal('xlsx')}>
+            Export model (XLSX)
+          </button>
+          <label style={{ ...styles.secondaryBtn, display: 'inline-block' }}>
+            Import deal (JSON)
+            <input
+              type="file"
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void importDeal(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
         </div>
+        <div style={styles.note}>
+          JSON files keep every input and the rule set and load back here; the XLSX model recalculates the monthly numbers with formulas.
+        </div>
+
+        <ReportSettings title={reportTitle} setTitle={setReportTitle} branding={branding} setBranding={updateBranding} notify={setToast} />
 
         {toast && (
           <div style={{ marginTop: 10, fontSize: 12, color: 'rgba(255,255,255,0.80)' }}>
@@ -601,327 +833,19 @@ export default function Home() {
           </div>
         )}
       </Card>
-    </div>
-  );
-}
-
-function Card({
-  title,
-  children,
-  style,
-}: {
-  title: string;
-  children: React.ReactNode;
-  style?: React.CSSProperties;
-}) {
-  return (
-    <div style={{ ...styles.card, ...(style ?? {}) }}>
-      <div style={styles.cardTitle}>{title}</div>
-      <div>{children}</div>
-    </div>
-  );
-}
-
-function FieldRow({ label, hint, value, setValue, right, inputMode }: Field) {
-  return (
-    <label style={styles.fieldRow}>
-      <div style={styles.fieldLeft}>
-        <div style={styles.fieldLabel}>{label}</div>
-        {hint ? <div style={styles.fieldHint}>{hint}</div> : null}
-      </div>
 
-      <div style={styles.fieldRight}>
-        <input
-          value={value}
-          onChange={(e) => setValue(e.target.value)}
-          inputMode={inputMode ?? 'decimal'}
-          style={styles.input}
-        />
-        <div style={styles.unit}>{right}</div>
-      </div>
-    </label>
-  );
-}
+      <BulkImportCard form={form} ruleSet={activeRuleSet} onOpen={openDeal} notify={setToast} />
 
-function KPI({ label, value, emphasis }: { label: string; value: string; emphasis?: boolean }) {
-  return (
-    <div style={{ ...styles.kpi, ...(emphasis ? styles.kpiEmphasis : null) }}>
-      <div style={styles.kpiLabel}>{label}</div>
-      <div style={styles.kpiValue}>{value}</div>
-    </div>
-  );
-}
+      <ComparisonCard form={form} ruleSet={activeRuleSet} notify={setToast} />
 
-function Line({ label, value }: { label: string; value: string }) {
-  return (
-    <div style={styles.line}>
-      <span style={styles.lineLabel}>{label}</span>
-      <span style={styles.lineValue}>{value}</span>
+      <DealLibrary
+        form={form}
+        photos={photos}
+        summary={toSummary(baseResult.decision.isGo, baseResult.netCashFlow, baseResult.dscr)}
+        onOpen={openDeal}
+        notify={setToast}
+      />
     </div>
   );
 }
 
-const styles: Record<string, React.CSSProperties> = {
-  page: {
-    minHeight: '100vh',
-    background:
-      'radial-gradient(1200px 600px at 20% 0%, rgba(59,130,246,0.18), transparent 55%), radial-gradient(900px 500px at 80% 20%, rgba(34,197,94,0.14), transparent 55%), #0b1020',
-    color: 'rgba(255,255,255,0.92)',
-    padding: 20,
-    fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto',
-  },
-  header: {
-    maxWidth: 1100,
-    margin: '0 auto 18px auto',
-    display: 'flex',
-    gap: 14,
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    flexWrap: 'wrap',
-  },
-  h1: { fontSize: 26, fontWeight: 760, letterSpacing: 0.2 },
-  sub: { marginTop: 6, color: 'rgba(255,255,255,0.72)', maxWidth: 720 },
-
-  badge: {
-    display: 'inline-flex',
-    padding: '6px 10px',
-    borderRadius: 999,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.16)',
-    background: 'rgba(255,255,255,0.06)',
-    fontSize: 12,
-    letterSpacing: 0.2,
-  },
-
-  verdict: {
-    maxWidth: 1100,
-    margin: '0 auto 16px auto',
-    borderRadius: 16,
-    padding: 14,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    backdropFilter: 'blur(10px)',
-  },
-  verdictGo: {
-    borderColor: 'rgba(34,197,94,0.35)',
-    background: 'rgba(34,197,94,0.10)',
-  },
-  verdictNoGo: {
-    borderColor: 'rgba(239,68,68,0.35)',
-    background: 'rgba(239,68,68,0.10)',
-  },
-  verdictTop: {
-    display: 'flex',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    gap: 12,
-    flexWrap: 'wrap',
-  },
-  verdictTitle: { fontSize: 18, fontWeight: 800, letterSpacing: 0.2 },
-  primarySignals: { display: 'flex', gap: 10, flexWrap: 'wrap' },
-  signalPill: {
-    display: 'flex',
-    gap: 8,
-    alignItems: 'baseline',
-    padding: '6px 10px',
-    borderRadius: 999,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.16)',
-    background: 'rgba(0,0,0,0.18)',
-  },
-  signalKey: { fontSize: 12, color: 'rgba(255,255,255,0.72)' },
-  signalVal: { fontSize: 13, fontWeight: 800 },
-
-  whyBox: {
-    marginTop: 12,
-    paddingTop: 12,
-    borderTopWidth: 1,
-    borderTopStyle: 'solid',
-    borderTopColor: 'rgba(255,255,255,0.10)',
-  },
-  whyTitle: { fontSize: 13, fontWeight: 800, marginBottom: 8 },
-  whyItem: { fontSize: 13, color: 'rgba(255,255,255,0.88)', marginTop: 4 },
-  warnTitle: { fontSize: 12, fontWeight: 800, color: 'rgba(255,255,255,0.80)', marginBottom: 6 },
-  warnItem: { fontSize: 12, color: 'rgba(255,255,255,0.72)', marginTop: 4 },
-  nextStep: { marginTop: 10, fontSize: 12.5, color: 'rgba(255,255,255,0.82)', fontWeight: 650 },
-  guardrail: { marginTop: 10, fontSize: 12, color: 'rgba(255,255,255,0.62)' },
-
-  grid2: {
-    maxWidth: 1100,
-    margin: '0 auto',
-    display: 'grid',
-    gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))',
-    gap: 14,
-  },
-
-  card: {
-    borderRadius: 16,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.14)',
-    background: 'rgba(255,255,255,0.06)',
-    padding: 14,
-    backdropFilter: 'blur(10px)',
-  },
-  cardTitle: {
-    fontSize: 13,
-    fontWeight: 800,
-    marginBottom: 10,
-    color: 'rgba(255,255,255,0.90)',
-  },
-
-  fieldRow: {
-    display: 'grid',
-    gridTemplateColumns: '1fr auto',
-    gap: 12,
-    padding: '10px 0',
-    borderBottomWidth: 1,
-    borderBottomStyle: 'solid',
-    borderBottomColor: 'rgba(255,255,255,0.08)',
-  },
-  fieldLeft: {},
-  fieldLabel: { fontSize: 13, fontWeight: 650 },
-  fieldHint: { marginTop: 4, fontSize: 12, color: 'rgba(255,255,255,0.60)' },
-
-  fieldRight: { display: 'flex', gap: 8, alignItems: 'center' },
-  input: {
-    width: 120,
-    padding: '8px 10px',
-    borderRadius: 10,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.18)',
-    background: 'rgba(0,0,0,0.20)',
-    color: 'rgba(255,255,255,0.92)',
-    outline: 'none',
-  },
-  unit: { width: 32, fontSize: 12, color: 'rgba(255,255,255,0.65)', textAlign: 'right' },
-
-  divider: {
-    height: 1,
-    background: 'rgba(255,255,255,0.10)',
-    margin: '12px 0',
-  },
-
-  inlineToggleRow: {
-    display: 'flex',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    gap: 12,
-    flexWrap: 'wrap',
-    marginBottom: 8,
-  },
-
-  toggleWrap: {
-    display: 'inline-flex',
-    alignItems: 'center',
-    gap: 10,
-    fontSize: 12,
-    color: 'rgba(255,255,255,0.85)',
-  },
-  toggle: {
-    position: 'relative',
-    width: 46,
-    height: 24,
-    borderRadius: 999,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.18)',
-    cursor: 'pointer',
-    padding: 0,
-    transition: 'background 0.25s ease',
-    background: 'rgba(255,255,255,0.12)',
-  },
-  toggleOn: {
-    background: 'linear-gradient(135deg, #22c55e, #16a34a)',
-    borderColor: 'rgba(34,197,94,0.60)',
-  },
-  toggleOff: {
-    background: 'rgba(255,255,255,0.12)',
-  },
-  toggleKnob: {
-    position: 'absolute',
-    top: 2,
-    left: 2,
-    width: 18,
-    height: 18,
-    borderRadius: '50%',
-    background: '#ffffff',
-    transition: 'transform 0.25s ease',
-  },
-
-  kpiGrid: {
-    display: 'grid',
-    gridTemplateColumns: 'repeat(auto-fit, minmax(190px, 1fr))',
-    gap: 10,
-  },
-  kpi: {
-    padding: 12,
-    borderRadius: 14,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.12)',
-    background: 'rgba(0,0,0,0.16)',
-  },
-  kpiEmphasis: {
-    borderColor: 'rgba(255,255,255,0.22)',
-    background: 'rgba(0,0,0,0.22)',
-  },
-  kpiLabel: { fontSize: 12, color: 'rgba(255,255,255,0.70)' },
-  kpiValue: { marginTop: 6, fontSize: 16, fontWeight: 850 },
-
-  rowBetween: {
-    display: 'flex',
-    justifyContent: 'space-between',
-    gap: 10,
-    flexWrap: 'wrap',
-    marginTop: 12,
-  },
-  secondaryBtn: {
-    padding: '9px 12px',
-    borderRadius: 12,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.18)',
-    background: 'rgba(255,255,255,0.08)',
-    color: 'rgba(255,255,255,0.92)',
-    cursor: 'pointer',
-  },
-  ghostBtn: {
-    padding: '9px 12px',
-    borderRadius: 12,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.12)',
-    background: 'transparent',
-    color: 'rgba(255,255,255,0.80)',
-    cursor: 'pointer',
-  },
-
-  breakdown: {
-    marginTop: 12,
-    padding: 12,
-    borderRadius: 14,
-    borderWidth: 1,
-    borderStyle: 'solid',
-    borderColor: 'rgba(255,255,255,0.12)',
-    background: 'rgba(0,0,0,0.16)',
-  },
-  breakdownTitle: { fontSize: 12, fontWeight: 850, marginBottom: 8, color: 'rgba(255,255,255,0.82)' },
-
-  line: {
-    display: 'flex',
-    justifyContent: 'space-between',
-    gap: 10,
-    padding: '8px 0',
-    borderBottomWidth: 1,
-    borderBottomStyle: 'solid',
-    borderBottomColor: 'rgba(255,255,255,0.08)',
-  },
-  lineLabel: { fontSize: 12, color: 'rgba(255,255,255,0.70)' },
-  lineValue: { fontSize: 12, fontWeight: 750 },
-
-  note: { marginTop: 12, fontSize: 12, color: 'rgba(255,255,255,0.62)' },
-};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_BRRRR, computeRefi, newRehabItem, parseRefiTerms, sanitizeBrrrr, type BrrrrForm } from './brrrr';
+import { DEFAULT_LOAN_TERMS, loanSchedule, loanSpec, parseLoanTerms } from './loans';
+import { monthlyMortgagePayment } from './mortgage';
+
+// $200k buy with a $150k acquisition loan, $40k of rehab over 6 months, refinanced at 75% of a $300k ARV.
+const FORM: BrrrrForm = {
+  ...DEFAULT_BRRRR,
+  rehabItems: [newRehabItem('Kitchen', '25000'), newRehabItem('Roof', '15000')],
+  rehabMonths: '6',
+  holdingCostsMonthly: '500',
+  arv: '300000',
+  refiCosts: '5000',
+};
+
+const acquisition = loanSchedule(loanSpec('Purchase', 150000, 7, 30, parseLoanTerms(DEFAULT_LOAN_TERMS)));
+const refi = (form: Partial<BrrrrForm> = {}, purchaseCash = 56000) =>
+  computeRefi(parseRefiTerms({ ...FORM, ...form }), { price: 200000, acquisition, acquisitionLoan: 150000, purchaseCash, extraPrincipal: 0 });
+
+describe('parseRefiTerms', () => {
+  it('totals the rehab and clamps the terms', () => {
+    const t = parseRefiTerms({ ...FORM, rehabMonths: '99', refiLtvPct: '120', refiTermYears: '0', rehabItems: [...FORM.rehabItems, newRehabItem('Credit', '-500')] });
+    expect(t.rehabTotal).toBe(40000);
+    expect(t.rehabMonths).toBe(60);
+    expect(t.refiLtv).toBe(1);
+    expect(t.refiTermYears).toBe(1);
+  });
+});
+
+describe('computeRefi', () => {
+  it('adds holding costs and loan payments over the rehab to the cash put in', () => {
+    const r = refi();
+    const payment = monthlyMortgagePayment(150000, 7, 30);
+    expect(r.holdingCosts).toBe(3000);
+    expect(r.holdingDebtService).toBeCloseTo(6 * payment, 6);
+    expect(r.allInCash).toBeCloseTo(56000 + 40000 + 3000 + 6 * payment, 6);
+  });
+
+  it('pays off the acquisition loan at its balance on the refinance date', () => {
+    const r = refi();
+    expect(r.refiLoan).toBe(225000);
+    expect(r.payoff).toBeCloseTo(acquisition[5].balance, 8);
+    expect(r.cashOut).toBeCloseTo(225000 - acquisition[5].balance - 5000, 6);
+    expect(r.cashLeft).toBeCloseTo(r.allInCash - r.cashOut, 6);
+    expect(r.cashRecovered).toBeCloseTo(r.cashOut, 6);
+    expect(r.excessCashOut).toBe(0);
+  });
+
+  it('reports cash pulled out beyond everything put in', () => {
+    const r = refi({ arv: '400000' }, 10000);
+    expect(r.cashLeft).toBe(0);
+    expect(r.cashRecovered).toBe(r.allInCash);
+    expect(r.excessCashOut).toBeCloseTo(r.cashOut - r.allInCash, 6);
+  });
+
+  it('refinances at the purchase price without an ARV and pays the full loan with no rehab period', () => {
+    const r = refi({ arv: '', rehabMonths: '0' });
+    expect(r.arv).toBe(200000);
+    expect(r.payoff).toBe(150000);
+    expect(r.holdingDebtService).toBe(0);
+  });
+
+  it('amortizes the new loan at the refinance terms', () => {
+    const r = refi({ refiRatePct: '6.5', refiTermYears: '30' });
+    expect(r.schedule).toHaveLength(360);
+    expect(r.schedule[0].payment).toBeCloseTo(monthlyMortgagePayment(225000, 6.5, 30), 6);
+  });
+});
+
+describe('sanitizeBrrrr', () => {
+  it('rebuilds rehab items and defaults the rest', () => {
+    const b = sanitizeBrrrr({ rehabItems: [{ label: 'Paint', cost: 3000 }, 'junk'], arv: 275000 });
+    expect(b.rehabItems.map((i) => [i.label, i.cost])).toEqual([['Paint', '3000']]);
+    expect(b.arv).toBe('275000');
+    expect(b.refiLtvPct).toBe(DEFAULT_BRRRR.refiLtvPct);
+  });
+});
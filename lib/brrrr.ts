@@ -0,0 +1,158 @@
+import { clamp, toNum } from './format';
+import { DEFAULT_LOAN_TERMS, loanSchedule, loanSpec, parseLoanTerms } from './loans';
+import type { AmortizationRow } from './mortgage';
+
+export type RehabItem = { id: string; label: string; cost: string };
+
+// Buy, rehab, rent, refinance: everything after closing on the purchase.
+export type BrrrrForm = {
+  rehabItems: RehabItem[];
+  rehabMonths: string; // months from purchase to refinance
+  holdingCostsMonthly: string; // taxes, insurance, utilities while vacant (excl. loan payments)
+  arv: string; // after-repair value; blank or 0 uses the purchase price
+  refiLtvPct: string;
+  refiRatePct: string;
+  refiTermYears: string;
+  refiCosts: string;
+};
+
+function newId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function newRehabItem(label = '', cost = '0'): RehabItem {
+  return { id: newId(), label, cost };
+}
+
+export const DEFAULT_BRRRR: BrrrrForm = {
+  rehabItems: [],
+  rehabMonths: '6',
+  holdingCostsMonthly: '0',
+  arv: '',
+  refiLtvPct: '75',
+  refiRatePct: '7',
+  refiTermYears: '30',
+  refiCosts: '0',
+};
+
+export function rehabTotal(items: RehabItem[]) {
+  return items.reduce((acc, i) => acc + Math.max(0, toNum(i.cost)), 0);
+}
+
+export type RefiResult = {
+  rehabTotal: number;
+  rehabMonths: number;
+  purchaseCash: number; // down payment + closing costs on the purchase
+  holdingCosts: number; // entered holding costs over the rehab period
+  holdingDebtService: number; // acquisition loan payments over the rehab period
+  allInCash: number; // purchase cash + rehab + holding
+  arv: number;
+  refiLoan: number;
+  refiRate: number;
+  refiYears: number;
+  refiCosts: number;
+  payoff: number; // acquisition debt retired at the refinance
+  cashOut: number; // refi loan − payoff − refi costs
+  cashLeft: number; // cash still tied up after the refinance (0 when fully recovered)
+  cashRecovered: number; // portion of all-in cash returned by the refinance
+  excessCashOut: number; // cash pulled out beyond everything put in
+  schedule: AmortizationRow[]; // post-refi debt (single fixed-rate loan)
+};
+
+// Parsed BRRRR inputs: plain numbers, LTV as a fraction.
+export type RefiTerms = {
+  rehabTotal: number;
+  rehabMonths: number;
+  holdingCostsMonthly: number;
+  arv: number; // 0 = use the purchase price
+  refiLtv: number;
+  refiRatePct: number;
+  refiTermYears: number;
+  refiCosts: number;
+};
+
+export function parseRefiTerms(b: BrrrrForm): RefiTerms {
+  return {
+    rehabTotal: rehabTotal(b.rehabItems),
+    rehabMonths: clamp(Math.round(toNum(b.rehabMonths)), 0, 60),
+    holdingCostsMonthly: Math.max(0, toNum(b.holdingCostsMonthly)),
+    arv: Math.max(0, toNum(b.arv)),
+    refiLtv: clamp(toNum(b.refiLtvPct), 0, 100) / 100,
+    refiRatePct: clamp(toNum(b.refiRatePct), 0, 100),
+    refiTermYears: Math.max(1, Math.round(toNum(b.refiTermYears))),
+    refiCosts: Math.max(0, toNum(b.refiCosts)),
+  };
+}
+
+/**
+ * Rehab is paid in cash; holding costs include the acquisition loan's scheduled
+ * payments until the refinance, which then pays that loan off at its balance.
+ */
+export function computeRefi(
+  t: RefiTerms,
+  args: { price: number; acquisition: AmortizationRow[]; acquisitionLoan: number; purchaseCash: number; extraPrincipal: number },
+): RefiResult {
+  const rehab = t.rehabTotal;
+  const months = t.rehabMonths;
+  const holdingCosts = t.holdingCostsMonthly * months;
+  const holdingDebtService = args.acquisition.slice(0, months).reduce((acc, r) => acc + r.payment, 0);
+  const allInCash = args.purchaseCash + rehab + holdingCosts + holdingDebtService;
+
+  const arv = t.arv > 0 ? t.arv : args.price;
+  const refiRate = t.refiRatePct;
+  const refiYears = t.refiTermYears;
+  const refiLoan = arv * t.refiLtv;
+  const refiCosts = t.refiCosts;
+
+  const payoff = months > 0 ? (args.acquisition[months - 1]?.balance ?? 0) : args.acquisitionLoan;
+  const cashOut = refiLoan - payoff - refiCosts;
+
+  return {
+    rehabTotal: rehab,
+    rehabMonths: months,
+    purchaseCash: args.purchaseCash,
+    holdingCosts,
+    holdingDebtService,
+    allInCash,
+    arv,
+    refiLoan,
+    refiRate,
+    refiYears,
+    refiCosts,
+    payoff,
+    cashOut,
+    cashLeft: Math.max(0, allInCash - cashOut),
+    cashRecovered: clamp(cashOut, 0, allInCash),
+    excessCashOut: Math.max(0, cashOut - allInCash),
+    schedule: loanSchedule(loanSpec('Refinance', refiLoan, refiRate, refiYears, parseLoanTerms(DEFAULT_LOAN_TERMS)), args.extraPrincipal),
+  };
+}
+
+// Rebuilds BRRRR inputs from stored or shared JSON; unknown fields fall back to defaults.
+export function sanitizeBrrrr(input: unknown): BrrrrForm {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const str = (k: Exclude<keyof BrrrrForm, 'rehabItems'>) =>
+    typeof o[k] === 'string' || typeof o[k] === 'number' ? String(o[k]) : DEFAULT_BRRRR[k];
+  const items = Array.isArray(o.rehabItems) ? o.rehabItems : [];
+
+  return {
+    rehabItems: items
+      .filter((i): i is Record<string, unknown> => !!i && typeof i === 'object')
+      .map((i) => newRehabItem(typeof i.label === 'string' ? i.label : '', typeof i.cost === 'string' || typeof i.cost === 'number' ? String(i.cost) : '0')),
+    rehabMonths: str('rehabMonths'),
+    holdingCostsMonthly: str('holdingCostsMonthly'),
+    arv: str('arv'),
+    refiLtvPct: str('refiLtvPct'),
+    refiRatePct: str('refiRatePct'),
+    refiTermYears: str('refiTermYears'),
+    refiCosts: str('refiCosts'),
+  };
+}
+
+export function parseBrrrr(raw: string): BrrrrForm | null {
+  try {
+    return sanitizeBrrrr(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
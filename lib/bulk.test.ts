@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildBulkRows, bulkCsvRows, guessMapping, screenBulkRows, sortBulkResults } from './bulk';
+import { computeDeal } from './deal';
+import { DEFAULT_FORM } from './dealForm';
+import { DEFAULT_CASH_TO_CLOSE } from './cashToClose';
+import { itemizeFlatExpenses } from './opex';
+import { DEFAULT_PROPERTY } from './property';
+import { newScenario } from './scenarios';
+import { DEFAULT_RULE_SET } from './rules';
+
+const HEADER = ['Property Address', 'List Price', 'Rent', 'Taxes', 'HOA', 'Beds'];
+const DATA = [
+  ['12 Oak St', '$250,000', '2,400', '3600', '0', '3'],
+  ['9 Elm Ave', '600000', '3000', '9000', '150', '4'],
+  ['No price', '', '1800', '', '', '2'],
+  ['4 Pine Ct', '180000', '', '2400', '', '2'],
+];
+
+describe('guessMapping', () => {
+  it('matches common header names and leaves the rest unmapped', () => {
+    const m = guessMapping(HEADER);
+    expect(m.label).toBe(0);
+    expect(m.purchasePrice).toBe(1);
+    expect(m.monthlyRent).toBe(2);
+    expect(m.taxesAnnual).toBe(3);
+    expect(m.taxesMonthly).toBeNull();
+    expect(m.hoaMonthly).toBe(4);
+    expect(m.ratePct).toBeNull();
+  });
+});
+
+describe('buildBulkRows', () => {
+  const base = { ...DEFAULT_FORM, strMode: true, ratePct: '7' };
+  const { rows, skipped } = buildBulkRows(DATA, guessMapping(HEADER), base);
+
+  it('skips rows without a price', () => {
+    expect(skipped).toBe(1);
+    expect(rows.map((r) => r.row)).toEqual([1, 2, 4]);
+  });
+
+  it('parses formatted numbers and converts annual taxes to monthly', () => {
+    expect(rows[0].form.purchasePrice).toBe('250000');
+    expect(rows[0].form.monthlyRent).toBe('2400');
+    expect(rows[0].form.taxesMonthly).toBe('300');
+    expect(rows[1].form.hoaMonthly).toBe('150');
+  });
+
+  it('falls back to the current deal for missing cells and columns', () => {
+    expect(rows[2].form.monthlyRent).toBe(DEFAULT_FORM.monthlyRent);
+    expect(rows[2].form.insuranceMonthly).toBe(DEFAULT_FORM.insuranceMonthly);
+    expect(rows[2].form.ratePct).toBe('7');
+    expect(rows[2].form.strMode).toBe(false);
+  });
+
+  it('screens rows on the flat expense inputs when the current deal is itemized', () => {
+    const itemized = { ...DEFAULT_FORM, opex: itemizeFlatExpenses(DEFAULT_FORM) };
+    const { rows: low } = buildBulkRows([['A', '250000', '2400', '1200']], guessMapping(HEADER), itemized);
+    const { rows: high } = buildBulkRows([['B', '250000', '2400', '24000']], guessMapping(HEADER), itemized);
+    expect(low[0].form.opex.itemized).toBe(false);
+    expect(computeDeal(low[0].form).netCashFlow - computeDeal(high[0].form).netCashFlow).toBeCloseTo(1900, 6);
+  });
+
+  it('uses the imported closing costs and drops the open deal’s profile and scenarios', () => {
+    const base = {
+      ...DEFAULT_FORM,
+      cashToClose: { ...DEFAULT_CASH_TO_CLOSE, itemized: true, lenderFees: '9000' },
+      property: { ...DEFAULT_PROPERTY, address: '1 Main St', notes: 'Open deal' },
+      scenarios: [newScenario({ name: 'Conservative' })],
+    };
+    const { rows } = buildBulkRows([['A', '250000', '4500']], guessMapping(['Address', 'Price', 'Closing costs']), base);
+    const r = computeDeal(rows[0].form);
+    expect(r.close).toBe(4500);
+    expect(r.cashToClose).toBeNull();
+    expect(rows[0].form.property).toEqual(DEFAULT_PROPERTY);
+    expect(rows[0].form.scenarios).toEqual([]);
+  });
+});
+
+describe('screenBulkRows', () => {
+  const { rows } = buildBulkRows(DATA, guessMapping(HEADER), DEFAULT_FORM);
+  const results = screenBulkRows(rows, DEFAULT_RULE_SET);
+
+  it('scores every row and keeps the first failing reason', () => {
+    expect(results).toHaveLength(3);
+    const nogo = results.find((r) => !r.isGo);
+    expect(nogo?.firstReason).toMatch(/negative|DSCR/);
+  });
+
+  it('sorts by a metric in either direction', () => {
+    const desc = sortBulkResults(results, 'netCashFlow', true).map((r) => r.netCashFlow);
+    expect(desc).toEqual([...desc].sort((a, b) => b - a));
+    const byLabel = sortBulkResults(results, 'label', false).map((r) => r.label);
+    expect(byLabel).toEqual(['12 Oak St', '4 Pine Ct', '9 Elm Ave']);
+  });
+
+  it('exports a header plus one line per property', () => {
+    const csv = bulkCsvRows(results);
+    expect(csv).toHaveLength(4);
+    expect(csv[0][2]).toBe('Verdict');
+  });
+});
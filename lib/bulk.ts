@@ -0,0 +1,182 @@
+import { toNum } from './format';
+import { computeDeal } from './deal';
+import type { DealForm } from './dealForm';
+import { DEFAULT_PROPERTY } from './property';
+import type { RuleSet } from './rules';
+
+// Columns a property list can supply; everything else comes from the current form.
+export type BulkTarget =
+  | 'label'
+  | 'purchasePrice'
+  | 'monthlyRent'
+  | 'taxesMonthly'
+  | 'taxesAnnual'
+  | 'insuranceMonthly'
+  | 'insuranceAnnual'
+  | 'hoaMonthly'
+  | 'utilitiesMonthly'
+  | 'otherIncome'
+  | 'closingCosts'
+  | 'downPct'
+  | 'ratePct';
+
+export const BULK_TARGETS: { target: BulkTarget; label: string; aliases: string[] }[] = [
+  { target: 'label', label: 'Address / name', aliases: ['address', 'property', 'property address', 'street', 'name', 'label'] },
+  { target: 'purchasePrice', label: 'Purchase price', aliases: ['price', 'purchase price', 'list price', 'asking', 'asking price', 'offer'] },
+  { target: 'monthlyRent', label: 'Rent (monthly)', aliases: ['rent', 'monthly rent', 'market rent', 'est rent', 'rent estimate', 'gross rent'] },
+  { target: 'taxesMonthly', label: 'Taxes (monthly)', aliases: ['taxes monthly', 'monthly taxes', 'tax monthly'] },
+  { target: 'taxesAnnual', label: 'Taxes (annual)', aliases: ['taxes', 'tax', 'annual taxes', 'property tax', 'property taxes', 'taxes annual'] },
+  { target: 'insuranceMonthly', label: 'Insurance (monthly)', aliases: ['insurance monthly', 'monthly insurance'] },
+  { target: 'insuranceAnnual', label: 'Insurance (annual)', aliases: ['insurance', 'annual insurance', 'insurance annual'] },
+  { target: 'hoaMonthly', label: 'HOA (monthly)', aliases: ['hoa', 'hoa fee', 'hoa fees', 'hoa monthly'] },
+  { target: 'utilitiesMonthly', label: 'Utilities (monthly)', aliases: ['utilities', 'owner utilities'] },
+  { target: 'otherIncome', label: 'Other income (monthly)', aliases: ['other income', 'other'] },
+  { target: 'closingCosts', label: 'Closing costs', aliases: ['closing costs', 'closing'] },
+  { target: 'downPct', label: 'Down payment %', aliases: ['down', 'down %', 'down payment', 'down pct'] },
+  { target: 'ratePct', label: 'Interest rate %', aliases: ['rate', 'interest rate', 'rate %'] },
+];
+
+export type BulkMapping = Record<BulkTarget, number | null>; // column index per target
+
+function normalizeHeader(h: string) {
+  return h.trim().toLowerCase().replace(/[_\-()$]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Maps header names to targets by alias; each column is used at most once.
+export function guessMapping(headers: string[]): BulkMapping {
+  const h = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as BulkMapping;
+  for (const { target, aliases } of BULK_TARGETS) {
+    const i = h.findIndex((c, j) => !used.has(j) && aliases.includes(c));
+    mapping[target] = i >= 0 ? i : null;
+    if (i >= 0) used.add(i);
+  }
+  return mapping;
+}
+
+export type BulkRow = {
+  row: number; // 1-based data row in the file
+  label: string;
+  form: DealForm;
+};
+
+/**
+ * Builds one form per data row on top of `base` (the current deal's financing and
+ * assumptions). Property-specific extras — profile, rent roll, liens, STR, BRRRR,
+ * scenarios — are cleared so every row is screened as a standard rental, and the
+ * itemized expense and cash-to-close worksheets fall back to the flat inputs the
+ * columns fill. Rows without a price are skipped.
+ */
+export function buildBulkRows(data: string[][], mapping: BulkMapping, base: DealForm): { rows: BulkRow[]; skipped: number } {
+  const rows: BulkRow[] = [];
+  let skipped = 0;
+
+  data.forEach((cells, i) => {
+    const cell = (t: BulkTarget) => {
+      const col = mapping[t];
+      return col === null ? '' : (cells[col] ?? '').trim();
+    };
+    const number = (t: BulkTarget) => (cell(t) ? String(toNum(cell(t))) : null);
+
+    const price = number('purchasePrice');
+    if (!price || toNum(price) <= 0) {
+      skipped++;
+      return;
+    }
+
+    const annual = (t: BulkTarget) => (cell(t) ? String(Math.round((toNum(cell(t)) / 12) * 100) / 100) : null);
+    const form: DealForm = {
+      ...base,
+      section8Mode: false,
+      strMode: false,
+      brrrrMode: false,
+      units: [],
+      liens: [],
+      opex: { ...base.opex, itemized: false },
+      cashToClose: { ...base.cashToClose, itemized: false },
+      property: DEFAULT_PROPERTY,
+      scenarios: [],
+      purchasePrice: price,
+      monthlyRent: number('monthlyRent') ?? base.monthlyRent,
+      taxesMonthly: number('taxesMonthly') ?? annual('taxesAnnual') ?? base.taxesMonthly,
+      insuranceMonthly: number('insuranceMonthly') ?? annual('insuranceAnnual') ?? base.insuranceMonthly,
+      hoaMonthly: number('hoaMonthly') ?? base.hoaMonthly,
+      utilitiesMonthly: number('utilitiesMonthly') ?? base.utilitiesMonthly,
+      otherIncome: number('otherIncome') ?? base.otherIncome,
+      closingCosts: number('closingCosts') ?? base.closingCosts,
+      downPct: number('downPct') ?? base.downPct,
+      ratePct: number('ratePct') ?? base.ratePct,
+    };
+    rows.push({ row: i + 1, label: cell('label') || `Row ${i + 1}`, form });
+  });
+
+  return { rows, skipped };
+}
+
+export type BulkResult = {
+  row: number;
+  label: string;
+  form: DealForm;
+  isGo: boolean;
+  price: number;
+  rent: number;
+  netCashFlow: number;
+  dscr: number;
+  capRate: number;
+  cashOnCash: number;
+  firstReason: string; // first blocking reason, else the first warning
+};
+
+export function screenBulkRows(rows: BulkRow[], ruleSet: RuleSet): BulkResult[] {
+  return rows.map(({ row, label, form }) => {
+    const r = computeDeal(form, ruleSet);
+    return {
+      row,
+      label,
+      form,
+      isGo: r.decision.isGo,
+      price: r.price,
+      rent: r.rent,
+      netCashFlow: r.netCashFlow,
+      dscr: r.dscr,
+      capRate: r.capRate,
+      cashOnCash: r.cashOnCash,
+      firstReason: r.decision.reasons[0] ?? r.decision.warnings[0] ?? '',
+    };
+  });
+}
+
+export type BulkSortKey = 'row' | 'label' | 'isGo' | 'price' | 'rent' | 'netCashFlow' | 'dscr' | 'capRate' | 'cashOnCash';
+
+// Sorts a copy; undefined metrics (NaN) always sink to the bottom.
+export function sortBulkResults(results: BulkResult[], key: BulkSortKey, descending: boolean) {
+  const dir = descending ? -1 : 1;
+  return [...results].sort((a, b) => {
+    const x = a[key];
+    const y = b[key];
+    if (typeof x === 'string' || typeof y === 'string') return String(x).localeCompare(String(y)) * dir;
+    const xn = Number(x);
+    const yn = Number(y);
+    if (Number.isNaN(xn) || Number.isNaN(yn)) return Number.isNaN(xn) ? (Number.isNaN(yn) ? 0 : 1) : -1;
+    return xn === yn ? a.row - b.row : (xn - yn) * dir;
+  });
+}
+
+export function bulkCsvRows(results: BulkResult[]): (string | number)[][] {
+  return [
+    ['Row', 'Property', 'Verdict', 'Price', 'Rent', 'Cash flow (mo)', 'DSCR', 'Cap rate %', 'Cash-on-cash %', 'First failing reason'],
+    ...results.map((r) => [
+      r.row,
+      r.label,
+      r.isGo ? 'GO' : 'NO-GO',
+      r.price,
+      r.rent,
+      r.netCashFlow,
+      Number.isFinite(r.dscr) ? r.dscr : '',
+      r.capRate * 100,
+      r.cashOnCash * 100,
+      r.firstReason,
+    ]),
+  ];
+}
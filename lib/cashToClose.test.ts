@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_CASH_TO_CLOSE, computeCashToClose, parseCashToClose, sanitizeCashToClose } from './cashToClose';
+import { computeDeal } from './deal';
+import { DEFAULT_FORM, type DealForm } from './dealForm';
+
+const worksheet = (c: Partial<DealForm['cashToClose']>): DealForm => ({ ...DEFAULT_FORM, cashToClose: { ...DEFAULT_CASH_TO_CLOSE, itemized: true, ...c } });
+
+describe('computeCashToClose', () => {
+  const input = parseCashToClose({ ...DEFAULT_CASH_TO_CLOSE, lenderFees: '1500', pointsPct: '1', prepaidInsurance: '1800', sellerCredits: '2000', earnestMoney: '5000' });
+
+  it('adds points on the first mortgage and nets seller credits', () => {
+    const c = computeCashToClose(input, { firstLoan: 300000, downPayment: 100000, startupCash: 0 });
+    expect(c.lines).toEqual([
+      { label: 'Lender fees', amount: 1500 },
+      { label: 'Prepaid insurance', amount: 1800 },
+      { label: 'Loan points', amount: 3000 },
+    ]);
+    expect(c.closingCosts).toBe(4300);
+    expect(c.totalCash).toBe(104300);
+    expect(c.dueAtClosing).toBe(99300);
+    expect(c.prepaids).toBe(1800);
+  });
+
+  it('caps seller credits at the costs', () => {
+    const c = computeCashToClose({ ...input, sellerCredits: 50000 }, { firstLoan: 0, downPayment: 80000, startupCash: 0 });
+    expect(c.sellerCredits).toBe(3300);
+    expect(c.totalCash).toBe(80000);
+  });
+});
+
+describe('deals with the worksheet', () => {
+  it('use the total cash required for cash invested and cash-on-cash', () => {
+    const form = worksheet({ titleEscrow: '2500', inspections: '600', escrowReserves: '1200', initialRepairs: '4000', pointsPct: '0.5' });
+    const r = computeDeal({ ...form, closingCosts: '99999' });
+    // $500k at 25% down: $375k first mortgage, 0.5 points = $1,875.
+    expect(r.close).toBeCloseTo(2500 + 600 + 1200 + 4000 + 1875, 6);
+    expect(r.cashInvested).toBeCloseTo(125000 + r.close, 6);
+    expect(r.cashOnCash).toBeCloseTo((r.netCashFlow * 12) / r.cashInvested, 10);
+    expect(r.cashToClose?.totalCash).toBeCloseTo(r.cashInvested, 6);
+  });
+
+  it('ignore the worksheet when it is off', () => {
+    const r = computeDeal({ ...DEFAULT_FORM, cashToClose: { ...DEFAULT_CASH_TO_CLOSE, lenderFees: '5000' }, closingCosts: '8000' });
+    expect(r.cashToClose).toBeNull();
+    expect(r.close).toBe(8000);
+  });
+});
+
+describe('sanitizeCashToClose', () => {
+  it('keeps known fields and falls back to defaults', () => {
+    expect(sanitizeCashToClose({ itemized: true, appraisal: 650, title: 'x', earnestMoney: null })).toEqual({ ...DEFAULT_CASH_TO_CLOSE, itemized: true, appraisal: '650' });
+    expect(sanitizeCashToClose('nope')).toEqual(DEFAULT_CASH_TO_CLOSE);
+  });
+});
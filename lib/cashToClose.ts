@@ -0,0 +1,132 @@
+import { clamp, toNum } from './format';
+
+// Cash-to-close worksheet: every cost of buying beyond the down payment. When on,
+// it replaces the single closing-costs input, so cash invested (and cash-on-cash,
+// IRR, BRRRR cash left) counts the true cash required.
+export type CashToCloseForm = {
+  itemized: boolean;
+  lenderFees: string; // origination, underwriting, processing
+  pointsPct: string; // discount points, percent of the first mortgage
+  titleEscrow: string; // title insurance, escrow / settlement, recording
+  inspections: string;
+  appraisal: string;
+  prepaidTaxes: string;
+  prepaidInsurance: string; // usually the first year's premium
+  escrowReserves: string; // initial deposit to the lender's escrow account
+  initialRepairs: string; // make-ready work paid in cash right after closing
+  otherCosts: string;
+  sellerCredits: string; // reduce cash to close, up to the costs above
+  earnestMoney: string; // paid at contract; counts toward the cash required
+};
+
+export type CashToCloseKey = Exclude<keyof CashToCloseForm, 'itemized' | 'pointsPct' | 'sellerCredits' | 'earnestMoney'>;
+
+// Dollar cost lines, in worksheet order.
+export const CASH_TO_CLOSE_COSTS: { key: CashToCloseKey; label: string; hint: string; prepaid?: boolean }[] = [
+  { key: 'lenderFees', label: 'Lender fees', hint: 'Origination, underwriting, processing.' },
+  { key: 'titleEscrow', label: 'Title & escrow', hint: 'Title insurance, settlement, recording.' },
+  { key: 'inspections', label: 'Inspections', hint: 'Home, sewer, pest, etc.' },
+  { key: 'appraisal', label: 'Appraisal', hint: '' },
+  { key: 'prepaidTaxes', label: 'Prepaid taxes', hint: 'Taxes collected at closing.', prepaid: true },
+  { key: 'prepaidInsurance', label: 'Prepaid insurance', hint: 'Usually the first year’s premium.', prepaid: true },
+  { key: 'escrowReserves', label: 'Escrow reserves', hint: 'Initial deposit to the lender’s escrow account.', prepaid: true },
+  { key: 'initialRepairs', label: 'Initial repairs', hint: 'Make-ready work paid in cash after closing.' },
+  { key: 'otherCosts', label: 'Other closing costs', hint: 'Transfer taxes, attorney, HOA transfer, etc.' },
+];
+
+export const DEFAULT_CASH_TO_CLOSE: CashToCloseForm = {
+  itemized: false,
+  lenderFees: '0',
+  pointsPct: '0',
+  titleEscrow: '0',
+  inspections: '0',
+  appraisal: '0',
+  prepaidTaxes: '0',
+  prepaidInsurance: '0',
+  escrowReserves: '0',
+  initialRepairs: '0',
+  otherCosts: '0',
+  sellerCredits: '0',
+  earnestMoney: '0',
+};
+
+// Parsed worksheet for the engine; points depend on the loan, so the engine adds them.
+export type ClosingInput = {
+  costs: { label: string; amount: number }[];
+  pointsRate: number; // share of the first mortgage
+  prepaids: number; // taxes, insurance and escrow paid ahead (not part of the cost basis)
+  sellerCredits: number;
+  earnestMoney: number;
+};
+
+export function parseCashToClose(c: CashToCloseForm): ClosingInput {
+  const amount = (k: Exclude<keyof CashToCloseForm, 'itemized'>) => Math.max(0, toNum(c[k]));
+  return {
+    costs: CASH_TO_CLOSE_COSTS.map(({ key, label }) => ({ label, amount: amount(key) })),
+    pointsRate: clamp(toNum(c.pointsPct), 0, 10) / 100,
+    prepaids: CASH_TO_CLOSE_COSTS.filter((f) => f.prepaid).reduce((a, f) => a + amount(f.key), 0),
+    sellerCredits: amount('sellerCredits'),
+    earnestMoney: amount('earnestMoney'),
+  };
+}
+
+export type CashToClose = {
+  lines: { label: string; amount: number }[]; // costs with an amount, points included
+  costs: number; // sum of the lines
+  sellerCredits: number; // applied, capped at the costs
+  closingCosts: number; // costs − credits
+  downPayment: number;
+  startupCash: number; // STR furnishing
+  totalCash: number; // down payment + closing costs + startup cash
+  earnestMoney: number;
+  dueAtClosing: number; // total cash − earnest money already paid
+  prepaids: number;
+};
+
+/** The worksheet totals for a first mortgage of `firstLoan`. */
+export function computeCashToClose(c: ClosingInput, args: { firstLoan: number; downPayment: number; startupCash: number }): CashToClose {
+  const lines = [...c.costs, { label: 'Loan points', amount: c.pointsRate * args.firstLoan }].filter((l) => l.amount > 0);
+  const costs = lines.reduce((a, l) => a + l.amount, 0);
+  const sellerCredits = Math.min(c.sellerCredits, costs);
+  const closingCosts = costs - sellerCredits;
+  const totalCash = args.downPayment + closingCosts + args.startupCash;
+  return {
+    lines,
+    costs,
+    sellerCredits,
+    closingCosts,
+    downPayment: args.downPayment,
+    startupCash: args.startupCash,
+    totalCash,
+    earnestMoney: c.earnestMoney,
+    dueAtClosing: Math.max(0, totalCash - c.earnestMoney),
+    prepaids: c.prepaids,
+  };
+}
+
+/**
+ * The worksheet with its net closing costs moved from `current` to `target`: every cost,
+ * the points and the seller credits scale together. With nothing entered yet, the target
+ * goes in as other closing costs.
+ */
+export function withClosingCosts(c: CashToCloseForm, current: number, target: number): CashToCloseForm {
+  const value = Math.max(0, target);
+  if (current <= 0) return { ...c, otherCosts: String(value), sellerCredits: '0' };
+  const f = value / current;
+  const scaled = (v: string) => String(Math.round(Math.max(0, toNum(v)) * f * 10000) / 10000);
+  const next = { ...c, pointsPct: scaled(c.pointsPct), sellerCredits: scaled(c.sellerCredits) };
+  for (const { key } of CASH_TO_CLOSE_COSTS) next[key] = scaled(c[key]);
+  return next;
+}
+
+// Rebuilds the worksheet from stored or shared JSON; unknown fields fall back to defaults.
+export function sanitizeCashToClose(input: unknown): CashToCloseForm {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const next: CashToCloseForm = { ...DEFAULT_CASH_TO_CLOSE };
+  if (typeof o.itemized === 'boolean') next.itemized = o.itemized;
+  for (const key of Object.keys(DEFAULT_CASH_TO_CLOSE) as (keyof CashToCloseForm)[]) {
+    const v = o[key];
+    if (key !== 'itemized' && (typeof v === 'string' || typeof v === 'number')) next[key] = String(v);
+  }
+  return next;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { COMPARE_METRICS, bestWorst } from './compare';
+
+describe('bestWorst', () => {
+  it('picks the highest or lowest depending on the metric', () => {
+    expect(bestWorst([3, 1, 2], 'high')).toEqual({ best: [0], worst: [1] });
+    expect(bestWorst([3, 1, 2], 'low')).toEqual({ best: [1], worst: [0] });
+  });
+
+  it('marks every column that ties for best or worst', () => {
+    expect(bestWorst([5, 1, 5, 1], 'high')).toEqual({ best: [0, 2], worst: [1, 3] });
+  });
+
+  it('highlights nothing when all values tie or fewer than two are numbers', () => {
+    expect(bestWorst([2, 2, 2], 'high')).toEqual({ best: [], worst: [] });
+    expect(bestWorst([NaN, 4], 'high')).toEqual({ best: [], worst: [] });
+    expect(bestWorst([], 'low')).toEqual({ best: [], worst: [] });
+  });
+
+  it('ignores NaN columns but keeps infinite DSCRs', () => {
+    expect(bestWorst([1.1, NaN, Infinity], 'high')).toEqual({ best: [2], worst: [0] });
+  });
+});
+
+describe('COMPARE_METRICS', () => {
+  it('formats an unbounded DSCR as infinity and a missing one as a dash', () => {
+    const dscr = COMPARE_METRICS.find((m) => m.label === 'DSCR');
+    expect(dscr?.format(1.234)).toBe('1.23');
+    expect(dscr?.format(Infinity)).toBe('∞');
+    expect(dscr?.format(NaN)).toBe('—');
+  });
+});
@@ -0,0 +1,40 @@
+import { money, money2, pct } from './format';
+import type { DealResult } from './deal';
+
+export type CompareMetric = {
+  label: string;
+  value: (r: DealResult) => number;
+  format: (n: number) => string;
+  better: 'high' | 'low';
+};
+
+function ratio(n: number) {
+  return Number.isFinite(n) ? n.toFixed(2) : n > 0 ? '∞' : '—';
+}
+
+export const COMPARE_METRICS: CompareMetric[] = [
+  { label: 'Purchase price', value: (r) => r.price, format: money, better: 'low' },
+  { label: 'Cash invested', value: (r) => r.cashInvested, format: money, better: 'low' },
+  { label: 'Cash flow (monthly)', value: (r) => r.netCashFlow, format: money2, better: 'high' },
+  { label: 'DSCR', value: (r) => r.dscr, format: ratio, better: 'high' },
+  { label: 'Cap rate', value: (r) => r.capRate, format: pct, better: 'high' },
+  { label: 'Cash-on-cash', value: (r) => r.cashOnCash, format: pct, better: 'high' },
+  { label: 'Break-even rent', value: (r) => r.breakEvenRent, format: money2, better: 'low' },
+];
+
+/**
+ * Column indexes holding the best and worst value for one metric. NaN values are
+ * ignored; nothing is highlighted when fewer than two columns have a value or all tie.
+ */
+export function bestWorst(values: number[], better: 'high' | 'low') {
+  const valid = values.map((v, i) => ({ v, i })).filter((x) => !Number.isNaN(x.v));
+  if (valid.length < 2) return { best: [] as number[], worst: [] as number[] };
+
+  const max = Math.max(...valid.map((x) => x.v));
+  const min = Math.min(...valid.map((x) => x.v));
+  if (max === min) return { best: [] as number[], worst: [] as number[] };
+
+  const top = valid.filter((x) => x.v === (better === 'high' ? max : min)).map((x) => x.i);
+  const bottom = valid.filter((x) => x.v === (better === 'high' ? min : max)).map((x) => x.i);
+  return { best: top, worst: bottom };
+}
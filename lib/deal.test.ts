@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeDeal, evaluateDeal, scoreDecision, type DealInput } from './deal';
+import { DEFAULT_FORM } from './dealForm';
+import { DEFAULT_LOAN_TERMS, parseLoanTerms } from './loans';
+import { DEFAULT_RULE_SET } from './rules';
+
+// A plain single-family rental: $400k, 25% down at 6%, $3,000 rent.
+const BASE: DealInput = {
+  price: 400000,
+  down: 0.25,
+  ratePct: 6,
+  termYears: 30,
+  closingCosts: 8000,
+  closing: null,
+  extraPrincipal: 0,
+  loanTerms: parseLoanTerms(DEFAULT_LOAN_TERMS),
+  liens: [],
+  rent: 3000,
+  otherIncome: 0,
+  rentRoll: null,
+  str: null,
+  taxes: 400,
+  insurance: 100,
+  hoa: 0,
+  utilities: 0,
+  reserve: 0,
+  vacancy: 0.05,
+  repairs: 0.05,
+  capex: 0.05,
+  mgmt: 0.08,
+  opex: null,
+  refi: null,
+};
+
+const deal = (overrides: Partial<DealInput> = {}) => evaluateDeal({ ...BASE, ...overrides });
+
+describe('evaluateDeal', () => {
+  it('computes the monthly snapshot for a financed deal', () => {
+    const r = deal();
+    expect(r.loan).toBe(300000);
+    expect(r.downPayment).toBe(100000);
+    expect(r.cashInvested).toBe(108000);
+    expect(r.mortgagePI).toBeCloseTo(1798.65, 2);
+    // NOI = 3000 × 0.95 − 500 − 3000 × 0.18
+    expect(r.noiMonthly).toBeCloseTo(1810, 6);
+    expect(r.netCashFlow).toBeCloseTo(1810 - 1798.65, 2);
+    expect(r.capRate).toBeCloseTo((1810 * 12) / 400000, 10);
+    expect(r.dscr).toBeCloseTo(1810 / 1798.65, 3);
+    expect(r.cashOnCash).toBeCloseTo((r.netCashFlow * 12) / 108000, 10);
+  });
+
+  it('itemizes operating expenses that add up to the totals', () => {
+    const r = deal({ hoa: 50 });
+    expect(r.expenses.map((e) => e.label)).toEqual(['Property taxes', 'Insurance', 'HOA', 'Repairs', 'CapEx reserve', 'Management']);
+    const sum = r.expenses.reduce((a, e) => a + e.monthly, 0);
+    expect(sum).toBeCloseTo(r.fixedCostsNoDebt + r.percentCosts, 8);
+  });
+
+  it('solves break-even rent so that cash flow is zero', () => {
+    const r = deal();
+    const atBreakEven = deal({ rent: r.breakEvenRent });
+    expect(atBreakEven.netCashFlow).toBeCloseTo(0, 6);
+  });
+
+  it('amortizes evenly at a 0% rate', () => {
+    const r = deal({ ratePct: 0 });
+    expect(r.mortgagePI).toBeCloseTo(300000 / 360, 8);
+    expect(r.amortizationYears[0].interest).toBe(0);
+    expect(r.amortizationYears.at(-1)?.endingBalance).toBeCloseTo(0, 6);
+  });
+
+  it('handles 100% down with no debt', () => {
+    const r = deal({ down: 1 });
+    expect(r.loan).toBe(0);
+    expect(r.mortgagePI).toBe(0);
+    expect(r.amortization).toHaveLength(0);
+    expect(r.netCashFlow).toBeCloseTo(r.noiMonthly, 10);
+    expect(r.cashInvested).toBe(408000);
+    expect(r.dscr).toBe(Infinity);
+    expect(r.decision.isGo).toBe(true);
+  });
+
+  it('reports DSCR as n/a for 100% down with no income', () => {
+    const r = deal({ down: 1, rent: 0, taxes: 0, insurance: 0 });
+    expect(r.noiMonthly).toBe(0);
+    expect(Number.isNaN(r.dscr)).toBe(true);
+    expect(r.decision.outcomes.find((o) => o.rule.id === 'dscr')?.status).toBe('n/a');
+  });
+
+  it('flags negative NOI as a No-Go', () => {
+    const r = deal({ rent: 400 });
+    expect(r.noiMonthly).toBeLessThan(0);
+    expect(r.capRate).toBeLessThan(0);
+    expect(r.dscr).toBeLessThan(0);
+    expect(r.decision.isGo).toBe(false);
+    expect(r.decision.reasons.some((t) => t.startsWith('Cash flow is negative'))).toBe(true);
+  });
+
+  it('returns an infinite break-even rent when costs consume every rent dollar (coeff = 0)', () => {
+    const r = deal({ vacancy: 0.5, repairs: 0.2, capex: 0.2, mgmt: 0.1 });
+    expect(r.breakEvenRent).toBe(Infinity);
+    expect(r.decision.outcomes.find((o) => o.rule.id === 'be')?.status).toBe('fail');
+  });
+
+  it('treats zero cash invested as an undefined return', () => {
+    const r = deal({ price: 0, closingCosts: 0 });
+    expect(r.cashInvested).toBe(0);
+    expect(Number.isNaN(r.cashOnCash)).toBe(true);
+    expect(Number.isNaN(r.capRate)).toBe(true);
+  });
+
+  it('adds stacked liens to the debt and reduces the down payment', () => {
+    const second = { ...parseLoanTerms(DEFAULT_LOAN_TERMS), label: 'Second', amount: 40000, ratePct: 9, amortYears: 15 };
+    const r = deal({ liens: [second] });
+    expect(r.loan).toBe(340000);
+    expect(r.downPayment).toBe(60000);
+    expect(r.mortgagePI).toBeGreaterThan(deal().mortgagePI);
+  });
+
+  it('scores BRRRR deals on the post-refi numbers', () => {
+    const r = deal({
+      refi: { rehabTotal: 50000, rehabMonths: 0, holdingCostsMonthly: 0, arv: 600000, refiLtv: 0.75, refiRatePct: 6, refiTermYears: 30, refiCosts: 0 },
+    });
+    expect(r.propertyValue).toBe(600000);
+    expect(r.refi?.cashOut).toBeCloseTo(450000 - 300000, 6);
+    expect(r.cashInvested).toBe(8000);
+    expect(r.loan).toBe(300000);
+    expect(r.mortgagePI).toBeCloseTo(2698, 0);
+  });
+});
+
+describe('scoreDecision', () => {
+  const args = {
+    netCashFlow: 100,
+    dscr: 1.3,
+    cashOnCash: 0.09,
+    breakEvenRent: 2500,
+    effectiveIncome: 2850,
+    grossIncome: 3000,
+    mortgagePI: 1500,
+    peakDebtService: 1500,
+    dscrAtPeak: 1.3,
+    balloon: null,
+    negativeMonths: [],
+    noiMonthly: 1600,
+    capRate: 0.06,
+    totalReturn: 0.12,
+    ruleSet: DEFAULT_RULE_SET,
+  };
+
+  it('passes a deal that clears every rule', () => {
+    const d = scoreDecision(args);
+    expect(d.isGo).toBe(true);
+    expect(d.reasons).toEqual([]);
+    expect(d.warnings).toEqual([]);
+  });
+
+  it('blocks on a failed blocker and only warns on a failed warning', () => {
+    const d = scoreDecision({ ...args, dscr: 1.1, cashOnCash: 0.05 });
+    expect(d.isGo).toBe(false);
+    expect(d.reasons).toHaveLength(1);
+    expect(d.warnings).toHaveLength(1);
+  });
+
+  it('fails the break-even rule when there is no income to cover costs', () => {
+    const d = scoreDecision({ ...args, grossIncome: 0 });
+    expect(d.outcomes.find((o) => o.rule.id === 'be')?.value).toBe(Infinity);
+  });
+
+  it('warns about payment shock, balloons and negative seasonal months', () => {
+    const d = scoreDecision({ ...args, peakDebtService: 1900, balloon: { year: 7, amount: 250000 }, negativeMonths: ['Jan', 'Feb'] });
+    expect(d.isGo).toBe(true);
+    expect(d.warnings).toHaveLength(3);
+  });
+});
+
+describe('computeDeal', () => {
+  it('matches the engine on the parsed form', () => {
+    const r = computeDeal(DEFAULT_FORM);
+    expect(r.netCashFlow).toBeCloseTo(-12.24, 2);
+    expect(r.dscr).toBeCloseTo(0.99, 2);
+    expect(r.decision.isGo).toBe(false);
+  });
+});
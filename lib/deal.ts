@@ -0,0 +1,294 @@
+import { money, money2 } from './format';
+import { computeRefi, type RefiTerms } from './brrrr';
+import { computeCashToClose, type ClosingInput } from './cashToClose';
+import { summarizeByYear } from './mortgage';
+import { combineSchedules, loanSchedule, loanSpec, type LoanSpec, type LoanTerms } from './loans';
+import type { ExpenseLine } from './opex';
+import type { RentRollSummary } from './rentRoll';
+import type { StrModel } from './str';
+import { DEFAULT_RULE_SET, evaluateRules, type RuleSet } from './rules';
+import { toDealInput } from './dealInput';
+import type { DealForm } from './dealForm';
+
+export function scoreDecision(args: {
+  netCashFlow: number;
+  dscr: number;
+  cashOnCash: number;
+  breakEvenRent: number;
+  effectiveIncome: number;
+  grossIncome: number;
+  mortgagePI: number;
+  peakDebtService: number;
+  dscrAtPeak: number;
+  balloon: { year: number; amount: number } | null;
+  negativeMonths: string[]; // STR seasonality: months with negative cash flow
+  noiMonthly: number;
+  capRate: number;
+  totalReturn: number;
+  ruleSet: RuleSet;
+}) {
+  const breakEvenRatio = args.grossIncome > 0
+    ? args.breakEvenRent / args.grossIncome
+    : (args.breakEvenRent > 0 ? Infinity : 0);
+
+  const outcomes = evaluateRules(args.ruleSet.rules, {
+    netCashFlow: args.netCashFlow,
+    dscr: args.dscr,
+    dscrAtPeak: args.dscrAtPeak,
+    cashOnCash: args.cashOnCash,
+    capRate: args.capRate,
+    totalReturn: args.totalReturn,
+    noiMonthly: args.noiMonthly,
+    breakEvenRatio,
+  });
+
+  const failed = outcomes.filter((o) => o.status === 'fail');
+  const reasons = failed.filter((o) => o.rule.severity === 'blocker').map((o) => o.text);
+  const warnings = failed.filter((o) => o.rule.severity === 'warning').map((o) => o.text);
+
+  if (args.peakDebtService > args.mortgagePI + 0.5) {
+    warnings.push(`Debt service rises to ${money2(args.peakDebtService)}/mo after the IO period / rate reset (DSCR ${Number.isFinite(args.dscrAtPeak) ? args.dscrAtPeak.toFixed(2) : '—'}).`);
+  }
+  if (args.negativeMonths.length) {
+    warnings.push(`Seasonal cash flow is negative in ${args.negativeMonths.join(', ')} — hold reserves for the slow months.`);
+  }
+  if (args.balloon) warnings.push(`Balloon of ${money(args.balloon.amount)} due in year ${args.balloon.year} — plan a refinance or sale.`);
+
+  const isGo = reasons.length === 0;
+
+  const primarySignals = [
+    { k: 'Cash flow (monthly)', v: money2(args.netCashFlow) },
+    { k: 'DSCR', v: Number.isFinite(args.dscr) ? args.dscr.toFixed(2) : '—' },
+  ];
+
+  const nextStep = isGo
+    ? 'Next: verify rent comps + taxes/insurance + vacancy; then do full underwriting.'
+    : 'Next: adjust price/down payment/rent/expenses until every blocking rule passes.';
+
+  return { isGo, reasons, warnings, primarySignals, nextStep, outcomes, ruleSetName: args.ruleSet.name };
+}
+
+// Parsed deal inputs: plain numbers, percent-of-rent rates as fractions (see toDealInput).
+export type DealInput = {
+  price: number;
+  down: number; // share of the price, 0–1
+  ratePct: number; // first mortgage
+  termYears: number;
+  closingCosts: number;
+  closing: ClosingInput | null; // cash-to-close worksheet; when set it replaces closingCosts
+  extraPrincipal: number; // monthly, first mortgage
+  loanTerms: LoanTerms;
+  liens: LoanSpec[]; // stacked behind the first mortgage
+
+  rent: number; // monthly rent used in calculations (STR: average revenue)
+  otherIncome: number;
+  rentRoll: RentRollSummary | null; // reporting only; `rent` already reflects it
+  str: StrModel | null; // short-term rental model; replaces vacancy and utilities
+
+  taxes: number;
+  insurance: number;
+  hoa: number;
+  utilities: number;
+  reserve: number; // Section 8 inspection / turnover reserve
+
+  vacancy: number;
+  repairs: number;
+  capex: number;
+  mgmt: number;
+  opex: ExpenseLine[] | null; // itemized expenses; when set they replace taxes through mgmt above
+
+  refi: RefiTerms | null; // BRRRR: score the deal after the cash-out refinance
+};
+
+/**
+ * The deal engine: one monthly snapshot + verdict for a set of parsed inputs.
+ * Pure and framework-free; inputs are trusted, so parse untrusted data with
+ * toDealInput (forms) or validate it first.
+ */
+export function evaluateDeal(input: DealInput, ruleSet: RuleSet = DEFAULT_RULE_SET) {
+  const { price, down, extraPrincipal, rent, str, rentRoll, taxes, hoa, repairs, capex, mgmt } = input;
+  const rate = input.ratePct;
+  const years = input.termYears;
+  const other = input.otherIncome;
+  const ins = input.insurance;
+  const utils = str ? str.utilities : input.utilities;
+
+  // STR occupancy is already in the revenue, so the vacancy allowance does not apply.
+  const vacancy = str ? 0 : input.vacancy;
+  const s8Reserve = input.reserve;
+
+  // STR turnover costs: platform fees scale with revenue, cleaning and supplies are monthly averages.
+  const platform = str ? str.platformRate : 0;
+  const strCosts = str ? str.avgCleaningCosts + str.supplies : 0;
+  const startupCash = str ? str.furnishing : 0;
+
+  // Capital stack: first mortgage sized off the down payment, stacked liens fund part of the down payment.
+  const firstLoan = Math.max(0, price - price * down);
+  const loan = firstLoan + input.liens.reduce((acc, l) => acc + l.amount, 0);
+  const downPayment = Math.max(0, price - loan);
+
+  // Cash to close: the worksheet (points follow the first mortgage) or the single input.
+  const cashToClose = input.closing ? computeCashToClose(input.closing, { firstLoan, downPayment, startupCash }) : null;
+  const close = cashToClose ? cashToClose.closingCosts : input.closingCosts;
+
+  const lienSchedules = input.liens.map((l) => loanSchedule(l));
+  const acquisition = combineSchedules([
+    loanSchedule(loanSpec('First mortgage', firstLoan, rate, years, input.loanTerms), extraPrincipal),
+    ...lienSchedules,
+  ]);
+
+  // BRRRR: the refinance replaces the acquisition debt, and the cash left in the deal
+  // replaces the purchase cash, so every metric below is post-refi.
+  const refi = input.refi
+    ? computeRefi(input.refi, { price, acquisition, acquisitionLoan: loan, purchaseCash: downPayment + close + startupCash, extraPrincipal })
+    : null;
+
+  const amortization = refi ? refi.schedule : acquisition;
+  const amortizationYears = summarizeByYear(amortization);
+
+  // Blended debt service = average scheduled P&I over year 1 (IO payments during an IO period).
+  const mortgagePI = amortizationYears.length ? amortizationYears[0].payment / 12 : 0;
+  // The stacked liens' share of it (none once a refinance has paid them off).
+  const lienDebtService = refi ? 0 : lienSchedules.reduce((a, s) => a + s.slice(0, 12).reduce((b, r) => b + r.payment, 0), 0) / 12;
+  const peakDebtService = amortization.reduce((m, r) => Math.max(m, r.payment), 0);
+  const balloonRow = amortization.find((r) => r.balloon > 0);
+  const balloon = balloonRow ? { year: Math.ceil(balloonRow.month / 12), amount: balloonRow.balloon } : null;
+
+  const grossIncome = rent + other;
+  const effectiveRent = rent * (1 - vacancy);
+  const effectiveIncome = effectiveRent + other;
+
+  // Operating costs before the mode-specific lines: itemized, or the flat screening inputs.
+  const operating: ExpenseLine[] = input.opex ?? [
+    { label: 'Property taxes', category: 'taxes', fixed: taxes, rentRate: 0 },
+    { label: 'Insurance', category: 'insurance', fixed: ins, rentRate: 0 },
+    { label: 'HOA', category: 'hoa', fixed: hoa, rentRate: 0 },
+    { label: 'Utilities', category: 'utilities', fixed: utils, rentRate: 0 },
+    { label: 'Repairs', category: 'repairs', fixed: 0, rentRate: repairs },
+    { label: 'CapEx reserve', category: 'capex', fixed: 0, rentRate: capex },
+    { label: 'Management', category: 'management', fixed: 0, rentRate: mgmt },
+  ];
+  const operatingFixed = operating.reduce((a, l) => a + l.fixed, 0);
+  const operatingRate = operating.reduce((a, l) => a + l.rentRate, 0);
+
+  const percentCostRate = operatingRate + platform; // share of rent
+  const percentCosts = rent * percentCostRate;
+  const fixedCostsNoDebt = operatingFixed + s8Reserve + strCosts;
+  const totalExpenses = fixedCostsNoDebt + percentCosts + mortgagePI;
+
+  // Operating expenses line by line (monthly, excluding debt); sums to fixedCostsNoDebt + percentCosts.
+  const expenses = ([
+    ...operating,
+    { label: 'Section 8 reserve', category: 'other', fixed: s8Reserve, rentRate: 0 },
+    { label: 'Cleaning & supplies', category: 'other', fixed: strCosts, rentRate: 0 },
+    { label: 'Platform fees', category: 'other', fixed: 0, rentRate: platform },
+  ] satisfies ExpenseLine[])
+    .filter((l) => l.fixed > 0 || l.rentRate > 0)
+    .map((l) => ({ ...l, monthly: l.fixed + rent * l.rentRate }));
+
+  const noiMonthly = effectiveIncome - (fixedCostsNoDebt + percentCosts); // NOI excludes debt
+  const netCashFlow = noiMonthly - mortgagePI;
+
+  const propertyValue = refi ? refi.arv : price;
+  const capRate = propertyValue > 0 ? (noiMonthly * 12) / propertyValue : NaN;
+  const cashInvested = refi ? refi.cashLeft : downPayment + close + startupCash;
+
+  // BRRRR with every dollar recovered and positive cash flow: an "infinite" return.
+  const infiniteReturn = refi !== null && cashInvested <= 0 && netCashFlow > 0;
+  const cashOnCash = cashInvested > 0 ? (netCashFlow * 12) / cashInvested : infiniteReturn ? Infinity : NaN;
+
+  // Total return = cash flow + equity from principal paydown (year 1). Extra principal is
+  // paid out of cash flow, so it only moves money between the two buckets.
+  const year1 = amortizationYears[0];
+  const principalPaydownYear1 = year1 ? year1.principal + year1.extraPrincipal : 0;
+  const cashFlowAfterExtraYear1 = netCashFlow * 12 - (year1 ? year1.extraPrincipal : 0);
+  const totalReturn = cashInvested > 0 ? (cashFlowAfterExtraYear1 + principalPaydownYear1) / cashInvested : infiniteReturn ? Infinity : NaN;
+
+  const dscr = mortgagePI > 0 ? (noiMonthly / mortgagePI) : (noiMonthly > 0 ? Infinity : NaN);
+  const dscrAtPeak = peakDebtService > 0 ? (noiMonthly / peakDebtService) : dscr;
+
+  // Break-even rent for cash flow ~= 0 (simple): solve rent so NOI == PI
+  // NOI = (rent*(1-vacancy) + other) - fixed - rent*percentCostRate
+  // Set NOI - PI = 0 => rent*(1-vacancy - percentCostRate) + other - fixed - PI = 0
+  const coeff = (1 - vacancy) - percentCostRate;
+  const breakEvenRent = coeff !== 0 ? (fixedCostsNoDebt + mortgagePI - other) / coeff : Infinity;
+
+  // STR seasonality: the same cost structure applied to each month's own revenue.
+  const strMonths = str
+    ? str.months.map((m) => ({
+        ...m,
+        cashFlow: m.revenue * (1 - operatingRate) - m.platformFees - m.cleaningCosts + other
+          - (operatingFixed + str.supplies) - mortgagePI,
+      }))
+    : [];
+
+  const decision = scoreDecision({
+    netCashFlow,
+    dscr,
+    cashOnCash,
+    breakEvenRent,
+    effectiveIncome,
+    grossIncome,
+    mortgagePI,
+    peakDebtService,
+    dscrAtPeak,
+    balloon,
+    negativeMonths: strMonths.filter((m) => m.cashFlow < 0).map((m) => m.month),
+    noiMonthly,
+    capRate,
+    totalReturn,
+    ruleSet,
+  });
+
+  return {
+    price,
+    close,
+    cashToClose,
+    rate,
+    years,
+    propertyValue,
+    refi,
+    infiniteReturn,
+    rent,
+    rentRoll,
+    str,
+    strMonths,
+    startupCash,
+    other,
+    vacancy,
+    percentCostRate,
+    firstLoan,
+    loan,
+    downPayment,
+    cashInvested,
+    mortgagePI,
+    lienDebtService,
+    peakDebtService,
+    dscrAtPeak,
+    balloon,
+    amortization,
+    amortizationYears,
+    principalPaydownYear1,
+    totalReturn,
+    grossIncome,
+    effectiveIncome,
+    fixedCostsNoDebt,
+    percentCosts,
+    totalExpenses,
+    expenses,
+    noiMonthly,
+    netCashFlow,
+    capRate,
+    cashOnCash,
+    dscr,
+    breakEvenRent,
+    decision,
+  };
+}
+
+export type DealResult = ReturnType<typeof evaluateDeal>;
+
+// Convenience wrapper for the UI and tools that work on raw form values.
+export function computeDeal(form: DealForm, ruleSet: RuleSet = DEFAULT_RULE_SET): DealResult {
+  return evaluateDeal(toDealInput(form), ruleSet);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeDeal } from './deal';
+import { DEFAULT_FORM } from './dealForm';
+import { DEAL_FILE_VERSION, dealCsvRows, dealWorkbook, flattenForm, parseDealFile, toDealFile } from './dealFile';
+import { newLien } from './loans';
+import { DEFAULT_RULE_SET } from './rules';
+import { crc32, writeXlsx } from './xlsx';
+
+const form = { ...DEFAULT_FORM, purchasePrice: '320000', liens: [{ ...newLien('Seller carry'), amount: '20000', ratePct: '5' }] };
+const result = computeDeal(form, DEFAULT_RULE_SET);
+const file = toDealFile('12 Oak St', form, DEFAULT_RULE_SET, result);
+
+describe('parseDealFile', () => {
+  it('round-trips an exported deal', () => {
+    const back = parseDealFile(JSON.stringify(file));
+    expect(back.ok).toBe(true);
+    if (!back.ok) return;
+    // Lien ids are regenerated on load.
+    expect(back.form).toEqual({ ...form, liens: form.liens.map((l) => ({ ...l, id: expect.any(String) })) });
+    expect(back.name).toBe('12 Oak St');
+    expect(back.ruleSet?.id).toBe(DEFAULT_RULE_SET.id);
+    expect(back.version).toBe(DEAL_FILE_VERSION);
+  });
+
+  it('fills inputs missing from older files with defaults', () => {
+    const back = parseDealFile(JSON.stringify({ ...file, form: { purchasePrice: '250000' } }));
+    expect(back.ok && back.form).toEqual({ ...DEFAULT_FORM, purchasePrice: '250000' });
+  });
+
+  it('upgrades unversioned files (bare forms and library deals)', () => {
+    const bare = parseDealFile(JSON.stringify({ purchasePrice: '210000', strMode: true }));
+    expect(bare.ok && bare.form.purchasePrice).toBe('210000');
+    expect(bare.ok && bare.version).toBe(0);
+    const saved = parseDealFile(JSON.stringify({ name: 'Duplex', form: { monthlyRent: '2600' } }));
+    expect(saved.ok && saved.name).toBe('Duplex');
+    expect(saved.ok && saved.form.monthlyRent).toBe('2600');
+  });
+
+  it('rejects newer versions, other formats and non-JSON', () => {
+    expect(parseDealFile(JSON.stringify({ ...file, version: DEAL_FILE_VERSION + 1 })).ok).toBe(false);
+    expect(parseDealFile(JSON.stringify({ format: 'other', version: 1, form: {} })).ok).toBe(false);
+    expect(parseDealFile('not json').ok).toBe(false);
+    expect(parseDealFile('[]').ok).toBe(false);
+  });
+});
+
+describe('dealCsvRows', () => {
+  it('lists nested inputs by path, then metrics and the verdict', () => {
+    const rows = dealCsvRows(file);
+    expect(rows).toContainEqual(['Input', 'liens[0].amount', '20000']);
+    expect(rows).toContainEqual(['Input', 'loanTerms.kind', 'fixed']);
+    expect(rows.find((r) => r[1] === 'netCashFlow')?.[2]).toBe(String(file.results.metrics.netCashFlow));
+    expect(rows).toContainEqual(['Decision', 'verdict', file.results.verdict]);
+    expect(flattenForm(form).length).toBeGreaterThan(40);
+  });
+});
+
+describe('dealWorkbook', () => {
+  const sheets = dealWorkbook(file, result);
+  const model = sheets[0].rows;
+  const row = (label: string) => model.find((r) => r[0] === label)?.[1];
+
+  it('derives the snapshot with formulas and caches the app values', () => {
+    expect(row('NOI (monthly)')).toMatchObject({ formula: expect.stringMatching(/^B\d+-B\d+-B\d+$/), value: result.noiMonthly });
+    expect(row('Cap rate')).toMatchObject({ value: result.capRate, style: 'percent' });
+    expect(row('Total debt')).toMatchObject({ value: 260000 });
+  });
+
+  it('gives every expense line its own input row', () => {
+    expect(row('Property taxes (monthly)')).toEqual({ value: 520, style: 'money' });
+    expect(row('Management (% of rent)')).toEqual({ value: 0.08, style: 'percent' });
+    expect(row('Fixed costs (monthly)')).toMatchObject({ formula: expect.stringMatching(/^SUM\(B\d+:B\d+\)$/), value: result.fixedCostsNoDebt });
+    expect(row('Break-even rent (monthly)')).toMatchObject({ formula: expect.stringMatching(/\/\(1-B\d+-B\d+\)$/) });
+  });
+
+  it('uses the app debt service when liens rule out a single PMT', () => {
+    expect(row('Debt service (monthly)')).toEqual({ value: result.mortgagePI, style: 'money' });
+    const plain = computeDeal(DEFAULT_FORM, DEFAULT_RULE_SET);
+    const simple = dealWorkbook(toDealFile('', DEFAULT_FORM, DEFAULT_RULE_SET, plain), plain)[0].rows;
+    expect(simple.find((r) => r[0] === 'Debt service (monthly)')?.[1]).toMatchObject({ formula: expect.stringContaining('PMT(') });
+  });
+});
+
+describe('writeXlsx', () => {
+  it('writes a stored zip with one part per sheet', () => {
+    const bytes = writeXlsx(dealWorkbook(file, result));
+    expect(String.fromCharCode(bytes[0], bytes[1])).toBe('PK');
+    const text = new TextDecoder().decode(bytes);
+    expect(text).toContain('xl/worksheets/sheet3.xml');
+    expect(text).toContain('<sheet name="App results"');
+    expect(text).toContain('<calcPr fullCalcOnLoad="1"/>');
+  });
+
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,222 @@
+import type { DealResult } from './deal';
+import { sanitizeForm, type DealForm } from './dealForm';
+import { toDealInput } from './dealInput';
+import { sanitizeRuleSet, type RuleSet } from './rules';
+import { screenResult, type ScreenResult } from './screen';
+import type { XlsxCell, XlsxSheet } from './xlsx';
+
+export const DEAL_FILE_FORMAT = 'deal-quickcheck';
+export const DEAL_FILE_VERSION = 1;
+
+// A deal saved to disk. `results` is informational only; imports recompute it.
+export type DealFile = {
+  format: typeof DEAL_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  name: string;
+  form: DealForm;
+  ruleSet: RuleSet;
+  results: ScreenResult;
+};
+
+export function toDealFile(name: string, form: DealForm, ruleSet: RuleSet, result: DealResult): DealFile {
+  return {
+    format: DEAL_FILE_FORMAT,
+    version: DEAL_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    name,
+    form,
+    ruleSet,
+    results: screenResult(result),
+  };
+}
+
+type Raw = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version-n file to version n + 1. Add one whenever a change
+// to DealForm can't be handled by sanitizeForm's defaults alone (renamed or re-scaled fields).
+const MIGRATIONS: Record<number, (file: Raw) => Raw> = {
+  // Unversioned: a bare form object, or a deal copied out of the library ({ name, form }).
+  0: (file) => ('form' in file ? file : { form: file }),
+};
+
+export type DealFileImport =
+  | { ok: true; name: string; form: DealForm; ruleSet: RuleSet | null; version: number }
+  | { ok: false; error: string };
+
+export function parseDealFile(text: string): DealFileImport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return { ok: false, error: 'The file does not contain a deal.' };
+
+  let file = parsed as Raw;
+  if (file.format !== undefined && file.format !== DEAL_FILE_FORMAT) return { ok: false, error: 'Not a Deal QuickCheck file.' };
+
+  const version = file.format === undefined ? 0 : file.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) return { ok: false, error: 'The file has an invalid version.' };
+  if (version > DEAL_FILE_VERSION) {
+    return { ok: false, error: `The file was saved by a newer version of the app (v${version}); this one reads up to v${DEAL_FILE_VERSION}.` };
+  }
+  for (let v = version; v < DEAL_FILE_VERSION; v++) file = MIGRATIONS[v](file);
+
+  if (!file.form || typeof file.form !== 'object') return { ok: false, error: 'The file does not contain a deal.' };
+
+  return {
+    ok: true,
+    name: typeof file.name === 'string' ? file.name : '',
+    form: sanitizeForm(file.form),
+    ruleSet: file.ruleSet && typeof file.ruleSet === 'object' ? sanitizeRuleSet(file.ruleSet) : null,
+    version,
+  };
+}
+
+// Every input as a dotted path (`loanTerms.kind`, `units[0].currentRent`), so new inputs export without changes here.
+export function flattenForm(form: DealForm): [string, string][] {
+  const out: [string, string][] = [];
+  const walk = (value: unknown, path: string) => {
+    if (Array.isArray(value)) value.forEach((v, i) => walk(v, `${path}[${i}]`));
+    else if (value && typeof value === 'object') Object.entries(value).forEach(([k, v]) => walk(v, path ? `${path}.${k}` : k));
+    else out.push([path, String(value)]);
+  };
+  walk(form, '');
+  return out;
+}
+
+const cellText = (v: number | boolean | null) => (v === null ? '' : String(v));
+
+// Section / field / value rows: inputs, then computed metrics, then the decision.
+export function dealCsvRows(file: DealFile): string[][] {
+  const r = file.results;
+  return [
+    ['Section', 'Field', 'Value'],
+    ['File', 'format', `${file.format} v${file.version}`],
+    ['File', 'name', file.name],
+    ['File', 'exportedAt', file.exportedAt],
+    ...flattenForm(file.form).map(([k, v]) => ['Input', k, v]),
+    ...Object.entries(r.metrics).map(([k, v]) => ['Metric', k, cellText(v)]),
+    ['Decision', 'verdict', r.verdict],
+    ['Decision', 'ruleSet', r.ruleSet],
+    ...r.rules.map((o) => ['Rule', o.label, `${o.status.toUpperCase()} (${o.severity}) ${cellText(o.value)}`.trim()]),
+    ...r.reasons.map((x) => ['Decision', 'reason', x]),
+    ...r.warnings.map((x) => ['Decision', 'warning', x]),
+  ];
+}
+
+const finite = (n: number) => (Number.isFinite(n) ? n : null);
+
+/**
+ * A workbook analysts can extend: the "Model" sheet holds the screening inputs and
+ * re-derives the monthly snapshot with live formulas. Debt service is a PMT formula
+ * for a plain fixed-rate first mortgage; stacked liens, IO/ARM/balloon terms and
+ * BRRRR refinances carry the app's values instead, since their schedules don't fit
+ * a single formula.
+ */
+export function dealWorkbook(file: DealFile, result: DealResult): XlsxSheet[] {
+  const { form } = file;
+  const input = toDealInput(form);
+  const rows: XlsxCell[][] = [];
+  const ref: Record<string, string> = {};
+
+  const add = (key: string, label: string, cell: XlsxCell, note = '') => {
+    rows.push([label, cell, note]);
+    ref[key] = `B${rows.length}`;
+  };
+  const title = (text: string) => rows.push([{ value: text, style: 'bold' }]);
+  const f = (strings: TemplateStringsArray, ...keys: string[]) => strings.reduce((acc, s, i) => acc + s + (i < keys.length ? ref[keys[i]] : ''), '');
+  const sum = (prefix: string, n: number) => (n ? `SUM(${ref[`${prefix}0`]}:${ref[`${prefix}${n - 1}`]})` : '0');
+
+  const liensTotal = input.liens.reduce((a, l) => a + l.amount, 0);
+  const fixedLines = result.expenses.filter((e) => e.fixed > 0);
+  const rateLines = result.expenses.filter((e) => e.rentRate > 0);
+  const simpleDebt = !result.refi && !input.liens.length && form.loanTerms.kind === 'fixed';
+
+  title(file.name || 'Deal QuickCheck model');
+  rows.push(['Edit the inputs in column B; every line under Analysis is a formula.']);
+  rows.push([]);
+
+  title('Inputs');
+  add('price', 'Purchase price', { value: result.price, style: 'money' });
+  add('down', 'Down payment', { value: input.down, style: 'percent' });
+  add('rate', 'Interest rate', { value: input.ratePct / 100, style: 'percent' });
+  add('term', 'Loan term (years)', input.termYears);
+  add('liens', 'Stacked liens (total)', { value: liensTotal, style: 'money' }, 'Second mortgages / seller carry');
+  add('closing', 'Closing costs', { value: result.close, style: 'money' }, result.cashToClose ? 'Net of seller credits, from the cash-to-close worksheet' : '');
+  add('startup', 'Startup cash', { value: result.startupCash, style: 'money' }, 'STR furnishing & setup');
+  add('rent', 'Rent (monthly)', { value: result.rent, style: 'money' }, input.str ? 'STR average revenue' : input.rentRoll ? 'From the rent roll' : '');
+  add('other', 'Other income (monthly)', { value: result.other, style: 'money' });
+  add('vacancy', 'Vacancy', { value: result.vacancy, style: 'percent' });
+  // One row per expense line and part, so added rows inside a block are summed too.
+  fixedLines.forEach((e, i) => add(`fixed${i}`, `${e.label} (monthly)`, { value: e.fixed, style: 'money' }));
+  rateLines.forEach((e, i) => add(`rate${i}`, `${e.label} (% of rent)`, { value: e.rentRate, style: 'percent' }));
+  rows.push([]);
+
+  title('Analysis');
+  add('firstLoan', 'First mortgage', { formula: f`MAX(0,${'price'}*(1-${'down'}))`, value: result.firstLoan, style: 'money' });
+  add('loan', 'Total debt', { formula: f`${'firstLoan'}+${'liens'}`, value: result.loan, style: 'money' });
+  add('downPayment', 'Down payment', { formula: f`MAX(0,${'price'}-${'loan'})`, value: result.downPayment, style: 'money' });
+  add(
+    'debt',
+    'Debt service (monthly)',
+    simpleDebt
+      ? { formula: f`IF(${'firstLoan'}>0,PMT(${'rate'}/12,${'term'}*12,-${'firstLoan'}),0)`, value: result.mortgagePI, style: 'money' }
+      : { value: result.mortgagePI, style: 'money' },
+    simpleDebt ? '' : 'From the app’s debt schedule (liens, loan structure or refinance)',
+  );
+  add(
+    'cashInvested',
+    'Cash invested',
+    result.refi
+      ? { value: result.cashInvested, style: 'money' }
+      : { formula: f`${'downPayment'}+${'closing'}+${'startup'}`, value: result.cashInvested, style: 'money' },
+    result.refi ? 'Cash left in the deal after the BRRRR refinance' : '',
+  );
+  add(
+    'value',
+    'Property value',
+    result.refi ? { value: result.propertyValue, style: 'money' } : { formula: f`${'price'}`, value: result.propertyValue, style: 'money' },
+    result.refi ? 'After-repair value' : '',
+  );
+  add('gross', 'Gross income (monthly)', { formula: f`${'rent'}+${'other'}`, value: result.grossIncome, style: 'money' });
+  add('egi', 'Effective income (monthly)', { formula: f`${'rent'}*(1-${'vacancy'})+${'other'}`, value: result.effectiveIncome, style: 'money' });
+  add('fixed', 'Fixed costs (monthly)', { formula: sum('fixed', fixedLines.length), value: result.fixedCostsNoDebt, style: 'money' });
+  add('rates', 'Rent-based cost rate', { formula: sum('rate', rateLines.length), value: result.percentCostRate, style: 'percent' });
+  add('percent', 'Percent-of-rent costs (monthly)', { formula: f`${'rent'}*${'rates'}`, value: result.percentCosts, style: 'money' });
+  add('noi', 'NOI (monthly)', { formula: f`${'egi'}-${'fixed'}-${'percent'}`, value: result.noiMonthly, style: 'money' });
+  add('cashFlow', 'Cash flow (monthly)', { formula: f`${'noi'}-${'debt'}`, value: result.netCashFlow, style: 'money' });
+  add('noiAnnual', 'NOI (annual)', { formula: f`${'noi'}*12`, value: result.noiMonthly * 12, style: 'money' });
+  add('cashFlowAnnual', 'Cash flow (annual)', { formula: f`${'cashFlow'}*12`, value: result.netCashFlow * 12, style: 'money' });
+  add('capRate', 'Cap rate', { formula: f`IF(${'value'}>0,${'noiAnnual'}/${'value'},"")`, value: finite(result.capRate), style: 'percent' });
+  add('coc', 'Cash-on-cash', { formula: f`IF(${'cashInvested'}>0,${'cashFlowAnnual'}/${'cashInvested'},"")`, value: finite(result.cashOnCash), style: 'percent' });
+  add('dscr', 'DSCR', { formula: f`IF(${'debt'}>0,${'noi'}/${'debt'},"")`, value: finite(result.dscr), style: 'ratio' });
+  add('breakEven', 'Break-even rent (monthly)', {
+    formula: f`(${'fixed'}+${'debt'}-${'other'})/(1-${'vacancy'}-${'rates'})`,
+    value: finite(result.breakEvenRent),
+    style: 'money',
+  });
+
+  const r = file.results;
+  const percentMetrics = new Set(['capRate', 'cashOnCash', 'totalReturn']);
+  const results: XlsxCell[][] = [
+    [{ value: 'Metric', style: 'bold' }, { value: 'Value', style: 'bold' }],
+    ...Object.entries(r.metrics).map(([k, v]): XlsxCell[] => [
+      k,
+      typeof v === 'number' ? { value: v, style: percentMetrics.has(k) ? 'percent' : k.startsWith('dscr') ? 'ratio' : 'money' } : cellText(v),
+    ]),
+    [],
+    [{ value: 'Verdict', style: 'bold' }, r.verdict],
+    ['Rule set', r.ruleSet],
+    ...r.rules.map((o): XlsxCell[] => [o.label, `${o.status.toUpperCase()} (${o.severity})`, o.text]),
+    ...r.reasons.map((x): XlsxCell[] => ['Reason', x]),
+    ...r.warnings.map((x): XlsxCell[] => ['Warning', x]),
+  ];
+
+  return [
+    { name: 'Model', rows, widths: [32, 16, 52] },
+    { name: 'App results', rows: results, widths: [32, 22, 60] },
+    { name: 'All inputs', rows: [[{ value: 'Field', style: 'bold' }, { value: 'Value', style: 'bold' }], ...flattenForm(form)], widths: [36, 24] },
+  ];
+}
@@ -0,0 +1,288 @@
+import { DEFAULT_BRRRR, parseBrrrr, sanitizeBrrrr, type BrrrrForm } from './brrrr';
+import { DEFAULT_CASH_TO_CLOSE, sanitizeCashToClose, type CashToCloseForm } from './cashToClose';
+import { DEFAULT_LOAN_TERMS, LOAN_KINDS, parseLiens, type LienForm, type LoanTermsForm } from './loans';
+import { DEFAULT_OPEX, sanitizeOpex, type OpexForm } from './opex';
+import { DEFAULT_PROPERTY, sanitizeProperty, type PropertyForm } from './property';
+import { parseUnits, type UnitForm } from './rentRoll';
+import { sanitizeScenarios, type Scenario } from './scenarios';
+import { DEFAULT_SECTION8, parseSection8, sanitizeSection8, type Section8Form } from './section8';
+import { DEFAULT_STR, parseStr, sanitizeStr, type StrForm } from './str';
+import { DEFAULT_TAX, parseTax, sanitizeTax, type TaxForm } from './tax';
+
+// Every deal input, kept as the raw strings the user typed (parsed in the calculation).
+export type DealForm = {
+  section8Mode: boolean;
+  strMode: boolean; // short-term rental income model (excludes Section 8)
+  brrrrMode: boolean; // verdict is scored on the post-refinance numbers
+
+  // Address, size and notes (descriptive; titles reports and drives per-unit metrics)
+  property: PropertyForm;
+
+  // Purchase & financing
+  purchasePrice: string;
+  downPct: string;
+  ratePct: string;
+  termYears: string;
+  closingCosts: string;
+  cashToClose: CashToCloseForm; // itemized worksheet; when on it replaces closingCosts
+  extraPrincipalMonthly: string;
+  loanTerms: LoanTermsForm;
+  liens: LienForm[];
+
+  // Income
+  monthlyRent: string;
+  tenantPortionMonthly: string; // Section 8 tenant portion
+  hapMonthly: string; // Section 8 housing assistance payment
+  otherIncome: string;
+  units: UnitForm[]; // rent roll; when present it replaces the rent inputs above
+
+  // Fixed costs
+  taxesMonthly: string;
+  insuranceMonthly: string;
+  hoaMonthly: string;
+  utilitiesMonthly: string;
+
+  // Assumptions (percent of rent/income)
+  vacancyPct: string;
+  repairsPct: string;
+  capexPct: string;
+  mgmtPct: string;
+
+  // Itemized operating expenses; when on they replace the fixed costs and percentages above
+  opex: OpexForm;
+
+  // Section 8 guardrail reserve (simple)
+  inspectionReserveMonthly: string;
+
+  // Section 8 payment-standard helper
+  section8: Section8Form;
+
+  // Pro forma (multi-year hold)
+  rentGrowthPct: string;
+  expenseGrowthPct: string;
+  appreciationPct: string;
+  holdYears: string;
+  sellingCostPct: string;
+  exitCapPct: string;
+
+  // BRRRR (rehab + cash-out refinance)
+  brrrr: BrrrrForm;
+
+  // Short-term rental
+  str: StrForm;
+
+  // After-tax view (depreciation, passive losses)
+  tax: TaxForm;
+
+  // Named what-if cases layered on the inputs above
+  scenarios: Scenario[];
+};
+
+export const DEFAULT_FORM: DealForm = {
+  section8Mode: false,
+  strMode: false,
+  brrrrMode: false,
+
+  property: DEFAULT_PROPERTY,
+
+  purchasePrice: '500000',
+  downPct: '25',
+  ratePct: '6.75',
+  termYears: '30',
+  closingCosts: '0',
+  cashToClose: DEFAULT_CASH_TO_CLOSE,
+  extraPrincipalMonthly: '0',
+  loanTerms: DEFAULT_LOAN_TERMS,
+  liens: [],
+
+  monthlyRent: '4000',
+  tenantPortionMonthly: '800',
+  hapMonthly: '3200',
+  otherIncome: '0',
+  units: [],
+
+  taxesMonthly: '520',
+  insuranceMonthly: '140',
+  hoaMonthly: '0',
+  utilitiesMonthly: '0',
+
+  vacancyPct: '5',
+  repairsPct: '5',
+  capexPct: '5',
+  mgmtPct: '8',
+
+  opex: DEFAULT_OPEX,
+
+  inspectionReserveMonthly: '0',
+
+  section8: DEFAULT_SECTION8,
+
+  rentGrowthPct: '3',
+  expenseGrowthPct: '3',
+  appreciationPct: '3',
+  holdYears: '10',
+  sellingCostPct: '6',
+  exitCapPct: '0',
+
+  brrrr: DEFAULT_BRRRR,
+
+  str: DEFAULT_STR,
+
+  tax: DEFAULT_TAX,
+
+  scenarios: [],
+};
+
+export function incomeModeLabel(form: DealForm) {
+  if (form.strMode) return 'Short-term rental';
+  return form.section8Mode ? 'Section 8' : 'Standard';
+}
+
+export type StringKey = { [K in keyof DealForm]: DealForm[K] extends string ? K : never }[keyof DealForm];
+
+// Label and sensible range per numeric input. The API rejects values outside the range; share links clamp them.
+export const FORM_NUMBER_FIELDS: Record<StringKey, { label: string; min: number; max: number }> = {
+  purchasePrice: { label: 'Purchase price', min: 0, max: 1e9 },
+  downPct: { label: 'Down payment', min: 0, max: 100 },
+  ratePct: { label: 'Interest rate', min: 0, max: 100 },
+  termYears: { label: 'Loan term', min: 1, max: 50 },
+  closingCosts: { label: 'Closing costs', min: 0, max: 1e8 },
+  extraPrincipalMonthly: { label: 'Extra principal', min: 0, max: 1e7 },
+  monthlyRent: { label: 'Monthly rent', min: 0, max: 1e7 },
+  tenantPortionMonthly: { label: 'Tenant portion', min: 0, max: 1e7 },
+  hapMonthly: { label: 'HAP payment', min: 0, max: 1e7 },
+  otherIncome: { label: 'Other income', min: 0, max: 1e7 },
+  taxesMonthly: { label: 'Property taxes', min: 0, max: 1e7 },
+  insuranceMonthly: { label: 'Insurance', min: 0, max: 1e7 },
+  hoaMonthly: { label: 'HOA', min: 0, max: 1e7 },
+  utilitiesMonthly: { label: 'Utilities', min: 0, max: 1e7 },
+  vacancyPct: { label: 'Vacancy', min: 0, max: 80 },
+  repairsPct: { label: 'Repairs', min: 0, max: 80 },
+  capexPct: { label: 'CapEx', min: 0, max: 80 },
+  mgmtPct: { label: 'Management', min: 0, max: 30 },
+  inspectionReserveMonthly: { label: 'Section 8 reserve', min: 0, max: 1e7 },
+  rentGrowthPct: { label: 'Rent growth', min: -20, max: 50 },
+  expenseGrowthPct: { label: 'Expense growth', min: -20, max: 50 },
+  appreciationPct: { label: 'Appreciation', min: -20, max: 50 },
+  holdYears: { label: 'Hold period', min: 1, max: 30 },
+  sellingCostPct: { label: 'Selling costs', min: 0, max: 20 },
+  exitCapPct: { label: 'Exit cap rate', min: 0, max: 30 },
+};
+
+// Query-param names for the plain string inputs (share links).
+const PARAM_KEYS: [StringKey, string][] = [
+  ['purchasePrice', 'p'],
+  ['downPct', 'dp'],
+  ['ratePct', 'r'],
+  ['termYears', 't'],
+  ['closingCosts', 'cc'],
+  ['extraPrincipalMonthly', 'xp'],
+  ['monthlyRent', 'rent'],
+  ['tenantPortionMonthly', 'tenant'],
+  ['hapMonthly', 'hap'],
+  ['otherIncome', 'other'],
+  ['taxesMonthly', 'tax'],
+  ['insuranceMonthly', 'ins'],
+  ['hoaMonthly', 'hoa'],
+  ['utilitiesMonthly', 'util'],
+  ['vacancyPct', 'vac'],
+  ['repairsPct', 'rep'],
+  ['capexPct', 'capex'],
+  ['mgmtPct', 'mgmt'],
+  ['inspectionReserveMonthly', 's8res'],
+  ['rentGrowthPct', 'rg'],
+  ['expenseGrowthPct', 'eg'],
+  ['appreciationPct', 'appr'],
+  ['holdYears', 'hold'],
+  ['sellingCostPct', 'sell'],
+  ['exitCapPct', 'xcap'],
+];
+
+const TERM_PARAM_KEYS: [Exclude<keyof LoanTermsForm, 'kind'>, string][] = [
+  ['ioMonths', 'io'],
+  ['armFixedYears', 'armf'],
+  ['armAdjustPct', 'arma'],
+  ['balloonYears', 'bal'],
+];
+
+// True when `tax` holds tax-helper JSON rather than the monthly property taxes.
+export function isLegacyTaxParam(params: URLSearchParams) {
+  return (params.get('tax') ?? '').trim().startsWith('{');
+}
+
+// Reads a legacy (unversioned) share link; see shareLink.ts for the current format.
+// Missing params keep the value from `base`, so partial links still load.
+export function readFormParams(params: URLSearchParams, base: DealForm): DealForm {
+  const next: DealForm = { ...base, loanTerms: { ...base.loanTerms } };
+
+  const mode = params.get('m');
+  if (mode === 's8' || mode === 'std' || mode === 'str') {
+    next.section8Mode = mode === 's8';
+    next.strMode = mode === 'str';
+  }
+  if (params.get('bm') === '1') next.brrrrMode = true;
+  if (params.get('bm') === '0') next.brrrrMode = false;
+
+  for (const [key, param] of PARAM_KEYS) next[key] = params.get(param) ?? base[key];
+
+  next.loanTerms.kind = LOAN_KINDS.find((k) => k.kind === params.get('lk'))?.kind ?? base.loanTerms.kind;
+  for (const [key, param] of TERM_PARAM_KEYS) next.loanTerms[key] = params.get(param) ?? base.loanTerms[key];
+
+  const liens = params.has('liens') ? parseLiens(params.get('liens') ?? '[]') : null;
+  if (liens) next.liens = liens;
+
+  const units = params.has('units') ? parseUnits(params.get('units') ?? '[]') : null;
+  if (units) next.units = units;
+
+  const brrrr = params.has('brrrr') ? parseBrrrr(params.get('brrrr') ?? '{}') : null;
+  if (brrrr) next.brrrr = brrrr;
+
+  const str = params.has('str') ? parseStr(params.get('str') ?? '{}') : null;
+  if (str) next.str = str;
+
+  const section8 = params.has('s8h') ? parseSection8(params.get('s8h') ?? '{}') : null;
+  if (section8) next.section8 = section8;
+
+  // The tax helper is `tx`. Links from before v2 wrote it to `tax`, overwriting the
+  // monthly property taxes; read those as the helper and keep the base taxes.
+  const legacyTax = isLegacyTaxParam(params) ? parseTax(params.get('tax') ?? '{}') : null;
+  if (legacyTax) next.taxesMonthly = base.taxesMonthly;
+  const tax = params.has('tx') ? parseTax(params.get('tx') ?? '{}') : legacyTax;
+  if (tax) next.tax = tax;
+
+  return next;
+}
+
+// Rebuilds a form from stored JSON (saved deals, files); unknown or mistyped fields fall back to defaults.
+export function sanitizeForm(input: unknown): DealForm {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const next: DealForm = { ...DEFAULT_FORM, loanTerms: { ...DEFAULT_FORM.loanTerms } };
+
+  if (typeof o.section8Mode === 'boolean') next.section8Mode = o.section8Mode;
+  if (typeof o.strMode === 'boolean') next.strMode = o.strMode;
+  if (typeof o.brrrrMode === 'boolean') next.brrrrMode = o.brrrrMode;
+  for (const [key] of PARAM_KEYS) {
+    const v = o[key];
+    if (typeof v === 'string' || typeof v === 'number') next[key] = String(v);
+  }
+
+  const terms = (o.loanTerms && typeof o.loanTerms === 'object' ? o.loanTerms : {}) as Record<string, unknown>;
+  next.loanTerms.kind = LOAN_KINDS.find((k) => k.kind === terms.kind)?.kind ?? DEFAULT_FORM.loanTerms.kind;
+  for (const [key] of TERM_PARAM_KEYS) {
+    const v = terms[key];
+    if (typeof v === 'string' || typeof v === 'number') next.loanTerms[key] = String(v);
+  }
+
+  if (Array.isArray(o.liens)) next.liens = parseLiens(JSON.stringify(o.liens)) ?? [];
+  if (Array.isArray(o.units)) next.units = parseUnits(JSON.stringify(o.units)) ?? [];
+  next.property = sanitizeProperty(o.property);
+  next.brrrr = sanitizeBrrrr(o.brrrr);
+  next.str = sanitizeStr(o.str);
+  next.section8 = sanitizeSection8(o.section8);
+  next.tax = sanitizeTax(o.tax);
+  next.opex = sanitizeOpex(o.opex);
+  next.cashToClose = sanitizeCashToClose(o.cashToClose);
+  next.scenarios = sanitizeScenarios(o.scenarios);
+
+  return next;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_FORM } from './dealForm';
+import { computeRent, toDealInput } from './dealInput';
+import { newUnit } from './rentRoll';
+
+describe('toDealInput', () => {
+  it('parses percents into fractions', () => {
+    const input = toDealInput(DEFAULT_FORM);
+    expect(input.price).toBe(500000);
+    expect(input.down).toBe(0.25);
+    expect(input.ratePct).toBe(6.75);
+    expect(input.vacancy).toBe(0.05);
+    expect(input.mgmt).toBe(0.08);
+    expect(input.refi).toBeNull();
+    expect(input.str).toBeNull();
+  });
+
+  it('clamps out-of-range and unreadable values', () => {
+    const input = toDealInput({
+      ...DEFAULT_FORM,
+      purchasePrice: '-5',
+      downPct: '150',
+      ratePct: 'abc',
+      termYears: '0',
+      vacancyPct: '95',
+      mgmtPct: '50',
+    });
+    expect(input.price).toBe(0);
+    expect(input.down).toBe(1);
+    expect(input.ratePct).toBe(0);
+    expect(input.termYears).toBe(1);
+    expect(input.vacancy).toBe(0.8);
+    expect(input.mgmt).toBe(0.3);
+  });
+
+  it('only applies the inspection reserve in Section 8 mode', () => {
+    const form = { ...DEFAULT_FORM, inspectionReserveMonthly: '75' };
+    expect(toDealInput(form).reserve).toBe(0);
+    expect(toDealInput({ ...form, section8Mode: true }).reserve).toBe(75);
+  });
+
+  it('drops empty liens', () => {
+    const lien = { ...DEFAULT_FORM.loanTerms, id: 'a', label: 'Second', amount: '0', ratePct: '8', amortYears: '30' };
+    expect(toDealInput({ ...DEFAULT_FORM, liens: [lien] }).liens).toEqual([]);
+  });
+});
+
+describe('computeRent', () => {
+  it('uses tenant portion + HAP in Section 8 mode', () => {
+    expect(computeRent(DEFAULT_FORM)).toBe(4000);
+    expect(computeRent({ ...DEFAULT_FORM, section8Mode: true, tenantPortionMonthly: '900', hapMonthly: '2600' })).toBe(3500);
+  });
+
+  it('prefers the rent roll over the rent inputs', () => {
+    const units = [
+      { ...newUnit('A'), currentRent: '1500', marketRent: '1600' },
+      { ...newUnit('B'), currentRent: '0', marketRent: '1700', vacant: true },
+    ];
+    expect(computeRent({ ...DEFAULT_FORM, units })).toBe(3200);
+  });
+});
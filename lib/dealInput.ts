@@ -0,0 +1,87 @@
+import { clamp, toNum } from './format';
+import { parseRefiTerms } from './brrrr';
+import { parseCashToClose } from './cashToClose';
+import { lienSpec, parseLoanTerms } from './loans';
+import { opexLines } from './opex';
+import { scaleUnits, summarizeRentRoll } from './rentRoll';
+import { computeStr, scaleAdr } from './str';
+import type { DealInput } from './deal';
+import type { DealForm } from './dealForm';
+
+// “Rent used in calculations”: STR average monthly revenue, the rent roll, market rent,
+// or tenant portion + HAP in Section 8 mode.
+export function computeRent(form: DealForm) {
+  if (form.strMode) return computeStr(form.str).avgRevenue;
+  if (form.units.length) return summarizeRentRoll(form.units).gross;
+  const std = Math.max(0, toNum(form.monthlyRent));
+  if (!form.section8Mode) return std;
+  const tenant = Math.max(0, toNum(form.tenantPortionMonthly));
+  const hap = Math.max(0, toNum(form.hapMonthly));
+  return tenant + hap;
+}
+
+/**
+ * Sets the rent used in calculations to `monthly`. Standard mode takes it as the rent;
+ * STR, rent-roll and Section 8 inputs are scaled together so their mix is preserved.
+ */
+export function withRent(form: DealForm, monthly: number): DealForm {
+  const v = Math.max(0, monthly);
+  if (!form.strMode && !form.section8Mode && !form.units.length) return { ...form, monthlyRent: String(v) };
+
+  const base = computeRent(form);
+  const f = base > 0 ? v / base : 0;
+  if (form.strMode) return { ...form, str: scaleAdr(form.str, f) };
+  if (form.units.length) return { ...form, units: scaleUnits(form.units, f) };
+  return {
+    ...form,
+    tenantPortionMonthly: String(toNum(form.tenantPortionMonthly) * f),
+    hapMonthly: String(toNum(form.hapMonthly) * f),
+  };
+}
+
+// Parses and clamps the raw form strings into engine input; all validation lives here.
+export function toDealInput(form: DealForm): DealInput {
+  const str = form.strMode ? computeStr(form.str) : null;
+  const rent = Math.max(0, computeRent(form));
+  const otherIncome = Math.max(0, toNum(form.otherIncome));
+  const vacancy = clamp(toNum(form.vacancyPct), 0, 80) / 100;
+
+  // Itemized expenses; STR utilities come from the STR model, as they do with the flat inputs.
+  const opex = form.opex.itemized
+    ? [
+        ...opexLines(form.opex, rent, { vacancy: str ? 0 : vacancy, otherIncome, units: str ? 1 : Math.max(1, form.units.length), leases: !str }),
+        ...(str ? [{ label: 'Utilities (STR)', category: 'utilities' as const, fixed: str.utilities, rentRate: 0 }] : []),
+      ]
+    : null;
+
+  return {
+    price: Math.max(0, toNum(form.purchasePrice)),
+    down: clamp(toNum(form.downPct), 0, 100) / 100,
+    ratePct: clamp(toNum(form.ratePct), 0, 100),
+    termYears: Math.max(1, Math.round(toNum(form.termYears))),
+    closingCosts: Math.max(0, toNum(form.closingCosts)),
+    closing: form.cashToClose.itemized ? parseCashToClose(form.cashToClose) : null,
+    extraPrincipal: Math.max(0, toNum(form.extraPrincipalMonthly)),
+    loanTerms: parseLoanTerms(form.loanTerms),
+    liens: form.liens.map(lienSpec).filter((l) => l.amount > 0),
+
+    rent,
+    otherIncome,
+    rentRoll: !str && form.units.length ? summarizeRentRoll(form.units) : null,
+    str,
+
+    taxes: Math.max(0, toNum(form.taxesMonthly)),
+    insurance: Math.max(0, toNum(form.insuranceMonthly)),
+    hoa: Math.max(0, toNum(form.hoaMonthly)),
+    utilities: Math.max(0, toNum(form.utilitiesMonthly)),
+    reserve: form.section8Mode && !str ? Math.max(0, toNum(form.inspectionReserveMonthly)) : 0,
+
+    vacancy,
+    repairs: clamp(toNum(form.repairsPct), 0, 80) / 100,
+    capex: clamp(toNum(form.capexPct), 0, 80) / 100,
+    mgmt: clamp(toNum(form.mgmtPct), 0, 30) / 100,
+    opex,
+
+    refi: form.brrrrMode ? parseRefiTerms(form.brrrr) : null,
+  };
+}
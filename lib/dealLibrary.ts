@@ -0,0 +1,144 @@
+import { sanitizeForm, type DealForm } from './dealForm';
+import { sanitizePhotos, type PropertyPhoto } from './property';
+
+// Headline numbers captured at save time so the list renders without re-running every deal.
+export type DealSummary = {
+  isGo: boolean;
+  netCashFlow: number;
+  dscr: number | null; // null when DSCR is undefined or infinite (no debt)
+};
+
+export type SavedDeal = {
+  id: string;
+  name: string;
+  address: string;
+  tags: string[];
+  form: DealForm;
+  photoIds: string[]; // the photos themselves are in IndexedDB, keyed by deal id
+  summary: DealSummary;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const STORAGE_KEY = 'dqc.deals.v1';
+
+export function newDealId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function toSummary(isGo: boolean, netCashFlow: number, dscr: number): DealSummary {
+  return { isGo, netCashFlow, dscr: Number.isFinite(dscr) ? dscr : null };
+}
+
+export function loadDeals(): SavedDeal[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.map(sanitizeDeal).filter((d): d is SavedDeal => d !== null) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Returns false when the browser refuses the write (quota, private mode).
+export function saveDeals(deals: SavedDeal[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(deals));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sanitizeDeal(input: unknown): SavedDeal | null {
+  if (!input || typeof input !== 'object') return null;
+  const o = input as Record<string, unknown>;
+  const s = (o.summary ?? {}) as Record<string, unknown>;
+  const now = new Date().toISOString();
+
+  return {
+    id: typeof o.id === 'string' ? o.id : newDealId(),
+    name: typeof o.name === 'string' ? o.name : 'Untitled deal',
+    address: typeof o.address === 'string' ? o.address : '',
+    tags: Array.isArray(o.tags) ? o.tags.filter((t): t is string => typeof t === 'string') : [],
+    form: sanitizeForm(o.form),
+    photoIds: Array.isArray(o.photoIds) ? o.photoIds.filter((p): p is string => typeof p === 'string') : [],
+    summary: {
+      isGo: s.isGo === true,
+      netCashFlow: typeof s.netCashFlow === 'number' ? s.netCashFlow : NaN,
+      dscr: typeof s.dscr === 'number' ? s.dscr : null,
+    },
+    createdAt: typeof o.createdAt === 'string' ? o.createdAt : now,
+    updatedAt: typeof o.updatedAt === 'string' ? o.updatedAt : now,
+  };
+}
+
+// ---- Photos (IndexedDB: a few deals' photos would fill the localStorage quota) ----
+
+const PHOTO_DB = 'dqc.photos';
+const PHOTO_STORE = 'deals';
+
+function openPhotoDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = window.indexedDB.open(PHOTO_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(PHOTO_STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Runs one request in its own transaction; resolves with its result once the transaction commits.
+async function photoRequest(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+  const db = await openPhotoDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(PHOTO_STORE, mode);
+      const req = run(tx.objectStore(PHOTO_STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadDealPhotos(dealId: string): Promise<PropertyPhoto[]> {
+  try {
+    return sanitizePhotos(await photoRequest('readonly', (store) => store.get(dealId)));
+  } catch {
+    return [];
+  }
+}
+
+// Returns false when the browser refuses the write; an empty list removes the deal's photos.
+export async function saveDealPhotos(dealId: string, photos: PropertyPhoto[]) {
+  try {
+    await photoRequest('readwrite', (store) => (photos.length ? store.put(photos, dealId) : store.delete(dealId)));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function parseTags(text: string) {
+  const seen = new Set<string>();
+  for (const t of text.split(',')) {
+    const tag = t.trim().toLowerCase();
+    if (tag) seen.add(tag);
+  }
+  return [...seen];
+}
+
+export function allTags(deals: SavedDeal[]) {
+  return [...new Set(deals.flatMap((d) => d.tags))].sort();
+}
+
+// Case-insensitive match on name, address and tags; `tag` narrows to deals carrying it.
+export function filterDeals(deals: SavedDeal[], query: string, tag: string | null) {
+  const q = query.trim().toLowerCase();
+  return deals
+    .filter((d) => !tag || d.tags.includes(tag))
+    .filter((d) => !q || [d.name, d.address, ...d.tags].some((f) => f.toLowerCase().includes(q)))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,19 @@
+export function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
+export function toNum(v: string) {
+  const x = Number(String(v).replace(/[^0-9.\-]/g, ''));
+  return Number.isFinite(x) ? x : 0;
+}
+export function money(n: number) {
+  if (!Number.isFinite(n)) return '—';
+  return n.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+export function money2(n: number) {
+  if (!Number.isFinite(n)) return '—';
+  return n.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+}
+export function pct(n: number) {
+  if (!Number.isFinite(n)) return '—';
+  return `${(n * 100).toFixed(2)}%`;
+}
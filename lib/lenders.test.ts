@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeDeal } from './deal';
+import { DEFAULT_FORM } from './dealForm';
+import { DEFAULT_LENDER_PROFILES, newLenderProfile, qualify, sanitizeLenderProfile } from './lenders';
+import { newLien } from './loans';
+import { DEFAULT_OPEX, newExpenseItem } from './opex';
+import { monthlyMortgagePayment } from './mortgage';
+
+// $500k, 25% down at 6.75%: a $375k first mortgage; $4,000 rent; $520 taxes + $140 insurance.
+const deal = computeDeal(DEFAULT_FORM);
+const [dscrLoan, bank, hardMoney] = DEFAULT_LENDER_PROFILES;
+
+describe('qualify', () => {
+  it('approves the requested loan when no limit binds', () => {
+    const q = qualify(dscrLoan, deal, 1e6);
+    expect(q.maxLoan).toBeCloseTo(400000, 6); // 80% LTV is tighter than the DSCR cap
+    expect(q.binding).toBeNull();
+    expect(q.supportsRequested).toBe(true);
+    expect(q.loan).toBe(375000);
+    const pitia = monthlyMortgagePayment(375000, 6.75, 30) + 660;
+    expect(q.dscr).toBeCloseTo(4000 / pitia, 10);
+    expect(q.reserves).toBeCloseTo(6 * pitia, 6);
+    expect(q.cashRequired).toBeCloseTo(125000 + q.reserves, 6);
+    expect(q.cashShortfall).toBe(0);
+  });
+
+  it('sizes the loan to the DSCR at the buffered rate and cuts back the first mortgage', () => {
+    const q = qualify(bank, deal, 0);
+    expect(q.qualifyingRate).toBeCloseTo(8.75, 10);
+    const maxByDscr = deal.noiMonthly / 1.25 / monthlyMortgagePayment(1, 8.75, 30);
+    expect(q.maxLoan).toBeCloseTo(maxByDscr, 4);
+    expect(q.binding).toBe('dscr');
+    expect(q.supportsRequested).toBe(false);
+    expect(q.dscr).toBeCloseTo(1.25, 8);
+    // The cut-back comes out of the borrower's pocket.
+    expect(q.cashRequired).toBeCloseTo(125000 + (375000 - q.loan) + q.reserves, 4);
+    expect(q.cashShortfall).toBeCloseTo(q.cashRequired, 6);
+  });
+
+  it('caps by loan-to-cost and skips the DSCR test when none is set', () => {
+    const q = qualify({ ...hardMoney, maxLtvPct: '', maxLtcPct: '60' }, deal, 0);
+    expect(q.caps.map((c) => c.constraint)).toEqual(['ltc']);
+    expect(q.maxLoan).toBeCloseTo(300000, 6);
+    expect(q.binding).toBe('ltc');
+    expect(q.reserves).toBe(0);
+  });
+
+  it('counts stacked lien payments in the DSCR sizing, the DSCR and the reserves', () => {
+    const lien = { ...newLien('Seller carry'), amount: '50000', ratePct: '6', amortYears: '30' };
+    const withLien = computeDeal({ ...DEFAULT_FORM, liens: [lien] });
+    const lienPayment = monthlyMortgagePayment(50000, 6, 30);
+    expect(withLien.lienDebtService).toBeCloseTo(lienPayment, 6);
+
+    const q = qualify(bank, withLien, 0);
+    const maxByDscr = (withLien.noiMonthly / 1.25 - lienPayment) / monthlyMortgagePayment(1, 8.75, 30);
+    expect(q.maxLoan).toBeCloseTo(maxByDscr, 4);
+    expect(q.dscr).toBeCloseTo(1.25, 8);
+    expect(q.maxLoan).toBeLessThan(qualify(bank, deal, 0).maxLoan);
+    expect(q.reserves).toBeCloseTo(6 * (q.loan * monthlyMortgagePayment(1, 8.75, 30) + lienPayment + 660), 6);
+  });
+
+  it('finds PITIA lines by category, not by name', () => {
+    const opex = {
+      ...DEFAULT_OPEX,
+      itemized: true,
+      managementPct: '0',
+      items: [newExpenseItem('County levy', 'monthly', '520', 'taxes'), newExpenseItem('Tax prep', 'monthly', '40'), newExpenseItem('Insurance', 'monthly', '140', 'insurance')],
+    };
+    const q = qualify(dscrLoan, computeDeal({ ...DEFAULT_FORM, opex }), 1e6);
+    const pitia = monthlyMortgagePayment(375000, 6.75, 30) + 660;
+    expect(q.dscr).toBeCloseTo(4000 / pitia, 10);
+  });
+
+  it('has no maximum when the profile sets no limits', () => {
+    const q = qualify(newLenderProfile({ maxLtvPct: '', minDscr: '' }), deal, 0);
+    expect(q.maxLoan).toBe(Infinity);
+    expect(q.supportsRequested).toBe(true);
+  });
+});
+
+describe('newLenderProfile', () => {
+  it('gives a copy of a profile its own id', () => {
+    const copy = newLenderProfile({ ...bank, name: 'Bank portfolio (copy)' });
+    expect(copy.id).not.toBe(bank.id);
+    expect(copy).toMatchObject({ name: 'Bank portfolio (copy)', minDscr: bank.minDscr });
+  });
+});
+
+describe('sanitizeLenderProfile', () => {
+  it('keeps known fields and rejects unknown DSCR definitions', () => {
+    const p = sanitizeLenderProfile({ id: 'x', name: 'Credit union', maxLtvPct: 70, dscrBasis: 'gross', extra: true });
+    expect(p).toMatchObject({ id: 'x', name: 'Credit union', maxLtvPct: '70', dscrBasis: 'noi', minDscr: '1.2' });
+    expect(p).not.toHaveProperty('extra');
+    expect(sanitizeLenderProfile(null).name).toBe('Untitled lender');
+  });
+});
@@ -0,0 +1,174 @@
+import { clamp, toNum } from './format';
+import { monthlyMortgagePayment } from './mortgage';
+import type { DealResult } from './deal';
+import type { ExpenseCategory } from './opex';
+
+// Lender profiles: how a lender sizes the first mortgage (LTV, LTC, its own DSCR
+// definition at a stressed rate) and how much cash it wants left in reserve.
+// Profiles are browser-local, like rule sets; they describe lenders, not deals.
+
+export type DscrBasis = 'noi' | 'pitia' | 'piti';
+
+export const DSCR_BASES: { basis: DscrBasis; label: string; hint: string }[] = [
+  { basis: 'noi', label: 'NOI ÷ P&I', hint: 'Net operating income over principal and interest (banks, commercial).' },
+  { basis: 'pitia', label: 'Rent ÷ PITIA', hint: 'Gross rent over P&I, taxes, insurance and HOA (most DSCR loans).' },
+  { basis: 'piti', label: 'Rent ÷ PITI', hint: 'Gross rent over P&I, taxes and insurance.' },
+];
+
+export type LenderProfile = {
+  id: string;
+  name: string;
+  maxLtvPct: string; // of the purchase price; blank = no limit
+  maxLtcPct: string; // of price + rehab; blank = no limit
+  minDscr: string; // blank or 0 = no DSCR test
+  dscrBasis: DscrBasis;
+  rateBufferPct: string; // qualify at the note rate plus this many points
+  reserveMonths: string; // months of PITIA held after closing
+};
+
+export type LenderConstraint = 'ltv' | 'ltc' | 'dscr';
+
+export const CONSTRAINT_LABELS: Record<LenderConstraint, string> = { ltv: 'Max LTV', ltc: 'Max LTC', dscr: 'Min DSCR' };
+
+function newId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// Always a fresh id, even when `partial` is a whole profile being copied.
+export function newLenderProfile(partial: Partial<Omit<LenderProfile, 'id'>> = {}): LenderProfile {
+  return {
+    name: 'New lender',
+    maxLtvPct: '75',
+    maxLtcPct: '',
+    minDscr: '1.2',
+    dscrBasis: 'noi',
+    rateBufferPct: '0',
+    reserveMonths: '6',
+    ...partial,
+    id: newId(),
+  };
+}
+
+export const DEFAULT_LENDER_PROFILES: LenderProfile[] = [
+  { id: 'dscr', name: 'DSCR loan', maxLtvPct: '80', maxLtcPct: '', minDscr: '1.0', dscrBasis: 'pitia', rateBufferPct: '0', reserveMonths: '6' },
+  { id: 'bank', name: 'Bank portfolio', maxLtvPct: '75', maxLtcPct: '', minDscr: '1.25', dscrBasis: 'noi', rateBufferPct: '2', reserveMonths: '6' },
+  { id: 'hard', name: 'Hard money', maxLtvPct: '70', maxLtcPct: '85', minDscr: '', dscrBasis: 'noi', rateBufferPct: '0', reserveMonths: '0' },
+];
+
+export type LenderQualification = {
+  profile: LenderProfile;
+  qualifyingRate: number; // note rate + buffer, percent
+  caps: { constraint: LenderConstraint; maxLoan: number }[]; // only the limits the profile sets
+  maxLoan: number; // Infinity when the profile sets no limit
+  binding: LenderConstraint | null;
+  requestedLoan: number; // the first mortgage in the deal
+  loan: number; // requested, cut back to the maximum
+  supportsRequested: boolean;
+  dscr: number; // lender-defined DSCR on `loan` at the qualifying rate
+  reserves: number;
+  cashRequired: number; // down payment (after any cut-back) + closing + startup + reserves
+  cashShortfall: number; // 0 when the borrower's cash covers it
+};
+
+/**
+ * Sizes the first mortgage for one lender. Stacked liens stay as entered and their
+ * payments count in every DSCR basis and the reserves; a cut-back in the first
+ * mortgage is made up with more cash down.
+ */
+export function qualify(profile: LenderProfile, result: DealResult, cashAvailable: number): LenderQualification {
+  const qualifyingRate = result.rate + clamp(toNum(profile.rateBufferPct), 0, 20);
+  const paymentPerDollar = monthlyMortgagePayment(1, qualifyingRate, result.years);
+
+  // PITIA lines by category, so renaming a line never changes the result.
+  const monthly = (...categories: ExpenseCategory[]) => result.expenses.filter((e) => categories.includes(e.category)).reduce((a, e) => a + e.monthly, 0);
+  const escrow = monthly('taxes', 'insurance');
+  const hoa = monthly('hoa');
+  const housing = profile.dscrBasis === 'pitia' ? escrow + hoa : profile.dscrBasis === 'piti' ? escrow : 0;
+  const income = profile.dscrBasis === 'noi' ? result.noiMonthly : result.rent;
+  const liens = result.lienDebtService;
+
+  const caps: LenderQualification['caps'] = [];
+  const ltv = toNum(profile.maxLtvPct);
+  if (profile.maxLtvPct.trim() && ltv > 0) caps.push({ constraint: 'ltv', maxLoan: (clamp(ltv, 0, 100) / 100) * result.price });
+  const ltc = toNum(profile.maxLtcPct);
+  if (profile.maxLtcPct.trim() && ltc > 0) {
+    caps.push({ constraint: 'ltc', maxLoan: (clamp(ltc, 0, 100) / 100) * (result.price + (result.refi?.rehabTotal ?? 0)) });
+  }
+  const minDscr = toNum(profile.minDscr);
+  if (minDscr > 0) caps.push({ constraint: 'dscr', maxLoan: Math.max(0, (income / minDscr - housing - liens) / paymentPerDollar) });
+
+  const tightest = caps.reduce<(typeof caps)[number] | null>((m, c) => (!m || c.maxLoan < m.maxLoan ? c : m), null);
+  const maxLoan = tightest ? tightest.maxLoan : Infinity;
+  const requestedLoan = result.firstLoan;
+  const loan = Math.min(requestedLoan, maxLoan);
+
+  const pi = loan * paymentPerDollar;
+  const dscr = pi + liens + housing > 0 ? income / (pi + liens + housing) : Infinity;
+  const reserves = clamp(toNum(profile.reserveMonths), 0, 60) * (pi + liens + escrow + hoa);
+  const extraDown = requestedLoan - loan;
+  const cashRequired = result.downPayment + extraDown + result.close + result.startupCash + reserves;
+
+  return {
+    profile,
+    qualifyingRate,
+    caps,
+    maxLoan,
+    binding: tightest && tightest.maxLoan < requestedLoan + 0.5 ? tightest.constraint : null,
+    requestedLoan,
+    loan,
+    supportsRequested: requestedLoan <= maxLoan + 0.5,
+    dscr,
+    reserves,
+    cashRequired,
+    cashShortfall: Math.max(0, cashRequired - cashAvailable),
+  };
+}
+
+// ---- Saved lender profiles (browser-local) ----
+
+const STORAGE_KEY = 'dqc.lenders.v1';
+
+export type LenderSettings = { profiles: LenderProfile[]; cashAvailable: string };
+
+export const DEFAULT_LENDER_SETTINGS: LenderSettings = { profiles: DEFAULT_LENDER_PROFILES, cashAvailable: '' };
+
+export function loadLenderSettings(): LenderSettings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const o = (raw ? JSON.parse(raw) : null) as { profiles?: unknown; cashAvailable?: unknown } | null;
+    if (o && Array.isArray(o.profiles)) {
+      return {
+        profiles: o.profiles.map(sanitizeLenderProfile),
+        cashAvailable: typeof o.cashAvailable === 'string' ? o.cashAvailable : '',
+      };
+    }
+  } catch {
+    // Storage unavailable or corrupt — fall back to the starter profiles.
+  }
+  return DEFAULT_LENDER_SETTINGS;
+}
+
+export function saveLenderSettings(settings: LenderSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Quota / private mode: profiles simply won't persist.
+  }
+}
+
+export function sanitizeLenderProfile(input: unknown): LenderProfile {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const base = newLenderProfile();
+  const str = (k: Exclude<keyof LenderProfile, 'id' | 'name' | 'dscrBasis'>) =>
+    typeof o[k] === 'string' || typeof o[k] === 'number' ? String(o[k]) : base[k];
+  return {
+    id: typeof o.id === 'string' && o.id ? o.id : base.id,
+    name: typeof o.name === 'string' && o.name.trim() ? o.name : 'Untitled lender',
+    maxLtvPct: str('maxLtvPct'),
+    maxLtcPct: str('maxLtcPct'),
+    minDscr: str('minDscr'),
+    dscrBasis: DSCR_BASES.find((b) => b.basis === o.dscrBasis)?.basis ?? base.dscrBasis,
+    rateBufferPct: str('rateBufferPct'),
+    reserveMonths: str('reserveMonths'),
+  };
+}
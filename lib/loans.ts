@@ -0,0 +1,181 @@
+import { clamp, toNum } from './format';
+import { monthlyMortgagePayment, type AmortizationRow } from './mortgage';
+
+export type LoanKind = 'fixed' | 'io' | 'arm' | 'balloon';
+
+export const LOAN_KINDS: { kind: LoanKind; label: string }[] = [
+  { kind: 'fixed', label: 'Fixed' },
+  { kind: 'io', label: 'Interest-only' },
+  { kind: 'arm', label: 'ARM' },
+  { kind: 'balloon', label: 'Balloon' },
+];
+
+// Structure-specific terms, kept as raw form strings like every other input.
+export type LoanTermsForm = {
+  kind: LoanKind;
+  ioMonths: string;
+  armFixedYears: string;
+  armAdjustPct: string; // rate change at the first reset (rate-shock scenario)
+  balloonYears: string;
+};
+
+// A lien stacked behind the first mortgage (second, seller carry-back, etc.).
+export type LienForm = LoanTermsForm & {
+  id: string;
+  label: string;
+  amount: string;
+  ratePct: string;
+  amortYears: string;
+};
+
+export const DEFAULT_LOAN_TERMS: LoanTermsForm = {
+  kind: 'fixed',
+  ioMonths: '120',
+  armFixedYears: '5',
+  armAdjustPct: '2',
+  balloonYears: '7',
+};
+
+export function newLien(label: string, kind: LoanKind = 'fixed'): LienForm {
+  return {
+    ...DEFAULT_LOAN_TERMS,
+    kind,
+    id: Math.random().toString(36).slice(2, 10),
+    label,
+    amount: '0',
+    ratePct: '8',
+    amortYears: '30',
+  };
+}
+
+// Parsed structure terms (see LoanTermsForm).
+export type LoanTerms = {
+  kind: LoanKind;
+  ioMonths: number;
+  armFixedYears: number;
+  armAdjustPct: number;
+  balloonYears: number;
+};
+
+export type LoanSpec = LoanTerms & {
+  label: string;
+  amount: number;
+  ratePct: number;
+  amortYears: number;
+};
+
+export function parseLoanTerms(terms: LoanTermsForm): LoanTerms {
+  return {
+    kind: terms.kind,
+    ioMonths: Math.max(0, Math.round(toNum(terms.ioMonths))),
+    armFixedYears: Math.max(1, Math.round(toNum(terms.armFixedYears))),
+    armAdjustPct: clamp(toNum(terms.armAdjustPct), -20, 20),
+    balloonYears: Math.max(1, Math.round(toNum(terms.balloonYears))),
+  };
+}
+
+export function loanSpec(label: string, amount: number, ratePct: number, amortYears: number, terms: LoanTerms): LoanSpec {
+  return {
+    ...terms,
+    label,
+    amount: Math.max(0, amount),
+    ratePct: clamp(ratePct, 0, 100),
+    amortYears: Math.max(1, Math.round(amortYears)),
+  };
+}
+
+export function lienSpec(lien: LienForm): LoanSpec {
+  return loanSpec(lien.label || 'Lien', toNum(lien.amount), toNum(lien.ratePct), toNum(lien.amortYears), parseLoanTerms(lien));
+}
+
+/**
+ * Month-by-month schedule for any supported structure:
+ * - fixed: level payment over the amortization term
+ * - io: interest only for `ioMonths`, then amortizes over what is left of the term
+ * - arm: fixed for `armFixedYears`, then re-amortizes at rate + `armAdjustPct`
+ * - balloon: amortizes over the term, remaining balance due at `balloonYears`
+ * Extra principal is applied on top of the scheduled payment; the schedule stops at payoff.
+ */
+export function loanSchedule(spec: LoanSpec, extraMonthly = 0) {
+  const rows: AmortizationRow[] = [];
+  if (spec.amount <= 0) return rows;
+
+  const n = Math.max(1, Math.round(spec.amortYears * 12));
+  const ioMonths = spec.kind === 'io' ? clamp(spec.ioMonths, 0, n) : 0;
+  const resetMonth = spec.kind === 'arm' ? clamp(spec.armFixedYears * 12, 1, n) : n;
+  const dueMonth = spec.kind === 'balloon' ? clamp(spec.balloonYears * 12, 1, n) : n;
+  const extra = Math.max(0, extraMonthly);
+
+  let balance = spec.amount;
+  let rate = spec.ratePct;
+  let pmt = monthlyMortgagePayment(balance, rate, n / 12);
+
+  for (let month = 1; month <= dueMonth && balance > 0.005; month++) {
+    if (ioMonths > 0 && month === ioMonths + 1) {
+      pmt = monthlyMortgagePayment(balance, rate, (n - ioMonths) / 12);
+    }
+    if (month === resetMonth + 1) {
+      rate = Math.max(0, spec.ratePct + spec.armAdjustPct);
+      pmt = monthlyMortgagePayment(balance, rate, (n - resetMonth) / 12);
+    }
+
+    const interest = balance * (rate / 100 / 12);
+    const scheduled = month <= ioMonths ? 0 : Math.min(pmt - interest, balance);
+    const extraPrincipal = Math.min(extra, balance - scheduled);
+    balance = Math.max(0, balance - scheduled - extraPrincipal);
+
+    let balloon = 0;
+    if (month === dueMonth && balance > 0.005) {
+      balloon = balance;
+      balance = 0;
+    }
+
+    rows.push({ month, payment: interest + scheduled, interest, principal: scheduled, extraPrincipal, balloon, balance });
+  }
+  return rows;
+}
+
+// Sums several loan schedules month by month into one blended capital-stack schedule.
+export function combineSchedules(schedules: AmortizationRow[][]) {
+  const months = Math.max(0, ...schedules.map((s) => s.length));
+  const rows: AmortizationRow[] = [];
+  for (let i = 0; i < months; i++) {
+    const row: AmortizationRow = { month: i + 1, payment: 0, interest: 0, principal: 0, extraPrincipal: 0, balloon: 0, balance: 0 };
+    for (const s of schedules) {
+      const r = s[i];
+      if (!r) continue;
+      row.payment += r.payment;
+      row.interest += r.interest;
+      row.principal += r.principal;
+      row.extraPrincipal += r.extraPrincipal;
+      row.balloon += r.balloon;
+      row.balance += r.balance;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function parseLiens(raw: string): LienForm[] | null {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return null;
+    return parsed.map((l: Partial<Record<keyof LienForm, unknown>>) => {
+      const base = newLien(typeof l.label === 'string' ? l.label : 'Lien');
+      const str = (k: Exclude<keyof LienForm, 'id' | 'kind'>) => (typeof l[k] === 'string' ? (l[k] as string) : base[k]);
+      return {
+        ...base,
+        kind: LOAN_KINDS.some((k) => k.kind === l.kind) ? (l.kind as LoanKind) : base.kind,
+        amount: str('amount'),
+        ratePct: str('ratePct'),
+        amortYears: str('amortYears'),
+        ioMonths: str('ioMonths'),
+        armFixedYears: str('armFixedYears'),
+        armAdjustPct: str('armAdjustPct'),
+        balloonYears: str('balloonYears'),
+      };
+    });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeDeal } from './deal';
+import { DEFAULT_FORM } from './dealForm';
+import { DEFAULT_RISK_INPUTS, PERCENTILES, riskBaseValue, runSimulation, type RiskInputs } from './monteCarlo';
+import { itemizeFlatExpenses } from './opex';
+import { DEFAULT_RULE_SET } from './rules';
+
+const itemized = { ...DEFAULT_FORM, opex: itemizeFlatExpenses(DEFAULT_FORM) };
+
+const simulate = (inputs: Partial<RiskInputs>, seed = 7) =>
+  runSimulation({ form: DEFAULT_FORM, ruleSet: DEFAULT_RULE_SET, inputs: { ...DEFAULT_RISK_INPUTS, ...inputs }, iterations: 500, seed });
+
+describe('riskBaseValue', () => {
+  it('reads the form, with rent from the active income model', () => {
+    expect(riskBaseValue(DEFAULT_FORM, 'ratePct')).toBe(6.75);
+    expect(riskBaseValue(DEFAULT_FORM, 'monthlyRent')).toBe(4000);
+    expect(riskBaseValue({ ...DEFAULT_FORM, section8Mode: true }, 'monthlyRent')).toBe(4000); // $800 tenant + $3,200 HAP
+  });
+
+  it('reads repairs and CapEx from the itemized lines when those are on', () => {
+    expect(riskBaseValue(itemized, 'repairsPct')).toBeCloseTo(5, 8);
+    expect(riskBaseValue({ ...itemized, repairsPct: '40' }, 'repairsPct')).toBeCloseTo(5, 8);
+  });
+});
+
+describe('runSimulation', () => {
+  it('returns the deal itself in every band when nothing is uncertain', () => {
+    const annual = computeDeal(DEFAULT_FORM, DEFAULT_RULE_SET).netCashFlow * 12;
+    const r = simulate({});
+    expect(r.bands.map((b) => b.p)).toEqual(PERCENTILES);
+    r.bands.forEach((b) => expect(b.value).toBeCloseTo(annual, 6));
+  });
+
+  it('repeats a run exactly from the same seed', () => {
+    const inputs = { ratePct: { kind: 'range' as const, min: '5', likely: '', max: '9' } };
+    expect(simulate(inputs, 42)).toEqual(simulate(inputs, 42));
+    expect(simulate(inputs, 42).bands[3].value).not.toBe(simulate(inputs, 43).bands[3].value);
+  });
+
+  it('keeps draws inside the range and orders the bands', () => {
+    const at = (rate: string) => computeDeal({ ...DEFAULT_FORM, ratePct: rate }, DEFAULT_RULE_SET).netCashFlow * 12;
+    const r = simulate({ ratePct: { kind: 'triangle', min: '5', likely: '6', max: '9' } });
+    const values = r.bands.map((b) => b.value);
+    expect(values).toEqual([...values].sort((a, b) => a - b));
+    expect(values[0]).toBeGreaterThanOrEqual(at('9'));
+    expect(values[values.length - 1]).toBeLessThanOrEqual(at('5'));
+  });
+
+  it('counts the share of draws that miss each target', () => {
+    // Rent anywhere from $2,000 to $6,000: the low end loses money.
+    const r = simulate({ monthlyRent: { kind: 'range', min: '2000', likely: '', max: '6000' } });
+    expect(r.probNegativeCashFlow).toBeGreaterThan(0);
+    expect(r.probNegativeCashFlow).toBeLessThan(1);
+    expect(r.probDscrBelow).toBeGreaterThanOrEqual(r.probNegativeCashFlow); // DSCR 1.2 fails before cash flow does
+    expect(r.probGo).toBeLessThanOrEqual(1 - r.probDscrBelow);
+    expect(r.dscrThreshold).toBe(1.2);
+  });
+
+  it('reports progress every 250 draws', () => {
+    const done: number[] = [];
+    runSimulation({ form: DEFAULT_FORM, ruleSet: DEFAULT_RULE_SET, inputs: DEFAULT_RISK_INPUTS, iterations: 600, seed: 1 }, (n) => done.push(n));
+    expect(done).toEqual([250, 500]);
+  });
+
+  it('moves cash flow with repairs draws on itemized expenses', () => {
+    const inputs = { ...DEFAULT_RISK_INPUTS, repairsPct: { kind: 'range' as const, min: '20', likely: '', max: '20' } };
+    const run = (form: typeof itemized) => runSimulation({ form, ruleSet: DEFAULT_RULE_SET, inputs, iterations: 10, seed: 1 });
+    // Repairs 5% → 20% of $4,000 rent: $600/mo, $7,200/yr less.
+    const base = runSimulation({ form: itemized, ruleSet: DEFAULT_RULE_SET, inputs: DEFAULT_RISK_INPUTS, iterations: 10, seed: 1 });
+    expect(run(itemized).bands[3].value).toBeCloseTo(base.bands[3].value - 7200, 6);
+  });
+});
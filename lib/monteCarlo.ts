@@ -0,0 +1,164 @@
+import { toNum } from './format';
+import { computeDeal } from './deal';
+import { computeRent, withRent } from './dealInput';
+import type { DealForm } from './dealForm';
+import { ruleTargets } from './offer';
+import { withFlatExpense } from './opex';
+import type { RuleSet } from './rules';
+
+export type RiskVar = 'monthlyRent' | 'vacancyPct' | 'repairsPct' | 'capexPct' | 'ratePct';
+
+export const RISK_VARS: { key: RiskVar; label: string; unit: string }[] = [
+  { key: 'monthlyRent', label: 'Rent', unit: '$/mo' },
+  { key: 'vacancyPct', label: 'Vacancy', unit: '%' },
+  { key: 'repairsPct', label: 'Repairs', unit: '%' },
+  { key: 'capexPct', label: 'CapEx', unit: '%' },
+  { key: 'ratePct', label: 'Interest rate', unit: '%' },
+];
+
+// 'fixed' uses the form value; 'range' is uniform on [min, max]; 'triangle' is min / likely / max.
+export type DistributionKind = 'fixed' | 'range' | 'triangle';
+
+export type Distribution = { kind: DistributionKind; min: string; likely: string; max: string };
+
+export type RiskInputs = Record<RiskVar, Distribution>;
+
+export const DEFAULT_RISK_INPUTS: RiskInputs = {
+  monthlyRent: { kind: 'fixed', min: '', likely: '', max: '' },
+  vacancyPct: { kind: 'fixed', min: '', likely: '', max: '' },
+  repairsPct: { kind: 'fixed', min: '', likely: '', max: '' },
+  capexPct: { kind: 'fixed', min: '', likely: '', max: '' },
+  ratePct: { kind: 'fixed', min: '', likely: '', max: '' },
+};
+
+export const SIMULATION_SIZES = [1000, 2000, 5000];
+
+// Small seeded PRNG (mulberry32) so a run can be reproduced.
+function rng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function triangular(min: number, likely: number, max: number, u: number) {
+  if (max <= min) return min;
+  const c = (likely - min) / (max - min);
+  return u < c
+    ? min + Math.sqrt(u * (max - min) * (likely - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+}
+
+// Form value for the variable (rent is the STR, rent-roll or tenant + HAP total where those apply;
+// with itemized expenses, repairs and CapEx are their lines' share of today's rent).
+export function riskBaseValue(form: DealForm, key: RiskVar) {
+  if (key === 'monthlyRent') return computeRent(form);
+  if ((key === 'repairsPct' || key === 'capexPct') && form.opex.itemized) {
+    const category = key === 'repairsPct' ? 'repairs' : 'capex';
+    const r = computeDeal(form);
+    const monthly = r.expenses.filter((e) => e.category === category).reduce((a, e) => a + e.monthly, 0);
+    return r.rent > 0 ? (monthly / r.rent) * 100 : 0;
+  }
+  return toNum(form[key]);
+}
+
+function sample(d: Distribution, base: number, u: number) {
+  if (d.kind === 'fixed') return base;
+  const min = d.min.trim() ? toNum(d.min) : base;
+  const max = d.max.trim() ? toNum(d.max) : base;
+  const lo = Math.min(min, max);
+  const hi = Math.max(min, max);
+  if (d.kind === 'range') return lo + u * (hi - lo);
+  const likely = d.likely.trim() ? toNum(d.likely) : base;
+  return triangular(lo, Math.min(hi, Math.max(lo, likely)), hi, u);
+}
+
+function withValue(form: DealForm, key: RiskVar, value: number): DealForm {
+  const v = String(Math.max(0, value));
+  if (key === 'monthlyRent') return withRent(form, value);
+  if (key === 'repairsPct' || key === 'capexPct') return withFlatExpense(form, key, v);
+  return { ...form, [key]: v };
+}
+
+export type SimulationRequest = {
+  form: DealForm;
+  ruleSet: RuleSet;
+  inputs: RiskInputs;
+  iterations: number;
+  seed: number;
+};
+
+export type SimulationResult = {
+  iterations: number;
+  dscrThreshold: number;
+  probNegativeCashFlow: number;
+  probDscrBelow: number;
+  probGo: number;
+  // Year-1 annual cash flow percentiles
+  bands: { p: number; value: number }[];
+};
+
+// Messages posted back by monteCarlo.worker.ts
+export type SimulationMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'done'; result: SimulationResult };
+
+export const PERCENTILES = [5, 10, 25, 50, 75, 90, 95];
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return NaN;
+  const i = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(i);
+  const hi = Math.ceil(i);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (i - lo);
+}
+
+/**
+ * Samples every uncertain input and runs the same computeDeal as the main verdict
+ * for each draw. Runs synchronously; the page calls it from a Web Worker.
+ */
+export function runSimulation(
+  { form, ruleSet, inputs, iterations, seed }: SimulationRequest,
+  onProgress?: (done: number) => void,
+): SimulationResult {
+  const rand = rng(seed);
+  const dscrThreshold = toNum(ruleTargets(ruleSet).dscr);
+  const bases = RISK_VARS.map((v) => riskBaseValue(form, v.key));
+
+  const annual: number[] = [];
+  let negative = 0;
+  let lowDscr = 0;
+  let go = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    let f = form;
+    RISK_VARS.forEach((v, j) => {
+      const d = inputs[v.key];
+      if (d.kind !== 'fixed') f = withValue(f, v.key, sample(d, bases[j], rand()));
+    });
+
+    const r = computeDeal(f, ruleSet);
+    annual.push(r.netCashFlow * 12);
+    if (r.netCashFlow < 0) negative++;
+    if (r.dscr < dscrThreshold) lowDscr++;
+    if (r.decision.isGo) go++;
+
+    if (onProgress && (i + 1) % 250 === 0) onProgress(i + 1);
+  }
+
+  annual.sort((a, b) => a - b);
+  const n = Math.max(1, iterations);
+
+  return {
+    iterations,
+    dscrThreshold,
+    probNegativeCashFlow: negative / n,
+    probDscrBelow: lowDscr / n,
+    probGo: go / n,
+    bands: PERCENTILES.map((p) => ({ p, value: percentile(annual, p) })),
+  };
+}
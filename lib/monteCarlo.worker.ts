@@ -0,0 +1,10 @@
+import { runSimulation, type SimulationMessage, type SimulationRequest } from './monteCarlo';
+
+function post(msg: SimulationMessage) {
+  self.postMessage(msg);
+}
+
+self.addEventListener('message', (e: MessageEvent<SimulationRequest>) => {
+  const result = runSimulation(e.data, (done) => post({ type: 'progress', done }));
+  post({ type: 'done', result });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { monthlyMortgagePayment, summarizeByYear } from './mortgage';
+import { DEFAULT_LOAN_TERMS, loanSchedule, loanSpec, parseLoanTerms } from './loans';
+
+describe('monthlyMortgagePayment', () => {
+  it('matches the standard annuity formula', () => {
+    expect(monthlyMortgagePayment(375000, 6.75, 30)).toBeCloseTo(2432.24, 2);
+    expect(monthlyMortgagePayment(200000, 5, 15)).toBeCloseTo(1581.59, 2);
+  });
+
+  it('divides the principal evenly at a 0% rate', () => {
+    expect(monthlyMortgagePayment(120000, 0, 10)).toBe(1000);
+  });
+
+  it('returns 0 when there is nothing to borrow', () => {
+    expect(monthlyMortgagePayment(0, 7, 30)).toBe(0);
+    expect(monthlyMortgagePayment(-1000, 7, 30)).toBe(0);
+  });
+
+  it('treats a term under one month as a single payment', () => {
+    expect(monthlyMortgagePayment(1000, 0, 0)).toBe(1000);
+  });
+});
+
+describe('summarizeByYear', () => {
+  it('rolls a schedule up into years that reconcile to the loan amount', () => {
+    const terms = parseLoanTerms(DEFAULT_LOAN_TERMS);
+    const rows = loanSchedule(loanSpec('Test', 100000, 6, 30, terms));
+    const years = summarizeByYear(rows);
+    expect(years).toHaveLength(30);
+    expect(years.reduce((acc, y) => acc + y.principal, 0)).toBeCloseTo(100000, 4);
+    expect(years[29].endingBalance).toBeCloseTo(0, 4);
+  });
+
+  it('pays off early with extra principal', () => {
+    const terms = parseLoanTerms(DEFAULT_LOAN_TERMS);
+    const years = summarizeByYear(loanSchedule(loanSpec('Test', 100000, 6, 30, terms), 500));
+    expect(years.length).toBeLessThan(30);
+    expect(years.at(-1)?.endingBalance).toBe(0);
+  });
+});
@@ -0,0 +1,46 @@
+export function monthlyMortgagePayment(principal: number, annualRatePct: number, years: number) {
+  const r = (annualRatePct / 100) / 12;
+  const n = Math.max(1, Math.round(years * 12));
+  if (principal <= 0) return 0;
+  if (r <= 0) return principal / n;
+  return principal * (r * Math.pow(1 + r, n)) / (Math.pow(1 + r, n) - 1);
+}
+
+export type AmortizationRow = {
+  month: number;
+  payment: number; // scheduled P&I (interest only during an IO period)
+  interest: number;
+  principal: number; // scheduled principal
+  extraPrincipal: number;
+  balloon: number; // balance retired in one lump at maturity (balloon / IO notes)
+  balance: number; // after this month's payment
+};
+
+export type AmortizationYear = {
+  year: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  extraPrincipal: number;
+  balloon: number;
+  endingBalance: number;
+};
+
+export function summarizeByYear(rows: AmortizationRow[]) {
+  const years: AmortizationYear[] = [];
+  for (const row of rows) {
+    const year = Math.ceil(row.month / 12);
+    let y = years[year - 1];
+    if (!y) {
+      y = { year, payment: 0, interest: 0, principal: 0, extraPrincipal: 0, balloon: 0, endingBalance: 0 };
+      years.push(y);
+    }
+    y.payment += row.payment;
+    y.interest += row.interest;
+    y.principal += row.principal;
+    y.extraPrincipal += row.extraPrincipal;
+    y.balloon += row.balloon;
+    y.endingBalance = row.balance;
+  }
+  return years;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeDeal } from './deal';
+import { DEFAULT_FORM } from './dealForm';
+import { EMPTY_OFFER_TARGETS, offerLines, resolveTargets, ruleTargets, solveOffer } from './offer';
+import { DEFAULT_RULE_SET } from './rules';
+
+const run = (overrides: Partial<typeof DEFAULT_FORM>) => computeDeal({ ...DEFAULT_FORM, ...overrides }, DEFAULT_RULE_SET);
+const solve = (targets = ruleTargets(DEFAULT_RULE_SET)) => solveOffer(DEFAULT_FORM, DEFAULT_RULE_SET, targets);
+
+describe('targets', () => {
+  it('come from the rule set, with blank overrides falling back', () => {
+    expect(ruleTargets(DEFAULT_RULE_SET)).toEqual({ dscr: '1.2', cashFlow: '0', cashOnCash: '8' });
+    expect(ruleTargets({ ...DEFAULT_RULE_SET, rules: [] })).toEqual({ dscr: '1.2', cashFlow: '0', cashOnCash: '8' });
+    expect(resolveTargets(DEFAULT_RULE_SET, { ...EMPTY_OFFER_TARGETS, dscr: ' 1.35 ' })).toEqual({ dscr: '1.35', cashFlow: '0', cashOnCash: '8' });
+  });
+});
+
+describe('solveOffer', () => {
+  it('finds the highest price, rounded down to $100, that still meets each target', () => {
+    const s = solve();
+    for (const [solved, ok] of [
+      [s.maxPriceDscr, (p: number) => run({ purchasePrice: String(p) }).dscr >= 1.2],
+      [s.maxPriceCashFlow, (p: number) => run({ purchasePrice: String(p) }).netCashFlow >= 0],
+      [s.maxPriceGo, (p: number) => run({ purchasePrice: String(p) }).decision.isGo],
+    ] as const) {
+      expect(solved?.capped).toBe(false);
+      expect(solved!.value % 100).toBe(0);
+      expect(ok(solved!.value)).toBe(true);
+      expect(ok(solved!.value + 100)).toBe(false);
+    }
+  });
+
+  it('finds the smallest down payment, rounded up to 0.1%, that meets the DSCR', () => {
+    const { minDownPctDscr } = solve();
+    const dscr = (d: number) => run({ downPct: String(d) }).dscr;
+    expect(minDownPctDscr?.capped).toBe(false);
+    expect(dscr(minDownPctDscr!.value)).toBeGreaterThanOrEqual(1.2);
+    expect(dscr(minDownPctDscr!.value - 0.1)).toBeLessThan(1.2);
+  });
+
+  it('finds the highest rate, rounded down to 0.01%, that stays GO', () => {
+    const { maxRateGo } = solve();
+    expect(run({ ratePct: String(maxRateGo!.value) }).decision.isGo).toBe(true);
+    expect(run({ ratePct: (maxRateGo!.value + 0.01).toFixed(2) }).decision.isGo).toBe(false);
+  });
+
+  it('reports a target met across the whole range as capped at the top', () => {
+    const s = solve({ dscr: '0', cashFlow: '-1000000', cashOnCash: '-100' });
+    expect(s.maxPriceCashFlow).toEqual({ value: 1_500_000, capped: true }); // 3 × the $500k price
+    expect(s.minDownPctDscr).toEqual({ value: 0, capped: true });
+  });
+
+  it('returns null when a target cannot be met anywhere in the range', () => {
+    const s = solve({ dscr: '1.2', cashFlow: '1000000', cashOnCash: '8' });
+    expect(s.maxPriceCashFlow).toBeNull();
+  });
+});
+
+describe('offerLines', () => {
+  it('marks capped answers with a plus and unreachable ones in words', () => {
+    const lines = offerLines({
+      targets: { dscr: '1.25', cashFlow: '200', cashOnCash: '8' },
+      maxPriceGo: { value: 412300, capped: false },
+      maxPriceDscr: { value: 1_500_000, capped: true },
+      maxPriceCashFlow: null,
+      maxPriceCashOnCash: null,
+      minDownPctDscr: { value: 31.2, capped: false },
+      maxRateGo: { value: 7.25, capped: false },
+    });
+    expect(lines[0].value).toBe('$412,300');
+    expect(lines[1]).toEqual({ label: 'Max price for DSCR >= 1.25', value: '$1,500,000+' });
+    expect(lines[2].value).toBe('Not reachable');
+    expect(lines[4].value).toBe('31.2%');
+    expect(lines[5].value).toBe('7.25%');
+  });
+});
@@ -0,0 +1,121 @@
+import { money, pct, toNum } from './format';
+import { computeDeal, type DealResult } from './deal';
+import type { DealForm } from './dealForm';
+import type { RuleMetric, RuleSet } from './rules';
+
+// Targets in form units: DSCR as a ratio, cash flow in $/mo, cash-on-cash as a percent (8 = 8%).
+export type OfferTargets = { dscr: string; cashFlow: string; cashOnCash: string };
+
+export const EMPTY_OFFER_TARGETS: OfferTargets = { dscr: '', cashFlow: '', cashOnCash: '' };
+
+function ruleThreshold(ruleSet: RuleSet, metric: RuleMetric, fallback: string) {
+  const rule = ruleSet.rules.find((r) => r.metric === metric && (r.operator === '>=' || r.operator === '>'));
+  return rule ? rule.threshold : fallback;
+}
+
+// Defaults come from the active rule set so the solver answers "what clears my screen".
+export function ruleTargets(ruleSet: RuleSet): OfferTargets {
+  return {
+    dscr: ruleThreshold(ruleSet, 'dscr', '1.2'),
+    cashFlow: ruleThreshold(ruleSet, 'netCashFlow', '0'),
+    cashOnCash: ruleThreshold(ruleSet, 'cashOnCash', '8'),
+  };
+}
+
+// Blank overrides fall back to the rule-set targets.
+export function resolveTargets(ruleSet: RuleSet, overrides: OfferTargets): OfferTargets {
+  const base = ruleTargets(ruleSet);
+  return {
+    dscr: overrides.dscr.trim() || base.dscr,
+    cashFlow: overrides.cashFlow.trim() || base.cashFlow,
+    cashOnCash: overrides.cashOnCash.trim() || base.cashOnCash,
+  };
+}
+
+// `capped` means the condition still held at the top of the search range.
+export type Solved = { value: number; capped: boolean } | null;
+
+const ITERATIONS = 40;
+
+// Largest v in [lo, hi] with ok(v), assuming ok holds below some cut-off and fails above it.
+function searchMax(lo: number, hi: number, ok: (v: number) => boolean): Solved {
+  if (!ok(lo)) return null;
+  if (ok(hi)) return { value: hi, capped: true };
+  for (let i = 0; i < ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (ok(mid)) lo = mid;
+    else hi = mid;
+  }
+  return { value: lo, capped: false };
+}
+
+// Smallest v in [lo, hi] with ok(v), assuming ok fails below some cut-off and holds above it.
+function searchMin(lo: number, hi: number, ok: (v: number) => boolean): Solved {
+  if (!ok(hi)) return null;
+  if (ok(lo)) return { value: lo, capped: true };
+  for (let i = 0; i < ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (ok(mid)) hi = mid;
+    else lo = mid;
+  }
+  return { value: hi, capped: false };
+}
+
+function round(s: Solved, step: number, dir: 'down' | 'up'): Solved {
+  if (!s) return null;
+  const f = dir === 'down' ? Math.floor : Math.ceil;
+  return { ...s, value: f(s.value / step) * step };
+}
+
+export type OfferSolution = {
+  targets: OfferTargets;
+  maxPriceGo: Solved;
+  maxPriceDscr: Solved;
+  maxPriceCashFlow: Solved;
+  maxPriceCashOnCash: Solved;
+  minDownPctDscr: Solved;
+  maxRateGo: Solved;
+};
+
+/**
+ * Reverse solvers: bisects the full calculation (loan kinds, liens, rules) for the
+ * purchase price, down payment and rate at which each target is just met. Prices
+ * are rounded down to $100, down payment up to 0.1% and rate down to 0.01%.
+ */
+export function solveOffer(form: DealForm, ruleSet: RuleSet, targets: OfferTargets): OfferSolution {
+  const dscrMin = toNum(targets.dscr);
+  const cashFlowMin = toNum(targets.cashFlow);
+  const cocMin = toNum(targets.cashOnCash) / 100;
+
+  const run = (f: DealForm) => computeDeal(f, ruleSet);
+  const atPrice = (check: (r: DealResult) => boolean) => (v: number) => check(run({ ...form, purchasePrice: String(v) }));
+
+  const priceHi = Math.max(toNum(form.purchasePrice) * 3, 1_000_000);
+
+  return {
+    targets,
+    maxPriceGo: round(searchMax(1, priceHi, atPrice((r) => r.decision.isGo)), 100, 'down'),
+    maxPriceDscr: round(searchMax(1, priceHi, atPrice((r) => r.dscr >= dscrMin)), 100, 'down'),
+    maxPriceCashFlow: round(searchMax(1, priceHi, atPrice((r) => r.netCashFlow >= cashFlowMin)), 100, 'down'),
+    maxPriceCashOnCash: round(searchMax(1, priceHi, atPrice((r) => r.cashOnCash >= cocMin)), 100, 'down'),
+    minDownPctDscr: round(searchMin(0, 100, (v) => run({ ...form, downPct: String(v) }).dscr >= dscrMin), 0.1, 'up'),
+    maxRateGo: round(searchMax(0, 25, (v) => run({ ...form, ratePct: String(v) }).decision.isGo), 0.01, 'down'),
+  };
+}
+
+// Plain-text rows shared by the panel and the PDF (ASCII operators, as jsPDF's core fonts lack ≥).
+export function offerLines(s: OfferSolution) {
+  const price = (v: Solved) => (v ? `${money(v.value)}${v.capped ? '+' : ''}` : 'Not reachable');
+  const rate = (v: Solved) => (v ? `${v.value.toFixed(2)}%${v.capped ? '+' : ''}` : 'Not reachable');
+  const down = (v: Solved) => (v ? `${v.value.toFixed(1)}%` : 'Not reachable');
+  const { dscr, cashFlow, cashOnCash } = s.targets;
+
+  return [
+    { label: 'Max offer (GO under active rules)', value: price(s.maxPriceGo) },
+    { label: `Max price for DSCR >= ${toNum(dscr).toFixed(2)}`, value: price(s.maxPriceDscr) },
+    { label: `Max price for cash flow >= ${money(toNum(cashFlow))}/mo`, value: price(s.maxPriceCashFlow) },
+    { label: `Max price for cash-on-cash >= ${pct(toNum(cashOnCash) / 100)}`, value: price(s.maxPriceCashOnCash) },
+    { label: `Min down payment for DSCR >= ${toNum(dscr).toFixed(2)}`, value: down(s.minDownPctDscr) },
+    { label: 'Max interest rate (stays GO)', value: rate(s.maxRateGo) },
+  ];
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeDeal } from './deal';
+import { DEFAULT_FORM, type DealForm } from './dealForm';
+import { newUnit } from './rentRoll';
+import {
+  DEFAULT_OPEX,
+  capexSchedule,
+  expenseLine,
+  itemizeFlatExpenses,
+  newCapexComponent,
+  newExpenseItem,
+  opexLines,
+  sanitizeOpex,
+  withFlatExpense,
+} from './opex';
+
+const ctx = { vacancy: 0.05, otherIncome: 200, units: 4, leases: true };
+const itemized = (opex: Partial<DealForm['opex']>): DealForm => ({ ...DEFAULT_FORM, opex: { ...DEFAULT_OPEX, itemized: true, ...opex } });
+
+describe('expenseLine', () => {
+  it('turns each basis into a monthly amount plus a share of rent', () => {
+    expect(expenseLine(newExpenseItem('Taxes', 'monthly', '500'), ctx)).toEqual({ label: 'Taxes', category: 'other', fixed: 500, rentRate: 0 });
+    expect(expenseLine(newExpenseItem('Insurance', 'annual', '1800'), ctx)).toEqual({ label: 'Insurance', category: 'other', fixed: 150, rentRate: 0 });
+    expect(expenseLine(newExpenseItem('Repairs', 'pctRent', '5'), ctx)).toEqual({ label: 'Repairs', category: 'other', fixed: 0, rentRate: 0.05 });
+    expect(expenseLine(newExpenseItem('Trash', 'perUnit', '25'), ctx)).toEqual({ label: 'Trash', category: 'other', fixed: 100, rentRate: 0 });
+    const income = expenseLine(newExpenseItem('Reserve', 'pctIncome', '10'), ctx);
+    expect(income.fixed).toBeCloseTo(20);
+    expect(income.rentRate).toBeCloseTo(0.095);
+  });
+});
+
+describe('capexSchedule', () => {
+  it('spreads each replacement over its remaining life, at least a year', () => {
+    const { rows, monthly } = capexSchedule([newCapexComponent('Roof', '12000', '20'), newCapexComponent('Water heater', '1200', '0')]);
+    expect(rows.map((r) => r.monthly)).toEqual([50, 100]);
+    expect(monthly).toBe(150);
+  });
+});
+
+describe('opexLines', () => {
+  const opex = { ...DEFAULT_OPEX, itemized: true, managementPct: '10', leasingFeePct: '50', tenancyMonths: '25' };
+
+  it('charges management on collected rent and spreads leasing fees over the stay', () => {
+    const lines = opexLines(opex, 4000, ctx);
+    expect(lines.find((l) => l.label === 'Management')?.rentRate).toBeCloseTo(0.095);
+    expect(lines.find((l) => l.label === 'Leasing fees')?.rentRate).toBeCloseTo(0.02);
+  });
+
+  it('switches to the minimum fee when the percentage comes in lower', () => {
+    const lines = opexLines({ ...opex, managementMinimum: '500' }, 4000, ctx);
+    expect(lines.find((l) => l.label.startsWith('Management'))).toEqual({ label: 'Management (minimum fee)', category: 'management', fixed: 500, rentRate: 0 });
+  });
+
+  it('skips leasing fees without leases', () => {
+    expect(opexLines(opex, 4000, { ...ctx, leases: false }).some((l) => l.label === 'Leasing fees')).toBe(false);
+  });
+});
+
+describe('itemized deals', () => {
+  it('match the flat inputs when itemized from them', () => {
+    const flat = { ...DEFAULT_FORM, vacancyPct: '0', hoaMonthly: '75' };
+    const r = computeDeal({ ...flat, opex: itemizeFlatExpenses(flat) });
+    const base = computeDeal(flat);
+    expect(r.expenses.map((e) => e.label)).toEqual(['Property taxes', 'Insurance', 'HOA', 'Repairs', 'CapEx reserve', 'Management']);
+    expect(r.noiMonthly).toBeCloseTo(base.noiMonthly, 8);
+    expect(r.breakEvenRent).toBeCloseTo(base.breakEvenRent, 8);
+  });
+
+  it('keep the management fee on gross rent when there is vacancy', () => {
+    const flat = { ...DEFAULT_FORM, vacancyPct: '20', mgmtPct: '8' };
+    const opex = itemizeFlatExpenses(flat);
+    expect(opex.managementPct).toBe('10'); // 10% of the 80% collected = 8% of gross
+    expect(computeDeal({ ...flat, opex }).netCashFlow).toBeCloseTo(computeDeal(flat).netCashFlow, 8);
+  });
+
+  it('leave utilities to the STR model in STR mode', () => {
+    const flat = { ...DEFAULT_FORM, strMode: true, utilitiesMonthly: '150' };
+    const opex = itemizeFlatExpenses(flat);
+    expect(opex.items.map((i) => i.category)).not.toContain('utilities');
+    const r = computeDeal({ ...flat, opex });
+    expect(r.expenses.filter((e) => e.category === 'utilities').map((e) => e.label)).toEqual(['Utilities (STR)']);
+    expect(r.noiMonthly).toBeCloseTo(computeDeal(flat).noiMonthly, 8);
+  });
+
+  it('list every line, add up, and break even with the line structure', () => {
+    const units = Array.from({ length: 2 }, (_, i) => ({ ...newUnit(`Unit ${i + 1}`), currentRent: '2000', marketRent: '2000' }));
+    const form = itemized({
+      items: [newExpenseItem('Taxes', 'annual', '6000'), newExpenseItem('Water', 'perUnit', '60'), newExpenseItem('Repairs', 'pctRent', '5')],
+      components: [newCapexComponent('Roof', '12000', '20')],
+      leasingFeePct: '100',
+      tenancyMonths: '24',
+    });
+    const r = computeDeal({ ...form, units });
+    expect(r.expenses.map((e) => e.label)).toEqual(['Taxes', 'Water', 'Repairs', 'CapEx reserve (schedule)', 'Management', 'Leasing fees']);
+    expect(r.fixedCostsNoDebt).toBeCloseTo(500 + 120 + 50, 8);
+    expect(r.expenses.reduce((a, e) => a + e.monthly, 0)).toBeCloseTo(r.fixedCostsNoDebt + r.percentCosts, 8);
+
+    const half = String(r.breakEvenRent / 2);
+    const atBreakEven = computeDeal({ ...form, units: units.map((u) => ({ ...u, currentRent: half, marketRent: half })) });
+    expect(atBreakEven.netCashFlow).toBeCloseTo(0, 4);
+  });
+
+  it('ignore the flat fixed costs and percentages', () => {
+    const form = itemized({ items: [newExpenseItem('Taxes', 'monthly', '400')], managementPct: '0' });
+    expect(computeDeal({ ...form, taxesMonthly: '9999', repairsPct: '50' }).noiMonthly).toBeCloseTo(computeDeal(form).noiMonthly, 8);
+  });
+});
+
+describe('withFlatExpense', () => {
+  it('sets the flat input when expenses are not itemized', () => {
+    expect(withFlatExpense(DEFAULT_FORM, 'taxesMonthly', '700').taxesMonthly).toBe('700');
+  });
+
+  it('replaces the lines of that category when they are', () => {
+    const form = itemized({
+      items: [newExpenseItem('County levy', 'annual', '6000', 'taxes'), newExpenseItem('Tax prep', 'monthly', '50', 'other')],
+      components: [newCapexComponent('Roof', '12000', '20')],
+    });
+    const taxes = withFlatExpense(form, 'taxesMonthly', '700');
+    expect(taxes.taxesMonthly).toBe(DEFAULT_FORM.taxesMonthly);
+    expect(taxes.opex.items.map((i) => [i.label, i.category, i.basis, i.amount])).toEqual([
+      ['Tax prep', 'other', 'monthly', '50'],
+      ['Property taxes', 'taxes', 'monthly', '700'],
+    ]);
+    expect(computeDeal(taxes).noiMonthly).toBeCloseTo(computeDeal(form).noiMonthly - 200, 8);
+
+    const capex = withFlatExpense(form, 'capexPct', '5');
+    expect(capex.opex.components).toEqual([]);
+    expect(capex.opex.items.at(-1)).toMatchObject({ category: 'capex', basis: 'pctRent', amount: '5' });
+  });
+});
+
+describe('sanitizeOpex', () => {
+  it('rebuilds items and components and defaults unknown bases', () => {
+    const o = sanitizeOpex({ itemized: true, items: [{ label: 'Taxes', basis: 'weekly', amount: 90 }, 'x'], components: [{ label: 'Roof', cost: '9000' }], managementPct: 7 });
+    expect(o).toMatchObject({
+      itemized: true,
+      items: [{ label: 'Taxes', basis: 'monthly', amount: '90' }],
+      components: [{ label: 'Roof', cost: '9000', lifeYears: '10' }],
+      managementPct: '7',
+      tenancyMonths: DEFAULT_OPEX.tenancyMonths,
+    });
+    expect(sanitizeOpex(null)).toEqual(DEFAULT_OPEX);
+  });
+
+  it('keeps categories and gives older preset-named items theirs', () => {
+    const o = sanitizeOpex({ items: [{ label: 'Insurance', amount: 90 }, { label: 'Tax prep', category: 'weird' }, { label: 'Levy', category: 'taxes' }] });
+    expect(o.items.map((i) => i.category)).toEqual(['insurance', 'other', 'taxes']);
+  });
+});
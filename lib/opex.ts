@@ -0,0 +1,230 @@
+import { clamp, toNum } from './format';
+import type { DealForm } from './dealForm';
+
+// Itemized operating expenses: named lines with their own basis, a CapEx component
+// schedule that derives the reserve, and management with leasing and minimum fees.
+// When on, it replaces the flat taxes / insurance / HOA / utilities boxes and the
+// repairs, CapEx and management percentages.
+
+export type ExpenseBasis = 'monthly' | 'annual' | 'pctRent' | 'pctIncome' | 'perUnit';
+
+export const EXPENSE_BASES: { basis: ExpenseBasis; label: string; unit: string }[] = [
+  { basis: 'monthly', label: '$ / month', unit: '$' },
+  { basis: 'annual', label: '$ / year', unit: '$/yr' },
+  { basis: 'pctRent', label: '% of rent', unit: '%' },
+  { basis: 'pctIncome', label: '% of effective income', unit: '%' },
+  { basis: 'perUnit', label: '$ / unit / month', unit: '$/unit' },
+];
+
+// What a line pays for. Scenarios, risk draws and lender PITIA find lines by category, never by name.
+export type ExpenseCategory = 'taxes' | 'insurance' | 'hoa' | 'utilities' | 'repairs' | 'capex' | 'management' | 'leasing' | 'other';
+
+// Categories a line item can take (management and leasing come from their own settings).
+export const EXPENSE_CATEGORIES: { category: ExpenseCategory; label: string }[] = [
+  { category: 'taxes', label: 'Property taxes' },
+  { category: 'insurance', label: 'Insurance' },
+  { category: 'hoa', label: 'HOA' },
+  { category: 'utilities', label: 'Utilities' },
+  { category: 'repairs', label: 'Repairs' },
+  { category: 'capex', label: 'CapEx' },
+  { category: 'other', label: 'Other' },
+];
+
+export type ExpenseItem = { id: string; label: string; category: ExpenseCategory; basis: ExpenseBasis; amount: string };
+
+export type CapexComponent = {
+  id: string;
+  label: string;
+  cost: string; // replacement cost today
+  lifeYears: string; // remaining useful life
+};
+
+export type OpexForm = {
+  itemized: boolean;
+  items: ExpenseItem[];
+  components: CapexComponent[];
+  managementPct: string; // of collected rent (after vacancy)
+  managementMinimum: string; // monthly floor on the management fee
+  leasingFeePct: string; // of one month's rent, per new lease
+  tenancyMonths: string; // average stay; one leasing fee per unit per stay
+};
+
+// One operating expense as the engine sees it: a monthly amount plus a share of rent.
+export type ExpenseLine = { label: string; category: ExpenseCategory; fixed: number; rentRate: number };
+
+function newId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function newExpenseItem(label = '', basis: ExpenseBasis = 'monthly', amount = '0', category: ExpenseCategory = 'other'): ExpenseItem {
+  return { id: newId(), label, category, basis, amount };
+}
+
+export function newCapexComponent(label = '', cost = '0', lifeYears = '10'): CapexComponent {
+  return { id: newId(), label, cost, lifeYears };
+}
+
+export const CAPEX_PRESETS: { label: string; cost: string; lifeYears: string }[] = [
+  { label: 'Roof', cost: '12000', lifeYears: '20' },
+  { label: 'HVAC', cost: '7000', lifeYears: '15' },
+  { label: 'Water heater', cost: '1500', lifeYears: '10' },
+];
+
+export const DEFAULT_OPEX: OpexForm = {
+  itemized: false,
+  items: [],
+  components: [],
+  managementPct: '8',
+  managementMinimum: '0',
+  leasingFeePct: '0',
+  tenancyMonths: '24',
+};
+
+// Each flat input and the line it becomes when itemized (`always`: kept even at zero).
+export const FLAT_EXPENSES = [
+  { key: 'taxesMonthly', label: 'Property taxes', category: 'taxes', basis: 'monthly', always: true },
+  { key: 'insuranceMonthly', label: 'Insurance', category: 'insurance', basis: 'monthly', always: true },
+  { key: 'hoaMonthly', label: 'HOA', category: 'hoa', basis: 'monthly', always: false },
+  { key: 'utilitiesMonthly', label: 'Utilities', category: 'utilities', basis: 'monthly', always: false },
+  { key: 'repairsPct', label: 'Repairs', category: 'repairs', basis: 'pctRent', always: true },
+  { key: 'capexPct', label: 'CapEx reserve', category: 'capex', basis: 'pctRent', always: false },
+] as const satisfies readonly { key: keyof DealForm; label: string; category: ExpenseCategory; basis: ExpenseBasis; always: boolean }[];
+
+export type FlatExpenseKey = (typeof FLAT_EXPENSES)[number]['key'];
+
+// The flat management fee is a share of gross rent, the itemized one of collected rent:
+// this is the itemized percentage that charges the same fee.
+function collectedRentPct(form: DealForm, grossPct: string) {
+  const vacancy = form.strMode ? 0 : clamp(toNum(form.vacancyPct), 0, 80) / 100;
+  return String(Math.round((toNum(grossPct) / (1 - vacancy)) * 10000) / 10000);
+}
+
+/**
+ * Starting point when a user switches to itemized: the flat inputs as lines, with the
+ * same cash flow. STR utilities are left out (the STR model adds its own line).
+ */
+export function itemizeFlatExpenses(form: DealForm): OpexForm {
+  const items = FLAT_EXPENSES.filter((f) => !(form.strMode && f.category === 'utilities'))
+    .filter((f) => f.always || toNum(form[f.key]) > 0)
+    .map((f) => newExpenseItem(f.label, f.basis, form[f.key], f.category));
+  return { ...form.opex, itemized: true, items, managementPct: collectedRentPct(form, form.mgmtPct) };
+}
+
+// Sets the management fee, as a percent of gross rent, on whichever input the deal reads.
+export function withManagementPct(form: DealForm, grossPct: string): DealForm {
+  if (!form.opex.itemized) return { ...form, mgmtPct: grossPct };
+  return { ...form, opex: { ...form.opex, managementPct: collectedRentPct(form, grossPct) } };
+}
+
+/**
+ * Sets a flat expense input. With itemized expenses on, the lines of that category are
+ * replaced by one line at the value (a CapEx rate also replaces the component schedule),
+ * since the flat input is not read then.
+ */
+export function withFlatExpense(form: DealForm, key: FlatExpenseKey, value: string): DealForm {
+  if (!form.opex.itemized) return { ...form, [key]: value };
+  const flat = FLAT_EXPENSES.find((f) => f.key === key) ?? FLAT_EXPENSES[0];
+  const items = [...form.opex.items.filter((i) => i.category !== flat.category), newExpenseItem(flat.label, flat.basis, value, flat.category)];
+  const components = flat.category === 'capex' ? [] : form.opex.components;
+  return { ...form, opex: { ...form.opex, items, components } };
+}
+
+// Context an item needs to turn into a monthly cost.
+export type OpexContext = {
+  vacancy: number; // 0–1
+  otherIncome: number;
+  units: number;
+  leases: boolean; // false for short-term rentals
+};
+
+export function expenseLine(item: ExpenseItem, ctx: OpexContext): ExpenseLine {
+  const label = item.label.trim() || 'Expense';
+  const { category } = item;
+  const amount = Math.max(0, toNum(item.amount));
+  const rate = clamp(amount, 0, 100) / 100;
+  switch (item.basis) {
+    case 'monthly':
+      return { label, category, fixed: amount, rentRate: 0 };
+    case 'annual':
+      return { label, category, fixed: amount / 12, rentRate: 0 };
+    case 'pctRent':
+      return { label, category, fixed: 0, rentRate: rate };
+    case 'pctIncome':
+      return { label, category, fixed: rate * ctx.otherIncome, rentRate: rate * (1 - ctx.vacancy) };
+    case 'perUnit':
+      return { label, category, fixed: amount * ctx.units, rentRate: 0 };
+  }
+}
+
+/** Reserve per component: replacement cost spread over its remaining life (at least a year). */
+export function capexSchedule(components: CapexComponent[]) {
+  const rows = components.map((c) => {
+    const cost = Math.max(0, toNum(c.cost));
+    const lifeYears = clamp(toNum(c.lifeYears), 0, 100);
+    return { label: c.label.trim() || 'Component', cost, lifeYears, monthly: cost / Math.max(1, lifeYears) / 12 };
+  });
+  return { rows, monthly: rows.reduce((a, r) => a + r.monthly, 0) };
+}
+
+/**
+ * Every itemized line for the engine. Management is a share of collected rent unless
+ * the minimum fee is higher at today's rent; then it is a flat amount (so break-even
+ * rent treats it as fixed). Leasing fees spread one fee per unit over the average stay.
+ */
+export function opexLines(o: OpexForm, rent: number, ctx: OpexContext): ExpenseLine[] {
+  const lines = o.items.map((i) => expenseLine(i, ctx));
+
+  const capex = capexSchedule(o.components);
+  if (capex.rows.length) lines.push({ label: 'CapEx reserve (schedule)', category: 'capex', fixed: capex.monthly, rentRate: 0 });
+
+  const mgmtRate = (clamp(toNum(o.managementPct), 0, 30) / 100) * (1 - ctx.vacancy);
+  const minimum = Math.max(0, toNum(o.managementMinimum));
+  lines.push(
+    mgmtRate * rent >= minimum
+      ? { label: 'Management', category: 'management', fixed: 0, rentRate: mgmtRate }
+      : { label: 'Management (minimum fee)', category: 'management', fixed: minimum, rentRate: 0 },
+  );
+
+  if (ctx.leases) {
+    const fee = clamp(toNum(o.leasingFeePct), 0, 200) / 100;
+    const stay = clamp(toNum(o.tenancyMonths), 1, 240);
+    lines.push({ label: 'Leasing fees', category: 'leasing', fixed: 0, rentRate: fee / stay });
+  }
+  return lines;
+}
+
+const BASES = new Set(EXPENSE_BASES.map((b) => b.basis));
+const CATEGORIES = new Set(EXPENSE_CATEGORIES.map((c) => c.category));
+
+// Items saved before lines had a category get one from their preset name, once.
+function legacyCategory(label: string): ExpenseCategory {
+  return FLAT_EXPENSES.find((f) => f.label === label.trim())?.category ?? 'other';
+}
+
+// Rebuilds itemized expenses from stored or shared JSON; unknown fields fall back to defaults.
+export function sanitizeOpex(input: unknown): OpexForm {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const text = (v: unknown, fallback: string) => (typeof v === 'string' || typeof v === 'number' ? String(v) : fallback);
+  const str = (k: Exclude<keyof OpexForm, 'itemized' | 'items' | 'components'>) => text(o[k], DEFAULT_OPEX[k]);
+  const records = (v: unknown) => (Array.isArray(v) ? v : []).filter((i): i is Record<string, unknown> => !!i && typeof i === 'object');
+
+  return {
+    itemized: typeof o.itemized === 'boolean' ? o.itemized : DEFAULT_OPEX.itemized,
+    items: records(o.items).map((i) => {
+      const label = typeof i.label === 'string' ? i.label : '';
+      return newExpenseItem(
+        label,
+        BASES.has(i.basis as ExpenseBasis) ? (i.basis as ExpenseBasis) : 'monthly',
+        text(i.amount, '0'),
+        CATEGORIES.has(i.category as ExpenseCategory) ? (i.category as ExpenseCategory) : legacyCategory(label),
+      );
+    }),
+    components: records(o.components).map((c) =>
+      newCapexComponent(typeof c.label === 'string' ? c.label : '', text(c.cost, '0'), text(c.lifeYears, '10')),
+    ),
+    managementPct: str('managementPct'),
+    managementMinimum: str('managementMinimum'),
+    leasingFeePct: str('leasingFeePct'),
+    tenancyMonths: str('tenancyMonths'),
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildProForma, irr, sanitizeProForma, type ProFormaInput } from './proforma';
+
+// All-cash $400k buy renting at $3,000/mo with $500/mo fixed costs.
+const INPUT: ProFormaInput = {
+  price: 400000,
+  cashInvested: 400000,
+  debtSchedule: [],
+  rentMonthly: 3000,
+  otherIncomeMonthly: 0,
+  fixedCostsMonthly: 500,
+  vacancy: 0.05,
+  percentCostRate: 0.1,
+  rentGrowthPct: 3,
+  expenseGrowthPct: 3,
+  appreciationPct: 3,
+  holdYears: 10,
+  sellingCostPct: 6,
+  exitCapPct: 0,
+};
+
+describe('sanitizeProForma', () => {
+  it('clamps the growth, hold and exit assumptions', () => {
+    const s = sanitizeProForma({ ...INPUT, rentGrowthPct: 80, expenseGrowthPct: -40, appreciationPct: 51, holdYears: 45.6, sellingCostPct: -1, exitCapPct: 99 });
+    expect(s).toMatchObject({ rentGrowthPct: 50, expenseGrowthPct: -20, appreciationPct: 50, holdYears: 30, sellingCostPct: 0, exitCapPct: 30 });
+    expect(sanitizeProForma({ ...INPUT, holdYears: 0.2 }).holdYears).toBe(1);
+    expect(sanitizeProForma({ ...INPUT, holdYears: 7.4 }).holdYears).toBe(7);
+  });
+
+  it('leaves values in range alone', () => {
+    expect(sanitizeProForma(INPUT)).toEqual(INPUT);
+  });
+});
+
+describe('buildProForma', () => {
+  it('projects with the clamped assumptions', () => {
+    expect(buildProForma({ ...INPUT, appreciationPct: 400, holdYears: 100 }, 10)).toEqual(buildProForma({ ...INPUT, appreciationPct: 50, holdYears: 30 }, 10));
+  });
+
+  it('keeps the horizon within the longest projection', () => {
+    const p = buildProForma({ ...INPUT, holdYears: 5 }, 500);
+    expect(p.years).toHaveLength(30);
+    expect(p.exit.year).toBe(5);
+    expect(buildProForma(INPUT, 0).years).toHaveLength(10); // the hold is always shown
+  });
+});
+
+describe('irr', () => {
+  it('solves the periodic rate that zeroes the flows', () => {
+    expect(irr([-100, 110])).toBeCloseTo(0.1, 8);
+    expect(irr([-100, 0, 121])).toBeCloseTo(0.1, 8);
+    expect(irr([-1000, 300, 300, 300, 300])).toBeCloseTo(0.0771, 4);
+    expect(irr([-100, 50])).toBeCloseTo(-0.5, 8);
+  });
+
+  it('is NaN when the flows never change sign or the root is out of range', () => {
+    expect(irr([100, 10])).toBeNaN();
+    expect(irr([-100, -10])).toBeNaN();
+    expect(irr([-1, 20])).toBeNaN(); // 1,900%
+  });
+
+  it('matches the hold-period flows of the pro forma', () => {
+    const p = buildProForma(INPUT, 10);
+    const flows = [-INPUT.cashInvested, ...p.years.slice(0, 10).map((y) => y.cashFlow)];
+    flows[10] += p.exit.netProceeds;
+    expect(flows.reduce((a, cf, t) => a + cf / (1 + p.irr) ** t, 0)).toBeCloseTo(0, 2);
+  });
+});
@@ -0,0 +1,180 @@
+import { clamp } from './format';
+import type { AmortizationYear } from './mortgage';
+
+export type ProFormaInput = {
+  price: number;
+  cashInvested: number;
+  debtSchedule: AmortizationYear[]; // payments (incl. extra principal and balloons) and balances by year
+
+  // Year-1 monthly figures (same basis as the monthly snapshot)
+  rentMonthly: number;
+  otherIncomeMonthly: number;
+  fixedCostsMonthly: number;
+  vacancy: number; // 0–1
+  percentCostRate: number; // repairs, capex, management and other rent-based costs, as a share of rent
+
+  rentGrowthPct: number;
+  expenseGrowthPct: number;
+  appreciationPct: number;
+  holdYears: number;
+  sellingCostPct: number;
+  exitCapPct: number; // 0 = value the exit on appreciation instead
+};
+
+export type ProFormaYear = {
+  year: number;
+  grossIncome: number;
+  vacancyLoss: number;
+  effectiveIncome: number;
+  operatingExpenses: number;
+  noi: number;
+  debtService: number;
+  cashFlow: number;
+  cumulativeCashFlow: number;
+  propertyValue: number;
+  loanBalance: number;
+  equity: number;
+};
+
+export type ProFormaExit = {
+  year: number;
+  salePrice: number;
+  sellingCosts: number;
+  loanPayoff: number;
+  netProceeds: number;
+};
+
+export type ProForma = {
+  years: ProFormaYear[];
+  exit: ProFormaExit;
+  irr: number;
+  equityMultiple: number;
+  totalProfit: number;
+};
+
+export const PROJECTION_HORIZONS = [5, 10, 30] as const;
+
+// Sensible bounds for the hold assumptions (the same ranges the form inputs are checked against).
+const ASSUMPTION_RANGES = {
+  rentGrowthPct: [-20, 50],
+  expenseGrowthPct: [-20, 50],
+  appreciationPct: [-20, 50],
+  holdYears: [1, 30],
+  sellingCostPct: [0, 20],
+  exitCapPct: [0, 30],
+} as const;
+
+/** Clamps the growth, hold and exit assumptions into range; the hold is whole years. */
+export function sanitizeProForma(input: ProFormaInput): ProFormaInput {
+  const next = { ...input, holdYears: Math.round(input.holdYears) };
+  for (const [key, [min, max]] of Object.entries(ASSUMPTION_RANGES) as [keyof typeof ASSUMPTION_RANGES, readonly [number, number]][]) {
+    next[key] = clamp(next[key], min, max);
+  }
+  return next;
+}
+
+// Annual operating line for a given year (1-based), before debt.
+function operatingYear(input: ProFormaInput, year: number) {
+  const rentGrowth = Math.pow(1 + input.rentGrowthPct / 100, year - 1);
+  const expenseGrowth = Math.pow(1 + input.expenseGrowthPct / 100, year - 1);
+
+  const rent = input.rentMonthly * 12 * rentGrowth;
+  const other = input.otherIncomeMonthly * 12 * rentGrowth;
+  const vacancyLoss = rent * input.vacancy;
+  const effectiveIncome = rent - vacancyLoss + other;
+  const operatingExpenses = input.fixedCostsMonthly * 12 * expenseGrowth + rent * input.percentCostRate;
+
+  return {
+    grossIncome: rent + other,
+    vacancyLoss,
+    effectiveIncome,
+    operatingExpenses,
+    noi: effectiveIncome - operatingExpenses,
+  };
+}
+
+/**
+ * Year-by-year projection out to `horizonYears` (or the hold period, if longer),
+ * with a sale at the end of the hold. Assumptions are clamped by sanitizeProForma.
+ * Exit value uses forward NOI / exit cap when an exit cap is given, otherwise the
+ * appreciated purchase price.
+ */
+export function buildProForma(raw: ProFormaInput, horizonYears: number): ProForma {
+  const input = sanitizeProForma(raw);
+  const hold = input.holdYears;
+  const span = Math.max(hold, clamp(Math.round(horizonYears), 1, Math.max(...PROJECTION_HORIZONS)));
+
+  const years: ProFormaYear[] = [];
+  let cumulative = 0;
+  for (let y = 1; y <= span; y++) {
+    const op = operatingYear(input, y);
+    const debt = input.debtSchedule[y - 1];
+    const debtService = debt ? debt.payment + debt.extraPrincipal + debt.balloon : 0;
+    const cashFlow = op.noi - debtService;
+    cumulative += cashFlow;
+    const propertyValue = input.price * Math.pow(1 + input.appreciationPct / 100, y);
+    const loanBalance = debt ? debt.endingBalance : 0;
+
+    years.push({
+      year: y,
+      ...op,
+      debtService,
+      cashFlow,
+      cumulativeCashFlow: cumulative,
+      propertyValue,
+      loanBalance,
+      equity: propertyValue - loanBalance,
+    });
+  }
+
+  const holdRow = years[hold - 1];
+  const salePrice = input.exitCapPct > 0
+    ? operatingYear(input, hold + 1).noi / (input.exitCapPct / 100)
+    : holdRow.propertyValue;
+  const sellingCosts = Math.max(0, salePrice) * (input.sellingCostPct / 100);
+  const loanPayoff = holdRow.loanBalance;
+  const netProceeds = salePrice - sellingCosts - loanPayoff;
+
+  const flows = [-input.cashInvested, ...years.slice(0, hold).map((r) => r.cashFlow)];
+  flows[hold] += netProceeds;
+
+  const distributions = holdRow.cumulativeCashFlow + netProceeds;
+  const equityMultiple = input.cashInvested > 0 ? distributions / input.cashInvested : NaN;
+
+  return {
+    years,
+    exit: { year: hold, salePrice, sellingCosts, loanPayoff, netProceeds },
+    irr: input.cashInvested > 0 ? irr(flows) : NaN,
+    equityMultiple,
+    totalProfit: distributions - input.cashInvested,
+  };
+}
+
+function npv(rate: number, flows: number[]) {
+  return flows.reduce((acc, cf, t) => acc + cf / Math.pow(1 + rate, t), 0);
+}
+
+/**
+ * Periodic IRR by bisection. Returns NaN when the flows never change sign
+ * (no meaningful IRR) or the root sits outside -99%…1000%.
+ */
+export function irr(flows: number[]) {
+  let lo = -0.99;
+  let hi = 10;
+  let fLo = npv(lo, flows);
+  const fHi = npv(hi, flows);
+  if (!Number.isFinite(fLo) || !Number.isFinite(fHi) || fLo * fHi > 0) return NaN;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = npv(mid, flows);
+    if (Math.abs(fMid) < 1e-7 || hi - lo < 1e-10) return mid;
+    if (fLo * fMid < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      fLo = fMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeDeal } from './deal';
+import { DEFAULT_FORM, type DealForm } from './dealForm';
+import { DEFAULT_PROPERTY, describeProperty, propertyMetrics, sanitizePhotos, sanitizeProperty } from './property';
+import { newUnit } from './rentRoll';
+import { decodeShareParams, encodeShareParams } from './shareLink';
+
+const withProperty = (p: Partial<DealForm['property']>): DealForm => ({ ...DEFAULT_FORM, property: { ...DEFAULT_PROPERTY, ...p } });
+
+describe('propertyMetrics', () => {
+  it('derives per-unit, per-square-foot and GRM figures', () => {
+    const form = withProperty({ sqft: '2,000', unitCount: '2' });
+    const m = propertyMetrics(form.property, computeDeal(form));
+    // $500k price, $4,000/mo rent.
+    expect(m.units).toBe(2);
+    expect(m.pricePerUnit).toBe(250000);
+    expect(m.pricePerSqft).toBe(250);
+    expect(m.rentPerSqft).toBe(2);
+    expect(m.grm).toBeCloseTo(500000 / 48000, 10);
+  });
+
+  it('counts units from the rent roll and leaves square-foot figures blank without a size', () => {
+    const units = [1, 2, 3].map((i) => ({ ...newUnit(`Unit ${i}`), currentRent: '1200', marketRent: '1200' }));
+    const form = { ...DEFAULT_FORM, units };
+    const m = propertyMetrics(form.property, computeDeal(form));
+    expect(m.units).toBe(3);
+    expect(m.pricePerUnit).toBeCloseTo(500000 / 3, 6);
+    expect(m.pricePerSqft).toBeNull();
+    expect(m.rentPerSqft).toBeNull();
+  });
+});
+
+describe('describeProperty', () => {
+  it('lists only what was entered', () => {
+    expect(describeProperty({ ...DEFAULT_PROPERTY, bedrooms: '4', bathrooms: '2', sqft: '1800', yearBuilt: '1962' }, 2)).toBe(
+      'Duplex · 4 bd / 2 ba · 1,800 sqft · Built 1962',
+    );
+    expect(describeProperty(DEFAULT_PROPERTY, 1)).toBe('');
+  });
+});
+
+describe('property profile storage', () => {
+  it('sanitizes fields and keeps only image photos', () => {
+    expect(sanitizeProperty({ address: '12 Oak St', sqft: 1450, color: 'red' })).toEqual({ ...DEFAULT_PROPERTY, address: '12 Oak St', sqft: '1450' });
+    const photos = sanitizePhotos([{ id: 'a', name: 'front.jpg', dataUrl: 'data:image/jpeg;base64,AAAA' }, { dataUrl: 'javascript:alert(1)' }, 'x']);
+    expect(photos).toEqual([{ id: 'a', name: 'front.jpg', dataUrl: 'data:image/jpeg;base64,AAAA' }]);
+  });
+
+  it('travels in share links', async () => {
+    const form = withProperty({ address: '12 Oak St', bedrooms: '3', notes: 'New roof 2021' });
+    const shared = await decodeShareParams(await encodeShareParams(form, null), DEFAULT_FORM);
+    expect(shared?.form?.property).toEqual(form.property);
+  });
+});
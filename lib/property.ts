@@ -0,0 +1,99 @@
+import { toNum } from './format';
+import type { DealResult } from './deal';
+
+// The property itself: where it is and what it is. Descriptive only — the engine never
+// reads it — but it titles reports and saved deals and drives the per-unit metrics.
+export type PropertyForm = {
+  address: string;
+  bedrooms: string;
+  bathrooms: string;
+  sqft: string; // total livable square feet, all units
+  yearBuilt: string;
+  unitCount: string; // blank = from the rent roll, else 1
+  notes: string;
+};
+
+export const DEFAULT_PROPERTY: PropertyForm = {
+  address: '',
+  bedrooms: '',
+  bathrooms: '',
+  sqft: '',
+  yearBuilt: '',
+  unitCount: '',
+  notes: '',
+};
+
+// Photos stay in this browser (IndexedDB, per saved deal); they are not part of the form, share links or files.
+export type PropertyPhoto = {
+  id: string;
+  name: string;
+  dataUrl: string; // JPEG, downscaled on upload
+};
+
+export const MAX_PHOTOS = 6;
+
+export function newPhotoId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function sanitizePhotos(input: unknown): PropertyPhoto[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((p): p is Record<string, unknown> => !!p && typeof p === 'object' && typeof p.dataUrl === 'string' && p.dataUrl.startsWith('data:image/'))
+    .slice(0, MAX_PHOTOS)
+    .map((p) => ({
+      id: typeof p.id === 'string' ? p.id : newPhotoId(),
+      name: typeof p.name === 'string' ? p.name : '',
+      dataUrl: p.dataUrl as string,
+    }));
+}
+
+export type PropertyMetrics = {
+  units: number;
+  sqft: number | null; // null when not entered
+  pricePerUnit: number;
+  pricePerSqft: number | null;
+  rentPerSqft: number | null; // monthly
+  grm: number; // price ÷ gross scheduled annual rent
+};
+
+/** Per-door and per-square-foot figures for the deal's price and scheduled rent. */
+export function propertyMetrics(p: PropertyForm, result: DealResult): PropertyMetrics {
+  const entered = Math.round(toNum(p.unitCount));
+  const units = entered > 0 ? entered : (result.rentRoll?.units ?? 1);
+  const sqftValue = toNum(p.sqft);
+  const sqft = sqftValue > 0 ? sqftValue : null;
+  const annualRent = result.rent * 12;
+  return {
+    units,
+    sqft,
+    pricePerUnit: result.price / units,
+    pricePerSqft: sqft ? result.price / sqft : null,
+    rentPerSqft: sqft ? result.rent / sqft : null,
+    grm: annualRent > 0 ? result.price / annualRent : Infinity,
+  };
+}
+
+/** One line describing the building, e.g. "Duplex · 4 bd / 2 ba · 1,800 sqft · Built 1962". */
+export function describeProperty(p: PropertyForm, units: number) {
+  const n = (v: string) => toNum(v).toLocaleString('en-US');
+  const parts: string[] = [];
+  if (units > 1) parts.push(units === 2 ? 'Duplex' : units === 3 ? 'Triplex' : units === 4 ? 'Fourplex' : `${units} units`);
+  const beds = p.bedrooms.trim() ? `${n(p.bedrooms)} bd` : '';
+  const baths = p.bathrooms.trim() ? `${n(p.bathrooms)} ba` : '';
+  if (beds || baths) parts.push([beds, baths].filter(Boolean).join(' / '));
+  if (toNum(p.sqft) > 0) parts.push(`${n(p.sqft)} sqft`);
+  if (toNum(p.yearBuilt) > 0) parts.push(`Built ${Math.round(toNum(p.yearBuilt))}`);
+  return parts.join(' · ');
+}
+
+// Rebuilds the profile from stored or shared JSON; unknown fields fall back to defaults.
+export function sanitizeProperty(input: unknown): PropertyForm {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const next: PropertyForm = { ...DEFAULT_PROPERTY };
+  for (const key of Object.keys(DEFAULT_PROPERTY) as (keyof PropertyForm)[]) {
+    const v = o[key];
+    if (typeof v === 'string' || typeof v === 'number') next[key] = String(v);
+  }
+  return next;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { newUnit, parseUnits, scaleUnits, summarizeRentRoll, type UnitForm } from './rentRoll';
+
+const unit = (rent: string, market: string, extra: Partial<UnitForm> = {}): UnitForm => ({ ...newUnit('Unit'), currentRent: rent, marketRent: market, ...extra });
+
+describe('summarizeRentRoll', () => {
+  it('uses current rent on occupied units and market rent on vacant ones', () => {
+    const s = summarizeRentRoll([unit('1200', '1400'), unit('1300', '1300', { voucher: true }), unit('0', '1500', { vacant: true })]);
+    expect(s).toEqual({
+      units: 3,
+      occupied: 2,
+      vacant: 1,
+      voucherUnits: 1,
+      inPlace: 2500,
+      market: 4200,
+      lossToLease: 200,
+      vacantAtMarket: 1500,
+      gross: 4000,
+    });
+  });
+
+  it('treats negative or blank rents as zero', () => {
+    const s = summarizeRentRoll([unit('-500', ''), unit('abc', '900')]);
+    expect(s.inPlace).toBe(0);
+    expect(s.market).toBe(900);
+  });
+
+  it('does not count a vacant voucher unit', () => {
+    expect(summarizeRentRoll([unit('0', '1000', { vacant: true, voucher: true })]).voucherUnits).toBe(0);
+  });
+});
+
+describe('scaleUnits', () => {
+  it('scales current and market rent together, to the cent', () => {
+    const [u] = scaleUnits([unit('1000', '1111')], 1.05);
+    expect(u).toMatchObject({ currentRent: '1050', marketRent: '1166.55' });
+  });
+});
+
+describe('parseUnits', () => {
+  it('fills missing fields from a new unit and keeps numbers as strings', () => {
+    const units = parseUnits(JSON.stringify([{ label: 'Up', currentRent: 1500, vacant: true }, {}]));
+    expect(units).toHaveLength(2);
+    expect(units![0]).toMatchObject({ label: 'Up', currentRent: '1500', marketRent: '0', beds: '2', vacant: true, voucher: false });
+    expect(units![1].label).toBe('Unit 2');
+  });
+
+  it('rejects anything that is not an array of units', () => {
+    expect(parseUnits('{"units": []}')).toBeNull();
+    expect(parseUnits('not json')).toBeNull();
+  });
+});
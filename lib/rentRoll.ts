@@ -0,0 +1,104 @@
+import { toNum } from './format';
+
+// One row of the rent roll, kept as raw form strings like the rest of DealForm.
+export type UnitForm = {
+  id: string;
+  label: string;
+  beds: string;
+  baths: string;
+  currentRent: string; // contract rent in place (tenant + HAP for voucher units)
+  marketRent: string;
+  leaseEnd: string; // YYYY-MM-DD, blank for month-to-month
+  voucher: boolean; // Section 8 / HCV tenant
+  vacant: boolean;
+};
+
+function newId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function newUnit(label: string): UnitForm {
+  return { id: newId(), label, beds: '2', baths: '1', currentRent: '0', marketRent: '0', leaseEnd: '', voucher: false, vacant: false };
+}
+
+export type RentRollSummary = {
+  units: number;
+  occupied: number;
+  vacant: number;
+  voucherUnits: number;
+  inPlace: number; // current rent on occupied units
+  market: number; // market rent on every unit
+  lossToLease: number; // market minus current, occupied units only
+  vacantAtMarket: number; // market rent on vacant units
+  gross: number; // rent used in calculations
+};
+
+/**
+ * Rolls the units up into the monthly rent the calculation uses: current rent on
+ * occupied units plus market rent on vacant ones (assumed leased up). The vacancy
+ * assumption still applies on top, as a forward-looking allowance.
+ */
+export function summarizeRentRoll(units: UnitForm[]): RentRollSummary {
+  let inPlace = 0;
+  let market = 0;
+  let lossToLease = 0;
+  let vacantAtMarket = 0;
+  let occupied = 0;
+  let voucherUnits = 0;
+
+  for (const u of units) {
+    const current = Math.max(0, toNum(u.currentRent));
+    const mkt = Math.max(0, toNum(u.marketRent));
+    market += mkt;
+    if (u.vacant) {
+      vacantAtMarket += mkt;
+      continue;
+    }
+    occupied++;
+    if (u.voucher) voucherUnits++;
+    inPlace += current;
+    lossToLease += mkt - current;
+  }
+
+  return {
+    units: units.length,
+    occupied,
+    vacant: units.length - occupied,
+    voucherUnits,
+    inPlace,
+    market,
+    lossToLease,
+    vacantAtMarket,
+    gross: inPlace + vacantAtMarket,
+  };
+}
+
+// Scales current and market rents together (sensitivity / simulation shocks).
+export function scaleUnits(units: UnitForm[], factor: number): UnitForm[] {
+  const f = (v: string) => String(Math.round(Math.max(0, toNum(v) * factor) * 100) / 100);
+  return units.map((u) => ({ ...u, currentRent: f(u.currentRent), marketRent: f(u.marketRent) }));
+}
+
+export function parseUnits(raw: string): UnitForm[] | null {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return null;
+    return parsed.map((u: Partial<Record<keyof UnitForm, unknown>>, i) => {
+      const base = newUnit(typeof u.label === 'string' ? u.label : `Unit ${i + 1}`);
+      const str = (k: 'beds' | 'baths' | 'currentRent' | 'marketRent' | 'leaseEnd') =>
+        typeof u[k] === 'string' || typeof u[k] === 'number' ? String(u[k]) : base[k];
+      return {
+        ...base,
+        beds: str('beds'),
+        baths: str('baths'),
+        currentRent: str('currentRent'),
+        marketRent: str('marketRent'),
+        leaseEnd: str('leaseEnd'),
+        voucher: u.voucher === true,
+        vacant: u.vacant === true,
+      };
+    });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,27 @@
+import jsPDF from 'jspdf';
+import { describe, expect, it, vi } from 'vitest';
+
+import { createWriter } from './report';
+
+describe('createWriter', () => {
+  it('moves a chart that does not fit to the next page', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'letter' });
+    const w = createWriter(doc);
+    w.gap(w.pageHeight - w.y - 30);
+    const rects: { page: number; bottom: number }[] = [];
+    const rect = doc.rect.bind(doc);
+    vi.spyOn(doc, 'rect').mockImplementation((x, y, rw, rh, style) => {
+      rects.push({ page: doc.getCurrentPageInfo().pageNumber, bottom: y + rh });
+      return rect(x, y, rw, rh, style);
+    });
+
+    w.barChart(['Y1', 'Y2', 'Y3'], [1200, -400, 900], null, ['Cash flow', null]);
+
+    expect(doc.getNumberOfPages()).toBe(2);
+    expect(rects.length).toBeGreaterThan(0);
+    for (const r of rects) {
+      expect(r.page).toBe(2);
+      expect(r.bottom).toBeLessThan(w.pageHeight - 14);
+    }
+  });
+});
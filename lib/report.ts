@@ -0,0 +1,805 @@
+import jsPDF from 'jspdf';
+
+import { money, money2, pct, toNum } from './format';
+import type { DealResult } from './deal';
+import { incomeModeLabel, type DealForm } from './dealForm';
+import { LOAN_KINDS, lienSpec } from './loans';
+import { offerLines, type OfferSolution } from './offer';
+import { EXPENSE_BASES, capexSchedule, expenseLine, type ExpenseItem } from './opex';
+import type { ProForma } from './proforma';
+import { describeProperty, propertyMetrics, type PropertyPhoto } from './property';
+import { describeRule, formatMetricValue } from './rules';
+import { PASSIVE_LOSS_MODES, type AfterTax } from './tax';
+
+// Report branding is per browser (it rarely changes between deals).
+export type ReportBranding = {
+  preparedBy: string;
+  company: string;
+  logo: string; // PNG / JPEG data URL, or ''
+};
+
+export const DEFAULT_BRANDING: ReportBranding = { preparedBy: '', company: '', logo: '' };
+
+const STORAGE_KEY = 'dqc.reportBranding.v1';
+
+export function loadBranding(): ReportBranding {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const o = (raw ? JSON.parse(raw) : {}) as Partial<Record<keyof ReportBranding, unknown>>;
+    const str = (k: keyof ReportBranding) => (typeof o[k] === 'string' ? (o[k] as string) : DEFAULT_BRANDING[k]);
+    return { preparedBy: str('preparedBy'), company: str('company'), logo: str('logo') };
+  } catch {
+    return DEFAULT_BRANDING;
+  }
+}
+
+// Returns false when the browser refuses the write (a large logo can exceed the quota).
+export function saveBranding(b: ReportBranding) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(b));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type ReportData = {
+  title: string; // property name / address for the cover
+  form: DealForm;
+  result: DealResult;
+  proForma: ProForma;
+  afterTax: AfterTax;
+  offer: OfferSolution;
+  branding: ReportBranding;
+  photos: PropertyPhoto[];
+  scenario: string | null; // name of the scenario the report is built on; null = base case
+  scenarios: { name: string; summary: string; result: DealResult }[]; // base case first; empty without scenarios
+};
+
+type Rgb = [number, number, number];
+
+const INK: Rgb = [17, 24, 39];
+const MUTED: Rgb = [107, 114, 128];
+const ACCENT: Rgb = [37, 99, 235];
+const GO: Rgb = [22, 163, 74];
+const NO_GO: Rgb = [220, 38, 38];
+const AMBER: Rgb = [217, 119, 6];
+const LINE: Rgb = [229, 231, 235];
+const SHADE: Rgb = [243, 244, 246];
+const PIE_COLORS: Rgb[] = [
+  [37, 99, 235], [16, 185, 129], [245, 158, 11], [239, 68, 68], [139, 92, 246],
+  [14, 165, 233], [236, 72, 153], [132, 204, 22], [100, 116, 139], [234, 88, 12],
+];
+
+const MARGIN = 14;
+const FOOTER = 14;
+
+type Align = 'left' | 'right';
+
+/**
+ * Page-flow helpers over one jsPDF document: a cursor that moves down the page
+ * and breaks to a new one when a block will not fit.
+ */
+export function createWriter(doc: jsPDF) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const width = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const color = (c: Rgb) => doc.setTextColor(c[0], c[1], c[2]);
+  const fill = (c: Rgb) => doc.setFillColor(c[0], c[1], c[2]);
+  const draw = (c: Rgb) => doc.setDrawColor(c[0], c[1], c[2]);
+  const font = (size: number, style: 'normal' | 'bold' = 'normal', c: Rgb = INK) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    color(c);
+  };
+
+  function ensure(h: number) {
+    if (y + h > pageHeight - FOOTER) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  }
+
+  function gap(h: number) {
+    y += h;
+  }
+
+  function heading(title: string) {
+    ensure(16);
+    y += 5;
+    font(11, 'bold', ACCENT);
+    doc.text(title.toUpperCase(), MARGIN, y);
+    y += 2;
+    draw(ACCENT);
+    doc.setLineWidth(0.4);
+    doc.line(MARGIN, y, MARGIN + width, y);
+    y += 5;
+  }
+
+  function paragraph(text: string, size = 9, c: Rgb = INK) {
+    font(size, 'normal', c);
+    const lines: string[] = doc.splitTextToSize(text, width);
+    for (const line of lines) {
+      ensure(size * 0.5);
+      doc.text(line, MARGIN, y);
+      y += size * 0.5;
+    }
+  }
+
+  function bullets(items: string[], c: Rgb = INK) {
+    font(9, 'normal', c);
+    for (const item of items) {
+      const lines: string[] = doc.splitTextToSize(item, width - 5);
+      ensure(lines.length * 4.5);
+      fill(c);
+      doc.circle(MARGIN + 1.2, y - 1.1, 0.7, 'F');
+      lines.forEach((line, i) => doc.text(line, MARGIN + 4, y + i * 4.5));
+      y += lines.length * 4.5 + 0.8;
+    }
+  }
+
+  // Label / value pairs laid out in `columns` side-by-side columns.
+  function keyValues(pairs: [string, string][], columns = 2) {
+    const colWidth = width / columns;
+    const rowHeight = 5.5;
+    for (let i = 0; i < pairs.length; i += columns) {
+      ensure(rowHeight);
+      pairs.slice(i, i + columns).forEach(([label, value], j) => {
+        const x = MARGIN + j * colWidth;
+        font(8.5, 'normal', MUTED);
+        doc.text(label, x, y);
+        font(8.5, 'bold');
+        doc.text(value, x + colWidth - 4, y, { align: 'right' });
+      });
+      draw(LINE);
+      doc.setLineWidth(0.15);
+      doc.line(MARGIN, y + 1.6, MARGIN + width, y + 1.6);
+      y += rowHeight;
+    }
+  }
+
+  function subheading(title: string) {
+    ensure(10);
+    y += 2;
+    font(9, 'bold', MUTED);
+    doc.text(title, MARGIN, y);
+    y += 4.5;
+  }
+
+  /** Striped table; the header row repeats after a page break. */
+  function table(
+    head: string[],
+    rows: string[][],
+    opts: { widths?: number[]; align?: Align[]; rowFill?: (i: number) => Rgb | null; bold?: (i: number) => boolean } = {},
+  ) {
+    const widths = opts.widths ?? head.map(() => 1);
+    const total = widths.reduce((a, b) => a + b, 0);
+    const cols = widths.map((w) => (w / total) * width);
+    const align = opts.align ?? head.map((_, i) => (i === 0 ? 'left' : 'right'));
+    const rowHeight = 5.2;
+
+    const cellX = (i: number) => {
+      const x = MARGIN + cols.slice(0, i).reduce((a, b) => a + b, 0);
+      return align[i] === 'right' ? x + cols[i] - 1.5 : x + 1.5;
+    };
+
+    const header = () => {
+      fill(SHADE);
+      doc.rect(MARGIN, y - 3.6, width, rowHeight, 'F');
+      font(7.5, 'bold', MUTED);
+      head.forEach((h, i) => doc.text(h, cellX(i), y, { align: align[i] }));
+      y += rowHeight;
+    };
+
+    ensure(rowHeight * 2);
+    header();
+    rows.forEach((row, r) => {
+      if (y + rowHeight > pageHeight - FOOTER) {
+        doc.addPage();
+        y = MARGIN;
+        header();
+      }
+      const rf = opts.rowFill?.(r);
+      if (rf) {
+        fill(rf);
+        doc.rect(MARGIN, y - 3.6, width, rowHeight, 'F');
+      }
+      font(8, opts.bold?.(r) ? 'bold' : 'normal');
+      row.forEach((cell, i) => {
+        const text = doc.splitTextToSize(cell, cols[i] - 3)[0] ?? '';
+        doc.text(text, cellX(i), y, { align: align[i] });
+      });
+      draw(LINE);
+      doc.setLineWidth(0.1);
+      doc.line(MARGIN, y + 1.6, MARGIN + width, y + 1.6);
+      y += rowHeight;
+    });
+    y += 1;
+  }
+
+  function kpiGrid(items: { label: string; value: string; tone?: Rgb }[], perRow = 4) {
+    const boxGap = 3;
+    const boxWidth = (width - boxGap * (perRow - 1)) / perRow;
+    const boxHeight = 15;
+    for (let i = 0; i < items.length; i += perRow) {
+      ensure(boxHeight + boxGap);
+      items.slice(i, i + perRow).forEach((k, j) => {
+        const x = MARGIN + j * (boxWidth + boxGap);
+        fill(SHADE);
+        doc.roundedRect(x, y, boxWidth, boxHeight, 1.5, 1.5, 'F');
+        font(7.5, 'normal', MUTED);
+        doc.text(k.label, x + 3, y + 5);
+        font(12, 'bold', k.tone ?? INK);
+        doc.text(k.value, x + 3, y + 11.5);
+      });
+      y += boxHeight + boxGap;
+    }
+  }
+
+  /** Pie of positive values with a legend to its right. */
+  function pie(items: { label: string; value: number }[], caption: string) {
+    const slices = items.filter((s) => s.value > 0);
+    const total = slices.reduce((a, s) => a + s.value, 0);
+    const r = 22;
+    const blockHeight = Math.max(r * 2 + 8, slices.length * 5.5 + 8);
+    ensure(blockHeight);
+    if (total <= 0) return;
+
+    const cx = MARGIN + r + 2;
+    const cy = y + r + 2;
+    let start = -Math.PI / 2;
+    slices.forEach((s, i) => {
+      const sweep = (s.value / total) * Math.PI * 2;
+      const steps = Math.max(1, Math.ceil(sweep / (Math.PI / 90)));
+      fill(PIE_COLORS[i % PIE_COLORS.length]);
+      for (let k = 0; k < steps; k++) {
+        const a0 = start + (sweep * k) / steps;
+        const a1 = start + (sweep * (k + 1)) / steps;
+        doc.triangle(cx, cy, cx + r * Math.cos(a0), cy + r * Math.sin(a0), cx + r * Math.cos(a1), cy + r * Math.sin(a1), 'F');
+      }
+      start += sweep;
+    });
+
+    const lx = MARGIN + r * 2 + 12;
+    let ly = y + 5;
+    slices.forEach((s, i) => {
+      const c = PIE_COLORS[i % PIE_COLORS.length];
+      fill(c);
+      doc.rect(lx, ly - 2.6, 3, 3, 'F');
+      font(8.5);
+      doc.text(s.label, lx + 5, ly);
+      doc.text(money2(s.value), lx + 75, ly, { align: 'right' });
+      font(8.5, 'normal', MUTED);
+      doc.text(`${((s.value / total) * 100).toFixed(1)}%`, lx + 92, ly, { align: 'right' });
+      ly += 5.5;
+    });
+    font(8, 'normal', MUTED);
+    doc.text(caption, lx, ly + 1);
+    y += blockHeight;
+  }
+
+  /** Bars for `bars` (negative values drop below the axis) with an optional line series. */
+  function barChart(labels: string[], bars: number[], line: number[] | null, legend: [string, string | null]) {
+    const h = 55;
+    ensure(h + 4);
+    const chartTop = y + 4;
+    const chartHeight = h - 14;
+
+    const values = [...bars, ...(line ?? [])].filter(Number.isFinite);
+    const max = Math.max(0, ...values);
+    const min = Math.min(0, ...values);
+    const span = max - min || 1;
+    const scaleY = (v: number) => chartTop + ((max - v) / span) * chartHeight;
+    const left = MARGIN + 18;
+    const plotWidth = width - 18;
+    const slot = plotWidth / Math.max(1, bars.length);
+
+    // Axis labels and zero line
+    font(7, 'normal', MUTED);
+    doc.text(money(max), left - 2, chartTop + 1, { align: 'right' });
+    doc.text(money(min), left - 2, chartTop + chartHeight, { align: 'right' });
+    draw(MUTED);
+    doc.setLineWidth(0.2);
+    doc.line(left, scaleY(0), left + plotWidth, scaleY(0));
+
+    bars.forEach((v, i) => {
+      const x = left + i * slot + slot * 0.15;
+      const top = scaleY(Math.max(0, v));
+      fill(v >= 0 ? ACCENT : NO_GO);
+      doc.rect(x, top, slot * 0.7, Math.abs(scaleY(v) - scaleY(0)), 'F');
+      font(6.5, 'normal', MUTED);
+      doc.text(labels[i], x + slot * 0.35, chartTop + chartHeight + 4, { align: 'center' });
+    });
+
+    if (line) {
+      draw(AMBER);
+      doc.setLineWidth(0.6);
+      line.forEach((v, i) => {
+        const x = left + i * slot + slot / 2;
+        if (i > 0) doc.line(left + (i - 1) * slot + slot / 2, scaleY(line[i - 1]), x, scaleY(v));
+        fill(AMBER);
+        doc.circle(x, scaleY(v), 0.8, 'F');
+      });
+    }
+
+    const ly = chartTop + chartHeight + 9;
+    fill(ACCENT);
+    doc.rect(left, ly - 2.5, 3, 3, 'F');
+    font(7.5, 'normal', MUTED);
+    doc.text(legend[0], left + 5, ly);
+    if (line && legend[1]) {
+      fill(AMBER);
+      doc.rect(left + 50, ly - 2.5, 3, 3, 'F');
+      doc.text(legend[1], left + 55, ly);
+    }
+    y += h + 2;
+  }
+
+  /** Images side by side at a fixed height, wrapping to a new row when the line is full. */
+  function photos(dataUrls: string[], h = 42) {
+    const spacing = 3;
+    let x = MARGIN;
+    ensure(h + spacing);
+    for (const url of dataUrls) {
+      try {
+        const props = doc.getImageProperties(url);
+        const iw = Math.min(width, (props.width / props.height) * h);
+        if (x > MARGIN && x + iw > MARGIN + width) {
+          x = MARGIN;
+          y += h + spacing;
+          ensure(h + spacing);
+        }
+        doc.addImage(url, imageFormat(url), x, y, iw, h);
+        x += iw + spacing;
+      } catch {
+        // An unreadable photo is skipped rather than failing the report.
+      }
+    }
+    y += h + spacing;
+  }
+
+  return {
+    doc,
+    width,
+    pageWidth,
+    pageHeight,
+    get y() {
+      return y;
+    },
+    gap,
+    font,
+    fill,
+    heading,
+    subheading,
+    paragraph,
+    bullets,
+    keyValues,
+    table,
+    kpiGrid,
+    pie,
+    barChart,
+    photos,
+  };
+}
+
+const ratio = (n: number) => (Number.isFinite(n) ? n.toFixed(2) : n > 0 ? 'No debt' : '—');
+const percentInput = (v: string) => `${toNum(v)}%`;
+const moneyInput = (v: string) => money(toNum(v));
+
+function imageFormat(dataUrl: string) {
+  return /^data:image\/jpe?g/i.test(dataUrl) ? 'JPEG' : 'PNG';
+}
+
+function cover(w: ReturnType<typeof createWriter>, data: ReportData) {
+  const { doc } = w;
+  const { result, branding, form } = data;
+  const bandHeight = 33;
+
+  w.fill(INK);
+  doc.rect(0, 0, w.pageWidth, bandHeight, 'F');
+
+  let textLeft = MARGIN;
+  if (branding.logo) {
+    try {
+      const props = doc.getImageProperties(branding.logo);
+      const h = 18;
+      const lw = Math.min(45, (props.width / props.height) * h);
+      w.fill([255, 255, 255]);
+      doc.roundedRect(MARGIN - 1, 5, lw + 2, h + 2, 1, 1, 'F');
+      doc.addImage(branding.logo, imageFormat(branding.logo), MARGIN, 6, lw, h);
+      textLeft = MARGIN + lw + 6;
+    } catch {
+      // An unreadable logo should not block the report.
+    }
+  }
+
+  w.font(16, 'bold', [255, 255, 255]);
+  doc.text(data.title || 'Deal Report', textLeft, 14);
+  w.font(9, 'normal', [209, 213, 219]);
+  doc.text(`${incomeModeLabel(form)}${form.brrrrMode ? ' · BRRRR' : ''}${data.scenario ? ` · ${data.scenario} scenario` : ''} · Screened against “${result.decision.ruleSetName}”`, textLeft, 20);
+  const m = propertyMetrics(form.property, result);
+  const sizes = [
+    describeProperty(form.property, m.units),
+    `${money(m.pricePerUnit)}/${m.units > 1 ? 'door' : 'unit'}`,
+    m.pricePerSqft !== null ? `${money(m.pricePerSqft)}/sqft` : '',
+    Number.isFinite(m.grm) ? `GRM ${m.grm.toFixed(1)}` : '',
+  ];
+  w.font(8.5, 'normal', [156, 163, 175]);
+  doc.text(sizes.filter(Boolean).join(' · '), textLeft, 26);
+
+  const right = w.pageWidth - MARGIN;
+  doc.text(new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }), right, 12, { align: 'right' });
+  if (branding.preparedBy) doc.text(`Prepared by ${branding.preparedBy}`, right, 17, { align: 'right' });
+  if (branding.company) doc.text(branding.company, right, 22, { align: 'right' });
+
+  w.gap(bandHeight - MARGIN + 6);
+
+  // Verdict banner
+  const d = result.decision;
+  const tone = d.isGo ? GO : NO_GO;
+  w.fill(tone);
+  doc.roundedRect(MARGIN, w.y, w.width, 13, 1.5, 1.5, 'F');
+  w.font(14, 'bold', [255, 255, 255]);
+  doc.text(d.isGo ? 'GO' : 'NO-GO', MARGIN + 4, w.y + 8.7);
+  w.font(9, 'normal', [255, 255, 255]);
+  const summary = d.isGo
+    ? `Passes every blocking rule${d.warnings.length ? ` · ${d.warnings.length} warning${d.warnings.length > 1 ? 's' : ''}` : ''}${result.refi ? ' (post-refi)' : ''}`
+    : `${d.reasons.length} blocking issue${d.reasons.length > 1 ? 's' : ''}${d.warnings.length ? ` · ${d.warnings.length} warning${d.warnings.length > 1 ? 's' : ''}` : ''}`;
+  doc.text(summary, MARGIN + 28, w.y + 8.2);
+  w.gap(18);
+}
+
+// Address, size, notes and photos; per-unit metrics are on the cover.
+function propertySection(w: ReturnType<typeof createWriter>, { form, result, photos }: ReportData) {
+  const p = form.property;
+  const m = propertyMetrics(p, result);
+  const entered = [p.address, p.bedrooms, p.bathrooms, p.sqft, p.yearBuilt, p.unitCount, p.notes].some((v) => v.trim());
+  if (!entered && photos.length === 0) return;
+
+  w.heading('Property');
+  const text = (v: string) => v.trim() || '—';
+  w.keyValues([
+    ['Address', text(p.address)],
+    ['Units', String(m.units)],
+    ['Bedrooms / bathrooms', `${text(p.bedrooms)} / ${text(p.bathrooms)}`],
+    ['Year built', text(p.yearBuilt)],
+    ['Square feet', m.sqft !== null ? m.sqft.toLocaleString('en-US') : '—'],
+    [m.units > 1 ? 'Price per door' : 'Price per unit', money(m.pricePerUnit)],
+    ['Price per sqft', m.pricePerSqft !== null ? money2(m.pricePerSqft) : '—'],
+    ['Rent per sqft (monthly)', m.rentPerSqft !== null ? money2(m.rentPerSqft) : '—'],
+    ['Gross rent multiplier', Number.isFinite(m.grm) ? m.grm.toFixed(1) : '—'],
+  ]);
+  if (p.notes.trim()) {
+    w.gap(2);
+    w.paragraph(p.notes.trim(), 9, MUTED);
+  }
+  if (photos.length) {
+    w.gap(3);
+    w.photos(photos.map((ph) => ph.dataUrl));
+  }
+}
+
+function flatExpenses({ form, result }: ReportData): [string, string][] {
+  const expenses: [string, string][] = [
+    ['Property taxes', `${moneyInput(form.taxesMonthly)}/mo`],
+    ['Insurance', `${moneyInput(form.insuranceMonthly)}/mo`],
+    ['HOA', `${moneyInput(form.hoaMonthly)}/mo`],
+    ['Utilities', `${money(result.str ? result.str.utilities : toNum(form.utilitiesMonthly))}/mo`],
+    ['Vacancy', result.str ? 'In occupancy' : percentInput(form.vacancyPct)],
+    ['Repairs', `${percentInput(form.repairsPct)} of rent`],
+    ['CapEx', `${percentInput(form.capexPct)} of rent`],
+    ['Management', `${percentInput(form.mgmtPct)} of rent`],
+  ];
+  if (form.section8Mode && !form.strMode) expenses.push(['Section 8 reserve', `${moneyInput(form.inspectionReserveMonthly)}/mo`]);
+  return expenses;
+}
+
+// Itemized expenses as entered, the CapEx schedule and the management terms.
+function itemizedExpenses(w: ReturnType<typeof createWriter>, { form, result }: ReportData) {
+  const { opex } = form;
+  const ctx = { vacancy: result.vacancy, otherIncome: result.other, units: result.rentRoll?.units ?? 1, leases: !result.str };
+  const entered = (i: ExpenseItem) => {
+    const basis = EXPENSE_BASES.find((x) => x.basis === i.basis)?.label ?? '';
+    return i.basis === 'pctRent' || i.basis === 'pctIncome' ? `${percentInput(i.amount)} ${basis.slice(2)}` : `${moneyInput(i.amount)} ${basis.slice(2)}`;
+  };
+  if (opex.items.length) {
+    w.table(
+      ['Line item', 'Entered', 'Monthly'],
+      opex.items.map((i) => {
+        const line = expenseLine(i, ctx);
+        return [i.label || 'Expense', entered(i), money2(line.fixed + result.rent * line.rentRate)];
+      }),
+      { widths: [3, 2, 1] },
+    );
+  }
+  const capex = capexSchedule(opex.components);
+  if (capex.rows.length) {
+    w.table(
+      ['CapEx component', 'Replacement cost', 'Remaining life', 'Reserve / mo'],
+      [
+        ...capex.rows.map((r) => [r.label, money(r.cost), `${r.lifeYears} yrs`, money2(r.monthly)]),
+        ['Total reserve', money(capex.rows.reduce((a, r) => a + r.cost, 0)), '', money2(capex.monthly)],
+      ],
+      { widths: [3, 1.5, 1.2, 1.2], bold: (i) => i === capex.rows.length },
+    );
+  }
+  const management: [string, string][] = [
+    ['Vacancy', result.str ? 'In occupancy' : percentInput(form.vacancyPct)],
+    ['Management', `${percentInput(opex.managementPct)} of collected rent`],
+    ['Minimum management fee', `${moneyInput(opex.managementMinimum)}/mo`],
+  ];
+  if (!result.str) {
+    management.push(['Leasing fee', `${percentInput(opex.leasingFeePct)} of a month’s rent`], ['Average tenancy', `${toNum(opex.tenancyMonths)} months`]);
+  }
+  if (form.section8Mode && !form.strMode) management.push(['Section 8 reserve', `${moneyInput(form.inspectionReserveMonthly)}/mo`]);
+  w.keyValues(management);
+}
+
+function inputs(w: ReturnType<typeof createWriter>, data: ReportData) {
+  const { form, result } = data;
+  const kindLabel = (kind: string) => LOAN_KINDS.find((k) => k.kind === kind)?.label ?? 'Fixed';
+
+  w.heading('Inputs & assumptions');
+  w.subheading('Purchase & financing');
+  const financing: [string, string][] = [
+    ['Purchase price', money(result.price)],
+    ['Closing costs', money(result.close)],
+    ['Down payment', `${percentInput(form.downPct)} · ${money(result.downPayment)}`],
+    ['First mortgage', money(result.firstLoan)],
+    ['Interest rate', percentInput(form.ratePct)],
+    ['Term', `${toNum(form.termYears)} years`],
+    ['Loan structure', kindLabel(form.loanTerms.kind)],
+    ['Extra principal', `${moneyInput(form.extraPrincipalMonthly)}/mo`],
+  ];
+  form.liens.map(lienSpec).filter((l) => l.amount > 0).forEach((l) => {
+    financing.push([l.label, `${money(l.amount)} at ${l.ratePct}% (${kindLabel(l.kind)})`]);
+  });
+  w.keyValues(financing);
+
+  if (result.cashToClose) {
+    const c = result.cashToClose;
+    w.subheading('Cash to close');
+    const rows = [
+      ['Down payment', money2(c.downPayment)],
+      ...c.lines.map((l) => [l.label, money2(l.amount)]),
+      ...(c.sellerCredits > 0 ? [['Seller credits', money2(-c.sellerCredits)]] : []),
+      ...(c.startupCash > 0 ? [['Furnishing & setup', money2(c.startupCash)]] : []),
+      ['Total cash required', money2(c.totalCash)],
+      ...(c.earnestMoney > 0 ? [['Earnest money (paid at contract)', money2(-c.earnestMoney)], ['Due at closing', money2(c.dueAtClosing)]] : []),
+    ];
+    const total = rows.findIndex((r) => r[0] === 'Total cash required');
+    w.table(['Item', 'Amount'], rows, { widths: [4, 1.5], bold: (i) => i >= total });
+  }
+
+  w.subheading('Income');
+  const income: [string, string][] = [['Income model', incomeModeLabel(form)], ['Rent used in calculations', `${money2(result.rent)}/mo`]];
+  if (form.section8Mode && !form.strMode && !form.units.length) {
+    income.push(['Tenant portion', `${moneyInput(form.tenantPortionMonthly)}/mo`], ['HAP payment', `${moneyInput(form.hapMonthly)}/mo`]);
+  }
+  if (result.rentRoll) income.push(['Units', String(result.rentRoll.units)]);
+  income.push(['Other income', `${moneyInput(form.otherIncome)}/mo`]);
+  w.keyValues(income);
+
+  w.subheading('Operating expenses');
+  if (form.opex.itemized) itemizedExpenses(w, data);
+  else w.keyValues(flatExpenses(data));
+
+  w.subheading('Projection & tax');
+  w.keyValues([
+    ['Rent growth', `${percentInput(form.rentGrowthPct)}/yr`],
+    ['Expense growth', `${percentInput(form.expenseGrowthPct)}/yr`],
+    ['Appreciation', `${percentInput(form.appreciationPct)}/yr`],
+    ['Hold period', `${data.proForma.exit.year} years`],
+    ['Selling costs', percentInput(form.sellingCostPct)],
+    ['Exit cap rate', toNum(form.exitCapPct) > 0 ? percentInput(form.exitCapPct) : 'Appreciation'],
+    ['Marginal tax rate', percentInput(form.tax.marginalRatePct)],
+    ['Passive losses', PASSIVE_LOSS_MODES.find((m) => m.mode === form.tax.passiveLoss)?.label ?? ''],
+  ]);
+}
+
+function operatingStatement(w: ReturnType<typeof createWriter>, result: DealResult) {
+  w.heading('Monthly operating statement');
+  const vacancyLoss = result.grossIncome - result.effectiveIncome;
+  const rows: string[][] = [
+    ['Gross income', money2(result.grossIncome), money(result.grossIncome * 12)],
+    ['Vacancy', money2(-vacancyLoss), money(-vacancyLoss * 12)],
+    ['Effective income', money2(result.effectiveIncome), money(result.effectiveIncome * 12)],
+    ...result.expenses.map((e) => [`  ${e.label}`, money2(-e.monthly), money(-e.monthly * 12)]),
+    ['Net operating income', money2(result.noiMonthly), money(result.noiMonthly * 12)],
+    ['Debt service (all liens)', money2(-result.mortgagePI), money(-result.mortgagePI * 12)],
+    ['Cash flow', money2(result.netCashFlow), money(result.netCashFlow * 12)],
+  ];
+  const totals = new Set([2, 3 + result.expenses.length, 5 + result.expenses.length]);
+  w.table(['', 'Monthly', 'Annual'], rows, { widths: [3, 1, 1], bold: (i) => totals.has(i), rowFill: (i) => (totals.has(i) ? SHADE : null) });
+
+  w.gap(2);
+  w.pie(result.expenses.map((e) => ({ label: e.label, value: e.monthly })), `Operating expenses: ${money2(result.fixedCostsNoDebt + result.percentCosts)}/mo`);
+}
+
+/** Builds the partner / lender report. Client-side only (jsPDF). */
+export function buildDealReport(data: ReportData) {
+  const { form, result, proForma, afterTax, offer, branding } = data;
+  const doc = new jsPDF({ unit: 'mm', format: 'letter' });
+  const w = createWriter(doc);
+  const d = result.decision;
+
+  cover(w, data);
+
+  w.kpiGrid([
+    { label: 'Cash flow (monthly)', value: money2(result.netCashFlow), tone: result.netCashFlow >= 0 ? GO : NO_GO },
+    { label: 'DSCR', value: ratio(result.dscr) },
+    { label: 'Cap rate', value: pct(result.capRate) },
+    { label: 'Cash-on-cash', value: result.cashOnCash === Infinity ? 'Infinite' : pct(result.cashOnCash) },
+    { label: 'NOI (monthly)', value: money2(result.noiMonthly) },
+    { label: 'Break-even rent', value: money(result.breakEvenRent) },
+    { label: result.refi ? 'Cash left in deal' : 'Cash invested', value: money(result.cashInvested) },
+    { label: `Levered IRR (${proForma.exit.year} yr)`, value: pct(proForma.irr) },
+  ]);
+
+  w.heading(d.isGo ? 'Why GO' : 'Why NO-GO');
+  if (d.reasons.length) w.bullets(d.reasons, NO_GO);
+  else w.paragraph('No blocking issues found for the screening thresholds.');
+  if (d.warnings.length) {
+    w.subheading('Warnings');
+    w.bullets(d.warnings, AMBER);
+  }
+  w.paragraph(d.nextStep, 9, MUTED);
+
+  if (data.scenarios.length > 1) {
+    w.heading('Scenarios');
+    w.table(
+      ['Scenario', 'Verdict', 'Cash flow', 'DSCR', 'Cap rate', 'CoC'],
+      data.scenarios.map(({ name, result: r }) => [
+        name,
+        r.decision.isGo ? 'GO' : 'NO-GO',
+        money2(r.netCashFlow),
+        ratio(r.dscr),
+        pct(r.capRate),
+        r.cashOnCash === Infinity ? 'Infinite' : pct(r.cashOnCash),
+      ]),
+      {
+        widths: [2, 1, 1.2, 0.8, 1, 1],
+        rowFill: (i) => (data.scenarios[i].name === (data.scenario ?? data.scenarios[0].name) ? SHADE : null),
+      },
+    );
+    w.bullets(data.scenarios.map((s) => `${s.name}: ${s.summary}`), MUTED);
+  }
+
+  propertySection(w, data);
+  inputs(w, data);
+  operatingStatement(w, result);
+
+  if (result.rentRoll) {
+    const rr = result.rentRoll;
+    w.heading(`Rent roll (${rr.units} units, ${rr.occupied} occupied)`);
+    w.table(
+      ['Unit', 'Beds / baths', 'Current', 'Market', 'Lease', 'Voucher'],
+      form.units.map((u) => [
+        u.label,
+        `${u.beds} / ${u.baths}`,
+        u.vacant ? 'Vacant' : money(toNum(u.currentRent)),
+        money(toNum(u.marketRent)),
+        u.vacant ? '—' : u.leaseEnd || 'Month-to-month',
+        u.voucher ? 'Yes' : '',
+      ]),
+      { widths: [2, 1.2, 1, 1, 1.5, 0.8] },
+    );
+    w.keyValues([
+      ['In-place rent', money(rr.inPlace)],
+      ['Market rent', money(rr.market)],
+      ['Loss to lease', money(rr.lossToLease)],
+      ['Vacant units at market', money(rr.vacantAtMarket)],
+    ]);
+  }
+
+  if (result.refi) {
+    const rf = result.refi;
+    w.heading('BRRRR (verdict uses post-refi numbers)');
+    if (form.brrrr.rehabItems.length) {
+      w.table(['Rehab item', 'Cost'], form.brrrr.rehabItems.map((i) => [i.label || 'Item', money(toNum(i.cost))]), { widths: [4, 1] });
+    }
+    w.keyValues([
+      ['Rehab total', money(rf.rehabTotal)],
+      [`Holding (${rf.rehabMonths} mo)`, money(rf.holdingCosts + rf.holdingDebtService)],
+      ['All-in cash', money(rf.allInCash)],
+      ['After-repair value', money(rf.arv)],
+      ['Refi loan', `${money(rf.refiLoan)} at ${rf.refiRate}%`],
+      ['Payoff + refi costs', money(rf.payoff + rf.refiCosts)],
+      ['Cash out', money(rf.cashOut)],
+      ['Cash left in deal', `${money(rf.cashLeft)}${result.infiniteReturn ? ' (infinite return)' : ''}`],
+    ]);
+  }
+
+  if (result.str) {
+    const m = result.str;
+    w.heading(`Short-term rental (ADR ${money(toNum(form.str.adr))}, ${(m.occupancy * 100).toFixed(1)}% occupancy)`);
+    w.barChart(
+      result.strMonths.map((x) => x.month),
+      result.strMonths.map((x) => x.cashFlow),
+      null,
+      ['Monthly cash flow', null],
+    );
+    w.keyValues([
+      ['Average revenue', `${money(m.avgRevenue)}/mo`],
+      ['Platform fees', `${(m.platformRate * 100).toFixed(1)}%`],
+      ['Cleaning costs', `${money(m.avgCleaningCosts)}/mo`],
+      ['Furnishing & setup', money(m.furnishing)],
+    ]);
+  }
+
+  const hold = proForma.years.slice(0, proForma.exit.year);
+  w.heading(`Cash flow projection (${proForma.exit.year}-year hold)`);
+  w.barChart(
+    hold.map((y) => `Yr ${y.year}`),
+    hold.map((y) => y.cashFlow),
+    afterTax.years.map((y) => y.afterTaxCashFlow),
+    ['Pre-tax cash flow', 'After-tax cash flow'],
+  );
+  w.table(
+    ['Year', 'NOI', 'Debt service', 'Cash flow', 'After-tax CF', 'Value', 'Loan', 'Equity'],
+    hold.map((y, i) => [
+      String(y.year),
+      money(y.noi),
+      money(y.debtService),
+      money(y.cashFlow),
+      money(afterTax.years[i]?.afterTaxCashFlow ?? NaN),
+      money(y.propertyValue),
+      money(y.loanBalance),
+      money(y.equity),
+    ]),
+  );
+  w.keyValues([
+    ['Levered IRR', pct(proForma.irr)],
+    ['After-tax IRR', pct(afterTax.irr)],
+    ['Equity multiple', Number.isFinite(proForma.equityMultiple) ? `${proForma.equityMultiple.toFixed(2)}x` : '—'],
+    ['Total profit', money(proForma.totalProfit)],
+    ['Sale price', money(proForma.exit.salePrice)],
+    ['Net sale proceeds', money(proForma.exit.netProceeds)],
+    ['Tax on sale', money(afterTax.sale.saleTax)],
+    ['After-tax proceeds', money(afterTax.sale.afterTaxProceeds)],
+  ]);
+
+  w.heading('Max allowable offer');
+  w.keyValues(offerLines(offer).map((l) => [l.label, l.value]), 1);
+
+  w.heading(`Rules (${d.ruleSetName})`);
+  w.table(
+    ['Rule', 'Severity', 'Value', 'Result'],
+    d.outcomes.map((o) => [describeRule(o.rule), o.rule.severity === 'warning' ? 'Warning' : 'Blocker', formatMetricValue(o.rule.metric, o.value), o.status === 'pass' ? 'PASS' : o.status === 'fail' ? 'FAIL' : 'N/A']),
+    {
+      widths: [3, 1, 1, 0.8],
+      rowFill: (i) => (d.outcomes[i].status === 'fail' ? (d.outcomes[i].rule.severity === 'blocker' ? [254, 226, 226] : [254, 243, 199]) : null),
+    },
+  );
+
+  if (result.amortizationYears.length) {
+    w.heading('Debt schedule (yearly)');
+    w.table(
+      ['Year', 'Payment', 'Interest', 'Principal', 'Balloon', 'Ending balance'],
+      result.amortizationYears.map((y) => [
+        String(y.year),
+        money(y.payment + y.extraPrincipal),
+        money(y.interest),
+        money(y.principal + y.extraPrincipal),
+        y.balloon > 0 ? money(y.balloon) : '',
+        money(y.endingBalance),
+      ]),
+    );
+  }
+
+  // Footer on every page
+  const pages = doc.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    const fy = w.pageHeight - 8;
+    w.font(7.5, 'normal', MUTED);
+    const by = [branding.preparedBy && `Prepared by ${branding.preparedBy}`, branding.company].filter(Boolean).join(' · ');
+    doc.text(by || 'Deal QuickCheck', MARGIN, fy);
+    doc.text('Screening estimate — not full underwriting.', w.pageWidth / 2, fy, { align: 'center' });
+    doc.text(`Page ${i} of ${pages}`, w.pageWidth - MARGIN, fy, { align: 'right' });
+  }
+
+  return doc;
+}
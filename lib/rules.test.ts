@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_RULE_SET, addIncomingRuleSet, newRuleSet } from './rules';
+
+describe('addIncomingRuleSet', () => {
+  const edited = { ...DEFAULT_RULE_SET, rules: DEFAULT_RULE_SET.rules.map((r) => (r.id === 'dscr' ? { ...r, threshold: '1.35' } : r)) };
+
+  it('adds a differing set as a copy instead of replacing the local one with its id', () => {
+    const m = addIncomingRuleSet([edited], DEFAULT_RULE_SET);
+    expect(m.added).toBe(true);
+    expect(m.sets[0]).toBe(edited);
+    expect(m.active.id).not.toBe(DEFAULT_RULE_SET.id);
+    expect(m.active.name).toBe(`${DEFAULT_RULE_SET.name} (copy)`);
+    expect(m.active.rules.map((r) => r.threshold)).toEqual(DEFAULT_RULE_SET.rules.map((r) => r.threshold));
+  });
+
+  it('reuses a local set with the same rules', () => {
+    const local = newRuleSet('Mine', edited);
+    const m = addIncomingRuleSet([DEFAULT_RULE_SET, local], { ...edited, id: 'other' });
+    expect(m.added).toBe(false);
+    expect(m.active).toBe(local);
+    expect(m.sets).toHaveLength(2);
+  });
+});
@@ -0,0 +1,202 @@
+import { money2, pct, toNum } from './format';
+
+export type RuleMetric =
+  | 'netCashFlow'
+  | 'dscr'
+  | 'dscrAtPeak'
+  | 'cashOnCash'
+  | 'capRate'
+  | 'totalReturn'
+  | 'noiMonthly'
+  | 'breakEvenRatio';
+
+export type RuleUnit = '$' | 'x' | '%';
+
+export const RULE_METRICS: { metric: RuleMetric; label: string; unit: RuleUnit }[] = [
+  { metric: 'netCashFlow', label: 'Cash flow (monthly)', unit: '$' },
+  { metric: 'dscr', label: 'DSCR', unit: 'x' },
+  { metric: 'dscrAtPeak', label: 'DSCR after IO / ARM reset', unit: 'x' },
+  { metric: 'cashOnCash', label: 'Cash-on-cash', unit: '%' },
+  { metric: 'capRate', label: 'Cap rate', unit: '%' },
+  { metric: 'totalReturn', label: 'Total return (CF + paydown)', unit: '%' },
+  { metric: 'noiMonthly', label: 'NOI (monthly)', unit: '$' },
+  { metric: 'breakEvenRatio', label: 'Break-even rent ÷ gross income', unit: 'x' },
+];
+
+export type RuleOperator = '>=' | '>' | '<=' | '<';
+export const RULE_OPERATORS: RuleOperator[] = ['>=', '>', '<=', '<'];
+
+export type RuleSeverity = 'blocker' | 'warning';
+
+export type Rule = {
+  id: string;
+  metric: RuleMetric;
+  operator: RuleOperator;
+  threshold: string; // form units: $ as entered, % as a percent (8 = 8%), x as a ratio
+  severity: RuleSeverity;
+  message: string; // shown when the rule fails; {value} and {threshold} are filled in
+};
+
+export type RuleSet = {
+  id: string;
+  name: string;
+  rules: Rule[];
+};
+
+export type RuleMetrics = Record<RuleMetric, number>;
+
+export type RuleOutcome = {
+  rule: Rule;
+  label: string;
+  value: number;
+  status: 'pass' | 'fail' | 'n/a';
+  text: string; // failure message, or a short "label op threshold" summary
+};
+
+function newId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function newRule(partial: Partial<Rule> = {}): Rule {
+  return { id: newId(), metric: 'dscr', operator: '>=', threshold: '1.2', severity: 'blocker', message: '', ...partial };
+}
+
+// Mirrors the original hard-coded screen: cash flow ≥ 0 and DSCR ≥ 1.20 block; CoC and break-even warn.
+export const DEFAULT_RULE_SET: RuleSet = {
+  id: 'default',
+  name: 'Default screen',
+  rules: [
+    { id: 'cf', metric: 'netCashFlow', operator: '>=', threshold: '0', severity: 'blocker', message: 'Cash flow is negative ({value}/mo).' },
+    { id: 'dscr', metric: 'dscr', operator: '>=', threshold: '1.2', severity: 'blocker', message: 'DSCR is below {threshold} (currently {value}).' },
+    { id: 'coc', metric: 'cashOnCash', operator: '>=', threshold: '8', severity: 'warning', message: 'Cash-on-cash is under {threshold} ({value}).' },
+    { id: 'be', metric: 'breakEvenRatio', operator: '<=', threshold: '1', severity: 'warning', message: 'Break-even rent is above your gross rent input.' },
+  ],
+};
+
+export function newRuleSet(name: string, from: RuleSet = DEFAULT_RULE_SET): RuleSet {
+  return { id: newId(), name, rules: from.rules.map((r) => ({ ...r, id: newId() })) };
+}
+
+function metricDef(metric: RuleMetric) {
+  return RULE_METRICS.find((m) => m.metric === metric) ?? RULE_METRICS[0];
+}
+
+function formatValue(unit: RuleUnit, n: number) {
+  if (unit === '$') return money2(n);
+  if (unit === '%') return pct(n);
+  return Number.isFinite(n) ? n.toFixed(2) : n > 0 ? '∞' : '—';
+}
+
+function formatThreshold(unit: RuleUnit, raw: string) {
+  const n = toNum(raw);
+  if (unit === '$') return money2(n);
+  if (unit === '%') return `${n}%`;
+  return n.toFixed(2);
+}
+
+export function formatMetricValue(metric: RuleMetric, n: number) {
+  return formatValue(metricDef(metric).unit, n);
+}
+
+export function describeRule(rule: Rule) {
+  const def = metricDef(rule.metric);
+  return `${def.label} ${rule.operator} ${formatThreshold(def.unit, rule.threshold)}`;
+}
+
+function compare(value: number, op: RuleOperator, threshold: number) {
+  switch (op) {
+    case '>=': return value >= threshold;
+    case '>': return value > threshold;
+    case '<=': return value <= threshold;
+    case '<': return value < threshold;
+  }
+}
+
+/**
+ * Evaluates every rule against the computed metrics. A metric that is undefined
+ * for this deal (NaN, e.g. cash-on-cash with no cash in) is reported as n/a and
+ * never blocks.
+ */
+export function evaluateRules(rules: Rule[], metrics: RuleMetrics): RuleOutcome[] {
+  return rules.map((rule) => {
+    const def = metricDef(rule.metric);
+    const value = metrics[rule.metric];
+    const threshold = toNum(rule.threshold) / (def.unit === '%' ? 100 : 1);
+
+    if (Number.isNaN(value)) {
+      return { rule, label: def.label, value, status: 'n/a', text: describeRule(rule) };
+    }
+
+    const passed = compare(value, rule.operator, threshold);
+    const text = passed
+      ? describeRule(rule)
+      : (rule.message.trim() || `${describeRule(rule)} fails (currently {value}).`)
+          .replaceAll('{value}', formatValue(def.unit, value))
+          .replaceAll('{threshold}', formatThreshold(def.unit, rule.threshold));
+
+    return { rule, label: def.label, value, status: passed ? 'pass' : 'fail', text };
+  });
+}
+
+// ---- Saved rule sets (browser-local) ----
+
+const STORAGE_KEY = 'dqc.ruleSets.v1';
+
+export function loadRuleSets(): { sets: RuleSet[]; activeId: string } {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as { sets?: unknown; activeId?: unknown }) : null;
+    if (parsed && Array.isArray(parsed.sets) && parsed.sets.length > 0) {
+      const sets = parsed.sets.map(sanitizeRuleSet);
+      const activeId = sets.some((s) => s.id === parsed.activeId) ? String(parsed.activeId) : sets[0].id;
+      return { sets, activeId };
+    }
+  } catch {
+    // Storage unavailable or corrupt — fall back to the default set.
+  }
+  return { sets: [DEFAULT_RULE_SET], activeId: DEFAULT_RULE_SET.id };
+}
+
+export function saveRuleSets(sets: RuleSet[], activeId: string) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ sets, activeId }));
+  } catch {
+    // Quota / private mode: rule sets simply won't persist.
+  }
+}
+
+// Rules compared on what they test, ignoring ids.
+const ruleContents = (set: RuleSet) => JSON.stringify(set.rules.map((r) => [r.metric, r.operator, r.threshold, r.severity, r.message]));
+
+/**
+ * Adds a rule set that arrived by share link or file and makes it active. A local set
+ * with the same rules is reused; anything else is added as a copy with a fresh id, so
+ * it can never overwrite a local set (including the default).
+ */
+export function addIncomingRuleSet(sets: RuleSet[], incoming: RuleSet): { sets: RuleSet[]; active: RuleSet; added: boolean } {
+  const match = sets.find((s) => ruleContents(s) === ruleContents(incoming));
+  if (match) return { sets, active: match, added: false };
+  const name = sets.some((s) => s.name === incoming.name) ? `${incoming.name} (copy)` : incoming.name;
+  const copy = newRuleSet(name, incoming);
+  return { sets: [...sets, copy], active: copy, added: true };
+}
+
+// Accepts rule sets from storage or share links; drops anything malformed.
+export function sanitizeRuleSet(input: unknown): RuleSet {
+  const o = (input ?? {}) as Partial<RuleSet>;
+  const rules = Array.isArray(o.rules) ? o.rules : [];
+  return {
+    id: typeof o.id === 'string' ? o.id : newId(),
+    name: typeof o.name === 'string' && o.name.trim() ? o.name : 'Untitled rules',
+    rules: rules
+      .filter((r) => r && RULE_METRICS.some((m) => m.metric === r.metric) && RULE_OPERATORS.includes(r.operator))
+      .map((r) => ({
+        id: typeof r.id === 'string' ? r.id : newId(),
+        metric: r.metric,
+        operator: r.operator,
+        threshold: String(r.threshold ?? '0'),
+        severity: r.severity === 'warning' ? 'warning' : 'blocker',
+        message: typeof r.message === 'string' ? r.message : '',
+      })),
+  };
+}
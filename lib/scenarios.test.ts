@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_CASH_TO_CLOSE } from './cashToClose';
+import { computeDeal } from './deal';
+import { DEFAULT_FORM, sanitizeForm } from './dealForm';
+import { computeRent } from './dealInput';
+import { itemizeFlatExpenses } from './opex';
+import { newUnit } from './rentRoll';
+import { MAX_SCENARIOS, SCENARIO_PRESETS, applyScenario, describeScenario, newScenario, sanitizeScenarios } from './scenarios';
+import { decodeShareParams, encodeShareParams } from './shareLink';
+
+const conservative = newScenario(SCENARIO_PRESETS[0]);
+
+describe('applyScenario', () => {
+  it('returns the base inputs unchanged without a scenario', () => {
+    expect(applyScenario(DEFAULT_FORM, null)).toBe(DEFAULT_FORM);
+  });
+
+  it('applies overrides, then shocks relative to the result', () => {
+    const form = applyScenario(DEFAULT_FORM, newScenario({ overrides: { vacancyPct: '10' }, shocks: { vacancy: '2', rate: '1', rent: '-5' } }));
+    expect(Number(form.vacancyPct)).toBe(12);
+    expect(Number(form.ratePct)).toBeCloseTo(7.75);
+    expect(Number(form.monthlyRent)).toBe(3800);
+    expect(form.purchasePrice).toBe(DEFAULT_FORM.purchasePrice);
+  });
+
+  it('sets the rent in every income mode', () => {
+    const units = [1, 2].map((i) => ({ ...newUnit(`Unit ${i}`), currentRent: '1500', marketRent: '1500' }));
+    const rentRoll = { ...DEFAULT_FORM, units };
+    expect(computeRent(applyScenario(rentRoll, newScenario({ overrides: { monthlyRent: '3600' } })))).toBeCloseTo(3600, 6);
+
+    const section8 = { ...DEFAULT_FORM, section8Mode: true };
+    const s8 = applyScenario(section8, newScenario({ overrides: { monthlyRent: '3000' } }));
+    expect(computeRent(s8)).toBeCloseTo(3000, 6);
+    expect(Number(s8.hapMonthly) / Number(s8.tenantPortionMonthly)).toBeCloseTo(4, 6); // mix kept
+
+    // STR: the nightly rate moves by the same factor (cleaning fees are per stay, so revenue lands close).
+    const str = { ...DEFAULT_FORM, strMode: true };
+    const shocked = applyScenario(str, newScenario({ overrides: { monthlyRent: '5000' } }));
+    expect(Number(shocked.str.adr)).toBeCloseTo(250 * (5000 / computeRent(str)), 2);
+  });
+
+  it('sets expense inputs on the itemized lines when those are on', () => {
+    const form = { ...DEFAULT_FORM, opex: itemizeFlatExpenses(DEFAULT_FORM) };
+    const base = computeDeal(form).netCashFlow;
+    const taxes = computeDeal(applyScenario(form, newScenario({ overrides: { taxesMonthly: '720' } })));
+    expect(taxes.netCashFlow).toBeCloseTo(base - 200, 8);
+    const mgmt = computeDeal(applyScenario(form, newScenario({ overrides: { mgmtPct: '10' } })));
+    expect(mgmt.netCashFlow).toBeCloseTo(computeDeal({ ...DEFAULT_FORM, mgmtPct: '10' }).netCashFlow, 2); // same % of gross rent
+  });
+
+  it('sets closing costs on the cash-to-close worksheet when it is on', () => {
+    const cashToClose = { ...DEFAULT_CASH_TO_CLOSE, itemized: true, lenderFees: '3000', pointsPct: '1', titleEscrow: '2000', sellerCredits: '1000' };
+    const form = { ...DEFAULT_FORM, cashToClose };
+    expect(computeDeal(form).close).toBeCloseTo(7750, 6); // $3,750 points on the $375k loan
+    const scenario = computeDeal(applyScenario(form, newScenario({ overrides: { closingCosts: '15500' } })));
+    expect(scenario.close).toBeCloseTo(15500, 6);
+    expect(scenario.cashToClose?.sellerCredits).toBeCloseTo(2000, 6);
+
+    const empty = applyScenario({ ...DEFAULT_FORM, cashToClose: { ...DEFAULT_CASH_TO_CLOSE, itemized: true } }, newScenario({ overrides: { closingCosts: '9000' } }));
+    expect(computeDeal(empty).close).toBe(9000);
+  });
+
+  it('ignores blank overrides and zero or unreadable shocks', () => {
+    const form = applyScenario(DEFAULT_FORM, newScenario({ overrides: { ratePct: ' ' }, shocks: { rent: '0', price: 'x' } }));
+    expect(form).toEqual(DEFAULT_FORM);
+  });
+});
+
+describe('newScenario', () => {
+  it('gives a copy of a scenario its own id', () => {
+    const copy = newScenario({ ...conservative, name: 'Conservative (copy)' });
+    expect(copy.id).not.toBe(conservative.id);
+    expect(copy).toMatchObject({ name: 'Conservative (copy)', overrides: conservative.overrides, shocks: conservative.shocks });
+  });
+});
+
+describe('describeScenario', () => {
+  it('lists overrides then shocks', () => {
+    expect(describeScenario(conservative)).toBe('Vacancy 10% · Rate +1 pts · Rent −5% · Expenses +10%');
+  });
+
+  it('says when nothing changes', () => {
+    expect(describeScenario(newScenario({ shocks: { rent: '0' } }))).toBe('No changes');
+  });
+});
+
+describe('sanitizeScenarios', () => {
+  it('drops unknown inputs, fills names and ids, and caps the list', () => {
+    const raw = Array.from({ length: MAX_SCENARIOS + 2 }, () => ({ overrides: { vacancyPct: 8, colour: 'red' }, shocks: { rent: '-3', mood: '1' } }));
+    const scenarios = sanitizeScenarios(raw);
+    expect(scenarios).toHaveLength(MAX_SCENARIOS);
+    expect(scenarios[0]).toMatchObject({ name: 'Scenario 1', overrides: { vacancyPct: '8' }, shocks: { rent: '-3' } });
+    expect(scenarios[0].id).toEqual(expect.any(String));
+    expect(sanitizeScenarios('nope')).toEqual([]);
+  });
+
+  it('is applied when loading a saved form', () => {
+    expect(sanitizeForm({ ...DEFAULT_FORM, scenarios: [conservative, null] }).scenarios).toEqual([conservative]);
+  });
+});
+
+describe('scenarios in share links', () => {
+  it('round-trip with new ids', async () => {
+    const params = await encodeShareParams({ ...DEFAULT_FORM, scenarios: [conservative] }, null);
+    const shared = await decodeShareParams(params, DEFAULT_FORM);
+    expect(shared?.form?.scenarios).toEqual([{ ...conservative, id: expect.any(String) }]);
+  });
+
+  it('range-check overrides like the base inputs', async () => {
+    const scenario = newScenario({ name: 'Bad', overrides: { vacancyPct: '150', ratePct: 'abc', monthlyRent: '3500' } });
+    const shared = await decodeShareParams(await encodeShareParams({ ...DEFAULT_FORM, scenarios: [scenario] }, null), DEFAULT_FORM);
+    expect(shared?.form?.scenarios[0].overrides).toEqual({ vacancyPct: '80', monthlyRent: '3500' });
+    expect(shared?.notices).toEqual(['Bad: Interest rate “abc” is not a number; ignored.', 'Bad: Vacancy 150 is outside 0–80; set to 80.']);
+  });
+});
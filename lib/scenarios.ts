@@ -0,0 +1,139 @@
+import { toNum } from './format';
+import { withClosingCosts } from './cashToClose';
+import { computeDeal } from './deal';
+import { withRent } from './dealInput';
+import type { DealForm, StringKey } from './dealForm';
+import { FLAT_EXPENSES, withFlatExpense, withManagementPct, type FlatExpenseKey } from './opex';
+import { applyShock, type SensitivityVar } from './sensitivity';
+
+// Named "what if" cases saved with the deal. Each changes only some inputs: absolute
+// overrides (vacancy 10%) and shocks relative to the base case (rent −5%, rate +1 pt).
+
+// Inputs a scenario can set outright.
+export const SCENARIO_INPUTS = [
+  { key: 'purchasePrice', label: 'Purchase price', unit: '$' },
+  { key: 'downPct', label: 'Down payment', unit: '%' },
+  { key: 'ratePct', label: 'Interest rate', unit: '%' },
+  { key: 'closingCosts', label: 'Closing costs', unit: '$' },
+  { key: 'monthlyRent', label: 'Monthly rent', unit: '$' },
+  { key: 'vacancyPct', label: 'Vacancy', unit: '%' },
+  { key: 'repairsPct', label: 'Repairs', unit: '%' },
+  { key: 'capexPct', label: 'CapEx', unit: '%' },
+  { key: 'mgmtPct', label: 'Management', unit: '%' },
+  { key: 'taxesMonthly', label: 'Property taxes', unit: '$' },
+  { key: 'insuranceMonthly', label: 'Insurance', unit: '$' },
+  { key: 'rentGrowthPct', label: 'Rent growth', unit: '%' },
+  { key: 'expenseGrowthPct', label: 'Expense growth', unit: '%' },
+  { key: 'appreciationPct', label: 'Appreciation', unit: '%' },
+  { key: 'exitCapPct', label: 'Exit cap rate', unit: '%' },
+  { key: 'holdYears', label: 'Hold period', unit: 'yrs' },
+] as const satisfies readonly { key: StringKey; label: string; unit: string }[];
+
+export type ScenarioInput = (typeof SCENARIO_INPUTS)[number]['key'];
+
+// Shocks use the sensitivity variables, so "rent" moves every income model (rent roll, vouchers, STR ADR).
+export const SCENARIO_SHOCKS: { key: SensitivityVar; label: string; unit: '%' | 'pts' }[] = [
+  { key: 'price', label: 'Price', unit: '%' },
+  { key: 'rate', label: 'Rate', unit: 'pts' },
+  { key: 'rent', label: 'Rent', unit: '%' },
+  { key: 'vacancy', label: 'Vacancy', unit: 'pts' },
+  { key: 'expenses', label: 'Expenses', unit: '%' },
+];
+
+export type Scenario = {
+  id: string;
+  name: string;
+  overrides: Partial<Record<ScenarioInput, string>>;
+  shocks: Partial<Record<SensitivityVar, string>>; // blank = unchanged
+};
+
+export const MAX_SCENARIOS = 6;
+
+export const SCENARIO_PRESETS: Omit<Scenario, 'id'>[] = [
+  { name: 'Conservative', overrides: { vacancyPct: '10' }, shocks: { rent: '-5', rate: '1', expenses: '10' } },
+  { name: 'Aggressive', overrides: { vacancyPct: '3' }, shocks: { rent: '5', expenses: '-5' } },
+];
+
+function newId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// Always a fresh id, even when `partial` is a whole scenario being copied.
+export function newScenario(partial: Partial<Omit<Scenario, 'id'>> = {}): Scenario {
+  return { name: 'Scenario', overrides: {}, shocks: {}, ...partial, id: newId() };
+}
+
+// Short summary, e.g. "Vacancy 10% · Rent −5% · Rate +1 pts".
+export function describeScenario(s: Scenario) {
+  const parts: string[] = [];
+  for (const { key, label, unit } of SCENARIO_INPUTS) {
+    const v = s.overrides[key]?.trim();
+    if (v) parts.push(unit === '$' ? `${label} $${v}` : `${label} ${v}${unit === '%' ? '%' : ` ${unit}`}`);
+  }
+  for (const { key, label, unit } of SCENARIO_SHOCKS) {
+    const n = Number(s.shocks[key]);
+    if (s.shocks[key]?.trim() && Number.isFinite(n) && n !== 0) {
+      parts.push(`${label} ${n > 0 ? '+' : '−'}${Math.abs(n)}${unit === '%' ? '%' : ' pts'}`);
+    }
+  }
+  return parts.length ? parts.join(' · ') : 'No changes';
+}
+
+// Sets one input where the deal reads it: rent is the total rent in every income mode,
+// expense inputs land on the itemized lines and closing costs on the cash-to-close
+// worksheet when those replace the flat inputs.
+function applyOverride(form: DealForm, key: ScenarioInput, value: string): DealForm {
+  if (key === 'monthlyRent') return withRent(form, toNum(value));
+  if (FLAT_EXPENSES.some((f) => f.key === key)) return withFlatExpense(form, key as FlatExpenseKey, value);
+  if (key === 'mgmtPct') return withManagementPct(form, value);
+  if (key === 'closingCosts' && form.cashToClose.itemized) {
+    return { ...form, cashToClose: withClosingCosts(form.cashToClose, computeDeal(form).close, toNum(value)) };
+  }
+  return { ...form, [key]: value };
+}
+
+// Applies a named scenario to the base inputs: absolute overrides first, then shocks.
+export function applyScenario(form: DealForm, scenario: Scenario | null): DealForm {
+  if (!scenario) return form;
+  let next: DealForm = { ...form };
+  for (const [key, value] of Object.entries(scenario.overrides) as [ScenarioInput, string | undefined][]) {
+    if (value?.trim()) next = applyOverride(next, key, value.trim());
+  }
+  for (const { key } of SCENARIO_SHOCKS) {
+    const raw = scenario.shocks[key]?.trim();
+    const delta = Number(raw);
+    if (raw && Number.isFinite(delta) && delta !== 0) next = applyShock(next, key, delta);
+  }
+  return next;
+}
+
+const str = (v: unknown) => (typeof v === 'string' || (typeof v === 'number' && Number.isFinite(v)) ? String(v) : null);
+
+// Rebuilds scenarios from stored or shared JSON; unknown inputs are dropped and ids regenerated when missing.
+export function sanitizeScenarios(input: unknown): Scenario[] {
+  if (!Array.isArray(input)) return [];
+  return input.slice(0, MAX_SCENARIOS).flatMap((item, i) => {
+    if (!item || typeof item !== 'object') return [];
+    const o = item as Record<string, unknown>;
+    const rawOverrides = (o.overrides && typeof o.overrides === 'object' ? o.overrides : {}) as Record<string, unknown>;
+    const rawShocks = (o.shocks && typeof o.shocks === 'object' ? o.shocks : {}) as Record<string, unknown>;
+
+    const overrides: Scenario['overrides'] = {};
+    for (const { key } of SCENARIO_INPUTS) {
+      const v = str(rawOverrides[key]);
+      if (v !== null) overrides[key] = v;
+    }
+    const shocks: Scenario['shocks'] = {};
+    for (const { key } of SCENARIO_SHOCKS) {
+      const v = str(rawShocks[key]);
+      if (v !== null) shocks[key] = v;
+    }
+
+    return [{
+      id: typeof o.id === 'string' && o.id ? o.id : newId(),
+      name: typeof o.name === 'string' && o.name.trim() ? o.name : `Scenario ${i + 1}`,
+      overrides,
+      shocks,
+    }];
+  });
+}
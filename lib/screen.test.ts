@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+
+import { MAX_BATCH_SIZE, parseBatchRequest, parseScreenRequest, screenDeal } from './screen';
+
+const DEAL = { purchasePrice: 400000, downPct: 25, ratePct: 6, monthlyRent: '3000', taxesMonthly: 400, insuranceMonthly: 100 };
+
+describe('parseScreenRequest', () => {
+  it('accepts numbers and numeric strings and fills in defaults', () => {
+    const parsed = parseScreenRequest({ deal: DEAL });
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.form.purchasePrice).toBe('400000');
+    expect(parsed.form.monthlyRent).toBe('3000');
+    expect(parsed.form.termYears).toBe('30');
+    expect(parsed.ruleSet.id).toBe('default');
+  });
+
+  it('rejects unknown fields, bad types and out-of-range values', () => {
+    const parsed = parseScreenRequest({ deal: { ...DEAL, purchase_price: 1, downPct: 120, ratePct: 'six', strMode: 'yes' } });
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.issues.map((i) => i.field).sort()).toEqual(['deal.downPct', 'deal.purchase_price', 'deal.ratePct', 'deal.strMode']);
+  });
+
+  it('rejects invalid nested values under dotted paths', () => {
+    const parsed = parseScreenRequest({
+      deal: {
+        ...DEAL,
+        loanTerms: { kind: 'balloon-ish' },
+        liens: [{ label: 'Seller carry', amount: 'lots' }],
+        units: [{ currentRent: 1500, vacant: 'no' }],
+        brrrr: { rehabItems: [{ cost: 'TBD' }], arv: {} },
+        opex: { items: [{ basis: 'weekly', amount: 100 }] },
+        cashToClose: { lenderFees: 'n/a', feeTypo: 1 },
+        scenarios: [{ overrides: { vacancyPct: 'high' } }],
+      },
+    });
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.issues.map((i) => i.field)).toEqual([
+      'deal.loanTerms.kind',
+      'deal.liens[0].amount',
+      'deal.units[0].vacant',
+      'deal.brrrr.rehabItems[0].cost',
+      'deal.brrrr.arv',
+      'deal.opex.items[0].basis',
+      'deal.cashToClose.lenderFees',
+      'deal.cashToClose.feeTypo',
+      'deal.scenarios[0].overrides.vacancyPct',
+    ]);
+  });
+
+  it('accepts nested numbers as numbers', () => {
+    const parsed = parseScreenRequest({
+      deal: { ...DEAL, liens: [{ label: 'HELOC', kind: 'io', amount: 50000, ratePct: 9 }], opex: { itemized: true, items: [{ basis: 'annual', amount: 1200 }] } },
+    });
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.form.liens[0]).toMatchObject({ kind: 'io', amount: '50000', ratePct: '9' });
+    expect(parsed.form.opex.items[0]).toMatchObject({ basis: 'annual', amount: '1200' });
+  });
+
+  it('requires the income inputs for the chosen mode', () => {
+    const std = parseScreenRequest({ deal: { purchasePrice: 300000 } });
+    expect(!std.ok && std.issues[0].field).toBe('deal.monthlyRent');
+
+    const s8 = parseScreenRequest({ deal: { purchasePrice: 300000, section8Mode: true, hapMonthly: 2000 } });
+    expect(!s8.ok && s8.issues.map((i) => i.field)).toEqual(['deal.tenantPortionMonthly']);
+
+    const units = parseScreenRequest({ deal: { purchasePrice: 300000, units: [{ currentRent: '1500', marketRent: '1500' }] } });
+    expect(units.ok).toBe(true);
+  });
+
+  it('rejects a body that is not an object', () => {
+    expect(parseScreenRequest([DEAL]).ok).toBe(false);
+    expect(parseScreenRequest({}).ok).toBe(false);
+  });
+
+  it('validates a custom rule set', () => {
+    const good = parseScreenRequest({ deal: DEAL, ruleSet: { name: 'Strict', rules: [{ metric: 'dscr', operator: '>=', threshold: '1.4' }] } });
+    expect(good.ok && good.ruleSet.name).toBe('Strict');
+
+    const bad = parseScreenRequest({ deal: DEAL, ruleSet: { rules: [{ metric: 'irr', operator: '>=' }] } });
+    expect(!bad.ok && bad.issues.map((i) => i.field)).toEqual(['ruleSet.rules', 'ruleSet.rules[0].threshold']);
+
+    const threshold = parseScreenRequest({ deal: DEAL, ruleSet: { rules: [{ metric: 'dscr', operator: '>=', threshold: 'high' }] } });
+    expect(!threshold.ok && threshold.issues.map((i) => i.field)).toEqual(['ruleSet.rules[0].threshold']);
+  });
+});
+
+describe('parseBatchRequest', () => {
+  it('reports invalid deals per item without failing the batch', () => {
+    const parsed = parseBatchRequest({ deals: [DEAL, { purchasePrice: -1, monthlyRent: 100 }] });
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.deals[0].form).not.toBeNull();
+    expect(parsed.deals[1].issues[0].field).toBe('deals[1].purchasePrice');
+  });
+
+  it('rejects empty and oversized batches', () => {
+    expect(parseBatchRequest({ deals: [] }).ok).toBe(false);
+    expect(parseBatchRequest({ deals: Array.from({ length: MAX_BATCH_SIZE + 1 }, () => DEAL) }).ok).toBe(false);
+  });
+});
+
+describe('screenDeal', () => {
+  it('returns the verdict with JSON-safe metrics', () => {
+    const parsed = parseScreenRequest({ deal: { ...DEAL, downPct: 100 } });
+    if (!parsed.ok) throw new Error('expected a valid deal');
+    const result = screenDeal(parsed.form, parsed.ruleSet);
+
+    expect(result.verdict).toBe('GO');
+    expect(result.metrics.debtService).toBe(0);
+    expect(result.metrics.dscr).toBeNull(); // Infinity with no debt
+    expect(result.rules.map((r) => r.status)).toContain('pass');
+    expect(JSON.parse(JSON.stringify(result))).toEqual(result);
+  });
+
+  it('explains a No-Go', () => {
+    const parsed = parseScreenRequest({ deal: { ...DEAL, monthlyRent: 1500 } });
+    if (!parsed.ok) throw new Error('expected a valid deal');
+    const result = screenDeal(parsed.form);
+
+    expect(result.verdict).toBe('NO-GO');
+    expect(result.reasons.length).toBeGreaterThan(0);
+    expect(result.nextStep).toMatch(/^Next:/);
+  });
+});
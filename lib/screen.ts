@@ -0,0 +1,261 @@
+import { DEFAULT_BRRRR, newRehabItem } from './brrrr';
+import { DEFAULT_CASH_TO_CLOSE } from './cashToClose';
+import { computeDeal, type DealResult } from './deal';
+import { DEFAULT_FORM, FORM_NUMBER_FIELDS, sanitizeForm, type DealForm } from './dealForm';
+import { DEFAULT_LOAN_TERMS, LOAN_KINDS, newLien } from './loans';
+import { DEFAULT_OPEX, EXPENSE_BASES, EXPENSE_CATEGORIES, newCapexComponent, newExpenseItem } from './opex';
+import { DEFAULT_PROPERTY } from './property';
+import { newUnit } from './rentRoll';
+import { DEFAULT_RULE_SET, sanitizeRuleSet, type RuleSet } from './rules';
+import { SCENARIO_INPUTS, SCENARIO_SHOCKS } from './scenarios';
+import { DEFAULT_SECTION8 } from './section8';
+import { DEFAULT_STR } from './str';
+import { DEFAULT_TAX, PASSIVE_LOSS_MODES } from './tax';
+
+// Programmatic screening (the /api/screen routes). Deals use the same field names
+// as DealForm; numbers may be sent as numbers or numeric strings.
+
+const BOOLEAN_FIELDS = ['section8Mode', 'strMode', 'brrrrMode'] as const;
+
+// What a nested value must look like. Numbers may be blank ("use the default") but not text.
+type Shape = 'number' | 'text' | 'boolean' | { oneOf: string[] } | { items: Shape } | { fields: Record<string, Shape> };
+
+const TEXT_FIELDS = new Set(['id', 'label', 'name', 'address', 'notes', 'zip', 'leaseEnd']);
+
+// Object shape from a form's defaults: strings are numbers unless they are free text.
+function shapeOf(defaults: object, special: Record<string, Shape> = {}): Shape {
+  const fields: Record<string, Shape> = {};
+  for (const [key, value] of Object.entries(defaults)) {
+    fields[key] = special[key] ?? (typeof value === 'boolean' ? 'boolean' : TEXT_FIELDS.has(key) ? 'text' : 'number');
+  }
+  return { fields };
+}
+
+const LOAN_KIND: Shape = { oneOf: LOAN_KINDS.map((k) => k.kind) };
+const keyed = (keys: readonly { key: string }[]): Shape => ({ fields: Object.fromEntries(keys.map((k) => [k.key, 'number' as const])) });
+
+const NESTED_FIELDS: Record<string, Shape> = {
+  property: shapeOf(DEFAULT_PROPERTY),
+  loanTerms: shapeOf(DEFAULT_LOAN_TERMS, { kind: LOAN_KIND }),
+  liens: { items: shapeOf(newLien(''), { kind: LOAN_KIND }) },
+  units: { items: shapeOf(newUnit('')) },
+  brrrr: shapeOf(DEFAULT_BRRRR, { rehabItems: { items: shapeOf(newRehabItem()) } }),
+  str: shapeOf(DEFAULT_STR, { occupancyPct: { items: 'number' } }),
+  section8: shapeOf(DEFAULT_SECTION8),
+  tax: shapeOf(DEFAULT_TAX, { passiveLoss: { oneOf: PASSIVE_LOSS_MODES.map((m) => m.mode) } }),
+  opex: shapeOf(DEFAULT_OPEX, {
+    items: {
+      items: shapeOf(newExpenseItem(), {
+        basis: { oneOf: EXPENSE_BASES.map((b) => b.basis) },
+        category: { oneOf: EXPENSE_CATEGORIES.map((c) => c.category) },
+      }),
+    },
+    components: { items: shapeOf(newCapexComponent()) },
+  }),
+  cashToClose: shapeOf(DEFAULT_CASH_TO_CLOSE),
+  scenarios: { items: { fields: { id: 'text', name: 'text', overrides: keyed(SCENARIO_INPUTS), shocks: keyed(SCENARIO_SHOCKS) } } },
+};
+
+export const MAX_BATCH_SIZE = 500;
+
+export type ScreenIssue = { field: string; message: string };
+
+export type ScreenRequest =
+  | { ok: true; form: DealForm; ruleSet: RuleSet }
+  | { ok: false; issues: ScreenIssue[] };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function toNumber(v: unknown) {
+  return typeof v === 'number' ? v : typeof v === 'string' && v.trim() !== '' ? Number(v) : NaN;
+}
+
+/**
+ * Checks a nested value against its shape, reporting problems under dotted paths
+ * (deal.liens[0].kind). Returns the value with numbers turned into the form's strings.
+ */
+function checkNested(value: unknown, shape: Shape, path: string, issues: ScreenIssue[]): unknown {
+  const issue = (message: string) => issues.push({ field: path, message });
+  if (shape === 'number') {
+    if (value === '') return value;
+    if (!Number.isFinite(toNumber(value))) issue('Expected a number.');
+    return String(value);
+  }
+  if (shape === 'text') {
+    if (typeof value !== 'string') issue('Expected a string.');
+    return value;
+  }
+  if (shape === 'boolean') {
+    if (typeof value !== 'boolean') issue('Expected true or false.');
+    return value;
+  }
+  if ('oneOf' in shape) {
+    if (!shape.oneOf.includes(value as string)) issue(`Expected one of: ${shape.oneOf.join(', ')}.`);
+    return value;
+  }
+  if ('items' in shape) {
+    if (!Array.isArray(value)) {
+      issue('Expected an array.');
+      return value;
+    }
+    return value.map((v, i) => checkNested(v, shape.items, `${path}[${i}]`, issues));
+  }
+  if (!isRecord(value)) {
+    issue('Expected an object.');
+    return value;
+  }
+  const next: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (Object.hasOwn(shape.fields, key)) next[key] = checkNested(v, shape.fields[key], `${path}.${key}`, issues);
+    else issues.push({ field: `${path}.${key}`, message: 'Unknown field.' });
+  }
+  return next;
+}
+
+/**
+ * Checks one deal object field by field. Unknown fields are rejected (they are
+ * usually typos), missing fields take the app defaults, and the income inputs
+ * the chosen mode depends on are required.
+ */
+export function validateDeal(input: unknown, path = 'deal'): { form: DealForm | null; issues: ScreenIssue[] } {
+  if (!isRecord(input)) return { form: null, issues: [{ field: path, message: 'Expected a JSON object.' }] };
+
+  const issues: ScreenIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({ field: `${path}.${field}`, message });
+  const nested: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    if (key in FORM_NUMBER_FIELDS) {
+      // Anything outside the range is rejected rather than clamped.
+      const { min, max } = FORM_NUMBER_FIELDS[key as keyof typeof FORM_NUMBER_FIELDS];
+      const n = toNumber(value);
+      if (!Number.isFinite(n)) issue(key, 'Expected a number.');
+      else if (n < min || n > max) issue(key, `Expected a value from ${min} to ${max}.`);
+    } else if ((BOOLEAN_FIELDS as readonly string[]).includes(key)) {
+      if (typeof value !== 'boolean') issue(key, 'Expected true or false.');
+    } else if (Object.hasOwn(NESTED_FIELDS, key)) {
+      nested[key] = checkNested(value, NESTED_FIELDS[key], `${path}.${key}`, issues);
+    } else {
+      issue(key, 'Unknown field.');
+    }
+  }
+
+  if (input.section8Mode === true && input.strMode === true) issue('strMode', 'Short-term rental and Section 8 modes cannot both be on.');
+
+  const has = (k: string) => input[k] !== undefined;
+  const hasUnits = Array.isArray(input.units) && input.units.length > 0;
+  if (!has('purchasePrice')) issue('purchasePrice', 'Required.');
+  if (input.strMode === true) {
+    if (!has('str')) issue('str', 'Required in short-term rental mode.');
+  } else if (input.section8Mode === true) {
+    if (!hasUnits && !has('tenantPortionMonthly')) issue('tenantPortionMonthly', 'Required in Section 8 mode (or send units).');
+    if (!hasUnits && !has('hapMonthly')) issue('hapMonthly', 'Required in Section 8 mode (or send units).');
+  } else if (!hasUnits && !has('monthlyRent')) {
+    issue('monthlyRent', 'Required (or send units).');
+  }
+  if (input.brrrrMode === true && !has('brrrr')) issue('brrrr', 'Required in BRRRR mode.');
+
+  if (issues.length) return { form: null, issues };
+  return { form: sanitizeForm({ ...DEFAULT_FORM, ...input, ...nested }), issues };
+}
+
+// Optional custom rule set; the default screen applies when none is sent.
+function validateRuleSet(input: unknown, issues: ScreenIssue[]): RuleSet {
+  if (input === undefined) return DEFAULT_RULE_SET;
+  if (!isRecord(input) || !Array.isArray(input.rules)) {
+    issues.push({ field: 'ruleSet', message: 'Expected an object with a rules array.' });
+    return DEFAULT_RULE_SET;
+  }
+  const ruleSet = sanitizeRuleSet(input);
+  if (ruleSet.rules.length !== input.rules.length) {
+    issues.push({ field: 'ruleSet.rules', message: 'Every rule needs a known metric and operator.' });
+  }
+  input.rules.forEach((r, i) => {
+    if (!Number.isFinite(toNumber(isRecord(r) ? r.threshold : undefined))) {
+      issues.push({ field: `ruleSet.rules[${i}].threshold`, message: 'Expected a number.' });
+    }
+  });
+  return ruleSet;
+}
+
+// Body of POST /api/screen: { deal, ruleSet? }.
+export function parseScreenRequest(body: unknown): ScreenRequest {
+  if (!isRecord(body)) return { ok: false, issues: [{ field: 'body', message: 'Expected a JSON object.' }] };
+  const { form, issues } = validateDeal(body.deal);
+  const ruleSet = validateRuleSet(body.ruleSet, issues);
+  return form && !issues.length ? { ok: true, form, ruleSet } : { ok: false, issues };
+}
+
+// Body of POST /api/screen/batch: { deals: [...], ruleSet? }. Invalid deals are reported per item.
+export function parseBatchRequest(body: unknown):
+  | { ok: true; deals: ({ form: DealForm; issues: [] } | { form: null; issues: ScreenIssue[] })[]; ruleSet: RuleSet }
+  | { ok: false; issues: ScreenIssue[] } {
+  if (!isRecord(body)) return { ok: false, issues: [{ field: 'body', message: 'Expected a JSON object.' }] };
+  if (!Array.isArray(body.deals) || !body.deals.length) return { ok: false, issues: [{ field: 'deals', message: 'Expected a non-empty array.' }] };
+  if (body.deals.length > MAX_BATCH_SIZE) return { ok: false, issues: [{ field: 'deals', message: `At most ${MAX_BATCH_SIZE} deals per request.` }] };
+
+  const issues: ScreenIssue[] = [];
+  const ruleSet = validateRuleSet(body.ruleSet, issues);
+  if (issues.length) return { ok: false, issues };
+
+  const deals = body.deals.map((d, i) => {
+    const { form, issues: dealIssues } = validateDeal(d, `deals[${i}]`);
+    return form ? { form, issues: [] as [] } : { form: null, issues: dealIssues };
+  });
+  return { ok: true, deals, ruleSet };
+}
+
+// JSON has no Infinity / NaN: undefined metrics become null.
+function num(n: number) {
+  return Number.isFinite(n) ? Math.round(n * 1e6) / 1e6 : null;
+}
+
+export type ScreenResult = ReturnType<typeof screenResult>;
+
+export function screenResult(r: DealResult) {
+  const d = r.decision;
+  return {
+    verdict: d.isGo ? 'GO' : 'NO-GO',
+    isGo: d.isGo,
+    ruleSet: d.ruleSetName,
+    reasons: d.reasons,
+    warnings: d.warnings,
+    nextStep: d.nextStep,
+    rules: d.outcomes.map((o) => ({
+      metric: o.rule.metric,
+      label: o.label,
+      severity: o.rule.severity,
+      status: o.status,
+      value: num(o.value),
+      text: o.text,
+    })),
+    metrics: {
+      rent: num(r.rent),
+      grossIncome: num(r.grossIncome),
+      effectiveIncome: num(r.effectiveIncome),
+      operatingExpenses: num(r.fixedCostsNoDebt + r.percentCosts),
+      noiMonthly: num(r.noiMonthly),
+      debtService: num(r.mortgagePI),
+      peakDebtService: num(r.peakDebtService),
+      netCashFlow: num(r.netCashFlow),
+      capRate: num(r.capRate),
+      cashOnCash: num(r.cashOnCash),
+      dscr: num(r.dscr),
+      dscrAtPeak: num(r.dscrAtPeak),
+      breakEvenRent: num(r.breakEvenRent),
+      totalReturn: num(r.totalReturn),
+      principalPaydownYear1: num(r.principalPaydownYear1),
+      loan: num(r.loan),
+      downPayment: num(r.downPayment),
+      cashInvested: num(r.cashInvested),
+      propertyValue: num(r.propertyValue),
+      infiniteReturn: r.infiniteReturn,
+    },
+  };
+}
+
+export function screenDeal(form: DealForm, ruleSet: RuleSet = DEFAULT_RULE_SET) {
+  return screenResult(computeDeal(form, ruleSet));
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_SECTION8, estimateVoucher, lookupPaymentStandard, parsePaymentStandardCsv, sanitizeSection8 } from './section8';
+
+describe('parsePaymentStandardCsv', () => {
+  it('reads the long layout and counts unusable rows', () => {
+    const { rows, skipped, error } = parsePaymentStandardCsv('ZIP,Bedrooms,Payment Standard\n30301-1234,2,1850\n30302,3,\n,1,1200');
+    expect(error).toBeNull();
+    expect(rows).toEqual([{ zip: '30301', bedrooms: 2, amount: 1850 }]);
+    expect(skipped).toBe(2);
+  });
+
+  it('reads the wide layout with one column per bedroom size', () => {
+    const { rows, skipped } = parsePaymentStandardCsv('Zip Code,0BR,1 BR,2-bedroom\n30301,1200,1400,\n');
+    expect(rows).toEqual([
+      { zip: '30301', bedrooms: 0, amount: 1200 },
+      { zip: '30301', bedrooms: 1, amount: 1400 },
+    ]);
+    expect(skipped).toBe(1);
+  });
+
+  it('explains what is missing instead of importing nothing silently', () => {
+    expect(parsePaymentStandardCsv('').error).toBe('The file is empty.');
+    expect(parsePaymentStandardCsv('City,Amount\nAtlanta,1000').error).toMatch(/No ZIP column/);
+    expect(parsePaymentStandardCsv('ZIP,Amount\n30301,1000').error).toMatch(/Bedrooms/);
+  });
+});
+
+describe('lookupPaymentStandard', () => {
+  it('matches the five-digit ZIP and bedroom count', () => {
+    const rows = [{ zip: '30301', bedrooms: 2, amount: 1850 }];
+    expect(lookupPaymentStandard(rows, ' 30301-0001', 2)).toBe(1850);
+    expect(lookupPaymentStandard(rows, '30301', 3)).toBeNull();
+  });
+});
+
+describe('estimateVoucher', () => {
+  // $24k adjusted income: TTP is $600/mo and the 40% affordability cap $800/mo.
+  const estimate = (contractRent: number, utilityAllowance = 100) =>
+    estimateVoucher({ paymentStandard: 1800, utilityAllowance, annualAdjustedIncome: 24000, contractRent });
+
+  it('pays HAP on gross rent within the payment standard, less TTP', () => {
+    const e = estimate(1500);
+    expect(e.ttp).toBe(600);
+    expect(e.grossRent).toBe(1600);
+    expect(e.hap).toBe(1000);
+    expect(e.tenantPortion).toBe(500); // family share of $600 less the $100 allowance
+    expect(e.exceedsStandard).toBe(false);
+    expect(e.coveredContractRent).toBe(1700);
+  });
+
+  it('leaves rent above the payment standard to the family, up to the 40% cap', () => {
+    const e = estimate(1900);
+    expect(e.hap).toBe(1200);
+    expect(e.tenantPortion).toBe(700);
+    expect(e.exceedsStandard).toBe(true);
+    expect(e.exceedsAffordability).toBe(false);
+    expect(e.maxContractRent).toBe(1900); // 1800 − 600 + 800 − 100
+    expect(estimate(1950).exceedsAffordability).toBe(true);
+  });
+
+  it('reimburses the family when the utility allowance exceeds its share', () => {
+    const e = estimateVoucher({ paymentStandard: 1800, utilityAllowance: 250, annualAdjustedIncome: 6000, contractRent: 1400 });
+    expect(e.ttp).toBe(150);
+    expect(e.tenantPortion).toBe(0);
+    expect(e.utilityReimbursement).toBe(100);
+  });
+});
+
+describe('sanitizeSection8', () => {
+  it('keeps known fields as strings and defaults the rest', () => {
+    expect(sanitizeSection8({ zip: 30301, bedrooms: null })).toEqual({ ...DEFAULT_SECTION8, zip: '30301' });
+  });
+});
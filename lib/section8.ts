@@ -0,0 +1,182 @@
+import { parseCsv } from './csv';
+import { toNum } from './format';
+
+// Voucher helper inputs (saved with the deal); the payment standard table is browser-local.
+export type Section8Form = {
+  zip: string;
+  bedrooms: string;
+  paymentStandard: string; // blank: look up ZIP + bedrooms in the imported table
+  utilityAllowance: string; // monthly, for tenant-paid utilities
+  annualAdjustedIncome: string; // household income after HUD deductions
+  contractRent: string; // blank: current tenant portion + HAP
+};
+
+export const DEFAULT_SECTION8: Section8Form = {
+  zip: '',
+  bedrooms: '2',
+  paymentStandard: '',
+  utilityAllowance: '0',
+  annualAdjustedIncome: '0',
+  contractRent: '',
+};
+
+export type PaymentStandardRow = { zip: string; bedrooms: number; amount: number };
+
+const ZIP_HEADERS = ['zip', 'zipcode', 'zip code', 'zip_code', 'postal code'];
+const BEDROOM_HEADERS = ['bedrooms', 'bedroom', 'beds', 'br', 'bedroom count'];
+const AMOUNT_HEADERS = ['payment standard', 'payment_standard', 'paymentstandard', 'amount', 'ps', 'standard'];
+
+function normalizeZip(v: string) {
+  return v.trim().replace(/^(\d{5}).*$/, '$1');
+}
+
+/**
+ * Accepts either a long table (ZIP, bedrooms, payment standard) or the wide layout
+ * housing authorities publish (ZIP, 0BR, 1BR, 2BR, …). Unreadable rows are counted
+ * as skipped rather than failing the import.
+ */
+export function parsePaymentStandardCsv(text: string): { rows: PaymentStandardRow[]; skipped: number; error: string | null } {
+  const [header, ...data] = parseCsv(text);
+  if (!header) return { rows: [], skipped: 0, error: 'The file is empty.' };
+
+  const h = header.map((c) => c.trim().toLowerCase());
+  const zipCol = h.findIndex((c) => ZIP_HEADERS.includes(c));
+  if (zipCol < 0) return { rows: [], skipped: 0, error: 'No ZIP column found (expected a “ZIP” header).' };
+
+  const rows: PaymentStandardRow[] = [];
+  let skipped = 0;
+
+  // Wide layout: one column per bedroom size, e.g. "0BR", "2 BR", "3 Bedroom".
+  const bedCols = h
+    .map((c, i) => ({ i, m: /^(\d+)\s*-?\s*(br|bd|bed|bedroom|bedrooms)$/.exec(c) }))
+    .filter((c): c is { i: number; m: RegExpExecArray } => c.m !== null);
+
+  if (bedCols.length) {
+    for (const r of data) {
+      const zip = normalizeZip(r[zipCol] ?? '');
+      for (const { i, m } of bedCols) {
+        const amount = toNum(r[i] ?? '');
+        if (zip && amount > 0) rows.push({ zip, bedrooms: Number(m[1]), amount });
+        else skipped++;
+      }
+    }
+    return { rows, skipped, error: null };
+  }
+
+  const bedCol = h.findIndex((c) => BEDROOM_HEADERS.includes(c));
+  const amountCol = h.findIndex((c) => AMOUNT_HEADERS.includes(c));
+  if (bedCol < 0 || amountCol < 0) {
+    return { rows: [], skipped: 0, error: 'Expected “Bedrooms” and “Payment standard” columns, or 0BR…5BR columns.' };
+  }
+
+  for (const r of data) {
+    const zip = normalizeZip(r[zipCol] ?? '');
+    const bedrooms = Math.round(toNum(r[bedCol] ?? ''));
+    const amount = toNum(r[amountCol] ?? '');
+    if (zip && amount > 0) rows.push({ zip, bedrooms, amount });
+    else skipped++;
+  }
+  return { rows, skipped, error: null };
+}
+
+export function lookupPaymentStandard(rows: PaymentStandardRow[], zip: string, bedrooms: number) {
+  const z = normalizeZip(zip);
+  return rows.find((r) => r.zip === z && r.bedrooms === bedrooms)?.amount ?? null;
+}
+
+export type VoucherEstimate = {
+  paymentStandard: number;
+  grossRent: number; // contract rent + utility allowance
+  ttp: number; // total tenant payment, 30% of adjusted monthly income
+  hap: number;
+  tenantPortion: number; // paid to the owner (0 when the UA exceeds the family share)
+  utilityReimbursement: number;
+  coveredContractRent: number; // highest contract rent fully inside the payment standard
+  maxContractRent: number; // 40%-of-income affordability cap at initial lease-up
+  exceedsStandard: boolean;
+  exceedsAffordability: boolean;
+};
+
+/**
+ * HCV rent math: HAP is the lesser of the payment standard and gross rent, minus
+ * the family's TTP (30% of adjusted income). At initial lease-up the family share
+ * may not exceed 40% of adjusted monthly income, which caps the contract rent.
+ */
+export function estimateVoucher(args: {
+  paymentStandard: number;
+  utilityAllowance: number;
+  annualAdjustedIncome: number;
+  contractRent: number;
+}): VoucherEstimate {
+  const ps = Math.max(0, args.paymentStandard);
+  const ua = Math.max(0, args.utilityAllowance);
+  const monthlyIncome = Math.max(0, args.annualAdjustedIncome) / 12;
+  const rent = Math.max(0, args.contractRent);
+
+  const ttp = monthlyIncome * 0.3;
+  const grossRent = rent + ua;
+  const hap = Math.max(0, Math.min(ps, grossRent) - ttp);
+  const familyShare = grossRent - hap;
+  const maxGrossRent = ps > 0 ? ps - ttp + monthlyIncome * 0.4 : 0;
+
+  return {
+    paymentStandard: ps,
+    grossRent,
+    ttp,
+    hap,
+    tenantPortion: Math.max(0, familyShare - ua),
+    utilityReimbursement: Math.max(0, ua - familyShare),
+    coveredContractRent: Math.max(0, ps - ua),
+    maxContractRent: Math.max(0, Math.max(ps, maxGrossRent) - ua),
+    exceedsStandard: grossRent > ps,
+    exceedsAffordability: familyShare > monthlyIncome * 0.4,
+  };
+}
+
+// ---- Payment standard table (browser-local) ----
+
+const STORAGE_KEY = 'dqc.paymentStandards.v1';
+
+export function loadPaymentStandards(): PaymentStandardRow[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((r): r is PaymentStandardRow => !!r && typeof r.zip === 'string' && typeof r.bedrooms === 'number' && typeof r.amount === 'number');
+  } catch {
+    return [];
+  }
+}
+
+// Returns false when the browser refuses the write (quota, private mode).
+export function savePaymentStandards(rows: PaymentStandardRow[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rows));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Rebuilds helper inputs from stored or shared JSON; unknown fields fall back to defaults.
+export function sanitizeSection8(input: unknown): Section8Form {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const str = (k: keyof Section8Form) => (typeof o[k] === 'string' || typeof o[k] === 'number' ? String(o[k]) : DEFAULT_SECTION8[k]);
+  return {
+    zip: str('zip'),
+    bedrooms: str('bedrooms'),
+    paymentStandard: str('paymentStandard'),
+    utilityAllowance: str('utilityAllowance'),
+    annualAdjustedIncome: str('annualAdjustedIncome'),
+    contractRent: str('contractRent'),
+  };
+}
+
+export function parseSection8(raw: string): Section8Form | null {
+  try {
+    return sanitizeSection8(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeDeal } from './deal';
+import { DEFAULT_FORM } from './dealForm';
+import { itemizeFlatExpenses } from './opex';
+import { newUnit } from './rentRoll';
+import { DEFAULT_RULE_SET } from './rules';
+import { SENSITIVITY_VARS, applyShock, shockLabel, tornado, twoWayTable } from './sensitivity';
+
+describe('applyShock', () => {
+  it('moves relative inputs by percent and the others by points', () => {
+    expect(applyShock(DEFAULT_FORM, 'price', -10).purchasePrice).toBe('450000');
+    expect(applyShock(DEFAULT_FORM, 'rate', 1).ratePct).toBe('7.75');
+    expect(applyShock(DEFAULT_FORM, 'vacancy', -2).vacancyPct).toBe('3');
+  });
+
+  it('never pushes an input below zero', () => {
+    expect(applyShock({ ...DEFAULT_FORM, ratePct: '0.5' }, 'rate', -1).ratePct).toBe('0');
+    expect(applyShock({ ...DEFAULT_FORM, vacancyPct: '2' }, 'vacancy', -4).vacancyPct).toBe('0');
+  });
+
+  it('moves rent in every income mode', () => {
+    const units = [{ ...newUnit('A'), currentRent: '1500', marketRent: '1600' }];
+    const shocked = applyShock({ ...DEFAULT_FORM, units }, 'rent', 10);
+    expect(shocked.monthlyRent).toBe('4400');
+    expect(shocked.hapMonthly).toBe('3520');
+    expect(shocked.units[0]).toMatchObject({ currentRent: '1650', marketRent: '1760' });
+    expect(shocked.str.adr).toBe('275');
+  });
+
+  it('scales itemized lines along with the flat inputs', () => {
+    const form = { ...DEFAULT_FORM, opex: itemizeFlatExpenses(DEFAULT_FORM) };
+    const base = computeDeal(form);
+    const shocked = computeDeal(applyShock(form, 'expenses', 10));
+    expect(shocked.fixedCostsNoDebt + shocked.percentCosts).toBeCloseTo(1.1 * (base.fixedCostsNoDebt + base.percentCosts), 2);
+  });
+});
+
+describe('shockLabel', () => {
+  it('shows the resulting value for price, rate and vacancy and the delta otherwise', () => {
+    expect(shockLabel(DEFAULT_FORM, 'rate', -0.5)).toBe('6.25%');
+    expect(shockLabel(DEFAULT_FORM, 'vacancy', 4)).toBe('9%');
+    expect(shockLabel(DEFAULT_FORM, 'rent', 5)).toBe('+5%');
+    expect(shockLabel(DEFAULT_FORM, 'expenses', -10)).toBe('-10%');
+  });
+});
+
+describe('twoWayTable', () => {
+  it('has one cell per step pair, with the unshocked deal at the center', () => {
+    const t = twoWayTable(DEFAULT_FORM, DEFAULT_RULE_SET, 'rent', 'rate');
+    expect(t.cells).toHaveLength(7);
+    expect(t.cells.every((row) => row.length === 7)).toBe(true);
+    const center = t.cells[3][3];
+    expect(center.netCashFlow).toBeCloseTo(computeDeal(DEFAULT_FORM, DEFAULT_RULE_SET).netCashFlow, 8);
+    // Cash flow rises with rent (down the rows) and falls with the rate (across).
+    expect(t.cells[6][3].netCashFlow).toBeGreaterThan(center.netCashFlow);
+    expect(t.cells[3][6].netCashFlow).toBeLessThan(center.netCashFlow);
+  });
+});
+
+describe('tornado', () => {
+  it('ranks every input by how far it swings cash flow', () => {
+    const t = tornado(DEFAULT_FORM, DEFAULT_RULE_SET);
+    expect(t.base).toBeCloseTo(computeDeal(DEFAULT_FORM).netCashFlow, 8);
+    expect(t.bars.map((b) => b.key).sort()).toEqual(SENSITIVITY_VARS.map((v) => v.key).sort());
+    t.bars.slice(1).forEach((b, i) => expect(b.swing).toBeLessThanOrEqual(t.bars[i].swing));
+    const rent = t.bars.find((b) => b.key === 'rent');
+    expect(rent?.swing).toBeCloseTo(Math.abs(rent!.high - rent!.low), 8);
+  });
+});
@@ -0,0 +1,150 @@
+import { money, toNum } from './format';
+import { computeDeal } from './deal';
+import type { DealForm } from './dealForm';
+import { scaleUnits } from './rentRoll';
+import { scaleAdr } from './str';
+import type { RuleSet } from './rules';
+
+export type SensitivityVar = 'price' | 'rate' | 'rent' | 'vacancy' | 'expenses';
+
+export type SensitivityVarDef = {
+  key: SensitivityVar;
+  label: string;
+  steps: number[]; // deltas used for the two-way table axes
+  tornado: [number, number]; // low / high deltas for the tornado chart
+  relative: boolean; // true: deltas are % changes; false: percentage-point shifts
+};
+
+export const SENSITIVITY_VARS: SensitivityVarDef[] = [
+  { key: 'price', label: 'Purchase price', steps: [-20, -10, -5, 0, 5, 10, 20], tornado: [-10, 10], relative: true },
+  { key: 'rate', label: 'Interest rate', steps: [-1.5, -1, -0.5, 0, 0.5, 1, 1.5], tornado: [-1, 1], relative: false },
+  { key: 'rent', label: 'Rent', steps: [-15, -10, -5, 0, 5, 10, 15], tornado: [-10, 10], relative: true },
+  { key: 'vacancy', label: 'Vacancy', steps: [-4, -2, 0, 2, 4, 6, 8], tornado: [-3, 5], relative: false },
+  { key: 'expenses', label: 'Operating expenses', steps: [-20, -10, -5, 0, 5, 10, 20], tornado: [-10, 10], relative: true },
+];
+
+export function sensitivityVar(key: SensitivityVar) {
+  return SENSITIVITY_VARS.find((v) => v.key === key) ?? SENSITIVITY_VARS[0];
+}
+
+function fmt(n: number) {
+  return String(Math.round(n * 10000) / 10000);
+}
+
+function scale(v: string, factor: number) {
+  return fmt(Math.max(0, toNum(v) * factor));
+}
+
+function shift(v: string, pts: number) {
+  return fmt(Math.max(0, toNum(v) + pts));
+}
+
+// Returns a copy of the form with one input moved by `delta` (see SensitivityVarDef.relative).
+export function applyShock(form: DealForm, key: SensitivityVar, delta: number): DealForm {
+  const f = 1 + delta / 100;
+  switch (key) {
+    case 'price':
+      return { ...form, purchasePrice: scale(form.purchasePrice, f) };
+    case 'rate':
+      return { ...form, ratePct: shift(form.ratePct, delta) };
+    case 'rent':
+      return {
+        ...form,
+        monthlyRent: scale(form.monthlyRent, f),
+        tenantPortionMonthly: scale(form.tenantPortionMonthly, f),
+        hapMonthly: scale(form.hapMonthly, f),
+        units: scaleUnits(form.units, f),
+        str: scaleAdr(form.str, f),
+      };
+    case 'vacancy':
+      return { ...form, vacancyPct: shift(form.vacancyPct, delta) };
+    case 'expenses':
+      return {
+        ...form,
+        taxesMonthly: scale(form.taxesMonthly, f),
+        insuranceMonthly: scale(form.insuranceMonthly, f),
+        hoaMonthly: scale(form.hoaMonthly, f),
+        utilitiesMonthly: scale(form.utilitiesMonthly, f),
+        inspectionReserveMonthly: scale(form.inspectionReserveMonthly, f),
+        repairsPct: scale(form.repairsPct, f),
+        capexPct: scale(form.capexPct, f),
+        mgmtPct: scale(form.mgmtPct, f),
+        opex: {
+          ...form.opex,
+          items: form.opex.items.map((i) => ({ ...i, amount: scale(i.amount, f) })),
+          components: form.opex.components.map((c) => ({ ...c, cost: scale(c.cost, f) })),
+          managementPct: scale(form.opex.managementPct, f),
+          managementMinimum: scale(form.opex.managementMinimum, f),
+          leasingFeePct: scale(form.opex.leasingFeePct, f),
+        },
+      };
+  }
+}
+
+// Axis label showing the resulting input value where that reads better than a delta.
+export function shockLabel(form: DealForm, key: SensitivityVar, delta: number) {
+  const shocked = applyShock(form, key, delta);
+  const sign = delta > 0 ? '+' : '';
+  switch (key) {
+    case 'price':
+      return money(toNum(shocked.purchasePrice));
+    case 'rate':
+      return `${toNum(shocked.ratePct).toFixed(2)}%`;
+    case 'rent':
+      return `${sign}${delta}%`;
+    case 'vacancy':
+      return `${toNum(shocked.vacancyPct)}%`;
+    case 'expenses':
+      return `${sign}${delta}%`;
+  }
+}
+
+export type SensitivityCell = { netCashFlow: number; dscr: number; isGo: boolean };
+
+export function twoWayTable(form: DealForm, ruleSet: RuleSet, rowVar: SensitivityVar, colVar: SensitivityVar) {
+  const rowDef = sensitivityVar(rowVar);
+  const colDef = sensitivityVar(colVar);
+
+  const cells: SensitivityCell[][] = rowDef.steps.map((rd) =>
+    colDef.steps.map((cd) => {
+      const r = computeDeal(applyShock(applyShock(form, rowVar, rd), colVar, cd), ruleSet);
+      return { netCashFlow: r.netCashFlow, dscr: r.dscr, isGo: r.decision.isGo };
+    }),
+  );
+
+  return {
+    rows: rowDef.steps.map((d) => ({ delta: d, label: shockLabel(form, rowVar, d) })),
+    cols: colDef.steps.map((d) => ({ delta: d, label: shockLabel(form, colVar, d) })),
+    cells,
+  };
+}
+
+export type TornadoBar = {
+  key: SensitivityVar;
+  label: string;
+  lowLabel: string;
+  highLabel: string;
+  low: number; // monthly cash flow at the low shock
+  high: number; // monthly cash flow at the high shock
+  swing: number;
+};
+
+// Monthly cash flow at each input's low/high shock, ranked by how far it moves the result.
+export function tornado(form: DealForm, ruleSet: RuleSet) {
+  const base = computeDeal(form, ruleSet).netCashFlow;
+  const bars: TornadoBar[] = SENSITIVITY_VARS.map((v) => {
+    const [lo, hi] = v.tornado;
+    const low = computeDeal(applyShock(form, v.key, lo), ruleSet).netCashFlow;
+    const high = computeDeal(applyShock(form, v.key, hi), ruleSet).netCashFlow;
+    return {
+      key: v.key,
+      label: v.label,
+      lowLabel: shockLabel(form, v.key, lo),
+      highLabel: shockLabel(form, v.key, hi),
+      low,
+      high,
+      swing: Math.abs(high - low),
+    };
+  });
+  return { base, bars: bars.sort((a, b) => b.swing - a.swing) };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_FORM } from './dealForm';
+import { newUnit } from './rentRoll';
+import { DEFAULT_RULE_SET } from './rules';
+import { SHARE_VERSION, decodeShareParams, encodeShareParams, validateSharedForm } from './shareLink';
+
+const decode = (query: string) => decodeShareParams(new URLSearchParams(query), DEFAULT_FORM);
+const b64 = (value: unknown) => btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('encodeShareParams / decodeShareParams', () => {
+  it('round-trips a short deal as plain JSON carrying only changed inputs', async () => {
+    const form = { ...DEFAULT_FORM, purchasePrice: '325000', strMode: true };
+    const params = await encodeShareParams(form, null);
+    expect(params.get('v')).toBe(String(SHARE_VERSION));
+    expect(params.has('d')).toBe(true);
+    expect(Object.keys(JSON.parse(atob(params.get('d')!.replace(/-/g, '+').replace(/_/g, '/'))).f)).toEqual(['strMode', 'purchasePrice']);
+
+    const shared = await decodeShareParams(params, DEFAULT_FORM);
+    expect(shared?.form).toEqual(form);
+    expect(shared?.notices).toEqual([]);
+  });
+
+  it('compresses long deals and rule sets and restores them (unit ids regenerated)', async () => {
+    const units = Array.from({ length: 12 }, (_, i) => ({ ...newUnit(`Unit ${i + 1}`), currentRent: '1450', marketRent: '1600' }));
+    const params = await encodeShareParams({ ...DEFAULT_FORM, units }, DEFAULT_RULE_SET);
+    expect(params.has('z')).toBe(true);
+
+    const shared = await decodeShareParams(params, DEFAULT_FORM);
+    expect(shared?.form?.units.map((u) => [u.label, u.currentRent])).toEqual(units.map((u) => [u.label, '1450']));
+    expect(shared?.ruleSet).toEqual(DEFAULT_RULE_SET);
+  });
+
+  it('still loads legacy one-param-per-input links', async () => {
+    const shared = await decode('p=410000&dp=20&rent=3100&m=s8&rules=' + encodeURIComponent(JSON.stringify(DEFAULT_RULE_SET)));
+    expect(shared?.form).toMatchObject({ purchasePrice: '410000', downPct: '20', monthlyRent: '3100', section8Mode: true });
+    expect(shared?.ruleSet?.name).toBe(DEFAULT_RULE_SET.name);
+  });
+
+  it('reads property taxes from `tax` and the tax helper from `tx`', async () => {
+    const helper = encodeURIComponent(JSON.stringify({ landPct: '25', marginalRatePct: '32' }));
+    const shared = await decode(`p=410000&tax=610&tx=${helper}`);
+    expect(shared?.form?.taxesMonthly).toBe('610');
+    expect(shared?.form?.tax).toMatchObject({ landPct: '25', marginalRatePct: '32' });
+    expect(shared?.notices).toEqual([]);
+  });
+
+  it('recovers links whose `tax` param held the tax helper', async () => {
+    const shared = await decode(`p=410000&tax=${encodeURIComponent(JSON.stringify({ landPct: '25' }))}`);
+    expect(shared?.form?.taxesMonthly).toBe(DEFAULT_FORM.taxesMonthly);
+    expect(shared?.form?.tax.landPct).toBe('25');
+    expect(shared?.notices).toHaveLength(1);
+    expect(shared?.notices[0]).toMatch(/property taxes/);
+  });
+
+  it('returns null when the URL carries no deal', async () => {
+    expect(await decode('')).toBeNull();
+  });
+
+  it('clamps out-of-range values and reports unknown or mistyped inputs', async () => {
+    const shared = await decode(`v=2&d=${b64({ f: { downPct: '140', ratePct: 'abc', colour: 'red', liens: 'none' } })}`);
+    expect(shared?.form).toMatchObject({ downPct: '100', ratePct: DEFAULT_FORM.ratePct, liens: [] });
+    expect(shared?.notices).toHaveLength(4);
+    expect(shared?.notices.join(' ')).toMatch(/Down payment 140 is outside 0–100/);
+  });
+
+  it('refuses damaged links and links from newer versions', async () => {
+    const damaged = await decode('v=2&d=eyJmIjp7InB1cmNo');
+    expect(damaged?.form).toBeNull();
+    expect(damaged?.notices[0]).toMatch(/damaged/);
+    const newer = await decode(`v=${SHARE_VERSION + 1}&d=e30`);
+    expect(newer?.form).toBeNull();
+    expect(newer?.notices[0]).toMatch(/newer version/);
+  });
+});
+
+describe('validateSharedForm', () => {
+  it('resolves conflicting income modes', () => {
+    const { form, notices } = validateSharedForm({ ...DEFAULT_FORM, section8Mode: true, strMode: true });
+    expect(form.section8Mode).toBe(false);
+    expect(notices).toHaveLength(1);
+  });
+
+  it('leaves valid and blank inputs alone', () => {
+    expect(validateSharedForm({ ...DEFAULT_FORM, closingCosts: '' }).notices).toEqual([]);
+  });
+});
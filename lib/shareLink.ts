@@ -0,0 +1,198 @@
+import { DEFAULT_FORM, FORM_NUMBER_FIELDS, isLegacyTaxParam, readFormParams, sanitizeForm, type DealForm, type StringKey } from './dealForm';
+import { sanitizeRuleSet, type RuleSet } from './rules';
+import type { Scenario, ScenarioInput } from './scenarios';
+
+// Share links, version 2: `?v=2&d=<payload>` with base64url JSON, or `&z=` for the
+// same JSON deflated. The payload is { f: inputs that differ from DEFAULT_FORM, r?: rule set }.
+// Links without `v` are the original one-param-per-input format and still load.
+//
+// v2 payloads are diffs against DEFAULT_FORM. If a default ever changes, freeze the
+// old defaults for v2 links and bump SHARE_VERSION.
+export const SHARE_VERSION = 2;
+
+// Deflate payloads longer than this (rent rolls, liens, rehab lists); short links stay plain.
+const COMPRESS_OVER = 600;
+
+// Ids are regenerated on load, so they are left out of links.
+const withoutIds = (key: string, value: unknown) => (key === 'id' ? undefined : value);
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+  return new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+/** Query params for a v2 share link. */
+export async function encodeShareParams(form: DealForm, ruleSet: RuleSet | null): Promise<URLSearchParams> {
+  const diff: Partial<Record<keyof DealForm, unknown>> = {};
+  for (const key of Object.keys(form) as (keyof DealForm)[]) {
+    const value = JSON.stringify(form[key], withoutIds);
+    if (value !== JSON.stringify(DEFAULT_FORM[key], withoutIds)) diff[key] = JSON.parse(value);
+  }
+  const json = JSON.stringify(ruleSet ? { f: diff, r: ruleSet } : { f: diff });
+  const bytes = new TextEncoder().encode(json);
+
+  const params = new URLSearchParams({ v: String(SHARE_VERSION) });
+  if (bytes.length > COMPRESS_OVER) {
+    const deflated = await transform(bytes, new CompressionStream('deflate-raw'));
+    if (deflated.length < bytes.length) {
+      params.set('z', toBase64Url(deflated));
+      return params;
+    }
+  }
+  params.set('d', toBase64Url(bytes));
+  return params;
+}
+
+export type SharedDeal = {
+  form: DealForm | null; // null when the link could not be used at all
+  ruleSet: RuleSet | null;
+  notices: string[]; // what was clamped, reset or ignored, for the user to see
+};
+
+// Range check for one numeric input: unreadable values fall back, out-of-range ones are clamped.
+function checkNumber(key: StringKey, raw: string, fallback: string): { value: string; notice: string | null } {
+  const { label, min, max } = FORM_NUMBER_FIELDS[key];
+  const value = raw.trim();
+  if (value === '') return { value, notice: null };
+  const n = Number(value.replace(/[$,%\s]/g, ''));
+  if (!Number.isFinite(n)) {
+    return { value: fallback, notice: fallback ? `${label} “${value}” is not a number; using ${fallback}.` : `${label} “${value}” is not a number; ignored.` };
+  }
+  if (n < min || n > max) {
+    const clamped = String(n < min ? min : max);
+    return { value: clamped, notice: `${label} ${value} is outside ${min}–${max}; set to ${clamped}.` };
+  }
+  return { value: raw, notice: null };
+}
+
+/**
+ * Checks a shared form the way a user would have typed it: numbers outside their
+ * range are clamped, unreadable numbers fall back to the default, and conflicting
+ * income modes are resolved. Every change is reported.
+ */
+export function validateSharedForm(form: DealForm): { form: DealForm; notices: string[] } {
+  const next = { ...form };
+  const notices: string[] = [];
+
+  for (const key of Object.keys(FORM_NUMBER_FIELDS) as StringKey[]) {
+    const checked = checkNumber(key, next[key], DEFAULT_FORM[key]);
+    next[key] = checked.value;
+    if (checked.notice) notices.push(checked.notice);
+  }
+
+  // Scenario overrides get the same checks; an unreadable one is dropped (the base input applies).
+  next.scenarios = form.scenarios.map((s) => {
+    const overrides: Scenario['overrides'] = {};
+    for (const [key, raw] of Object.entries(s.overrides) as [ScenarioInput, string][]) {
+      const checked = checkNumber(key, raw, '');
+      if (checked.value) overrides[key] = checked.value;
+      if (checked.notice) notices.push(`${s.name}: ${checked.notice}`);
+    }
+    return { ...s, overrides };
+  });
+
+  if (next.section8Mode && next.strMode) {
+    next.section8Mode = false;
+    notices.push('Section 8 and short-term rental modes were both on; using short-term rental.');
+  }
+  return { form: next, notices };
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+// Same shape as the default value (numbers are accepted for text inputs).
+function fitsInput(key: keyof DealForm, value: unknown) {
+  const d = DEFAULT_FORM[key];
+  if (typeof d === 'boolean') return typeof value === 'boolean';
+  if (typeof d === 'string') return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+  return Array.isArray(d) ? Array.isArray(value) : isRecord(value);
+}
+
+function sharedRuleSet(input: unknown, notices: string[]): RuleSet | null {
+  if (input === undefined || input === null) return null;
+  if (!isRecord(input) || !Array.isArray(input.rules)) {
+    notices.push('The shared rule set was unreadable; your current rule set stays active.');
+    return null;
+  }
+  const ruleSet = sanitizeRuleSet(input);
+  const dropped = input.rules.length - ruleSet.rules.length;
+  if (dropped > 0) notices.push(`${dropped} shared rule${dropped > 1 ? 's' : ''} could not be read and ${dropped > 1 ? 'were' : 'was'} skipped.`);
+  return ruleSet;
+}
+
+async function readPayload(params: URLSearchParams): Promise<unknown> {
+  const z = params.get('z');
+  const bytes = z !== null ? await transform(fromBase64Url(z), new DecompressionStream('deflate-raw')) : fromBase64Url(params.get('d') ?? '');
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+/**
+ * Reads any share link. Returns null when the URL carries no deal. Legacy links
+ * keep unspecified inputs from `base`; v2 links start from the defaults.
+ */
+export async function decodeShareParams(params: URLSearchParams, base: DealForm): Promise<SharedDeal | null> {
+  if (params.size === 0) return null;
+
+  const version = params.has('v') ? Number(params.get('v')) : 1;
+  if (!Number.isInteger(version) || version < 1) {
+    return { form: null, ruleSet: null, notices: ['This share link has an unknown format and was not loaded.'] };
+  }
+  if (version > SHARE_VERSION) {
+    return { form: null, ruleSet: null, notices: ['This share link was made by a newer version of the app and could not be loaded.'] };
+  }
+
+  if (version === 1) {
+    const notices: string[] = [];
+    let ruleSet: RuleSet | null = null;
+    const rules = params.get('rules');
+    if (rules) {
+      try {
+        ruleSet = sharedRuleSet(JSON.parse(rules), notices);
+      } catch {
+        notices.push('The shared rule set was unreadable; your current rule set stays active.');
+      }
+    }
+    if (isLegacyTaxParam(params)) {
+      notices.push(`This link was made by an older version that did not keep the monthly property taxes; using ${base.taxesMonthly}. Check the taxes input.`);
+    }
+    const checked = validateSharedForm(readFormParams(params, base));
+    return { form: checked.form, ruleSet, notices: [...checked.notices, ...notices] };
+  }
+
+  let payload: unknown;
+  try {
+    payload = await readPayload(params);
+  } catch {
+    payload = null;
+  }
+  if (!isRecord(payload) || !isRecord(payload.f)) {
+    return { form: null, ruleSet: null, notices: ['This share link is damaged (it may have been cut off) and was not loaded.'] };
+  }
+
+  const notices: string[] = [];
+  const known: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(payload.f)) {
+    if (!(key in DEFAULT_FORM)) {
+      notices.push(`Ignored unknown input “${key}”.`);
+    } else if (!fitsInput(key as keyof DealForm, value)) {
+      notices.push(`Ignored “${key}”: unexpected value.`);
+    } else {
+      known[key] = value;
+    }
+  }
+
+  const checked = validateSharedForm(sanitizeForm({ ...DEFAULT_FORM, ...known }));
+  return { form: checked.form, ruleSet: sharedRuleSet(payload.r, notices), notices: [...notices, ...checked.notices] };
+}
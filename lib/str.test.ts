@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_STR, computeStr, parseStr, sanitizeStr, scaleAdr, type StrForm } from './str';
+
+// $200 a night, 3-night stays, a $100 cleaning fee and $80 cleaning cost per stay.
+const BASE: StrForm = {
+  ...DEFAULT_STR,
+  adr: '200',
+  occupancyPct: Array(12).fill('50'),
+  avgStayNights: '3',
+  cleaningFee: '100',
+  cleaningCost: '80',
+  platformFeePct: '3',
+};
+
+describe('computeStr', () => {
+  it('books nights by calendar month', () => {
+    const m = computeStr(BASE);
+    expect(m.months[0]).toMatchObject({ month: 'Jan', occupancy: 0.5, nights: 15.5 });
+    expect(m.months[1].nights).toBe(14);
+    // Jan: 15.5 nights × $200 + 15.5 / 3 stays × $100
+    expect(m.months[0].revenue).toBeCloseTo(3100 + (15.5 / 3) * 100, 8);
+    expect(m.months[0].platformFees).toBeCloseTo(0.03 * m.months[0].revenue, 8);
+    expect(m.months[0].cleaningCosts).toBeCloseTo((15.5 / 3) * 80, 8);
+  });
+
+  it('averages revenue and cleaning over the year', () => {
+    const m = computeStr(BASE);
+    // 182.5 nights a year → 182.5 / 3 stays.
+    expect(m.avgRevenue).toBeCloseTo((182.5 * 200 + (182.5 / 3) * 100) / 12, 8);
+    expect(m.avgCleaningCosts).toBeCloseTo(((182.5 / 3) * 80) / 12, 8);
+  });
+
+  it('weights annual occupancy by the nights in each month', () => {
+    expect(computeStr(BASE).occupancy).toBeCloseTo(0.5, 10);
+    const febOnly = computeStr({ ...BASE, occupancyPct: ['0', '100', ...Array(10).fill('0')] });
+    expect(febOnly.occupancy).toBeCloseTo(28 / 365, 10);
+    const julOnly = computeStr({ ...BASE, occupancyPct: [...Array(6).fill('0'), '100', ...Array(5).fill('0')] });
+    expect(julOnly.occupancy).toBeCloseTo(31 / 365, 10);
+  });
+
+  it('clamps occupancy, platform fee and stay length', () => {
+    const m = computeStr({ ...BASE, occupancyPct: ['150', '-10'], platformFeePct: '80', avgStayNights: '0' });
+    expect(m.months[0].occupancy).toBe(1);
+    expect(m.months[1].occupancy).toBe(0);
+    expect(m.months[2].occupancy).toBe(0); // missing months are unbooked
+    expect(m.platformRate).toBe(0.5);
+    expect(m.months[0].stays).toBe(31); // one-night minimum
+  });
+});
+
+describe('scaleAdr', () => {
+  it('scales only the nightly rate', () => {
+    const s = scaleAdr(BASE, 1.105);
+    expect(s.adr).toBe('221');
+    expect(s.cleaningFee).toBe(BASE.cleaningFee);
+  });
+});
+
+describe('sanitizeStr', () => {
+  it('falls back per field and per month', () => {
+    const s = sanitizeStr({ adr: 310, occupancyPct: ['90', null], cleaningFee: {} });
+    expect(s.adr).toBe('310');
+    expect(s.occupancyPct[0]).toBe('90');
+    expect(s.occupancyPct[1]).toBe(DEFAULT_STR.occupancyPct[1]);
+    expect(s.occupancyPct).toHaveLength(12);
+    expect(s.cleaningFee).toBe(DEFAULT_STR.cleaningFee);
+  });
+
+  it('parses JSON and rejects garbage', () => {
+    expect(parseStr('{"adr":"180"}')?.adr).toBe('180');
+    expect(parseStr('{')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { clamp, toNum } from './format';
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Short-term rental inputs; income and turnover costs are derived month by month.
+export type StrForm = {
+  adr: string; // average daily rate
+  occupancyPct: string[]; // one entry per calendar month
+  avgStayNights: string;
+  cleaningFee: string; // charged to the guest per stay
+  cleaningCost: string; // paid to the cleaner per stay
+  platformFeePct: string; // host fee, percent of booking revenue
+  suppliesMonthly: string;
+  utilitiesMonthly: string; // replaces the standard utilities input (STR hosts pay everything)
+  furnishingCost: string; // one-time startup, added to cash invested
+};
+
+export const DEFAULT_STR: StrForm = {
+  adr: '250',
+  occupancyPct: ['45', '50', '60', '65', '70', '80', '85', '85', '70', '60', '50', '55'],
+  avgStayNights: '3',
+  cleaningFee: '120',
+  cleaningCost: '100',
+  platformFeePct: '3',
+  suppliesMonthly: '150',
+  utilitiesMonthly: '450',
+  furnishingCost: '25000',
+};
+
+export type StrMonth = {
+  month: string;
+  occupancy: number;
+  nights: number;
+  stays: number;
+  revenue: number; // nightly revenue + cleaning fees
+  platformFees: number;
+  cleaningCosts: number;
+};
+
+export type StrModel = {
+  months: StrMonth[];
+  avgRevenue: number; // monthly average, used as rent
+  avgCleaningCosts: number;
+  platformRate: number; // fraction of revenue
+  supplies: number;
+  utilities: number;
+  furnishing: number;
+  occupancy: number; // annual, nights booked / nights available
+};
+
+export function computeStr(s: StrForm): StrModel {
+  const adr = Math.max(0, toNum(s.adr));
+  const stay = Math.max(1, toNum(s.avgStayNights));
+  const cleaningFee = Math.max(0, toNum(s.cleaningFee));
+  const cleaningCost = Math.max(0, toNum(s.cleaningCost));
+  const platformRate = clamp(toNum(s.platformFeePct), 0, 50) / 100;
+
+  const months = MONTH_NAMES.map((month, i) => {
+    const occupancy = clamp(toNum(s.occupancyPct[i] ?? '0'), 0, 100) / 100;
+    const nights = DAYS_IN_MONTH[i] * occupancy;
+    const stays = nights / stay;
+    const revenue = nights * adr + stays * cleaningFee;
+    return { month, occupancy, nights, stays, revenue, platformFees: revenue * platformRate, cleaningCosts: stays * cleaningCost };
+  });
+
+  const sum = (f: (m: StrMonth) => number) => months.reduce((acc, m) => acc + f(m), 0);
+
+  return {
+    months,
+    avgRevenue: sum((m) => m.revenue) / 12,
+    avgCleaningCosts: sum((m) => m.cleaningCosts) / 12,
+    platformRate,
+    supplies: Math.max(0, toNum(s.suppliesMonthly)),
+    utilities: Math.max(0, toNum(s.utilitiesMonthly)),
+    furnishing: Math.max(0, toNum(s.furnishingCost)),
+    occupancy: sum((m) => m.nights) / 365,
+  };
+}
+
+// Scales the nightly rate (sensitivity / simulation rent shocks).
+export function scaleAdr(s: StrForm, factor: number): StrForm {
+  return { ...s, adr: String(Math.round(Math.max(0, toNum(s.adr) * factor) * 100) / 100) };
+}
+
+// Rebuilds STR inputs from stored or shared JSON; unknown fields fall back to defaults.
+export function sanitizeStr(input: unknown): StrForm {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const str = (k: Exclude<keyof StrForm, 'occupancyPct'>) =>
+    typeof o[k] === 'string' || typeof o[k] === 'number' ? String(o[k]) : DEFAULT_STR[k];
+  const occ = Array.isArray(o.occupancyPct) ? o.occupancyPct : [];
+
+  return {
+    adr: str('adr'),
+    occupancyPct: DEFAULT_STR.occupancyPct.map((d, i) =>
+      typeof occ[i] === 'string' || typeof occ[i] === 'number' ? String(occ[i]) : d,
+    ),
+    avgStayNights: str('avgStayNights'),
+    cleaningFee: str('cleaningFee'),
+    cleaningCost: str('cleaningCost'),
+    platformFeePct: str('platformFeePct'),
+    suppliesMonthly: str('suppliesMonthly'),
+    utilitiesMonthly: str('utilitiesMonthly'),
+    furnishingCost: str('furnishingCost'),
+  };
+}
+
+export function parseStr(raw: string): StrForm | null {
+  try {
+    return sanitizeStr(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
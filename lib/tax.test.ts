@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildProForma, type ProFormaInput } from './proforma';
+import { DEFAULT_TAX, computeAfterTax, sanitizeTax, type TaxForm } from './tax';
+
+// All-cash $400k buy with no growth: $1,500/mo rent leaves $9,300 a year of NOI,
+// under the $11,636 of straight-line depreciation on the $320k building.
+const PRO_FORMA: ProFormaInput = {
+  price: 400000,
+  cashInvested: 400000,
+  debtSchedule: [],
+  rentMonthly: 1500,
+  otherIncomeMonthly: 0,
+  fixedCostsMonthly: 500,
+  vacancy: 0.05,
+  percentCostRate: 0.1,
+  rentGrowthPct: 0,
+  expenseGrowthPct: 0,
+  appreciationPct: 0,
+  holdYears: 10,
+  sellingCostPct: 6,
+  exitCapPct: 0,
+};
+
+const BUILDING_YEAR = 320000 / 27.5;
+const LOSS = BUILDING_YEAR - 9300;
+
+const afterTax = (tax: Partial<TaxForm> = {}, proForma: Partial<ProFormaInput> = {}, furnishing = 0) =>
+  computeAfterTax(
+    { ...DEFAULT_TAX, ...tax },
+    { costBasis: 400000, furnishing, cashInvested: 400000, debtSchedule: [], proForma: buildProForma({ ...PRO_FORMA, ...proForma }, 10) },
+  );
+
+describe('computeAfterTax', () => {
+  it('depreciates the building straight-line over 27.5 years, never the land', () => {
+    const t = afterTax();
+    expect(t.landValue).toBe(80000);
+    expect(t.buildingBasis).toBe(320000);
+    expect(t.years).toHaveLength(10);
+    t.years.forEach((y) => expect(y.depreciation).toBeCloseTo(BUILDING_YEAR, 8));
+    expect(t.years[0].taxableIncome).toBeCloseTo(-LOSS, 8);
+  });
+
+  it('takes bonus depreciation on cost-seg property and furnishings in year one', () => {
+    const t = afterTax({ costSegPct: '25', bonusPct: '60' }, {}, 10000);
+    expect(t.shortLifeBasis).toBe(90000); // 25% of the building + furnishings
+    expect(t.bonusDepreciation).toBe(54000);
+    const long = 240000 / 27.5;
+    expect(t.years[0].depreciation).toBeCloseTo(54000 + 7200 + long, 8);
+    expect(t.years[4].depreciation).toBeCloseTo(7200 + long, 8);
+    expect(t.years[5].depreciation).toBeCloseTo(long, 8); // short-life property fully written off
+  });
+
+  it('suspends passive losses and releases them at the sale', () => {
+    const t = afterTax({ passiveLoss: 'suspend', marginalRatePct: '24' });
+    expect(t.years.every((y) => y.tax === 0 && y.deductedLoss === 0)).toBe(true);
+    expect(t.years[9].suspendedLosses).toBeCloseTo(10 * LOSS, 6);
+    expect(t.sale.releasedLossSavings).toBeCloseTo(10 * LOSS * 0.24, 6);
+  });
+
+  it('lets a real estate professional deduct losses as they happen', () => {
+    const t = afterTax({ passiveLoss: 'professional', marginalRatePct: '24' });
+    expect(t.years[0].deductedLoss).toBeCloseTo(LOSS, 8);
+    expect(t.years[0].tax).toBeCloseTo(-0.24 * LOSS, 8);
+    expect(t.years[0].afterTaxCashFlow).toBeCloseTo(9300 + 0.24 * LOSS, 8);
+    expect(t.sale.releasedLossSavings).toBe(0);
+  });
+
+  it('phases the $25k allowance out between $100k and $150k of MAGI', () => {
+    expect(afterTax({ passiveLoss: 'allowance', magi: '140000' }).years[0].deductedLoss).toBeCloseTo(LOSS, 8); // $5k allowance
+    expect(afterTax({ passiveLoss: 'allowance', magi: '149000' }).years[0].deductedLoss).toBe(500);
+    expect(afterTax({ passiveLoss: 'allowance', magi: '150000' }).years[0].deductedLoss).toBe(0);
+  });
+
+  it('uses suspended losses against later income from the property first', () => {
+    const t = afterTax({ passiveLoss: 'suspend', costSegPct: '20', bonusPct: '100' }, { rentGrowthPct: 3 });
+    const firstProfit = t.years.findIndex((y) => y.taxableIncome > 0);
+    expect(firstProfit).toBeGreaterThan(0);
+    const y = t.years[firstProfit];
+    expect(y.suspendedLosses).toBeCloseTo(t.years[firstProfit - 1].suspendedLosses - y.taxableIncome, 6);
+    expect(y.tax).toBe(0);
+  });
+
+  it('taxes building recapture at no more than 25% and the rest as a capital gain', () => {
+    const t = afterTax({ marginalRatePct: '37', capitalGainsPct: '20' }, { appreciationPct: 3 });
+    const taken = 10 * BUILDING_YEAR;
+    expect(t.sale.amountRealized).toBeCloseTo(400000 * 1.03 ** 10 * 0.94, 6);
+    expect(t.sale.adjustedBasis).toBeCloseTo(400000 - taken, 6);
+    expect(t.sale.gain).toBeCloseTo(t.sale.amountRealized - t.sale.adjustedBasis, 6);
+    expect(t.sale.recaptureTax).toBeCloseTo(0.25 * taken, 6);
+    expect(t.sale.capitalGainsTax).toBeCloseTo(0.2 * (t.sale.gain - taken), 6);
+  });
+
+  it('recaptures short-life depreciation first, at the ordinary rate', () => {
+    const t = afterTax({ marginalRatePct: '37', costSegPct: '25', bonusPct: '100' });
+    expect(t.sale.gain).toBeGreaterThan(80000);
+    expect(t.sale.recaptureTax).toBeCloseTo(0.37 * 80000 + 0.25 * (t.sale.gain - 80000), 6);
+    expect(t.sale.capitalGainsTax).toBe(0); // no appreciation: the whole gain is recapture
+  });
+
+  it('matches the pre-tax IRR when nothing is taxed', () => {
+    const t = afterTax({ marginalRatePct: '0', capitalGainsPct: '0' }, { appreciationPct: 3 });
+    expect(t.irr).toBeCloseTo(buildProForma({ ...PRO_FORMA, appreciationPct: 3 }, 10).irr, 8);
+  });
+
+  it('solves the IRR on the after-tax flows', () => {
+    const t = afterTax({ passiveLoss: 'professional' }, { appreciationPct: 3 });
+    const flows = [-400000, ...t.years.map((y) => y.afterTaxCashFlow)];
+    flows[10] += t.sale.afterTaxProceeds;
+    const npv = flows.reduce((a, cf, i) => a + cf / (1 + t.irr) ** i, 0);
+    expect(npv).toBeCloseTo(0, 2);
+  });
+});
+
+describe('sanitizeTax', () => {
+  it('falls back per field and rejects unknown passive-loss modes', () => {
+    expect(sanitizeTax({ landPct: 30, passiveLoss: 'offshore' })).toEqual({ ...DEFAULT_TAX, landPct: '30' });
+    expect(sanitizeTax({ passiveLoss: 'professional' }).passiveLoss).toBe('professional');
+  });
+});
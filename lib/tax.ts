@@ -0,0 +1,223 @@
+import { clamp, toNum } from './format';
+import type { AmortizationYear } from './mortgage';
+import { irr, type ProForma } from './proforma';
+
+export type PassiveLossMode = 'suspend' | 'allowance' | 'professional';
+
+export const PASSIVE_LOSS_MODES: { mode: PassiveLossMode; label: string; hint: string }[] = [
+  { mode: 'suspend', label: 'Suspend', hint: 'Losses carry forward against future income from the property and release at sale.' },
+  { mode: 'allowance', label: '$25k allowance', hint: 'Active participation: up to $25,000 a year offsets other income, phased out from $100k to $150k MAGI.' },
+  { mode: 'professional', label: 'RE professional', hint: 'Real estate professional status: losses offset other income in full.' },
+];
+
+// Investor tax assumptions; raw strings like every other input.
+export type TaxForm = {
+  landPct: string; // share of the purchase allocated to land (not depreciable)
+  marginalRatePct: string; // combined federal + state rate on ordinary income
+  costSegPct: string; // share of the building reclassified to 5/7/15-year property
+  bonusPct: string; // bonus depreciation on the short-life property
+  passiveLoss: PassiveLossMode;
+  magi: string; // modified AGI, for the $25k allowance phase-out
+  capitalGainsPct: string;
+};
+
+export const DEFAULT_TAX: TaxForm = {
+  landPct: '20',
+  marginalRatePct: '24',
+  costSegPct: '0',
+  bonusPct: '100',
+  passiveLoss: 'suspend',
+  magi: '150000',
+  capitalGainsPct: '15',
+};
+
+const RESIDENTIAL_LIFE = 27.5;
+const SHORT_LIFE = 5; // blended 5/7/15-year cost-seg property, straight-line
+const RECAPTURE_CAP = 0.25; // unrecaptured §1250 gain
+
+export type AfterTaxYear = {
+  year: number;
+  noi: number;
+  interest: number;
+  depreciation: number;
+  taxableIncome: number; // NOI − interest − depreciation
+  deductedLoss: number; // loss actually used against other income this year
+  tax: number; // negative = tax savings
+  afterTaxCashFlow: number;
+  afterTaxReturn: number; // after-tax cash flow / cash invested
+  suspendedLosses: number; // carried forward at year end
+};
+
+export type AfterTaxSale = {
+  year: number;
+  amountRealized: number; // sale price − selling costs
+  adjustedBasis: number;
+  gain: number;
+  recaptureTax: number;
+  capitalGainsTax: number;
+  releasedLossSavings: number; // suspended losses freed up by the sale
+  saleTax: number;
+  afterTaxProceeds: number;
+};
+
+export type AfterTax = {
+  landValue: number;
+  buildingBasis: number;
+  shortLifeBasis: number; // cost-seg portion + furnishings
+  bonusDepreciation: number;
+  years: AfterTaxYear[];
+  sale: AfterTaxSale;
+  irr: number;
+  totalTax: number; // over the hold, including the sale; negative = net savings
+};
+
+// $25k active-participation allowance, reduced by 50% of MAGI over $100k.
+function passiveAllowance(magi: number) {
+  return Math.max(0, 25000 - 0.5 * Math.max(0, magi - 100000));
+}
+
+/**
+ * After-tax view of the pro forma hold. Depreciation is straight-line on full
+ * years (no mid-month convention); cost-seg property takes bonus depreciation in
+ * year 1 and the remainder over five years. Recapture is taxed at the ordinary
+ * rate for short-life property and at up to 25% for the building.
+ */
+export function computeAfterTax(
+  t: TaxForm,
+  args: {
+    costBasis: number; // price + closing costs + rehab
+    furnishing: number; // STR furnishings, depreciated with the short-life property
+    cashInvested: number;
+    debtSchedule: AmortizationYear[];
+    proForma: ProForma;
+  },
+): AfterTax {
+  const rate = clamp(toNum(t.marginalRatePct), 0, 70) / 100;
+  const cgRate = clamp(toNum(t.capitalGainsPct), 0, 50) / 100;
+  const landPct = clamp(toNum(t.landPct), 0, 100) / 100;
+  const costSeg = clamp(toNum(t.costSegPct), 0, 100) / 100;
+  const bonusRate = clamp(toNum(t.bonusPct), 0, 100) / 100;
+  const allowance = t.passiveLoss === 'allowance' ? passiveAllowance(Math.max(0, toNum(t.magi))) : 0;
+
+  const basis = Math.max(0, args.costBasis);
+  const furnishing = Math.max(0, args.furnishing);
+  const landValue = basis * landPct;
+  const building = basis - landValue;
+  const shortLifeBasis = building * costSeg + furnishing;
+  const longLifeBasis = building - building * costSeg;
+  const bonusDepreciation = shortLifeBasis * bonusRate;
+  const shortAnnual = (shortLifeBasis - bonusDepreciation) / SHORT_LIFE;
+  const longAnnual = longLifeBasis / RESIDENTIAL_LIFE;
+
+  const { exit } = args.proForma;
+  const holdYears = args.proForma.years.slice(0, exit.year);
+
+  const years: AfterTaxYear[] = [];
+  let suspended = 0;
+  let shortTaken = 0;
+  let longTaken = 0;
+
+  for (const y of holdYears) {
+    const short = Math.min(shortLifeBasis - shortTaken, (y.year === 1 ? bonusDepreciation : 0) + (y.year <= SHORT_LIFE ? shortAnnual : 0));
+    const long = Math.min(longLifeBasis - longTaken, longAnnual);
+    shortTaken += short;
+    longTaken += long;
+
+    const interest = args.debtSchedule[y.year - 1]?.interest ?? 0;
+    const depreciation = short + long;
+    const taxableIncome = y.noi - interest - depreciation;
+
+    let taxed: number;
+    let deductedLoss = 0;
+    if (taxableIncome >= 0) {
+      // Income from the property absorbs losses suspended in earlier years first.
+      const used = Math.min(suspended, taxableIncome);
+      suspended -= used;
+      taxed = taxableIncome - used;
+    } else {
+      const loss = -taxableIncome;
+      deductedLoss = t.passiveLoss === 'professional' ? loss : Math.min(loss, allowance);
+      suspended += loss - deductedLoss;
+      taxed = -deductedLoss;
+    }
+
+    const tax = taxed * rate;
+    const afterTaxCashFlow = y.cashFlow - tax;
+    years.push({
+      year: y.year,
+      noi: y.noi,
+      interest,
+      depreciation,
+      taxableIncome,
+      deductedLoss,
+      tax,
+      afterTaxCashFlow,
+      afterTaxReturn: args.cashInvested > 0 ? afterTaxCashFlow / args.cashInvested : NaN,
+      suspendedLosses: suspended,
+    });
+  }
+
+  const amountRealized = exit.salePrice - exit.sellingCosts;
+  const adjustedBasis = basis + furnishing - shortTaken - longTaken;
+  const gain = amountRealized - adjustedBasis;
+
+  // Gain is recaptured against short-life depreciation first, then the building.
+  const shortRecapture = clamp(gain, 0, shortTaken);
+  const longRecapture = clamp(gain - shortRecapture, 0, longTaken);
+  const capitalGain = Math.max(0, gain - shortRecapture - longRecapture);
+  const recaptureTax = shortRecapture * rate + longRecapture * Math.min(rate, RECAPTURE_CAP);
+  // A loss on sale is ordinary (§1231) and deductible at the marginal rate.
+  const capitalGainsTax = gain < 0 ? gain * rate : capitalGain * cgRate;
+  const releasedLossSavings = suspended * rate;
+  const saleTax = recaptureTax + capitalGainsTax - releasedLossSavings;
+  const afterTaxProceeds = exit.netProceeds - saleTax;
+
+  const flows = [-args.cashInvested, ...years.map((y) => y.afterTaxCashFlow)];
+  flows[flows.length - 1] += afterTaxProceeds;
+
+  return {
+    landValue,
+    buildingBasis: building,
+    shortLifeBasis,
+    bonusDepreciation,
+    years,
+    sale: {
+      year: exit.year,
+      amountRealized,
+      adjustedBasis,
+      gain,
+      recaptureTax,
+      capitalGainsTax,
+      releasedLossSavings,
+      saleTax,
+      afterTaxProceeds,
+    },
+    irr: args.cashInvested > 0 ? irr(flows) : NaN,
+    totalTax: years.reduce((acc, y) => acc + y.tax, 0) + saleTax,
+  };
+}
+
+// Rebuilds tax inputs from stored or shared JSON; unknown fields fall back to defaults.
+export function sanitizeTax(input: unknown): TaxForm {
+  const o = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const str = (k: Exclude<keyof TaxForm, 'passiveLoss'>) =>
+    typeof o[k] === 'string' || typeof o[k] === 'number' ? String(o[k]) : DEFAULT_TAX[k];
+
+  return {
+    landPct: str('landPct'),
+    marginalRatePct: str('marginalRatePct'),
+    costSegPct: str('costSegPct'),
+    bonusPct: str('bonusPct'),
+    passiveLoss: PASSIVE_LOSS_MODES.find((m) => m.mode === o.passiveLoss)?.mode ?? DEFAULT_TAX.passiveLoss,
+    magi: str('magi'),
+    capitalGainsPct: str('capitalGainsPct'),
+  };
+}
+
+export function parseTax(raw: string): TaxForm | null {
+  try {
+    return sanitizeTax(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
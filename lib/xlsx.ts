@@ -0,0 +1,295 @@
+// Minimal .xlsx support. The reader (browser only) unzips the workbook with
+// DecompressionStream and returns the first worksheet as rows of display strings,
+// like parseCsv. The writer builds an uncompressed workbook with formulas and a few
+// number formats; Excel recalculates every formula on open.
+
+type ZipEntry = { name: string; method: number; compressedSize: number; offset: number };
+
+function readEntries(view: DataView): ZipEntry[] {
+  // End of central directory: the last 0x06054b50 signature in the file.
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file.');
+
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(p, true) !== 0x02014b50) throw new Error('Corrupt .xlsx file.');
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(view.buffer, p + 46, nameLength)),
+      method: view.getUint16(p + 10, true),
+      compressedSize: view.getUint32(p + 20, true),
+      offset: view.getUint32(p + 42, true),
+    });
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readEntry(buffer: ArrayBuffer, entry: ZipEntry) {
+  const view = new DataView(buffer);
+  const p = entry.offset;
+  const start = p + 30 + view.getUint16(p + 26, true) + view.getUint16(p + 28, true);
+  const data = buffer.slice(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('Unsupported .xlsx compression.');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function columnIndex(ref: string) {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] ?? 'A';
+  return [...letters].reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
+
+function text(el: Element) {
+  return Array.from(el.getElementsByTagName('t')).map((t) => t.textContent ?? '').join('');
+}
+
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = readEntries(view);
+  const files = new Map(entries.map((e) => [e.name, e]));
+  const xml = async (name: string) => {
+    const entry = files.get(name);
+    return entry ? new DOMParser().parseFromString(await readEntry(buffer, entry), 'application/xml') : null;
+  };
+
+  // First sheet in workbook order, resolved through the workbook relationships.
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await xml('xl/workbook.xml');
+  const rels = await xml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  const target = rels && relId
+    ? Array.from(rels.getElementsByTagName('Relationship')).find((r) => r.getAttribute('Id') === relId)?.getAttribute('Target')
+    : null;
+  if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const shared = await xml('xl/sharedStrings.xml');
+  const strings = shared ? Array.from(shared.getElementsByTagName('si')).map(text) : [];
+
+  const sheet = await xml(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet.');
+
+  const rows: string[][] = [];
+  for (const row of Array.from(sheet.getElementsByTagName('row'))) {
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName('c')).forEach((c, i) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : i;
+      const type = c.getAttribute('t');
+      const v = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      const value = type === 's' ? (strings[Number(v)] ?? '') : type === 'inlineStr' ? text(c) : type === 'b' ? (v === '1' ? 'TRUE' : 'FALSE') : v;
+      while (cells.length < col) cells.push('');
+      cells[col] = value;
+    });
+    rows.push(cells);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+// ---- Writer ----
+
+export type XlsxStyle = 'bold' | 'money' | 'percent' | 'ratio';
+
+// A formula is written without the leading '='; `value` is the cached result shown before recalculation.
+export type XlsxCell =
+  | string
+  | number
+  | null
+  | { value?: string | number | null; formula?: string; style?: XlsxStyle };
+
+export type XlsxSheet = {
+  name: string; // 31 characters max, no []:*?/\
+  rows: XlsxCell[][];
+  widths?: number[]; // column widths in characters
+};
+
+const STYLE_INDEX: Record<XlsxStyle, number> = { bold: 1, money: 2, percent: 3, ratio: 4 };
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="5">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs></styleSheet>';
+
+function escapeXml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function columnName(index: number) {
+  let n = index + 1;
+  let name = '';
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    name = String.fromCharCode(65 + r) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+function cellXml(cell: XlsxCell, ref: string) {
+  if (cell === null || cell === '') return '';
+  const c = typeof cell === 'object' ? cell : { value: cell };
+  const s = c.style ? ` s="${STYLE_INDEX[c.style]}"` : '';
+  const v = c.value ?? null;
+  const f = c.formula ? `<f>${escapeXml(c.formula)}</f>` : '';
+  if (typeof v === 'number' && Number.isFinite(v)) return `<c r="${ref}"${s}>${f}<v>${v}</v></c>`;
+  if (typeof v === 'string' && v !== '') {
+    return c.formula
+      ? `<c r="${ref}"${s} t="str">${f}<v>${escapeXml(v)}</v></c>`
+      : `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(v)}</t></is></c>`;
+  }
+  return f ? `<c r="${ref}"${s}>${f}</c>` : '';
+}
+
+function sheetXml(sheet: XlsxSheet) {
+  const cols = sheet.widths?.length
+    ? `<cols>${sheet.widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows
+    .map((row, r) => `<row r="${r + 1}">${row.map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`)).join('')}</row>`)
+    .join('');
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${cols}<sheetData>${rows}</sheetData></worksheet>`
+  );
+}
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Store-only (no compression) zip archive.
+function zip(files: { name: string; data: Uint8Array }[]) {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+    const size = file.data.length;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // version needed
+    header.setUint16(8, 0, true); // method: stored
+    header.setUint32(14, crc, true);
+    header.setUint32(18, size, true);
+    header.setUint32(22, size, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, file.data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true); // version made by
+    entry.setUint16(6, 20, true); // version needed
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, size, true);
+    entry.setUint32(24, size, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((a, b) => a + b.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((a, b) => a + b.length, 0));
+  let p = 0;
+  for (const part of parts) {
+    out.set(part, p);
+    p += part.length;
+  }
+  return out;
+}
+
+/** Builds an .xlsx workbook; the first sheet opens first. */
+export function writeXlsx(sheets: XlsxSheet[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const xml = (name: string, text: string) => ({ name, data: encoder.encode(text) });
+  const decl = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+  return zip([
+    xml(
+      '[Content_Types].xml',
+      `${decl}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets
+          .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+          .join('') +
+        '</Types>',
+    ),
+    xml(
+      '_rels/.rels',
+      `${decl}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    ),
+    xml(
+      'xl/workbook.xml',
+      `${decl}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+        sheets.map((s, i) => `<sheet name="${escapeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets><calcPr fullCalcOnLoad="1"/></workbook>',
+    ),
+    xml(
+      'xl/_rels/workbook.xml.rels',
+      `${decl}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        sheets
+          .map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+          .join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    ),
+    xml('xl/styles.xml', STYLES_XML),
+    ...sheets.map((s, i) => xml(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(s))),
+  ]);
+}